@@ -0,0 +1,26 @@
+import { Metadata } from 'next'
+import { ActivationForm } from '../../components/forms/activation-form'
+
+export const metadata: Metadata = {
+  title: 'Activate membership',
+  robots: {
+    index: false,
+    follow: false,
+  },
+}
+
+export default function ActivatePage({
+  searchParams,
+}: {
+  searchParams: { token?: string; session_id?: string; cancelled?: string }
+}) {
+  return (
+    <main className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <ActivationForm
+        token={searchParams.token || null}
+        completed={!!searchParams.session_id}
+        cancelled={!!searchParams.cancelled}
+      />
+    </main>
+  )
+}
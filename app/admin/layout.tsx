@@ -0,0 +1,13 @@
+import type { Metadata } from 'next'
+
+export const metadata: Metadata = {
+  title: 'Admin',
+  robots: {
+    index: false,
+    follow: false,
+  },
+}
+
+export default function AdminLayout({ children }: { children: React.ReactNode }) {
+  return children
+}
@@ -0,0 +1,82 @@
+/**
+ * Admin Membership Activation API Route
+ * Creates a membership checkout for an accepted applicant, with their credit applied
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { adminApi } from '../../../../lib/api-security';
+import { MEMBERSHIP_PLAN_IDS } from '../../../../lib/constants';
+import { MembershipActivation } from '../../../../lib/membership-activation';
+import { SecurityAudit, SecurityValidator } from '../../../../lib/security';
+
+// Activation request schema
+const activationSchema = z.object({
+  applicationId: z.string().uuid(),
+  plan: z.enum(MEMBERSHIP_PLAN_IDS)
+});
+
+/**
+ * POST /api/admin/activate
+ * Create a subscription checkout link to send to the applicant
+ */
+export const POST = adminApi(async (context) => {
+  try {
+    const body = await context.request.json();
+
+    const validation = SecurityValidator.validateFormData(body, activationSchema);
+
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validation.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await MembershipActivation.startCheckout(
+      validation.data.applicationId,
+      validation.data.plan,
+      {
+        initiatedBy: 'admin',
+        ip_address: context.ip,
+        user_agent: context.userAgent
+      }
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        checkout_url: result.checkoutUrl,
+        session_id: result.sessionId,
+        credit_applied_cents: result.creditAppliedCents
+      },
+      message: 'Membership checkout created'
+    });
+
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Admin activation API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  schema: activationSchema
+});
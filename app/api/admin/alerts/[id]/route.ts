@@ -0,0 +1,179 @@
+/**
+ * Admin Security Alert API Route
+ * Returns one alert with its timeline, and works it through acknowledge / assign / resolve
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { adminApi } from '../../../../../lib/api-security';
+import { UUIDSchema } from '../../../../../lib/input-validation';
+import { SecurityAudit, SecurityValidator } from '../../../../../lib/security';
+import { SECURITY_ALERT_ERROR_STATUS, SecurityAlertError, SecurityAlerts } from '../../../../../lib/security-alerts';
+import { MONITORING_CONFIG } from '../../../../../lib/security-monitoring';
+
+const note = z.string().trim().min(1).max(2000);
+
+// One workflow action per request; every action lands on the alert's timeline
+const alertActionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('acknowledge'), note: note.optional(), reviewerId: z.string().uuid().optional() }),
+  z.object({
+    action: z.literal('assign'),
+    assignee: z.string().trim().min(1).max(100),
+    note: note.optional(),
+    reviewerId: z.string().uuid().optional()
+  }),
+  z.object({ action: z.literal('resolve'), note, reviewerId: z.string().uuid().optional() }),
+  z.object({ action: z.literal('reopen'), note: note.optional(), reviewerId: z.string().uuid().optional() }),
+  z.object({
+    action: z.literal('suppress'),
+    // 0 lifts the suppression
+    hours: z.number().min(0).max(MONITORING_CONFIG.MAX_ALERT_SUPPRESSION_HOURS),
+    note: note.optional(),
+    reviewerId: z.string().uuid().optional()
+  }),
+  z.object({ action: z.literal('note'), note, reviewerId: z.string().uuid().optional() })
+]);
+
+const ACTION_MESSAGES: Record<z.infer<typeof alertActionSchema>['action'], string> = {
+  acknowledge: 'Alert acknowledged',
+  assign: 'Alert assigned',
+  resolve: 'Alert resolved',
+  reopen: 'Alert reopened',
+  suppress: 'Alert suppression updated',
+  note: 'Note added'
+};
+
+/**
+ * GET /api/admin/alerts/[id]
+ * Get an alert and its timeline
+ */
+export const GET = adminApi(async (context) => {
+  try {
+    const parsedId = UUIDSchema.safeParse(context.request.nextUrl.pathname.split('/').pop());
+
+    if (!parsedId.success) {
+      return NextResponse.json(
+        { error: 'Invalid alert ID' },
+        { status: 400 }
+      );
+    }
+
+    const result = await SecurityAlerts.get(parsedId.data);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Security alert not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    });
+
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Admin alert detail API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * PATCH /api/admin/alerts/[id]
+ * Acknowledge, assign, resolve, reopen or suppress an alert, or add a note to its timeline
+ */
+export const PATCH = adminApi(async (context) => {
+  try {
+    const parsedId = UUIDSchema.safeParse(context.request.nextUrl.pathname.split('/').pop());
+
+    if (!parsedId.success) {
+      return NextResponse.json(
+        { error: 'Invalid alert ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await context.request.json();
+
+    const validation = SecurityValidator.validateFormData(body, alertActionSchema);
+
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validation.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const id = parsedId.data;
+    const input = validation.data;
+    const actor = input.reviewerId || 'admin';
+
+    switch (input.action) {
+      case 'acknowledge':
+        await SecurityAlerts.acknowledge(id, actor, input.note);
+        break;
+      case 'assign':
+        await SecurityAlerts.assign(id, input.assignee, actor, input.note);
+        break;
+      case 'resolve':
+        await SecurityAlerts.resolve(id, actor, input.note);
+        break;
+      case 'reopen':
+        await SecurityAlerts.reopen(id, actor, input.note);
+        break;
+      case 'suppress':
+        await SecurityAlerts.suppress(
+          id,
+          input.hours > 0 ? new Date(Date.now() + input.hours * 60 * 60 * 1000).toISOString() : null,
+          actor,
+          input.note
+        );
+        break;
+      case 'note':
+        await SecurityAlerts.addNote(id, actor, input.note);
+        break;
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await SecurityAlerts.get(id),
+      message: ACTION_MESSAGES[input.action]
+    });
+
+  } catch (error) {
+    if (error instanceof SecurityAlertError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: SECURITY_ALERT_ERROR_STATUS[error.code] }
+      );
+    }
+
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Admin alert update API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  schema: alertActionSchema
+});
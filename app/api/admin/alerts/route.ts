@@ -0,0 +1,75 @@
+/**
+ * Admin Security Alerts API Route
+ * Lists security alerts for the incident queue
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { adminApi } from '../../../../lib/api-security';
+import { SecurityAudit } from '../../../../lib/security';
+import { SecurityAlerts } from '../../../../lib/security-alerts';
+
+// Query string filters for the alert queue
+const listQuerySchema = z.object({
+  status: z.enum(['open', 'acknowledged', 'resolved']).optional(),
+  severity: z.enum(['low', 'medium', 'high', 'critical']).optional(),
+  alert_type: z.string().regex(/^[a-z0-9_]{1,50}$/).optional(),
+  ip: z.string().ip().optional(),
+  assigned_to: z.string().trim().min(1).max(100).optional(),
+  since: z.string().datetime().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+/**
+ * GET /api/admin/alerts
+ * List alerts matching the given filters, most recently seen first
+ */
+export const GET = adminApi(async (context) => {
+  try {
+    const query = Object.fromEntries(context.request.nextUrl.searchParams.entries());
+
+    const validation = listQuerySchema.safeParse(query);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid filters',
+          details: validation.error.errors.map(err => err.message)
+        },
+        { status: 400 }
+      );
+    }
+
+    const { limit, offset, alert_type, assigned_to, ...filters } = validation.data;
+
+    const { alerts, total } = await SecurityAlerts.list(
+      { ...filters, alertType: alert_type, assignedTo: assigned_to },
+      { limit, offset }
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        alerts,
+        total,
+        limit,
+        offset
+      }
+    });
+
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Admin alerts API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
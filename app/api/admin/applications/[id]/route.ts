@@ -0,0 +1,70 @@
+/**
+ * Admin Application Detail API Route
+ * Returns one application with its status history, security audit log, open SLA deadlines and queue position
+ */
+
+import { NextResponse } from 'next/server';
+import { adminApi } from '../../../../../lib/api-security';
+import { DatabaseOperations } from '../../../../../lib/database';
+import { UUIDSchema } from '../../../../../lib/input-validation';
+import { SecurityAudit } from '../../../../../lib/security';
+import { SLA_OPEN_STATUSES, computeApplicationSla } from '../../../../../lib/sla';
+import { WaitlistRanking } from '../../../../../lib/waitlist-ranking';
+
+/**
+ * GET /api/admin/applications/[id]
+ * Get full application details, status history, audit log, SLA and queue position
+ */
+export const GET = adminApi(async (context) => {
+  try {
+    const id = context.request.nextUrl.pathname.split('/').pop();
+    const parsedId = UUIDSchema.safeParse(id);
+
+    if (!parsedId.success) {
+      return NextResponse.json(
+        { error: 'Invalid application ID' },
+        { status: 400 }
+      );
+    }
+
+    const application = await DatabaseOperations.getApplicationById(parsedId.data);
+
+    if (!application) {
+      return NextResponse.json(
+        { error: 'Application not found' },
+        { status: 404 }
+      );
+    }
+
+    const [statusHistory, auditLog, queue] = await Promise.all([
+      DatabaseOperations.getApplicationStatusHistory(application.id),
+      DatabaseOperations.getApplicationAuditLog(application),
+      WaitlistRanking.getPosition(application)
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        application,
+        status_history: statusHistory,
+        audit_log: auditLog,
+        sla: SLA_OPEN_STATUSES.includes(application.status) ? computeApplicationSla(application) : null,
+        queue
+      }
+    });
+
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Admin application detail API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
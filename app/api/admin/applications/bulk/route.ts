@@ -0,0 +1,86 @@
+/**
+ * Admin Bulk Decision API Route
+ * Applies accept/reject/defer to several applications at once
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { adminApi } from '../../../../../lib/api-security';
+import { AdminDecisionService } from '../../../../../lib/admin-decisions';
+import { SecurityAudit, SecurityValidator } from '../../../../../lib/security';
+
+// Bulk action schema
+const bulkDecisionSchema = z.object({
+  applicationIds: z.array(z.string().uuid()).min(1).max(100),
+  action: z.enum(['accept', 'reject', 'defer']),
+  reviewerId: z.string().uuid().optional()
+});
+
+/**
+ * POST /api/admin/applications/bulk
+ * Apply one decision to every selected application
+ */
+export const POST = adminApi(async (context) => {
+  try {
+    const body = await context.request.json();
+
+    const validation = SecurityValidator.validateFormData(body, bulkDecisionSchema);
+
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validation.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { applicationIds, action, reviewerId } = validation.data;
+    const uniqueIds = Array.from(new Set(applicationIds));
+
+    // Process sequentially so refunds are not fired in parallel against Stripe
+    const results = [];
+    for (const applicationId of uniqueIds) {
+      const result = await AdminDecisionService.decide(applicationId, action, {
+        reviewerId,
+        ip_address: context.ip,
+        user_agent: context.userAgent
+      });
+
+      results.push({
+        id: applicationId,
+        success: result.success,
+        status: result.application?.status,
+        refund_id: result.refundId,
+        error: result.error
+      });
+    }
+
+    const failed = results.filter(r => !r.success).length;
+
+    return NextResponse.json({
+      success: failed === 0,
+      data: { results },
+      message: `${results.length - failed} of ${results.length} applications updated`
+    }, {
+      status: failed === 0 ? 200 : 207
+    });
+
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Admin bulk decision API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  schema: bulkDecisionSchema
+});
@@ -0,0 +1,74 @@
+/**
+ * Admin Applications API Route
+ * Lists waitlist applications for the review queue
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { adminApi } from '../../../../lib/api-security';
+import { DatabaseOperations } from '../../../../lib/database';
+import { SecurityAudit } from '../../../../lib/security';
+
+// Query string filters for the review queue
+const listQuerySchema = z.object({
+  wave: z.coerce.number().int().positive().optional(),
+  tier: z.enum(['99', '199']).optional(),
+  status: z.enum(['pending', 'interviewed', 'accepted', 'rejected', 'refunded', 'activated', 'expired', 'deferred']).optional(),
+  bankroll_range: z.enum(['under-1k', '1k-5k', '5k-10k', '10k-25k', '25k-plus']).optional(),
+  risk_profile: z.enum(['conservative', 'moderate', 'aggressive']).optional(),
+  country: z.string().regex(/^[A-Z]{2}$/).optional(),
+  min_fraud_score: z.coerce.number().min(0).max(1).optional(),
+  recaptcha_verified: z.enum(['true', 'false']).transform(val => val === 'true').optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+/**
+ * GET /api/admin/applications
+ * List applications matching the given filters
+ */
+export const GET = adminApi(async (context) => {
+  try {
+    const query = Object.fromEntries(context.request.nextUrl.searchParams.entries());
+
+    const validation = listQuerySchema.safeParse(query);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid filters',
+          details: validation.error.errors.map(err => err.message)
+        },
+        { status: 400 }
+      );
+    }
+
+    const { limit, offset, ...filters } = validation.data;
+
+    const { applications, total } = await DatabaseOperations.listApplications(filters, { limit, offset });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        applications,
+        total,
+        limit,
+        offset
+      }
+    });
+
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Admin applications API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
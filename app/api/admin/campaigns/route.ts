@@ -0,0 +1,111 @@
+/**
+ * Admin Invitation Campaigns API Route
+ * Lists wave invitation campaigns with their funnel and creates new campaigns
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { adminApi } from '../../../../lib/api-security';
+import { APP_CONFIG } from '../../../../lib/env';
+import { InvitationCampaigns } from '../../../../lib/invitation-campaigns';
+import { SecurityAudit, SecurityValidator } from '../../../../lib/security';
+
+// Campaign creation schema
+const campaignSchema = z.object({
+  name: z.string().min(2).max(100),
+  waveId: z.number().int().positive(),
+  windowHours: z.number().int().min(1).max(720).optional(),
+  reviewerId: z.string().uuid().optional()
+});
+
+/**
+ * GET /api/admin/campaigns
+ * List campaigns with sent/opened/clicked/converted counts
+ */
+export const GET = adminApi(async (context) => {
+  try {
+    const campaigns = await InvitationCampaigns.listCampaigns();
+
+    return NextResponse.json({
+      success: true,
+      data: campaigns
+    });
+
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Admin campaigns API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/admin/campaigns
+ * Create an invitation campaign for a wave
+ */
+export const POST = adminApi(async (context) => {
+  try {
+    const body = await context.request.json();
+
+    const validation = SecurityValidator.validateFormData(body, campaignSchema);
+
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validation.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { name, waveId, windowHours, reviewerId } = validation.data;
+
+    const campaign = await InvitationCampaigns.createCampaign({
+      name,
+      waveId,
+      windowHours: windowHours ?? APP_CONFIG.DEADLINES.INVITATION_WINDOW_HOURS,
+      createdBy: reviewerId || 'admin'
+    });
+
+    if (!campaign) {
+      return NextResponse.json(
+        { error: 'Wave not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: campaign,
+        message: 'Campaign created'
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Admin campaign creation API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  schema: campaignSchema
+});
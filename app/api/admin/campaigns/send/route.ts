@@ -0,0 +1,74 @@
+/**
+ * Admin Campaign Send API Route
+ * Emails the next batch of free waitlist invitees for a campaign
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { adminApi } from '../../../../../lib/api-security';
+import { InvitationCampaigns } from '../../../../../lib/invitation-campaigns';
+import { SecurityAudit, SecurityValidator } from '../../../../../lib/security';
+
+// Batch send schema
+const sendSchema = z.object({
+  campaignId: z.string().uuid(),
+  limit: z.number().int().min(1).max(500),
+  reviewerId: z.string().uuid().optional()
+});
+
+/**
+ * POST /api/admin/campaigns/send
+ * Send up to `limit` invitations; failed sends are retried by the next batch
+ */
+export const POST = adminApi(async (context) => {
+  try {
+    const body = await context.request.json();
+
+    const validation = SecurityValidator.validateFormData(body, sendSchema);
+
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validation.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { campaignId, limit, reviewerId } = validation.data;
+
+    const result = await InvitationCampaigns.sendBatch(campaignId, limit, reviewerId || 'admin');
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Campaign not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: result.failed === 0,
+      data: result,
+      message: `${result.sent} invitations sent, ${result.failed} failed`
+    }, {
+      status: result.failed === 0 ? 200 : 207
+    });
+
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Admin campaign send API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  schema: sendSchema
+});
@@ -0,0 +1,119 @@
+/**
+ * Admin Credit Ledger API Route
+ * Looks up FastTrack and site credit balances and issues balance coupons
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { adminApi } from '../../../../lib/api-security';
+import { CreditLedger } from '../../../../lib/credit-ledger';
+import { SecurityAudit, SecurityValidator } from '../../../../lib/security';
+
+const emailSchema = z.string().email().max(254);
+
+// Coupon request schema
+const couponSchema = z.object({
+  email: emailSchema
+});
+
+/**
+ * GET /api/admin/credits?email=
+ * Get the credit balance and ledger entries for an email
+ */
+export const GET = adminApi(async (context) => {
+  try {
+    const parsedEmail = emailSchema.safeParse(context.request.nextUrl.searchParams.get('email'));
+
+    if (!parsedEmail.success) {
+      return NextResponse.json(
+        { error: 'A valid email is required' },
+        { status: 400 }
+      );
+    }
+
+    const [balance, entries] = await Promise.all([
+      CreditLedger.getBalance(parsedEmail.data),
+      CreditLedger.getEntries(parsedEmail.data)
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        balance,
+        entries
+      }
+    });
+
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Admin credits API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/admin/credits
+ * The email's one-time Stripe coupon for its credit balance, reusing the open one while the balance is unchanged
+ */
+export const POST = adminApi(async (context) => {
+  try {
+    const body = await context.request.json();
+
+    const validation = SecurityValidator.validateFormData(body, couponSchema);
+
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validation.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await CreditLedger.createBalanceCoupon(validation.data.email);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'No credit balance available for this email' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        coupon_id: result.coupon.stripe_coupon_id,
+        amount_off: result.coupon.amount_cents,
+        redeem_by: result.coupon.redeem_by,
+        balance: result.balance
+      },
+      message: 'Credit coupon ready'
+    });
+
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Admin credit coupon API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  schema: couponSchema
+});
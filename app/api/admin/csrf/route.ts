@@ -0,0 +1,24 @@
+/**
+ * Admin CSRF Token API Route
+ * Issues the double-submit CSRF token required by state-changing admin endpoints
+ */
+
+import { NextResponse } from 'next/server';
+import { adminApi, CSRFProtection } from '../../../../lib/api-security';
+
+/**
+ * GET /api/admin/csrf
+ * Set the csrf-token cookie and return the matching header value
+ */
+export const GET = adminApi(async () => {
+  const { token, cookie } = CSRFProtection.generateCSRFToken();
+
+  const response = NextResponse.json({
+    success: true,
+    data: { csrf_token: token }
+  });
+
+  response.headers.set('Set-Cookie', cookie);
+
+  return response;
+});
@@ -0,0 +1,82 @@
+/**
+ * Admin Decision API Route
+ * Accepts or rejects a waitlist application and refunds rejected applicants
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { adminApi } from '../../../../lib/api-security';
+import { AdminDecisionService } from '../../../../lib/admin-decisions';
+import { SecurityAudit, SecurityValidator } from '../../../../lib/security';
+
+// Decision submission schema
+const decisionSchema = z.object({
+  applicationId: z.string().uuid(),
+  decision: z.enum(['accept', 'reject']),
+  reviewerId: z.string().uuid().optional()
+});
+
+/**
+ * POST /api/admin/decision
+ * Record an accept/reject decision for an application
+ */
+export const POST = adminApi(async (context) => {
+  try {
+    const body = await context.request.json();
+
+    const validation = SecurityValidator.validateFormData(body, decisionSchema);
+
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validation.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { applicationId, decision, reviewerId } = validation.data;
+
+    const result = await AdminDecisionService.decide(applicationId, decision, {
+      reviewerId,
+      ip_address: context.ip,
+      user_agent: context.userAgent
+    });
+
+    if (!result.success || !result.application) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: result.application.id,
+        status: result.application.status,
+        decision_made_at: result.application.decision_made_at,
+        decision_made_by: result.application.decision_made_by,
+        refund_id: result.refundId,
+      },
+      message: decision === 'accept' ? 'Application accepted' : 'Application rejected'
+    });
+
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Admin decision API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  schema: decisionSchema
+});
@@ -0,0 +1,78 @@
+/**
+ * Admin Fraud Review API Route
+ * Clears, flags or holds an application after a reviewer has looked at its fraud score
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { adminApi } from '../../../../lib/api-security';
+import { FraudScoring } from '../../../../lib/fraud-scoring';
+import { SecurityAudit, SecurityValidator } from '../../../../lib/security';
+
+// Review submission schema
+const fraudReviewSchema = z.object({
+  applicationId: z.string().uuid(),
+  status: z.enum(['clear', 'review', 'hold']),
+  reviewerId: z.string().uuid().optional()
+});
+
+/**
+ * POST /api/admin/fraud
+ * Record a reviewer's fraud status for an application
+ */
+export const POST = adminApi(async (context) => {
+  try {
+    const body = await context.request.json();
+
+    const validation = SecurityValidator.validateFormData(body, fraudReviewSchema);
+
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validation.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { applicationId, status, reviewerId } = validation.data;
+
+    const application = await FraudScoring.review(applicationId, status, reviewerId || 'admin');
+
+    if (!application) {
+      return NextResponse.json(
+        { error: 'Application not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: application.id,
+        fraud_score: application.fraud_score,
+        fraud_status: application.fraud_status,
+        fraud_reviewed_by: application.fraud_reviewed_by,
+        fraud_reviewed_at: application.fraud_reviewed_at
+      },
+      message: status === 'clear' ? 'Fraud flag cleared' : `Application set to fraud ${status}`
+    });
+
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Admin fraud review API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  schema: fraudReviewSchema
+});
@@ -0,0 +1,86 @@
+/**
+ * Admin Interview API Route
+ * Records a held interview (the scheduling provider only reports bookings)
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { adminApi } from '../../../../lib/api-security';
+import { DatabaseOperations } from '../../../../lib/database';
+import { InterviewScheduling } from '../../../../lib/interview-scheduling';
+import { SecurityAudit, SecurityValidator } from '../../../../lib/security';
+
+// Interview completion schema
+const interviewSchema = z.object({
+  applicationId: z.string().uuid(),
+  completedAt: z.string().datetime().optional(),
+  reviewerId: z.string().uuid().optional()
+});
+
+/**
+ * POST /api/admin/interviews
+ * Mark an application's interview as completed
+ */
+export const POST = adminApi(async (context) => {
+  try {
+    const body = await context.request.json();
+
+    const validation = SecurityValidator.validateFormData(body, interviewSchema);
+
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validation.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { applicationId, completedAt, reviewerId } = validation.data;
+
+    const application = await DatabaseOperations.getApplicationById(applicationId);
+
+    if (!application) {
+      return NextResponse.json(
+        { error: 'Application not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!['pending', 'interviewed'].includes(application.status)) {
+      return NextResponse.json(
+        { error: `Cannot record an interview for an application that is ${application.status}` },
+        { status: 409 }
+      );
+    }
+
+    const updated = await InterviewScheduling.markCompleted(
+      application,
+      completedAt || new Date().toISOString(),
+      reviewerId || 'admin'
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: updated,
+      message: 'Interview recorded'
+    });
+
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Admin interview API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  schema: interviewSchema
+});
@@ -0,0 +1,79 @@
+/**
+ * Admin Queue API Route
+ * A wave's FIFO queue with its latest snapshot and a check of the snapshot hash chain
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { adminApi } from '../../../../lib/api-security';
+import { WaitlistRanking } from '../../../../lib/waitlist-ranking';
+import { SecurityAudit } from '../../../../lib/security';
+
+// Query filters
+const queueQuerySchema = z.object({
+  wave: z.coerce.number().int().positive()
+});
+
+/**
+ * GET /api/admin/queue?wave=3
+ * Ranked applicants awaiting a decision, first in line first
+ */
+export const GET = adminApi(async (context) => {
+  try {
+    const query = Object.fromEntries(context.request.nextUrl.searchParams.entries());
+
+    const validation = queueQuerySchema.safeParse(query);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid filters',
+          details: validation.error.errors.map(err => err.message)
+        },
+        { status: 400 }
+      );
+    }
+
+    const { wave } = validation.data;
+
+    const [queue, latestSnapshot, chain] = await Promise.all([
+      WaitlistRanking.getQueue(wave),
+      WaitlistRanking.getLatestSnapshot(wave),
+      WaitlistRanking.verifyChain(wave)
+    ]);
+
+    if (!chain.valid) {
+      SecurityAudit.logSecurityEvent({
+        type: 'suspicious_activity',
+        ip: context.ip,
+        userAgent: context.userAgent,
+        details: `Queue snapshot chain for wave ${wave} is broken at snapshot ${chain.broken_sequence}`,
+        severity: 'critical'
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        wave,
+        queue,
+        latest_snapshot: latestSnapshot,
+        chain
+      }
+    });
+
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Admin queue API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,38 @@
+/**
+ * Admin SLA Report API Route
+ * Open paid applications whose interview or decision deadline is at risk or breached
+ */
+
+import { NextResponse } from 'next/server';
+import { adminApi } from '../../../../lib/api-security';
+import { SlaReport } from '../../../../lib/sla';
+import { SecurityAudit } from '../../../../lib/security';
+
+/**
+ * GET /api/admin/sla
+ * SLA report: breached and at-risk applications, soonest deadline first
+ */
+export const GET = adminApi(async (context) => {
+  try {
+    const report = await SlaReport.getReport();
+
+    return NextResponse.json({
+      success: true,
+      data: report
+    });
+
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Admin SLA API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,84 @@
+/**
+ * Admin Stripe Event Replay API Route
+ * Re-runs a failed Stripe webhook event from its stored payload
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { adminApi } from '../../../../../lib/api-security';
+import { StripeEvents } from '../../../../../lib/stripe-events';
+import { SecurityAudit, SecurityValidator } from '../../../../../lib/security';
+
+// Replay schema
+const replaySchema = z.object({
+  eventId: z.string().regex(/^evt_[A-Za-z0-9]+$/, 'Invalid Stripe event ID'),
+  reviewerId: z.string().uuid().optional()
+});
+
+/**
+ * POST /api/admin/stripe-events/replay
+ * Replay a failed event; processed events are never re-run
+ */
+export const POST = adminApi(async (context) => {
+  try {
+    const body = await context.request.json();
+
+    const validation = SecurityValidator.validateFormData(body, replaySchema);
+
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validation.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { eventId, reviewerId } = validation.data;
+
+    const result = await StripeEvents.replay(eventId, reviewerId || 'admin');
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Stripe event not found' },
+        { status: 404 }
+      );
+    }
+
+    if (result.outcome === 'duplicate' || result.outcome === 'in_progress') {
+      return NextResponse.json(
+        {
+          error: result.outcome === 'duplicate'
+            ? 'Event was already processed'
+            : 'Event is being processed'
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: result.outcome === 'processed',
+      data: result,
+      message: result.outcome === 'processed' ? 'Event replayed' : `Replay failed: ${result.error}`
+    }, {
+      status: result.outcome === 'processed' ? 200 : 502
+    });
+
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Admin Stripe replay API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  schema: replaySchema
+});
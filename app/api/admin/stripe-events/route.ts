@@ -0,0 +1,60 @@
+/**
+ * Admin Stripe Events API Route
+ * Lists stored Stripe webhook events and their processing status
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { adminApi } from '../../../../lib/api-security';
+import { StripeEvents } from '../../../../lib/stripe-events';
+import { SecurityAudit } from '../../../../lib/security';
+
+// Query filters
+const eventsQuerySchema = z.object({
+  status: z.enum(['pending', 'processing', 'processed', 'failed']).optional(),
+  type: z.string().max(100).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50)
+});
+
+/**
+ * GET /api/admin/stripe-events?status=failed
+ * List Stripe events, newest first
+ */
+export const GET = adminApi(async (context) => {
+  try {
+    const query = Object.fromEntries(context.request.nextUrl.searchParams.entries());
+
+    const validation = eventsQuerySchema.safeParse(query);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid filters',
+          details: validation.error.errors.map(err => err.message)
+        },
+        { status: 400 }
+      );
+    }
+
+    const events = await StripeEvents.listEvents(validation.data);
+
+    return NextResponse.json({
+      success: true,
+      data: events
+    });
+
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Admin Stripe events API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,159 @@
+/**
+ * Admin Threat Rule API Route
+ * Returns one rule with its recent hits, and tunes its pattern, scope, allowlists and mode
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { adminApi } from '../../../../../lib/api-security';
+import { SecurityAudit, SecurityValidator } from '../../../../../lib/security';
+import {
+  THREAT_RULE_CONFIG,
+  THREAT_RULE_ERROR_STATUS,
+  ThreatRuleEngine,
+  ThreatRuleError,
+  ThreatRuleUpdate
+} from '../../../../../lib/threat-rules';
+
+const targetSchema = z.string().regex(/^(path|query|body|query:[\w.-]{1,100}|body:[\w.-]{1,200}|header:[a-z0-9-]{1,100})$/);
+
+// Threat rule update schema (the ID is fixed once a rule exists)
+const threatRuleUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  description: z.string().trim().max(500).optional(),
+  pattern: z.string().min(1).max(THREAT_RULE_CONFIG.MAX_PATTERN_LENGTH).optional(),
+  flags: z.string().regex(/^[imsu]*$/).optional(),
+  severity: z.enum(['low', 'medium', 'high', 'critical']).optional(),
+  mode: z.enum(['enforce', 'shadow', 'disabled']).optional(),
+  targets: z.array(targetSchema).min(1).max(20).optional(),
+  allowIps: z.array(z.string().ip()).max(100).optional(),
+  allowPaths: z.array(z.string().startsWith('/').max(200)).max(50).optional(),
+  allowPatterns: z.array(z.string().min(1).max(THREAT_RULE_CONFIG.MAX_PATTERN_LENGTH)).max(20).optional(),
+  reviewerId: z.string().uuid().optional()
+});
+
+const ThreatRuleIdSchema = z.string().regex(/^[a-z0-9-]{2,50}$/);
+
+/**
+ * GET /api/admin/threat-rules/[id]
+ * Get a rule and its latest hits, newest first
+ */
+export const GET = adminApi(async (context) => {
+  try {
+    const parsedId = ThreatRuleIdSchema.safeParse(context.request.nextUrl.pathname.split('/').pop());
+
+    if (!parsedId.success) {
+      return NextResponse.json(
+        { error: 'Invalid threat rule ID' },
+        { status: 400 }
+      );
+    }
+
+    const [rule, hits] = await Promise.all([
+      ThreatRuleEngine.get(parsedId.data),
+      ThreatRuleEngine.recentHits(parsedId.data)
+    ]);
+
+    if (!rule) {
+      return NextResponse.json(
+        { error: 'Threat rule not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { rule, hits }
+    });
+
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Admin threat rule detail API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * PATCH /api/admin/threat-rules/[id]
+ * Update a rule, e.g. promote it from shadow to enforce or allowlist a false positive
+ */
+export const PATCH = adminApi(async (context) => {
+  try {
+    const parsedId = ThreatRuleIdSchema.safeParse(context.request.nextUrl.pathname.split('/').pop());
+
+    if (!parsedId.success) {
+      return NextResponse.json(
+        { error: 'Invalid threat rule ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await context.request.json();
+
+    const validation = SecurityValidator.validateFormData(body, threatRuleUpdateSchema);
+
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validation.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { reviewerId, ...fields } = validation.data;
+
+    // Only send the fields the admin changed
+    const changes: ThreatRuleUpdate = Object.fromEntries(
+      Object.entries(fields).filter(([, value]) => value !== undefined)
+    );
+
+    if (Object.keys(changes).length === 0) {
+      return NextResponse.json(
+        { error: 'No changes provided' },
+        { status: 400 }
+      );
+    }
+
+    const rule = await ThreatRuleEngine.update(parsedId.data, changes, reviewerId || 'admin');
+
+    return NextResponse.json({
+      success: true,
+      data: rule,
+      message: `Threat rule ${rule.id} updated`
+    });
+
+  } catch (error) {
+    if (error instanceof ThreatRuleError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: THREAT_RULE_ERROR_STATUS[error.code] }
+      );
+    }
+
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Admin threat rule update API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  schema: threatRuleUpdateSchema
+});
@@ -0,0 +1,158 @@
+/**
+ * Admin Threat Rules API Route
+ * Lists threat rules with their hit statistics and creates new rules
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { adminApi } from '../../../../lib/api-security';
+import { SecurityAudit, SecurityValidator } from '../../../../lib/security';
+import { THREAT_RULE_CONFIG, THREAT_RULE_ERROR_STATUS, ThreatRuleEngine, ThreatRuleError } from '../../../../lib/threat-rules';
+
+// path, query, body, or a single query parameter, body field (dot path) or header
+const targetSchema = z.string().regex(/^(path|query|body|query:[\w.-]{1,100}|body:[\w.-]{1,200}|header:[a-z0-9-]{1,100})$/);
+
+// Threat rule creation schema; new rules default to shadow mode so they can be tuned before they block
+const threatRuleSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]{2,50}$/),
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).optional(),
+  pattern: z.string().min(1).max(THREAT_RULE_CONFIG.MAX_PATTERN_LENGTH),
+  flags: z.string().regex(/^[imsu]*$/).optional(),
+  severity: z.enum(['low', 'medium', 'high', 'critical']),
+  mode: z.enum(['enforce', 'shadow', 'disabled']).optional(),
+  targets: z.array(targetSchema).min(1).max(20),
+  allowIps: z.array(z.string().ip()).max(100).optional(),
+  allowPaths: z.array(z.string().startsWith('/').max(200)).max(50).optional(),
+  allowPatterns: z.array(z.string().min(1).max(THREAT_RULE_CONFIG.MAX_PATTERN_LENGTH)).max(20).optional(),
+  reviewerId: z.string().uuid().optional()
+});
+
+// Statistics window, in days
+const listQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(THREAT_RULE_CONFIG.HIT_RETENTION_DAYS).default(7)
+});
+
+/**
+ * GET /api/admin/threat-rules
+ * List all rules with hits per outcome over the last `days` days
+ */
+export const GET = adminApi(async (context) => {
+  try {
+    const query = Object.fromEntries(context.request.nextUrl.searchParams.entries());
+
+    const validation = listQuerySchema.safeParse(query);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid filters',
+          details: validation.error.errors.map(err => err.message)
+        },
+        { status: 400 }
+      );
+    }
+
+    const { days } = validation.data;
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+    const [rules, stats] = await Promise.all([
+      ThreatRuleEngine.list(),
+      ThreatRuleEngine.stats(since)
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        rules: rules.map(rule => ({
+          ...rule,
+          stats: stats.find(s => s.ruleId === rule.id) || null
+        })),
+        since
+      }
+    });
+
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Admin threat rules API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/admin/threat-rules
+ * Create a rule; it applies within a minute, once each instance's rule cache expires
+ */
+export const POST = adminApi(async (context) => {
+  try {
+    const body = await context.request.json();
+
+    const validation = SecurityValidator.validateFormData(body, threatRuleSchema);
+
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validation.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { reviewerId, ...input } = validation.data;
+
+    const rule = await ThreatRuleEngine.create(
+      {
+        ...input,
+        description: input.description || '',
+        flags: input.flags ?? 'i',
+        mode: input.mode || 'shadow',
+        allowIps: input.allowIps || [],
+        allowPaths: input.allowPaths || [],
+        allowPatterns: input.allowPatterns || []
+      },
+      reviewerId || 'admin'
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: rule,
+        message: `Threat rule ${rule.id} created`
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    if (error instanceof ThreatRuleError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: THREAT_RULE_ERROR_STATUS[error.code] }
+      );
+    }
+
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Admin threat rule creation API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  schema: threatRuleSchema
+});
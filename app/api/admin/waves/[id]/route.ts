@@ -0,0 +1,144 @@
+/**
+ * Admin Wave API Route
+ * Edits a wave's seats, schedule or status, and deletes waves nobody has applied to
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { adminApi } from '../../../../../lib/api-security';
+import { WAVE_ERROR_STATUS, WaveError, WaveUpdate, Waves } from '../../../../../lib/waves';
+import { SecurityAudit, SecurityValidator } from '../../../../../lib/security';
+
+// Wave update schema (the tier is fixed once a wave exists)
+const waveUpdateSchema = z.object({
+  totalSeats: z.number().int().min(1).max(100000).optional(),
+  status: z.enum(['upcoming', 'open', 'full', 'closed']).optional(),
+  opensAt: z.string().datetime().nullable().optional(),
+  closesAt: z.string().datetime().nullable().optional(),
+  reviewerId: z.string().uuid().optional()
+});
+
+const WaveIdSchema = z.coerce.number().int().positive();
+
+/**
+ * PATCH /api/admin/waves/[id]
+ * Update a wave; open/full is re-settled against the new seat total
+ */
+export const PATCH = adminApi(async (context) => {
+  try {
+    const parsedId = WaveIdSchema.safeParse(context.request.nextUrl.pathname.split('/').pop());
+
+    if (!parsedId.success) {
+      return NextResponse.json(
+        { error: 'Invalid wave ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await context.request.json();
+
+    const validation = SecurityValidator.validateFormData(body, waveUpdateSchema);
+
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validation.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { totalSeats, status, opensAt, closesAt, reviewerId } = validation.data;
+
+    // Only send the fields the admin changed; null clears a date
+    const changes: WaveUpdate = {};
+    if (totalSeats !== undefined) changes.total_seats = totalSeats;
+    if (status !== undefined) changes.status = status;
+    if (opensAt !== undefined) changes.opens_at = opensAt;
+    if (closesAt !== undefined) changes.closes_at = closesAt;
+
+    if (Object.keys(changes).length === 0) {
+      return NextResponse.json(
+        { error: 'No changes provided' },
+        { status: 400 }
+      );
+    }
+
+    const wave = await Waves.update(parsedId.data, changes, reviewerId || 'admin');
+
+    return NextResponse.json({
+      success: true,
+      data: wave,
+      message: `Wave ${wave.id} updated`
+    });
+
+  } catch (error) {
+    if (error instanceof WaveError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: WAVE_ERROR_STATUS[error.code] }
+      );
+    }
+
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Admin wave update API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  schema: waveUpdateSchema
+});
+
+/**
+ * DELETE /api/admin/waves/[id]
+ * Delete a wave without applications (409 otherwise; close it instead)
+ */
+export const DELETE = adminApi(async (context) => {
+  try {
+    const parsedId = WaveIdSchema.safeParse(context.request.nextUrl.pathname.split('/').pop());
+
+    if (!parsedId.success) {
+      return NextResponse.json(
+        { error: 'Invalid wave ID' },
+        { status: 400 }
+      );
+    }
+
+    await Waves.delete(parsedId.data, 'admin');
+
+    return NextResponse.json({
+      success: true,
+      message: `Wave ${parsedId.data} deleted`
+    });
+
+  } catch (error) {
+    if (error instanceof WaveError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: WAVE_ERROR_STATUS[error.code] }
+      );
+    }
+
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Admin wave delete API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
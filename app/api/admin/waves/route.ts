@@ -0,0 +1,116 @@
+/**
+ * Admin Waves API Route
+ * Lists waves with their seat counts and creates new waves
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { adminApi } from '../../../../lib/api-security';
+import { WAVE_ERROR_STATUS, WaveError, Waves } from '../../../../lib/waves';
+import { SecurityAudit, SecurityValidator } from '../../../../lib/security';
+
+// Wave creation schema
+const waveSchema = z.object({
+  tier: z.enum(['99', '199']),
+  totalSeats: z.number().int().min(1).max(100000),
+  status: z.enum(['upcoming', 'open', 'full', 'closed']).optional(),
+  opensAt: z.string().datetime().nullable().optional(),
+  closesAt: z.string().datetime().nullable().optional(),
+  reviewerId: z.string().uuid().optional()
+});
+
+/**
+ * GET /api/admin/waves
+ * List all waves, newest first, with filled and available seats
+ */
+export const GET = adminApi(async (context) => {
+  try {
+    const waves = await Waves.list();
+
+    return NextResponse.json({
+      success: true,
+      data: waves
+    });
+
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Admin waves API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/admin/waves
+ * Create a wave; it opens and closes on its schedule unless a status is set
+ */
+export const POST = adminApi(async (context) => {
+  try {
+    const body = await context.request.json();
+
+    const validation = SecurityValidator.validateFormData(body, waveSchema);
+
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validation.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { tier, totalSeats, status, opensAt, closesAt, reviewerId } = validation.data;
+
+    const wave = await Waves.create(
+      {
+        tier,
+        total_seats: totalSeats,
+        status,
+        opens_at: opensAt,
+        closes_at: closesAt
+      },
+      reviewerId || 'admin'
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: wave,
+        message: `Wave ${wave.id} created`
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    if (error instanceof WaveError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: WAVE_ERROR_STATUS[error.code] }
+      );
+    }
+
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Admin wave creation API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  schema: waveSchema
+});
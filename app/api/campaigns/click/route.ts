@@ -0,0 +1,43 @@
+/**
+ * Campaign Click Tracking API Route
+ * Records an invitation click and sends the invitee to the FastTrack tiers
+ */
+
+import { NextResponse } from 'next/server';
+import { publicApi } from '../../../../lib/api-security';
+import { ROUTES } from '../../../../lib/constants';
+import { InvitationCampaigns } from '../../../../lib/invitation-campaigns';
+import { SecurityAudit } from '../../../../lib/security';
+
+/**
+ * GET /api/campaigns/click?token=
+ * Redirect to the landing page; expired invitations land on the page with invitation=expired
+ */
+export const GET = publicApi(async (context) => {
+  const landingUrl = new URL(ROUTES.HOME, context.request.nextUrl.origin);
+  const token = context.request.nextUrl.searchParams.get('token');
+
+  try {
+    const invitation = token ? await InvitationCampaigns.recordClick(token) : null;
+
+    if (invitation) {
+      landingUrl.searchParams.set('utm_source', 'invitation');
+      landingUrl.searchParams.set('utm_medium', 'email');
+      landingUrl.searchParams.set('utm_campaign', invitation.campaign_id);
+    } else {
+      landingUrl.searchParams.set('invitation', 'expired');
+    }
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Campaign click tracking error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'medium'
+    });
+  }
+
+  return NextResponse.redirect(landingUrl, 303);
+}, {
+  rateLimit: 'lenient'
+});
@@ -0,0 +1,36 @@
+/**
+ * Campaign Open Tracking API Route
+ * Serves the invitation email's 1x1 pixel and records the first open
+ */
+
+import { NextResponse } from 'next/server';
+import { publicApi } from '../../../../lib/api-security';
+import { InvitationCampaigns } from '../../../../lib/invitation-campaigns';
+
+// Transparent 1x1 GIF
+const PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+/**
+ * GET /api/campaigns/open?token=
+ * Always returns the pixel, so broken tracking never shows in the email client
+ */
+export const GET = publicApi(async (context) => {
+  const token = context.request.nextUrl.searchParams.get('token');
+
+  if (token) {
+    try {
+      await InvitationCampaigns.recordOpen(token);
+    } catch (error) {
+      console.error('Campaign open tracking failed:', error);
+    }
+  }
+
+  return new NextResponse(PIXEL, {
+    headers: {
+      'Content-Type': 'image/gif',
+      'Cache-Control': 'no-store, max-age=0'
+    }
+  });
+}, {
+  rateLimit: 'lenient'
+});
@@ -0,0 +1,39 @@
+/**
+ * Activation Scheduler Cron Route
+ * Sends interview reminders and day-10 activation reminders, expires unactivated seats to site credit
+ * and returns ended review deferrals to the queue
+ */
+
+import { NextResponse } from 'next/server';
+import { cronApi } from '../../../../lib/api-security';
+import { ActivationScheduler } from '../../../../lib/activation-scheduler';
+import { SecurityAudit } from '../../../../lib/security';
+
+/**
+ * GET /api/cron/activation
+ * Run the activation scheduler (Authorization: Bearer CRON_SECRET)
+ */
+export const GET = cronApi(async (context) => {
+  try {
+    const summary = await ActivationScheduler.run();
+
+    return NextResponse.json({
+      success: true,
+      data: summary
+    });
+
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Activation scheduler error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,38 @@
+/**
+ * Rate Limit Cleanup Cron Route
+ * Prunes expired counters from the Postgres rate limit store
+ */
+
+import { NextResponse } from 'next/server';
+import { cronApi } from '../../../../lib/api-security';
+import { PostgresRateLimitStore } from '../../../../lib/rate-limiter';
+import { SecurityAudit } from '../../../../lib/security';
+
+/**
+ * GET /api/cron/rate-limits
+ * Delete expired rate limit rows (Authorization: Bearer CRON_SECRET)
+ */
+export const GET = cronApi(async (context) => {
+  try {
+    const pruned = await PostgresRateLimitStore.prune();
+
+    return NextResponse.json({
+      success: true,
+      data: { pruned }
+    });
+
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Rate limit cleanup error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,38 @@
+/**
+ * Security Alert Escalation Cron Route
+ * Escalates security alerts nobody acknowledged within their severity's response time
+ */
+
+import { NextResponse } from 'next/server';
+import { cronApi } from '../../../../lib/api-security';
+import { SecurityAudit } from '../../../../lib/security';
+import { SecurityNotifications } from '../../../../lib/security-notifications';
+
+/**
+ * GET /api/cron/security-alerts
+ * Send unacknowledged alerts to the escalation channels (Authorization: Bearer CRON_SECRET)
+ */
+export const GET = cronApi(async (context) => {
+  try {
+    const summary = await SecurityNotifications.escalateUnacknowledged();
+
+    return NextResponse.json({
+      success: true,
+      data: summary
+    });
+
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Security alert escalation error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
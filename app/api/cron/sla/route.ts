@@ -0,0 +1,38 @@
+/**
+ * SLA Monitor Cron Route
+ * Alerts reviewers when interview or decision deadlines are at risk or breached
+ */
+
+import { NextResponse } from 'next/server';
+import { cronApi } from '../../../../lib/api-security';
+import { SlaMonitor } from '../../../../lib/sla';
+import { SecurityAudit } from '../../../../lib/security';
+
+/**
+ * GET /api/cron/sla
+ * Run the SLA monitor (Authorization: Bearer CRON_SECRET)
+ */
+export const GET = cronApi(async (context) => {
+  try {
+    const summary = await SlaMonitor.run();
+
+    return NextResponse.json({
+      success: true,
+      data: summary
+    });
+
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `SLA monitor error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
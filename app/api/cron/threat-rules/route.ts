@@ -0,0 +1,38 @@
+/**
+ * Threat Rule Hit Retention Cron Route
+ * Deletes threat rule hits older than the retention period
+ */
+
+import { NextResponse } from 'next/server';
+import { cronApi } from '../../../../lib/api-security';
+import { SecurityAudit } from '../../../../lib/security';
+import { ThreatRuleEngine } from '../../../../lib/threat-rules';
+
+/**
+ * GET /api/cron/threat-rules
+ * Prune old threat rule hits (Authorization: Bearer CRON_SECRET)
+ */
+export const GET = cronApi(async (context) => {
+  try {
+    const deleted = await ThreatRuleEngine.pruneHits();
+
+    return NextResponse.json({
+      success: true,
+      data: { deleted }
+    });
+
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Threat rule hit pruning error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,38 @@
+/**
+ * Wave Schedule Cron Route
+ * Opens upcoming waves at opens_at and closes waves at closes_at
+ */
+
+import { NextResponse } from 'next/server';
+import { cronApi } from '../../../../lib/api-security';
+import { Waves } from '../../../../lib/waves';
+import { SecurityAudit } from '../../../../lib/security';
+
+/**
+ * GET /api/cron/waves
+ * Apply the wave schedule (Authorization: Bearer CRON_SECRET)
+ */
+export const GET = cronApi(async (context) => {
+  try {
+    const changes = await Waves.syncSchedule();
+
+    return NextResponse.json({
+      success: true,
+      data: { changes }
+    });
+
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Wave schedule error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,96 @@
+/**
+ * Applicant Membership Activation API Route
+ * Starts the membership checkout from the activation link in the acceptance emails
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { publicApi } from '../../../../lib/api-security';
+import { ApplicantTokens } from '../../../../lib/applicant-tokens';
+import { MEMBERSHIP_PLAN_IDS } from '../../../../lib/constants';
+import { MembershipActivation } from '../../../../lib/membership-activation';
+import { SecurityAudit, SecurityValidator } from '../../../../lib/security';
+
+// Activation request schema (token comes from the activation email link)
+const activationSchema = z.object({
+  token: z.string().min(1).max(2048),
+  plan: z.enum(MEMBERSHIP_PLAN_IDS)
+});
+
+/**
+ * POST /api/membership/activate
+ * Create a subscription checkout for the chosen plan
+ */
+export const POST = publicApi(async (context) => {
+  try {
+    const body = await context.request.json();
+
+    const validation = SecurityValidator.validateFormData(body, activationSchema);
+
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validation.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const applicationId = ApplicantTokens.verify(validation.data.token, 'activation');
+
+    if (!applicationId) {
+      SecurityAudit.logSecurityEvent({
+        type: 'auth_failure',
+        ip: context.ip,
+        userAgent: context.userAgent,
+        details: 'Invalid or expired activation token',
+        severity: 'medium'
+      });
+
+      return NextResponse.json(
+        { error: 'This activation link is invalid or has expired' },
+        { status: 401 }
+      );
+    }
+
+    const result = await MembershipActivation.startCheckout(applicationId, validation.data.plan, {
+      initiatedBy: 'applicant',
+      ip_address: context.ip,
+      user_agent: context.userAgent
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        checkout_url: result.checkoutUrl,
+        credit_applied_cents: result.creditAppliedCents
+      },
+      message: 'Membership checkout created'
+    });
+
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Activation API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  rateLimit: 'strict',
+  schema: activationSchema
+});
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { DatabaseOperations } from '../../../../lib/database'
+import {
+  getSchedulingProvider,
+  InterviewScheduling,
+  SchedulingSignatureError,
+} from '../../../../lib/interview-scheduling'
+
+/**
+ * Interview scheduling webhook (Calendly, or the local stub provider)
+ * POST /api/scheduling/webhook
+ */
+export async function POST(req: NextRequest) {
+  const provider = getSchedulingProvider()
+
+  try {
+    const body = await req.text()
+
+    let event
+    try {
+      event = provider.parseWebhook(body, req.headers)
+    } catch (error) {
+      if (error instanceof SchedulingSignatureError) {
+        await DatabaseOperations.logSecurityEvent(
+          'scheduling_webhook_invalid_signature',
+          'high',
+          {
+            ip_address: req.ip,
+            user_agent: req.headers.get('user-agent') || undefined,
+            event_data: {
+              provider: provider.name,
+              error: error.message,
+            }
+          }
+        )
+
+        return NextResponse.json(
+          { error: 'Invalid signature' },
+          { status: 401 }
+        )
+      }
+
+      console.error('Failed to parse scheduling webhook:', error)
+      return NextResponse.json(
+        { error: 'Invalid payload' },
+        { status: 400 }
+      )
+    }
+
+    // Acknowledge events we don't track so the provider stops retrying them
+    if (!event) {
+      return NextResponse.json({ received: true, handled: false })
+    }
+
+    const result = await InterviewScheduling.handleEvent(event, `system:${provider.name}-webhook`)
+
+    return NextResponse.json({ received: true, ...result })
+
+  } catch (error) {
+    console.error('Scheduling webhook processing error:', error)
+
+    await DatabaseOperations.logSecurityEvent(
+      'scheduling_webhook_processing_error',
+      'high',
+      {
+        ip_address: req.ip,
+        event_data: {
+          provider: provider.name,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        }
+      }
+    )
+
+    return NextResponse.json(
+      { error: 'Webhook processing failed' },
+      { status: 500 }
+    )
+  }
+}
+
+export const runtime = 'nodejs'
@@ -5,13 +5,13 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { publicApi } from '../../../lib/api-security';
-import { SupabaseSecureOperations } from '../../../lib/supabase-security';
+import { Waves } from '../../../lib/waves';
 import { SecurityAudit } from '../../../lib/security';
 import { getDynamicMockSeatData, incrementSeatReduction, useMockData } from '../../../lib/mock-data';
 
 /**
  * GET /api/seats
- * Returns current seat availability for all waves
+ * Returns seat availability for the current wave of each tier
  */
 export const GET = publicApi(async (context) => {
   try {
@@ -30,10 +30,13 @@ export const GET = publicApi(async (context) => {
       });
     }
 
-    // Get seat availability from secure database operations
-    const result = await SupabaseSecureOperations.getSeatAvailability();
+    // Seat counts for the wave each tier is currently selling
+    const currentWaves = await Waves.getCurrentWaves().catch((error) => {
+      console.error('Error fetching current waves:', error);
+      return null;
+    });
 
-    if (!result.success || !result.data) {
+    if (!currentWaves) {
       SecurityAudit.logSecurityEvent({
         type: 'validation_error',
         ip: context.ip,
@@ -57,15 +60,17 @@ export const GET = publicApi(async (context) => {
     }
 
     // Transform data for client consumption matching TierSelector expectations
-    const waves = result.data;
-    const tier99Wave = waves.find(w => w.wave_number === 1);
-    const tier199Wave = waves.find(w => w.wave_number === 2);
+    // A tier without a running wave reports no seats and a null wave
+    const tier99Wave = currentWaves['99'];
+    const tier199Wave = currentWaves['199'];
     
     const seatData = {
-      tier_99_available: tier99Wave ? tier99Wave.total_seats - tier99Wave.filled_seats : 0,
-      tier_199_available: tier199Wave ? tier199Wave.total_seats - tier199Wave.filled_seats : 0,
-      tier_99_total: tier99Wave ? tier99Wave.total_seats : 100,
-      tier_199_total: tier199Wave ? tier199Wave.total_seats : 50,
+      tier_99_available: tier99Wave ? tier99Wave.available_seats : 0,
+      tier_199_available: tier199Wave ? tier199Wave.available_seats : 0,
+      tier_99_total: tier99Wave ? tier99Wave.total_seats : 0,
+      tier_199_total: tier199Wave ? tier199Wave.total_seats : 0,
+      tier_99_wave: tier99Wave ? tier99Wave.id : null,
+      tier_199_wave: tier199Wave ? tier199Wave.id : null,
       last_updated: new Date().toISOString()
     };
 
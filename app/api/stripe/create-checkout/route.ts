@@ -2,14 +2,21 @@ import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { StripeSecurityManager } from '../../../../lib/stripe'
 import { DatabaseOperations } from '../../../../lib/database'
+import { SeatReservations } from '../../../../lib/seat-reservations'
+import { ContactVerification } from '../../../../lib/contact-verification'
+import { applyRateLimitRules, getRateLimitIdentity, rateLimitHeaders } from '../../../../lib/rate-limiter'
 import { getEnv } from '../../../../lib/env'
 
-// Request validation schema
+// Request validation schema; the price always follows the stored application's tier, and a `tier`
+// from the client is only checked against it
 const createCheckoutSchema = z.object({
   applicationId: z.string().uuid(),
-  tier: z.enum(['99', '199']),
+  tier: z.enum(['99', '199']).optional(),
 })
 
+// A claim that old belongs to a request that died before storing its session
+const CHECKOUT_CLAIM_SECONDS = 120
+
 /**
  * Create Stripe checkout session for waitlist application
  * POST /api/stripe/create-checkout
@@ -18,10 +25,19 @@ export async function POST(req: NextRequest) {
   try {
     // Parse and validate request body
     const body = await req.json()
-    const { applicationId, tier } = createCheckoutSchema.parse(body)
+    const { applicationId, tier: requestedTier } = createCheckoutSchema.parse(body)
+    
+    // Per application and per subnet, so retrying with new IPs doesn't help
+    const rateLimit = await applyRateLimitRules('STRIPE_CHECKOUT', getRateLimitIdentity(req, { applicationId }))
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { error: 'Too many checkout attempts, please try again shortly' },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      )
+    }
     
     // Get application details from database
-    const application = await DatabaseOperations.getApplicationByStripeSession(applicationId)
+    const application = await DatabaseOperations.getApplicationById(applicationId)
     if (!application) {
       return NextResponse.json(
         { error: 'Application not found' },
@@ -29,7 +45,38 @@ export async function POST(req: NextRequest) {
       )
     }
     
-    // Check if application already has a payment
+    if (requestedTier && requestedTier !== application.tier) {
+      await DatabaseOperations.logSecurityEvent(
+        'checkout_tier_mismatch',
+        'medium',
+        {
+          user_identifier: application.email,
+          ip_address: req.ip,
+          event_data: {
+            application_id: applicationId,
+            application_tier: application.tier,
+            requested_tier: requestedTier,
+          }
+        }
+      )
+      
+      return NextResponse.json(
+        { error: 'Tier does not match the application' },
+        { status: 400 }
+      )
+    }
+    
+    const tier = application.tier
+    
+    // Only open applications can pay; closed ones (decided, withdrawn) can't be reopened by paying
+    if (application.status !== 'pending') {
+      return NextResponse.json(
+        { error: 'This application is closed' },
+        { status: 409 }
+      )
+    }
+    
+    // Check if application already has a payment (an abandoned checkout clears its session, so it can be retried)
     if (application.stripe_checkout_session_id) {
       return NextResponse.json(
         { error: 'Payment already initiated for this application' },
@@ -37,19 +84,112 @@ export async function POST(req: NextRequest) {
       )
     }
     
-    // Create checkout session
-    const session = await StripeSecurityManager.createSecureCheckoutSession({
-      tier,
+    // Applications on fraud hold can't pay until a reviewer clears them
+    if (application.fraud_status === 'hold') {
+      await DatabaseOperations.logSecurityEvent(
+        'checkout_blocked_fraud_hold',
+        'medium',
+        {
+          user_identifier: application.email,
+          ip_address: req.ip,
+          event_data: {
+            application_id: applicationId,
+            fraud_score: application.fraud_score,
+          }
+        }
+      )
+      
+      return NextResponse.json(
+        { error: 'This application is under review' },
+        { status: 403 }
+      )
+    }
+    
+    // Some tiers require a verified email and/or phone before payment
+    const unverified = ContactVerification.missingForCheckout(application)
+    if (unverified.length > 0) {
+      return NextResponse.json(
+        { error: `Verify your ${unverified.join(' and ')} before checkout`, unverified },
+        { status: 403 }
+      )
+    }
+    
+    // Claim the application before holding a seat or calling Stripe, so concurrent requests can't both open a session
+    const claimedAt = await DatabaseOperations.claimCheckout(
       applicationId,
-      customerEmail: application.email,
-      successUrl: `${getEnv('NEXT_PUBLIC_BASE_URL')}/success`,
-      cancelUrl: `${getEnv('NEXT_PUBLIC_BASE_URL')}/waitlist`,
-    })
+      new Date(Date.now() - CHECKOUT_CLAIM_SECONDS * 1000).toISOString()
+    )
+    if (!claimedAt) {
+      return NextResponse.json(
+        { error: 'Payment already initiated for this application' },
+        { status: 409 }
+      )
+    }
     
-    // Update application with session ID
-    await DatabaseOperations.updateApplicationStripeInfo(applicationId, {
-      checkout_session_id: session.id,
-    })
+    // Hold a seat for as long as the checkout session is open
+    const reservation = await SeatReservations.reserve(applicationId)
+    if (!reservation) {
+      await DatabaseOperations.releaseCheckoutClaim(applicationId, claimedAt)
+
+      await DatabaseOperations.logSecurityEvent(
+        'seat_reservation_refused',
+        'low',
+        {
+          user_identifier: application.email,
+          ip_address: req.ip,
+          event_data: {
+            application_id: applicationId,
+            wave: application.wave,
+          }
+        }
+      )
+      
+      return NextResponse.json(
+        { error: 'This wave is full' },
+        { status: 409 }
+      )
+    }
+    
+    // Create checkout session
+    let session
+    try {
+      session = await StripeSecurityManager.createSecureCheckoutSession({
+        tier,
+        applicationId,
+        customerEmail: application.email,
+        successUrl: `${getEnv('NEXT_PUBLIC_BASE_URL')}/success`,
+        cancelUrl: `${getEnv('NEXT_PUBLIC_BASE_URL')}/waitlist`,
+        expiresAt: new Date(reservation.expires_at),
+      })
+    } catch (error) {
+      await SeatReservations.release(applicationId, 'checkout_not_created')
+      await DatabaseOperations.releaseCheckoutClaim(applicationId, claimedAt)
+      throw error
+    }
+    
+    // Store the session only if this request still holds the claim; otherwise it must never be paid
+    const stored = await DatabaseOperations.completeCheckoutClaim(applicationId, claimedAt, session.id)
+    if (!stored) {
+      await StripeSecurityManager.expireCheckoutSession(session.id)
+      await DatabaseOperations.logSecurityEvent(
+        'checkout_claim_lost',
+        'medium',
+        {
+          user_identifier: application.email,
+          ip_address: req.ip,
+          event_data: {
+            application_id: applicationId,
+            session_id: session.id,
+          }
+        }
+      )
+      
+      return NextResponse.json(
+        { error: 'Payment already initiated for this application' },
+        { status: 409 }
+      )
+    }
+    await SeatReservations.attachCheckout(applicationId, session.id)
     
     // Log security event
     await DatabaseOperations.logSecurityEvent(
@@ -62,6 +202,7 @@ export async function POST(req: NextRequest) {
           application_id: applicationId,
           tier,
           session_id: session.id,
+          seat_held_until: reservation.expires_at,
         }
       }
     )
@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { StripeSecurityManager } from '../../../../lib/stripe'
+import Stripe from 'stripe'
+import { StripeSecurityManager, StripeWebhookSignatureError } from '../../../../lib/stripe'
+import { StripeEvents } from '../../../../lib/stripe-events'
 import { DatabaseOperations } from '../../../../lib/database'
-import { getEnv } from '../../../../lib/env'
 
 /**
  * Stripe webhook handler with secure signature verification
+ * Deliveries are recorded by event ID so Stripe retries never re-run side effects
  * POST /api/stripe/webhook
  */
 export async function POST(req: NextRequest) {
@@ -30,14 +32,23 @@ export async function POST(req: NextRequest) {
       )
     }
     
-    // Verify webhook signature
-    const isValidSignature = StripeSecurityManager.verifyWebhookSignature(
-      body,
-      signature,
-      getEnv('STRIPE_WEBHOOK_SECRET')
-    )
-    
-    if (!isValidSignature) {
+    // Verify webhook signature and parse the event
+    let event: Stripe.Event
+    try {
+      event = StripeSecurityManager.constructWebhookEvent(body, signature)
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        console.error('Failed to parse webhook body:', error)
+        return NextResponse.json(
+          { error: 'Invalid JSON' },
+          { status: 400 }
+        )
+      }
+      
+      if (!(error instanceof StripeWebhookSignatureError)) {
+        throw error
+      }
+      
       console.error('Invalid Stripe webhook signature')
       await DatabaseOperations.logSecurityEvent(
         'webhook_invalid_signature',
@@ -47,6 +58,7 @@ export async function POST(req: NextRequest) {
           user_agent: req.headers.get('user-agent') || undefined,
           event_data: {
             signature_provided: signature,
+            error: error.message,
           }
         }
       )
@@ -57,18 +69,6 @@ export async function POST(req: NextRequest) {
       )
     }
     
-    // Parse event
-    let event
-    try {
-      event = JSON.parse(body)
-    } catch (error) {
-      console.error('Failed to parse webhook body:', error)
-      return NextResponse.json(
-        { error: 'Invalid JSON' },
-        { status: 400 }
-      )
-    }
-    
     // Log successful webhook receipt
     await DatabaseOperations.logSecurityEvent(
       'webhook_received',
@@ -82,12 +82,40 @@ export async function POST(req: NextRequest) {
       }
     )
     
-    // Process the event
-    await StripeSecurityManager.processWebhookEvent(event)
+    // Process the event (once per event ID)
+    const result = await StripeEvents.receive(event)
+    
+    if (result.outcome === 'failed') {
+      await DatabaseOperations.logSecurityEvent(
+        'webhook_processing_error',
+        'high',
+        {
+          event_data: {
+            event_type: event.type,
+            event_id: event.id,
+            attempts: result.attempts,
+            error: result.error,
+          }
+        }
+      )
+      
+      // Non-2xx so Stripe retries; the stored event can also be replayed by an admin
+      return NextResponse.json(
+        { error: 'Webhook processing failed' },
+        { status: 500 }
+      )
+    }
+    
+    if (result.outcome === 'in_progress') {
+      return NextResponse.json(
+        { error: 'Event is already being processed' },
+        { status: 409 }
+      )
+    }
     
     // Log successful processing
     await DatabaseOperations.logSecurityEvent(
-      'webhook_processed',
+      result.outcome === 'duplicate' ? 'webhook_duplicate' : 'webhook_processed',
       'low',
       {
         event_data: {
@@ -97,7 +125,7 @@ export async function POST(req: NextRequest) {
       }
     )
     
-    return NextResponse.json({ received: true })
+    return NextResponse.json({ received: true, duplicate: result.outcome === 'duplicate' })
     
   } catch (error) {
     console.error('Webhook processing error:', error)
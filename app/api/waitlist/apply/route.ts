@@ -7,6 +7,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { publicApi } from '../../../../lib/api-security';
 import { SupabaseSecureOperations } from '../../../../lib/supabase-security';
 import { SecurityAudit, SecurityValidator, schemas } from '../../../../lib/security';
+import { FraudScoring } from '../../../../lib/fraud-scoring';
 import { z } from 'zod';
 
 // Application submission schema
@@ -62,9 +63,9 @@ export const POST = publicApi(async (context) => {
     const validatedData = validation.data;
 
     // Verify reCAPTCHA token
-    const captchaValid = await verifyRecaptcha(validatedData['g-recaptcha-response'], context.ip);
+    const captcha = await verifyRecaptcha(validatedData['g-recaptcha-response'], context.ip);
     
-    if (!captchaValid) {
+    if (!captcha.success) {
       SecurityAudit.logSecurityEvent({
         type: 'validation_error',
         ip: context.ip,
@@ -80,7 +81,14 @@ export const POST = publicApi(async (context) => {
     }
 
     // Remove captcha response from data before storing
-    const { 'g-recaptcha-response': captcha, ...applicationData } = validatedData;
+    const { 'g-recaptcha-response': _captchaToken, ...applicationData } = validatedData;
+
+    // Counted for fraud velocity whether or not the application is stored (duplicates included)
+    await FraudScoring.recordAttempt('application_attempt', {
+      email: applicationData.email,
+      ip_address: context.ip,
+      user_agent: context.userAgent
+    });
 
     // Create application with security context
     const result = await SupabaseSecureOperations.createApplication(
@@ -95,10 +103,23 @@ export const POST = publicApi(async (context) => {
       // Don't expose internal errors to client
       return NextResponse.json(
         { error: result.error || 'Failed to create application' },
-        { status: result.error?.includes('duplicate') ? 409 : 500 }
+        { status: result.error?.includes('duplicate') || result.error?.includes('not open') ? 409 : 500 }
       );
     }
 
+    // Score for fraud; a failure here must not lose the application
+    if (result.data?.id) {
+      try {
+        await FraudScoring.scoreApplication(result.data.id, 'apply', {
+          recaptcha_score: captcha.score,
+          recaptcha_verified: captcha.success,
+          ip_address: context.ip
+        });
+      } catch (error) {
+        console.error('Fraud scoring failed at apply time:', error);
+      }
+    }
+
     // Log successful application
     SecurityAudit.logSecurityEvent({
       type: 'suspicious_activity', // Using for audit logging
@@ -148,20 +169,22 @@ export const POST = publicApi(async (context) => {
   }
 }, {
   rateLimit: 'strict', // Very strict rate limiting for applications
+  rateLimitRules: 'WAITLIST_APPLY',
   schema: applicationSubmissionSchema,
   requireCSRF: true
 });
 
 /**
  * Verify reCAPTCHA token
+ * score is only set for reCAPTCHA v3 keys
  */
-async function verifyRecaptcha(token: string, remoteip?: string): Promise<boolean> {
+async function verifyRecaptcha(token: string, remoteip?: string): Promise<{ success: boolean; score?: number }> {
   try {
     const secretKey = process.env.RECAPTCHA_SECRET_KEY;
     
     if (!secretKey || secretKey === 'placeholder_secret_key') {
       console.warn('reCAPTCHA verification bypassed in development');
-      return true;
+      return { success: true };
     }
 
     const response = await fetch('https://www.google.com/recaptcha/api/siteverify', {
@@ -178,14 +201,17 @@ async function verifyRecaptcha(token: string, remoteip?: string): Promise<boolea
 
     if (!response.ok) {
       console.error('reCAPTCHA verification request failed');
-      return false;
+      return { success: false };
     }
 
     const data = await response.json();
-    return data.success === true;
+    return {
+      success: data.success === true,
+      score: typeof data.score === 'number' ? data.score : undefined
+    };
     
   } catch (error) {
     console.error('reCAPTCHA verification error:', error);
-    return false;
+    return { success: false };
   }
 }
\ No newline at end of file
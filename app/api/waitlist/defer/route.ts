@@ -0,0 +1,93 @@
+/**
+ * Applicant Deferral API Route
+ * Lets an accepted applicant defer activation once, before the 14-day deadline
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { publicApi } from '../../../../lib/api-security';
+import { ActivationScheduler } from '../../../../lib/activation-scheduler';
+import { ApplicantTokens } from '../../../../lib/applicant-tokens';
+import { SecurityAudit, SecurityValidator } from '../../../../lib/security';
+
+// Deferral request schema (token comes from the acceptance email link)
+const deferralSchema = z.object({
+  token: z.string().min(1).max(2048)
+});
+
+/**
+ * POST /api/waitlist/defer
+ * Request the one-time 30-day activation deferral
+ */
+export const POST = publicApi(async (context) => {
+  try {
+    const body = await context.request.json();
+
+    const validation = SecurityValidator.validateFormData(body, deferralSchema);
+
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validation.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const applicationId = ApplicantTokens.verify(validation.data.token, 'deferral');
+
+    if (!applicationId) {
+      SecurityAudit.logSecurityEvent({
+        type: 'auth_failure',
+        ip: context.ip,
+        userAgent: context.userAgent,
+        details: 'Invalid or expired deferral token',
+        severity: 'medium'
+      });
+
+      return NextResponse.json(
+        { error: 'This deferral link is invalid or has expired' },
+        { status: 401 }
+      );
+    }
+
+    const result = await ActivationScheduler.requestDeferral(applicationId, {
+      ip_address: context.ip,
+      user_agent: context.userAgent
+    });
+
+    if (!result.success || !result.application) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        status: result.application.status,
+        deferred_until: result.application.deferred_until
+      },
+      message: 'Activation deferred'
+    });
+
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Deferral API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  rateLimit: 'strict',
+  schema: deferralSchema
+});
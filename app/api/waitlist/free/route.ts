@@ -0,0 +1,130 @@
+/**
+ * Free Waitlist API Route
+ * Captcha-verified free signups with UTM attribution from the landing page URL
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { publicApi } from '../../../../lib/api-security';
+import { DatabaseOperations } from '../../../../lib/database';
+import { EmailService } from '../../../../lib/email';
+import { FraudScoring } from '../../../../lib/fraud-scoring';
+import { FreeWaitlistSchema } from '../../../../lib/input-validation';
+import { RecaptchaVerifier } from '../../../../lib/recaptcha';
+import { SecurityAudit, SecurityValidator } from '../../../../lib/security';
+
+// Free signup schema (UTM fields are taken from the query string)
+const freeSignupSchema = FreeWaitlistSchema.extend({
+  'g-recaptcha-response': z.string().min(1, 'Please complete the captcha verification')
+});
+
+const UTM_PARAMS = ['utm_source', 'utm_medium', 'utm_campaign'] as const;
+
+/**
+ * POST /api/waitlist/free?utm_source=&utm_medium=&utm_campaign=
+ * Join the free waitlist
+ */
+export const POST = publicApi(async (context) => {
+  try {
+    const body = await context.request.json();
+    const searchParams = context.request.nextUrl.searchParams;
+
+    const utm = Object.fromEntries(
+      UTM_PARAMS
+        .map(param => [param, searchParams.get(param)] as const)
+        .filter(([, value]) => !!value)
+    );
+
+    const validation = SecurityValidator.validateFormData({ ...body, ...utm }, freeSignupSchema);
+
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validation.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const signup = validation.data;
+
+    const captcha = await RecaptchaVerifier.verify(signup['g-recaptcha-response'], context.ip);
+
+    if (!captcha.success) {
+      SecurityAudit.logSecurityEvent({
+        type: 'validation_error',
+        ip: context.ip,
+        userAgent: context.userAgent,
+        details: `Free signup captcha failed: ${captcha.errorMessage || 'unknown'}`,
+        severity: 'high'
+      });
+
+      return NextResponse.json(
+        { error: 'Captcha verification failed' },
+        { status: 400 }
+      );
+    }
+
+    await FraudScoring.recordAttempt('free_signup_attempt', {
+      email: signup.email,
+      ip_address: context.ip,
+      user_agent: context.userAgent
+    });
+
+    try {
+      await DatabaseOperations.createFreeSignup(
+        signup.full_name,
+        signup.email,
+        signup.country,
+        {
+          source: signup.utm_source,
+          medium: signup.utm_medium,
+          campaign: signup.utm_campaign
+        },
+        { ip_address: context.ip !== 'unknown' ? context.ip : undefined }
+      );
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Email already registered') {
+        return NextResponse.json(
+          { error: 'This email is already on the waitlist' },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    // The signup is stored; a failed confirmation email shouldn't fail the request
+    try {
+      await EmailService.send('free_waitlist_confirmation', signup.email, {
+        fullName: signup.full_name
+      });
+    } catch (error) {
+      console.error('Free waitlist confirmation email failed:', error);
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "You're on the waitlist"
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Free signup API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  rateLimitRules: 'FREE_SIGNUP'
+});
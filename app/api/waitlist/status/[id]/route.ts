@@ -0,0 +1,126 @@
+/**
+ * Applicant Status API Route
+ * Status portal data and contact detail updates, authorized by the magic link token
+ */
+
+import { NextResponse } from 'next/server';
+import { publicApi } from '../../../../../lib/api-security';
+import { ApplicantPortal } from '../../../../../lib/applicant-portal';
+import { UUIDSchema, WaitlistApplicationSchema } from '../../../../../lib/input-validation';
+import { SecurityAudit, SecurityValidator } from '../../../../../lib/security';
+
+// Fields an applicant can change themselves
+const detailsSchema = WaitlistApplicationSchema.pick({
+  phone: true,
+  notes: true
+});
+
+/**
+ * GET /api/waitlist/status/[id]
+ * Get the applicant's status view (Authorization: Bearer <status token>)
+ */
+export const GET = publicApi(async (context) => {
+  try {
+    const parsedId = UUIDSchema.safeParse(context.request.nextUrl.pathname.split('/').pop());
+
+    if (!parsedId.success || !ApplicantPortal.verifyAccess(context.request.headers.get('authorization'), parsedId.data)) {
+      return NextResponse.json(
+        { error: 'This status link is invalid or has expired' },
+        { status: 401 }
+      );
+    }
+
+    const view = await ApplicantPortal.getStatus(parsedId.data);
+
+    if (!view) {
+      return NextResponse.json(
+        { error: 'Application not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: view
+    });
+
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Status API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  rateLimit: 'moderate'
+});
+
+/**
+ * PATCH /api/waitlist/status/[id]
+ * Update phone and notes while the application is open
+ */
+export const PATCH = publicApi(async (context) => {
+  try {
+    const parsedId = UUIDSchema.safeParse(context.request.nextUrl.pathname.split('/').pop());
+
+    if (!parsedId.success || !ApplicantPortal.verifyAccess(context.request.headers.get('authorization'), parsedId.data)) {
+      return NextResponse.json(
+        { error: 'This status link is invalid or has expired' },
+        { status: 401 }
+      );
+    }
+
+    const body = await context.request.json();
+
+    const validation = SecurityValidator.validateFormData(body, detailsSchema);
+
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validation.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await ApplicantPortal.updateDetails(parsedId.data, validation.data);
+
+    if (!result.success || !result.view) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.view,
+      message: 'Details updated'
+    });
+
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Status update API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  rateLimit: 'strict',
+  schema: detailsSchema
+});
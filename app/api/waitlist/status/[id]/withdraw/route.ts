@@ -0,0 +1,64 @@
+/**
+ * Applicant Withdrawal API Route
+ * Withdraws an application awaiting review and refunds the application fee
+ */
+
+import { NextResponse } from 'next/server';
+import { publicApi } from '../../../../../../lib/api-security';
+import { ApplicantPortal } from '../../../../../../lib/applicant-portal';
+import { UUIDSchema } from '../../../../../../lib/input-validation';
+import { SecurityAudit } from '../../../../../../lib/security';
+
+/**
+ * POST /api/waitlist/status/[id]/withdraw
+ * Withdraw the application (Authorization: Bearer <status token>)
+ */
+export const POST = publicApi(async (context) => {
+  try {
+    const parsedId = UUIDSchema.safeParse(context.request.nextUrl.pathname.split('/').at(-2));
+
+    if (!parsedId.success || !ApplicantPortal.verifyAccess(context.request.headers.get('authorization'), parsedId.data)) {
+      return NextResponse.json(
+        { error: 'This status link is invalid or has expired' },
+        { status: 401 }
+      );
+    }
+
+    const result = await ApplicantPortal.withdraw(parsedId.data, {
+      ip_address: context.ip,
+      user_agent: context.userAgent
+    });
+
+    if (!result.success || !result.view) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...result.view,
+        refund_id: result.refundId
+      },
+      message: 'Application withdrawn'
+    });
+
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Withdrawal API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  rateLimit: 'strict'
+});
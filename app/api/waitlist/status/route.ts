@@ -0,0 +1,70 @@
+/**
+ * Applicant Status Link API Route
+ * Emails a magic link to the applicant status portal
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { publicApi } from '../../../../lib/api-security';
+import { ApplicantPortal } from '../../../../lib/applicant-portal';
+import { SecurityAudit, SecurityValidator, schemas } from '../../../../lib/security';
+
+// Status link request schema
+const statusLinkSchema = z.object({
+  email: schemas.email
+});
+
+/**
+ * POST /api/waitlist/status
+ * Request a status link; the response is the same whether or not the email has applied
+ */
+export const POST = publicApi(async (context) => {
+  try {
+    const body = await context.request.json();
+
+    const validation = SecurityValidator.validateFormData(body, statusLinkSchema);
+
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validation.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    try {
+      await ApplicantPortal.requestLink(validation.data.email, {
+        ip_address: context.ip,
+        user_agent: context.userAgent
+      });
+    } catch (error) {
+      // Same response either way - delivery failures are in the audit log
+      console.error('Status link request failed:', error);
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'If we have an application for this email, a status link is on its way'
+    });
+
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Status link API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  rateLimit: 'strict',
+  rateLimitRules: 'STATUS_LINK',
+  schema: statusLinkSchema
+});
@@ -0,0 +1,68 @@
+/**
+ * Free Waitlist Unsubscribe API Route
+ * Stops invitation campaign emails for a free signup
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { publicApi } from '../../../../lib/api-security';
+import { InvitationCampaigns } from '../../../../lib/invitation-campaigns';
+import { SecurityAudit, SecurityValidator } from '../../../../lib/security';
+
+// Unsubscribe request schema (token comes from the campaign email link)
+const unsubscribeSchema = z.object({
+  token: z.string().min(1).max(2048)
+});
+
+/**
+ * POST /api/waitlist/unsubscribe
+ * Unsubscribe from free waitlist campaign emails
+ */
+export const POST = publicApi(async (context) => {
+  try {
+    const body = await context.request.json();
+
+    const validation = SecurityValidator.validateFormData(body, unsubscribeSchema);
+
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validation.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const unsubscribed = await InvitationCampaigns.unsubscribe(validation.data.token);
+
+    if (!unsubscribed) {
+      return NextResponse.json(
+        { error: 'This unsubscribe link is invalid or has expired' },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Unsubscribed'
+    });
+
+  } catch (error) {
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Unsubscribe API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  rateLimit: 'strict',
+  schema: unsubscribeSchema
+});
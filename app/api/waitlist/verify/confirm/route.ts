@@ -0,0 +1,82 @@
+/**
+ * Contact Verification Confirm API Route
+ * Checks a one-time code and marks the applicant's email or phone as verified
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { publicApi } from '../../../../../lib/api-security';
+import { ContactVerification, VERIFICATION_ERROR_STATUS, VerificationError } from '../../../../../lib/contact-verification';
+import { SecurityAudit, SecurityValidator } from '../../../../../lib/security';
+
+// Code confirmation schema
+const confirmCodeSchema = z.object({
+  applicationId: z.string().uuid(),
+  channel: z.enum(['email', 'phone']),
+  code: z.string().regex(/^\d{4,10}$/, 'Enter the code from your message')
+});
+
+/**
+ * POST /api/waitlist/verify/confirm
+ * Confirm a verification code
+ */
+export const POST = publicApi(async (context) => {
+  try {
+    const body = await context.request.json();
+
+    const validation = SecurityValidator.validateFormData(body, confirmCodeSchema);
+
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validation.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { applicationId, channel, code } = validation.data;
+
+    const application = await ContactVerification.confirmCode(applicationId, channel, code, {
+      ip_address: context.ip,
+      user_agent: context.userAgent
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        channel,
+        email_verified_at: application.email_verified_at || null,
+        phone_verified_at: application.phone_verified_at || null,
+        checkout_requires: ContactVerification.missingForCheckout(application)
+      },
+      message: channel === 'email' ? 'Email verified' : 'Phone verified'
+    });
+
+  } catch (error) {
+    if (error instanceof VerificationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: VERIFICATION_ERROR_STATUS[error.code] }
+      );
+    }
+
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Verification confirm API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  rateLimit: 'moderate',
+  rateLimitRules: 'VERIFICATION_CONFIRM',
+  schema: confirmCodeSchema
+});
@@ -0,0 +1,79 @@
+/**
+ * Contact Verification API Route
+ * Sends a one-time code to the applicant's email or phone
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { publicApi } from '../../../../lib/api-security';
+import { ContactVerification, VERIFICATION_ERROR_STATUS, VerificationError } from '../../../../lib/contact-verification';
+import { SecurityAudit, SecurityValidator } from '../../../../lib/security';
+
+// Code request schema
+const sendCodeSchema = z.object({
+  applicationId: z.string().uuid(),
+  channel: z.enum(['email', 'phone'])
+});
+
+/**
+ * POST /api/waitlist/verify
+ * Send a verification code, replacing any earlier code for the channel
+ */
+export const POST = publicApi(async (context) => {
+  try {
+    const body = await context.request.json();
+
+    const validation = SecurityValidator.validateFormData(body, sendCodeSchema);
+
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validation.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { applicationId, channel } = validation.data;
+
+    const result = await ContactVerification.sendCode(applicationId, channel, {
+      ip_address: context.ip,
+      user_agent: context.userAgent
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        channel,
+        expires_at: result.expires_at
+      },
+      message: channel === 'email' ? 'Verification code sent by email' : 'Verification code sent by SMS'
+    });
+
+  } catch (error) {
+    if (error instanceof VerificationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: VERIFICATION_ERROR_STATUS[error.code] }
+      );
+    }
+
+    SecurityAudit.logSecurityEvent({
+      type: 'suspicious_activity',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      details: `Verification code API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'high'
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, {
+  rateLimit: 'strict',
+  rateLimitRules: 'VERIFICATION_SEND',
+  schema: sendCodeSchema
+});
@@ -0,0 +1,18 @@
+import { Metadata } from 'next'
+import { DeferralForm } from '../../components/forms/deferral-form'
+
+export const metadata: Metadata = {
+  title: 'Defer activation',
+  robots: {
+    index: false,
+    follow: false,
+  },
+}
+
+export default function DeferPage({ searchParams }: { searchParams: { token?: string } }) {
+  return (
+    <main className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <DeferralForm token={searchParams.token || null} />
+    </main>
+  )
+}
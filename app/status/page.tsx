@@ -0,0 +1,25 @@
+import { Metadata } from 'next'
+import { StatusLinkForm, StatusPortal } from '../../components/forms/status-portal'
+import { ApplicantTokens } from '../../lib/applicant-tokens'
+
+export const metadata: Metadata = {
+  title: 'Application status',
+  robots: {
+    index: false,
+    follow: false,
+  },
+}
+
+export default function StatusPage({ searchParams }: { searchParams: { token?: string } }) {
+  const applicationId = searchParams.token ? ApplicantTokens.verify(searchParams.token, 'status') : null
+
+  return (
+    <main className="min-h-screen bg-gray-50 flex items-center justify-center px-4 py-12">
+      {applicationId && searchParams.token ? (
+        <StatusPortal applicationId={applicationId} token={searchParams.token} />
+      ) : (
+        <StatusLinkForm expired={!!searchParams.token} />
+      )}
+    </main>
+  )
+}
@@ -0,0 +1,18 @@
+import { Metadata } from 'next'
+import { UnsubscribeForm } from '../../components/forms/unsubscribe-form'
+
+export const metadata: Metadata = {
+  title: 'Unsubscribe',
+  robots: {
+    index: false,
+    follow: false,
+  },
+}
+
+export default function UnsubscribePage({ searchParams }: { searchParams: { token?: string } }) {
+  return (
+    <main className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <UnsubscribeForm token={searchParams.token || null} />
+    </main>
+  )
+}
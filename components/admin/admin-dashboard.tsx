@@ -0,0 +1,502 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '../ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card'
+import { Checkbox } from '../ui/checkbox'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import { AlertCircle, Check, Clock, Loader2, LogOut, RefreshCw, X } from 'lucide-react'
+import { ApplicationDetailSheet } from './application-detail-sheet'
+import { SecurityAlertsCard } from './security-alerts-card'
+import { ThreatRulesCard } from './threat-rules-card'
+import { SlaReportCard } from './sla-report'
+import { StatusBadge } from './status-badge'
+import { WavesCard } from './waves-card'
+import { AdminApiError, adminFetch, getAdminToken, setAdminToken, verifyAdminToken } from '../../lib/admin-client'
+import { API_ROUTES, FORM_FIELDS, TIER_CONFIG } from '../../lib/constants'
+import { formatDate } from '../../lib/utils'
+import { WaitlistApplication, WaitlistStatus } from '../../types'
+
+type BulkAction = 'accept' | 'reject' | 'defer'
+
+interface Filters {
+  wave: string
+  tier: string
+  status: string
+  bankroll_range: string
+  risk_profile: string
+  country: string
+  min_fraud_score: string
+  recaptcha_verified: string
+}
+
+const EMPTY_FILTERS: Filters = {
+  wave: '',
+  tier: 'all',
+  status: 'all',
+  bankroll_range: 'all',
+  risk_profile: 'all',
+  country: '',
+  min_fraud_score: '',
+  recaptcha_verified: 'all',
+}
+
+const STATUS_OPTIONS: WaitlistStatus[] = [
+  'pending', 'interviewed', 'accepted', 'rejected', 'refunded', 'activated', 'expired', 'deferred',
+]
+
+const PAGE_SIZE = 50
+
+/**
+ * Reviewer dashboard: filterable applicant queue with detail drawer and bulk decisions
+ */
+export function AdminDashboard() {
+  const [authenticated, setAuthenticated] = useState<boolean | null>(null)
+  const [tokenInput, setTokenInput] = useState('')
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS)
+  const [offset, setOffset] = useState(0)
+  const [applications, setApplications] = useState<WaitlistApplication[]>([])
+  const [total, setTotal] = useState(0)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [detailId, setDetailId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [actionPending, setActionPending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  // Restore a token from this browser session
+  useEffect(() => {
+    if (!getAdminToken()) {
+      setAuthenticated(false)
+      return
+    }
+    verifyAdminToken().then(setAuthenticated)
+  }, [])
+
+  const handleUnauthorized = useCallback((err: unknown) => {
+    if (err instanceof AdminApiError && err.status === 403) {
+      setAdminToken(null)
+      setAuthenticated(false)
+      return true
+    }
+    return false
+  }, [])
+
+  const loadApplications = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+
+    const params = new URLSearchParams()
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value && value !== 'all') params.set(key, value)
+    })
+    params.set('limit', String(PAGE_SIZE))
+    params.set('offset', String(offset))
+
+    try {
+      const data = await adminFetch<{ applications: WaitlistApplication[]; total: number }>(
+        `${API_ROUTES.ADMIN_APPLICATIONS}?${params.toString()}`
+      )
+      setApplications(data.applications)
+      setTotal(data.total)
+      setSelectedIds(new Set())
+    } catch (err) {
+      if (!handleUnauthorized(err)) {
+        setError(err instanceof Error ? err.message : 'Failed to load applications')
+      }
+    } finally {
+      setLoading(false)
+    }
+  }, [filters, offset, handleUnauthorized])
+
+  useEffect(() => {
+    if (authenticated) loadApplications()
+  }, [authenticated, loadApplications])
+
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setAdminToken(tokenInput.trim())
+    const valid = await verifyAdminToken()
+    if (!valid) {
+      setAdminToken(null)
+      setError('Invalid admin token')
+    } else {
+      setError(null)
+    }
+    setTokenInput('')
+    setAuthenticated(valid)
+  }
+
+  const handleSignOut = () => {
+    setAdminToken(null)
+    setAuthenticated(false)
+    setApplications([])
+  }
+
+  const updateFilter = (key: keyof Filters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }))
+    setOffset(0)
+  }
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (checked) next.add(id)
+      else next.delete(id)
+      return next
+    })
+  }
+
+  const allSelected = applications.length > 0 && applications.every(a => selectedIds.has(a.id))
+
+  const toggleAll = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(applications.map(a => a.id)) : new Set())
+  }
+
+  const runBulkAction = async (action: BulkAction) => {
+    if (selectedIds.size === 0) return
+    if (action === 'reject' && !window.confirm(`Reject and refund ${selectedIds.size} application(s)?`)) return
+
+    setActionPending(true)
+    setError(null)
+    setNotice(null)
+
+    try {
+      const data = await adminFetch<{ results: Array<{ id: string; success: boolean; error?: string }> }>(
+        API_ROUTES.ADMIN_APPLICATIONS_BULK,
+        {
+          method: 'POST',
+          body: JSON.stringify({ applicationIds: Array.from(selectedIds), action }),
+        }
+      )
+      const failures = data.results.filter(r => !r.success)
+      setNotice(`${data.results.length - failures.length} of ${data.results.length} applications updated`)
+      if (failures.length > 0) {
+        setError(failures.map(f => `${f.id.slice(0, 8)}: ${f.error}`).join('; '))
+      }
+      await loadApplications()
+    } catch (err) {
+      if (!handleUnauthorized(err)) {
+        setError(err instanceof Error ? err.message : 'Bulk action failed')
+      }
+    } finally {
+      setActionPending(false)
+    }
+  }
+
+  if (authenticated === null) {
+    return (
+      <div className="flex items-center justify-center min-h-screen text-gray-600 gap-2">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Checking access...
+      </div>
+    )
+  }
+
+  if (!authenticated) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gray-50 px-4">
+        <Card className="w-full max-w-sm">
+          <CardHeader>
+            <CardTitle>Admin sign in</CardTitle>
+            <CardDescription>Enter the admin access token to review applications.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSignIn} className="space-y-4">
+              <div>
+                <Label htmlFor="adminToken">Admin token</Label>
+                <Input
+                  id="adminToken"
+                  type="password"
+                  autoComplete="off"
+                  value={tokenInput}
+                  onChange={(e) => setTokenInput(e.target.value)}
+                />
+              </div>
+              {error && (
+                <p className="text-sm text-red-600 flex items-center gap-1">
+                  <AlertCircle className="w-3 h-3" />
+                  {error}
+                </p>
+              )}
+              <Button type="submit" className="w-full" disabled={!tokenInput.trim()}>
+                Sign in
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Applicant review</h1>
+            <p className="text-sm text-gray-600">{total} applications match the current filters</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={loadApplications} disabled={loading}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+            <Button variant="ghost" size="sm" onClick={handleSignOut}>
+              <LogOut className="w-4 h-4 mr-2" />
+              Sign out
+            </Button>
+          </div>
+        </div>
+
+        <SlaReportCard onSelect={setDetailId} />
+
+        <WavesCard />
+
+        <SecurityAlertsCard />
+
+        <ThreatRulesCard />
+
+        {/* Filters */}
+        <Card>
+          <CardContent className="p-4 grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <div>
+              <Label htmlFor="filter-wave">Wave</Label>
+              <Input
+                id="filter-wave"
+                type="number"
+                min={1}
+                placeholder="Any"
+                value={filters.wave}
+                onChange={(e) => updateFilter('wave', e.target.value)}
+              />
+            </div>
+            <FilterSelect
+              label="Tier"
+              value={filters.tier}
+              onChange={(value) => updateFilter('tier', value)}
+              options={(['99', '199'] as const).map(tier => ({ value: tier, label: TIER_CONFIG[tier].name }))}
+            />
+            <FilterSelect
+              label="Status"
+              value={filters.status}
+              onChange={(value) => updateFilter('status', value)}
+              options={STATUS_OPTIONS.map(status => ({ value: status, label: status }))}
+            />
+            <FilterSelect
+              label="Bankroll"
+              value={filters.bankroll_range}
+              onChange={(value) => updateFilter('bankroll_range', value)}
+              options={FORM_FIELDS.BANKROLL_OPTIONS}
+            />
+            <FilterSelect
+              label="Risk profile"
+              value={filters.risk_profile}
+              onChange={(value) => updateFilter('risk_profile', value)}
+              options={FORM_FIELDS.RISK_PROFILE_OPTIONS}
+            />
+            <div>
+              <Label htmlFor="filter-country">Country</Label>
+              <Input
+                id="filter-country"
+                placeholder="e.g. US"
+                maxLength={2}
+                value={filters.country}
+                onChange={(e) => updateFilter('country', e.target.value.toUpperCase())}
+              />
+            </div>
+            <div>
+              <Label htmlFor="filter-fraud">Min fraud score</Label>
+              <Input
+                id="filter-fraud"
+                type="number"
+                min={0}
+                max={1}
+                step={0.05}
+                placeholder="0.00 - 1.00"
+                value={filters.min_fraud_score}
+                onChange={(e) => updateFilter('min_fraud_score', e.target.value)}
+              />
+            </div>
+            <FilterSelect
+              label="reCAPTCHA"
+              value={filters.recaptcha_verified}
+              onChange={(value) => updateFilter('recaptcha_verified', value)}
+              options={[
+                { value: 'true', label: 'Verified' },
+                { value: 'false', label: 'Not verified' },
+              ]}
+            />
+          </CardContent>
+        </Card>
+
+        {/* Bulk actions */}
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-gray-600 mr-2">{selectedIds.size} selected</span>
+          <Button
+            size="sm"
+            className="bg-green-600 hover:bg-green-700 text-white"
+            disabled={selectedIds.size === 0 || actionPending}
+            onClick={() => runBulkAction('accept')}
+          >
+            <Check className="w-4 h-4 mr-1" />
+            Accept
+          </Button>
+          <Button
+            size="sm"
+            variant="destructive"
+            disabled={selectedIds.size === 0 || actionPending}
+            onClick={() => runBulkAction('reject')}
+          >
+            <X className="w-4 h-4 mr-1" />
+            Reject &amp; refund
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={selectedIds.size === 0 || actionPending}
+            onClick={() => runBulkAction('defer')}
+          >
+            <Clock className="w-4 h-4 mr-1" />
+            Defer
+          </Button>
+          {actionPending && <Loader2 className="w-4 h-4 animate-spin text-gray-500" />}
+        </div>
+
+        {notice && <p className="text-sm text-green-700">{notice}</p>}
+        {error && (
+          <p className="text-sm text-red-600 flex items-center gap-1">
+            <AlertCircle className="w-3 h-3" />
+            {error}
+          </p>
+        )}
+
+        {/* Queue */}
+        <Card>
+          <CardContent className="p-0 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left text-gray-600">
+                <tr>
+                  <th className="p-3 w-10">
+                    <Checkbox
+                      checked={allSelected}
+                      onCheckedChange={(checked) => toggleAll(checked === true)}
+                      aria-label="Select all"
+                    />
+                  </th>
+                  <th className="p-3">Applicant</th>
+                  <th className="p-3">Tier / Wave</th>
+                  <th className="p-3">Status</th>
+                  <th className="p-3">Bankroll</th>
+                  <th className="p-3">Country</th>
+                  <th className="p-3">Fraud</th>
+                  <th className="p-3">Applied</th>
+                </tr>
+              </thead>
+              <tbody>
+                {applications.map(application => (
+                  <tr
+                    key={application.id}
+                    className="border-t hover:bg-orange-50 cursor-pointer"
+                    onClick={() => setDetailId(application.id)}
+                  >
+                    <td className="p-3" onClick={(e) => e.stopPropagation()}>
+                      <Checkbox
+                        checked={selectedIds.has(application.id)}
+                        onCheckedChange={(checked) => toggleSelected(application.id, checked === true)}
+                        aria-label={`Select ${application.full_name}`}
+                      />
+                    </td>
+                    <td className="p-3">
+                      <div className="font-medium text-gray-900">{application.full_name}</div>
+                      <div className="text-gray-500">{application.email}</div>
+                    </td>
+                    <td className="p-3">
+                      {TIER_CONFIG[application.tier].name} / {application.wave}
+                    </td>
+                    <td className="p-3">
+                      <StatusBadge status={application.status} />
+                    </td>
+                    <td className="p-3">
+                      {FORM_FIELDS.BANKROLL_OPTIONS.find(o => o.value === application.bankroll_range)?.label || '—'}
+                    </td>
+                    <td className="p-3">{application.country || '—'}</td>
+                    <td className="p-3">{application.fraud_score ?? '—'}</td>
+                    <td className="p-3 whitespace-nowrap">{formatDate(application.created_at)}</td>
+                  </tr>
+                ))}
+                {!loading && applications.length === 0 && (
+                  <tr>
+                    <td colSpan={8} className="p-8 text-center text-gray-500">
+                      No applications match these filters.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+
+        {/* Pagination */}
+        <div className="flex items-center justify-between text-sm text-gray-600">
+          <span>
+            {total === 0 ? 0 : offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+          </span>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={offset === 0 || loading}
+              onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+            >
+              Previous
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={offset + PAGE_SIZE >= total || loading}
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <ApplicationDetailSheet
+        applicationId={detailId}
+        onOpenChange={(open) => !open && setDetailId(null)}
+      />
+    </main>
+  )
+}
+
+interface FilterSelectProps {
+  label: string
+  value: string
+  onChange: (value: string) => void
+  options: ReadonlyArray<{ value: string; label: string }>
+}
+
+function FilterSelect({ label, value, onChange, options }: FilterSelectProps) {
+  return (
+    <div>
+      <Label>{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="capitalize">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">Any</SelectItem>
+          {options.map(option => (
+            <SelectItem key={option.value} value={option.value} className="capitalize">
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
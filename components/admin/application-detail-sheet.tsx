@@ -0,0 +1,255 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '../ui/sheet'
+import { Badge } from '../ui/badge'
+import { Loader2, AlertCircle } from 'lucide-react'
+import { adminFetch } from '../../lib/admin-client'
+import { API_ROUTES, FORM_FIELDS, TIER_CONFIG } from '../../lib/constants'
+import { formatDate } from '../../lib/utils'
+import { getAllowedTransitions } from '../../lib/application-lifecycle'
+import type { ApplicationSla, SlaState } from '../../lib/sla'
+import type { QueuePosition } from '../../lib/waitlist-ranking'
+import { WaitlistApplication, SecurityAuditLogEntry, ApplicationStatusHistoryEntry, FraudStatus } from '../../types'
+import { StatusBadge } from './status-badge'
+
+interface ApplicationDetailSheetProps {
+  applicationId: string | null
+  onOpenChange: (open: boolean) => void
+}
+
+interface ApplicationDetail {
+  application: WaitlistApplication
+  status_history: ApplicationStatusHistoryEntry[]
+  audit_log: SecurityAuditLogEntry[]
+  sla: ApplicationSla | null
+  queue: QueuePosition | null
+}
+
+const SEVERITY_STYLES: Record<SecurityAuditLogEntry['severity'], string> = {
+  low: 'bg-gray-100 text-gray-700',
+  medium: 'bg-yellow-100 text-yellow-800',
+  high: 'bg-orange-100 text-orange-800',
+  critical: 'bg-red-100 text-red-800',
+}
+
+const SLA_STATE_CLASS: Record<SlaState, string | undefined> = {
+  on_track: undefined,
+  at_risk: 'text-amber-600',
+  breached: 'text-red-600',
+}
+
+const FRAUD_STATUS_CLASS: Record<FraudStatus, string | undefined> = {
+  clear: undefined,
+  review: 'text-amber-600',
+  hold: 'text-red-600',
+}
+
+const fraudStatus = ({ fraud_status = 'clear', fraud_reviewed_by }: WaitlistApplication): React.ReactNode => (
+  <span className={FRAUD_STATUS_CLASS[fraud_status]}>
+    {fraud_status}{fraud_reviewed_by && ` (reviewed by ${fraud_reviewed_by})`}
+  </span>
+)
+
+const slaDue = (dueAt: string | null, state: SlaState | null): React.ReactNode =>
+  dueAt && state ? (
+    <span className={SLA_STATE_CLASS[state]}>
+      {new Date(dueAt).toLocaleString()}{state !== 'on_track' && ` (${state.replace('_', ' ')})`}
+    </span>
+  ) : '—'
+
+/**
+ * Slide-over panel with the full application, its status history and audit history
+ */
+export function ApplicationDetailSheet({ applicationId, onOpenChange }: ApplicationDetailSheetProps) {
+  const [detail, setDetail] = useState<ApplicationDetail | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!applicationId) {
+      setDetail(null)
+      return
+    }
+
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+
+    adminFetch<ApplicationDetail>(`${API_ROUTES.ADMIN_APPLICATIONS}/${applicationId}`)
+      .then(data => {
+        if (!cancelled) setDetail(data)
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load application')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [applicationId])
+
+  const application = detail?.application
+
+  const fields: Array<[string, React.ReactNode]> = application
+    ? [
+        ['Email', application.email],
+        ['Phone', application.phone || '—'],
+        ['Email verified', application.email_verified_at ? formatDate(application.email_verified_at) : 'No'],
+        ['Phone verified', application.phone_verified_at ? formatDate(application.phone_verified_at) : 'No'],
+        ['Country', application.country || '—'],
+        ['Tier', `${TIER_CONFIG[application.tier].name} ($${TIER_CONFIG[application.tier].price})`],
+        ['Wave', application.wave],
+        ['Queue position', detail?.queue ? `#${detail.queue.position} of ${detail.queue.total}` : '—'],
+        ['Bankroll', FORM_FIELDS.BANKROLL_OPTIONS.find(o => o.value === application.bankroll_range)?.label || '—'],
+        ['Time commitment', FORM_FIELDS.TIME_COMMITMENT_OPTIONS.find(o => o.value === application.time_commitment)?.label || '—'],
+        ['Risk profile', application.risk_profile?.level || '—'],
+        ['Sportsbooks', application.sportsbooks?.join(', ') || '—'],
+        ['Credit', `$${(application.credit_amount_cents / 100).toFixed(2)}`],
+        ['Fraud score', application.fraud_score ?? '—'],
+        ['Fraud status', fraudStatus(application)],
+        ['reCAPTCHA verified', application.recaptcha_verified ? 'Yes' : 'No'],
+        ['Applied', formatDate(application.created_at)],
+        ['Interview scheduled', application.interview_scheduled_at ? formatDate(application.interview_scheduled_at) : '—'],
+        ['Interview completed', application.interview_completed_at ? formatDate(application.interview_completed_at) : '—'],
+        ...(detail?.sla
+          ? [
+              ['Interview due', slaDue(detail.sla.interview_due_at, detail.sla.interview_state)],
+              ['Decision due', slaDue(detail.sla.decision_due_at, detail.sla.decision_state)],
+            ] as Array<[string, React.ReactNode]>
+          : []),
+        ['Decision made', application.decision_made_at ? formatDate(application.decision_made_at) : '—'],
+        ['Activation deadline', application.activation_deadline ? formatDate(application.activation_deadline) : '—'],
+        ['Deferred until', application.deferred_until ? formatDate(application.deferred_until) : '—'],
+        ['Paid', application.paid_at ? formatDate(application.paid_at) : '—'],
+        ['Payment intent', application.stripe_payment_intent_id || '—'],
+        ['Dispute', application.dispute_id
+          ? <span className="text-red-600">{application.dispute_status} ({application.dispute_id})</span>
+          : '—'],
+      ]
+    : []
+
+  return (
+    <Sheet open={!!applicationId} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-3">
+            {application?.full_name || 'Application'}
+            {application && <StatusBadge status={application.status} />}
+          </SheetTitle>
+          <SheetDescription>{applicationId}</SheetDescription>
+        </SheetHeader>
+
+        {loading && (
+          <div className="flex items-center gap-2 text-gray-600 py-8">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading application...
+          </div>
+        )}
+
+        {error && (
+          <p className="text-sm text-red-600 mt-6 flex items-center gap-1">
+            <AlertCircle className="w-3 h-3" />
+            {error}
+          </p>
+        )}
+
+        {application && !loading && (
+          <div className="space-y-8 mt-6">
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-3 text-sm">
+              {fields.map(([label, value]) => (
+                <div key={label}>
+                  <dt className="text-gray-500">{label}</dt>
+                  <dd className="font-medium text-gray-900 break-words">{value}</dd>
+                </div>
+              ))}
+            </dl>
+
+            {application.notes && (
+              <div className="text-sm">
+                <h4 className="text-gray-500 mb-1">Notes</h4>
+                <p className="text-gray-900 whitespace-pre-wrap">{application.notes}</p>
+              </div>
+            )}
+
+            {!!application.fraud_reasons?.length && (
+              <div className="text-sm">
+                <h4 className="text-gray-500 mb-1">Fraud signals</h4>
+                <ul className="space-y-1">
+                  {application.fraud_reasons.map(reason => (
+                    <li key={reason.signal} className="text-gray-900">
+                      <span className="font-medium">{reason.weight}</span> · {reason.detail}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div>
+              <h4 className="font-semibold text-gray-900 mb-3">Status history</h4>
+              <p className="text-xs text-gray-500 mb-3">
+                Next: {getAllowedTransitions(application.status).join(', ') || 'none (final status)'}
+              </p>
+              {detail.status_history.length === 0 ? (
+                <p className="text-sm text-gray-500">No status changes recorded.</p>
+              ) : (
+                <ol className="space-y-3 border-l border-gray-200 pl-4">
+                  {detail.status_history.map(entry => (
+                    <li key={entry.id} className="text-sm">
+                      <div className="flex items-center gap-2">
+                        {entry.from_status && (
+                          <>
+                            <StatusBadge status={entry.from_status} />
+                            <span className="text-gray-400">→</span>
+                          </>
+                        )}
+                        <StatusBadge status={entry.to_status} />
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {new Date(entry.created_at).toLocaleString()}
+                        {` · ${entry.changed_by || 'system'}`}
+                      </p>
+                      {entry.reason && <p className="text-xs text-gray-600">{entry.reason}</p>}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+
+            <div>
+              <h4 className="font-semibold text-gray-900 mb-3">Audit history</h4>
+              {detail.audit_log.length === 0 ? (
+                <p className="text-sm text-gray-500">No audit events recorded.</p>
+              ) : (
+                <ol className="space-y-3 border-l border-gray-200 pl-4">
+                  {detail.audit_log.map(entry => (
+                    <li key={entry.id} className="text-sm">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-gray-900">{entry.event_type}</span>
+                        <Badge variant="outline" className={SEVERITY_STYLES[entry.severity]}>
+                          {entry.severity}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        {new Date(entry.created_at).toLocaleString()}
+                        {entry.ip_address && ` · ${entry.ip_address}`}
+                      </p>
+                      {entry.event_data && (
+                        <pre className="mt-1 text-xs text-gray-600 bg-gray-50 rounded p-2 overflow-x-auto">
+                          {JSON.stringify(entry.event_data, null, 2)}
+                        </pre>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
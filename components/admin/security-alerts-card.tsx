@@ -0,0 +1,277 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '../ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import { Textarea } from '../ui/textarea'
+import { AlertCircle, ChevronDown, ChevronRight, Loader2, RefreshCw } from 'lucide-react'
+import { adminFetch } from '../../lib/admin-client'
+import { API_ROUTES } from '../../lib/constants'
+import type { SecurityAlertEvent } from '../../lib/security-alerts'
+import type { SecurityAlert, SecurityAlertSeverity, SecurityAlertStatus } from '../../lib/security-monitoring'
+
+const ALL = 'all'
+
+const SEVERITY_CLASS: Record<SecurityAlertSeverity, string> = {
+  critical: 'bg-red-100 text-red-800',
+  high: 'bg-orange-100 text-orange-800',
+  medium: 'bg-amber-100 text-amber-800',
+  low: 'bg-gray-100 text-gray-700',
+}
+
+const STATUS_CLASS: Record<SecurityAlertStatus, string> = {
+  open: 'text-red-600',
+  acknowledged: 'text-amber-600',
+  resolved: 'text-green-600',
+}
+
+// Suppress a noisy type + IP for a day; the API takes up to a week
+const SUPPRESS_HOURS = 24
+
+type AlertAction = 'acknowledge' | 'assign' | 'resolve' | 'reopen' | 'suppress' | 'note'
+
+interface AlertDetail {
+  alert: SecurityAlert
+  events: SecurityAlertEvent[]
+}
+
+/**
+ * Security alert queue with each alert's timeline, worked through acknowledge / assign / resolve
+ * (the incident log from docs/SECURITY-INCIDENT-RESPONSE-PLAYBOOK.md)
+ */
+export function SecurityAlertsCard() {
+  const [alerts, setAlerts] = useState<SecurityAlert[]>([])
+  const [total, setTotal] = useState(0)
+  const [status, setStatus] = useState<string>('open')
+  const [severity, setSeverity] = useState<string>(ALL)
+  const [detail, setDetail] = useState<AlertDetail | null>(null)
+  const [note, setNote] = useState('')
+  const [assignee, setAssignee] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadAlerts = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({ limit: '25' })
+      if (status !== ALL) params.set('status', status)
+      if (severity !== ALL) params.set('severity', severity)
+
+      const data = await adminFetch<{ alerts: SecurityAlert[]; total: number }>(`${API_ROUTES.ADMIN_ALERTS}?${params}`)
+      setAlerts(data.alerts)
+      setTotal(data.total)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load security alerts')
+    } finally {
+      setLoading(false)
+    }
+  }, [status, severity])
+
+  useEffect(() => {
+    loadAlerts()
+  }, [loadAlerts])
+
+  const toggleDetail = async (alert: SecurityAlert) => {
+    if (detail?.alert.id === alert.id) {
+      setDetail(null)
+      return
+    }
+
+    setError(null)
+    setNote('')
+    setAssignee(alert.assignedTo || '')
+    try {
+      setDetail(await adminFetch<AlertDetail>(`${API_ROUTES.ADMIN_ALERTS}/${alert.id}`))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load alert')
+    }
+  }
+
+  const runAction = async (action: AlertAction) => {
+    if (!detail) return
+
+    const payload: Record<string, unknown> = { action }
+    if (note.trim()) payload.note = note.trim()
+    if (action === 'assign') payload.assignee = assignee.trim()
+    if (action === 'suppress') payload.hours = isSuppressed(detail.alert) ? 0 : SUPPRESS_HOURS
+
+    setSaving(true)
+    setError(null)
+    try {
+      setDetail(await adminFetch<AlertDetail>(`${API_ROUTES.ADMIN_ALERTS}/${detail.alert.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(payload),
+      }))
+      setNote('')
+      await loadAlerts()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} alert`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const current = detail?.alert
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="text-lg">Security alerts</CardTitle>
+          <CardDescription>{total} alerts match · repeats of a type from the same IP are grouped</CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={loadAlerts} disabled={loading}>
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <p className="text-sm text-red-600 flex items-center gap-1">
+            <AlertCircle className="w-3 h-3" />
+            {error}
+          </p>
+        )}
+
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+          <div>
+            <Label>Status</Label>
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger className="capitalize">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[ALL, 'open', 'acknowledged', 'resolved'].map(value => (
+                  <SelectItem key={value} value={value} className="capitalize">{value}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Severity</Label>
+            <Select value={severity} onValueChange={setSeverity}>
+              <SelectTrigger className="capitalize">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[ALL, 'critical', 'high', 'medium', 'low'].map(value => (
+                  <SelectItem key={value} value={value} className="capitalize">{value}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {alerts.length === 0 && !loading && (
+          <p className="text-sm text-gray-500">No alerts match these filters.</p>
+        )}
+
+        <ul className="divide-y text-sm">
+          {alerts.map(alert => (
+            <li key={alert.id} className="py-2">
+              <button
+                type="button"
+                className="w-full flex flex-wrap items-center justify-between gap-2 text-left"
+                onClick={() => toggleDetail(alert)}
+              >
+                <div className="flex items-center gap-2">
+                  {detail?.alert.id === alert.id ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                  <span className={`px-2 py-0.5 rounded text-xs font-medium uppercase ${SEVERITY_CLASS[alert.severity]}`}>
+                    {alert.severity}
+                  </span>
+                  <span className="font-medium text-gray-900">{alert.title}</span>
+                  {alert.occurrences > 1 && <span className="text-gray-500">×{alert.occurrences}</span>}
+                </div>
+                <div className="flex items-center gap-3 text-gray-600">
+                  {alert.metadata.ip && <span className="font-mono text-xs">{alert.metadata.ip}</span>}
+                  {alert.assignedTo && <span>→ {alert.assignedTo}</span>}
+                  <span className={`capitalize ${STATUS_CLASS[alert.status]}`}>{alert.status}</span>
+                  <span>{new Date(alert.lastSeenAt).toLocaleString()}</span>
+                </div>
+              </button>
+
+              {detail && current && current.id === alert.id && (
+                <div className="mt-3 ml-6 space-y-4">
+                  <p className="text-gray-700">{current.description}</p>
+                  {isSuppressed(current) && (
+                    <p className="text-amber-700">
+                      Repeats suppressed until {new Date(current.suppressedUntil as string).toLocaleString()}
+                    </p>
+                  )}
+
+                  <ol className="border-l pl-4 space-y-2">
+                    {detail.events.map(event => (
+                      <li key={event.id}>
+                        <div className="text-gray-900">
+                          <span className="capitalize font-medium">{event.action}</span>
+                          <span className="text-gray-500"> · {event.actor} · {new Date(event.createdAt).toLocaleString()}</span>
+                        </div>
+                        {event.note && <p className="text-gray-600 whitespace-pre-wrap">{event.note}</p>}
+                      </li>
+                    ))}
+                  </ol>
+
+                  <div className="grid gap-3 sm:grid-cols-2">
+                    <div>
+                      <Label htmlFor="alert-note">Note</Label>
+                      <Textarea
+                        id="alert-note"
+                        rows={2}
+                        value={note}
+                        placeholder="Observations, containment steps, resolution"
+                        onChange={(e) => setNote(e.target.value)}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="alert-assignee">Assignee</Label>
+                      <Input
+                        id="alert-assignee"
+                        value={assignee}
+                        placeholder="Security lead"
+                        onChange={(e) => setAssignee(e.target.value)}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="flex flex-wrap gap-2">
+                    {saving && <Loader2 className="w-4 h-4 animate-spin self-center" />}
+                    {current.status === 'open' && (
+                      <Button size="sm" onClick={() => runAction('acknowledge')} disabled={saving}>Acknowledge</Button>
+                    )}
+                    {current.status !== 'resolved' && (
+                      <>
+                        <Button size="sm" variant="outline" onClick={() => runAction('assign')} disabled={saving || !assignee.trim()}>
+                          Assign
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => runAction('resolve')} disabled={saving || !note.trim()}>
+                          Resolve
+                        </Button>
+                      </>
+                    )}
+                    {current.status === 'resolved' && (
+                      <Button size="sm" variant="outline" onClick={() => runAction('reopen')} disabled={saving}>Reopen</Button>
+                    )}
+                    <Button size="sm" variant="outline" onClick={() => runAction('suppress')} disabled={saving}>
+                      {isSuppressed(current) ? 'Lift suppression' : `Suppress ${SUPPRESS_HOURS}h`}
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => runAction('note')} disabled={saving || !note.trim()}>
+                      Add note
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  )
+}
+
+function isSuppressed(alert: SecurityAlert): boolean {
+  return Boolean(alert.suppressedUntil && new Date(alert.suppressedUntil) > new Date())
+}
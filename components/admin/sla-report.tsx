@@ -0,0 +1,104 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '../ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card'
+import { AlertCircle, Loader2, RefreshCw } from 'lucide-react'
+import { StatusBadge } from './status-badge'
+import { adminFetch } from '../../lib/admin-client'
+import { API_ROUTES, TIER_CONFIG } from '../../lib/constants'
+import type { ApplicationSla, SlaReportData } from '../../lib/sla'
+
+interface SlaReportCardProps {
+  onSelect: (applicationId: string) => void
+}
+
+/**
+ * Breached and at-risk review deadlines (interview and decision SLAs)
+ */
+export function SlaReportCard({ onSelect }: SlaReportCardProps) {
+  const [report, setReport] = useState<SlaReportData | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadReport = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      setReport(await adminFetch<SlaReportData>(API_ROUTES.ADMIN_SLA))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load SLA report')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadReport()
+  }, [loadReport])
+
+  const rows = report ? [...report.breached, ...report.at_risk] : []
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="text-lg">Review SLAs</CardTitle>
+          <CardDescription>
+            {report
+              ? `${report.breached.length} breached, ${report.at_risk.length} at risk of ${report.open} open applications`
+              : 'Interview and decision deadlines for open applications'}
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={loadReport} disabled={loading}>
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <p className="text-sm text-red-600 flex items-center gap-1">
+            <AlertCircle className="w-3 h-3" />
+            {error}
+          </p>
+        )}
+        {!report && loading && <Loader2 className="w-4 h-4 animate-spin text-gray-500" />}
+        {report && rows.length === 0 && (
+          <p className="text-sm text-gray-500">All open applications are on track.</p>
+        )}
+        {rows.length > 0 && (
+          <ul className="divide-y text-sm">
+            {rows.map(sla => (
+              <li
+                key={sla.application_id}
+                className="py-2 flex flex-wrap items-center justify-between gap-2 cursor-pointer hover:bg-orange-50"
+                onClick={() => onSelect(sla.application_id)}
+              >
+                <div>
+                  <span className="font-medium text-gray-900">{sla.full_name}</span>
+                  <span className="text-gray-500"> · {TIER_CONFIG[sla.tier].name}</span>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className={isBreached(sla) ? 'text-red-600' : 'text-amber-600'}>
+                    {describeDeadline(sla)}
+                  </span>
+                  <StatusBadge status={sla.status} />
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+const isBreached = (sla: ApplicationSla) => sla.interview_breached || sla.decision_breached
+
+function describeDeadline(sla: ApplicationSla): string {
+  const interviewFlagged = sla.interview_due_at && sla.interview_state !== 'on_track'
+  const kind = interviewFlagged && (sla.interview_breached || !sla.decision_breached) ? 'Interview' : 'Decision'
+  const dueAt = kind === 'Interview' ? sla.interview_due_at! : sla.decision_due_at
+  const verb = new Date(dueAt) < new Date() ? 'was due' : 'due'
+
+  return `${kind} ${verb} ${new Date(dueAt).toLocaleString()}`
+}
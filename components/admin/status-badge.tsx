@@ -0,0 +1,22 @@
+import { Badge } from '../ui/badge'
+import { cn } from '../../lib/utils'
+import { WaitlistStatus } from '../../types'
+
+const STATUS_STYLES: Record<WaitlistStatus, string> = {
+  pending: 'bg-gray-100 text-gray-800',
+  interviewed: 'bg-blue-100 text-blue-800',
+  accepted: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  refunded: 'bg-purple-100 text-purple-800',
+  activated: 'bg-emerald-100 text-emerald-800',
+  expired: 'bg-stone-200 text-stone-700',
+  deferred: 'bg-yellow-100 text-yellow-800',
+}
+
+export function StatusBadge({ status, className }: { status: WaitlistStatus; className?: string }) {
+  return (
+    <Badge variant="outline" className={cn('border-transparent capitalize', STATUS_STYLES[status], className)}>
+      {status}
+    </Badge>
+  )
+}
@@ -0,0 +1,159 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '../ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import { AlertCircle, ChevronDown, ChevronRight, RefreshCw } from 'lucide-react'
+import { adminFetch } from '../../lib/admin-client'
+import { API_ROUTES } from '../../lib/constants'
+import type { ThreatRule, ThreatRuleHit, ThreatRuleMode, ThreatRuleStats } from '../../lib/threat-rules'
+
+type RuleWithStats = ThreatRule & { stats: ThreatRuleStats | null }
+
+const STATS_DAYS = 7
+
+const MODE_CLASS: Record<ThreatRuleMode, string> = {
+  enforce: 'text-red-600',
+  shadow: 'text-amber-600',
+  disabled: 'text-gray-500',
+}
+
+/**
+ * Threat rules with their hits over the last week; switch a rule between shadow and enforce
+ * and review its latest hits for false positives
+ */
+export function ThreatRulesCard() {
+  const [rules, setRules] = useState<RuleWithStats[]>([])
+  const [openId, setOpenId] = useState<string | null>(null)
+  const [hits, setHits] = useState<ThreatRuleHit[]>([])
+  const [loading, setLoading] = useState(false)
+  const [savingId, setSavingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadRules = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const data = await adminFetch<{ rules: RuleWithStats[] }>(`${API_ROUTES.ADMIN_THREAT_RULES}?days=${STATS_DAYS}`)
+      setRules(data.rules)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load threat rules')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadRules()
+  }, [loadRules])
+
+  const toggleHits = async (rule: RuleWithStats) => {
+    if (openId === rule.id) {
+      setOpenId(null)
+      return
+    }
+
+    setError(null)
+    try {
+      const data = await adminFetch<{ rule: ThreatRule; hits: ThreatRuleHit[] }>(`${API_ROUTES.ADMIN_THREAT_RULES}/${rule.id}`)
+      setHits(data.hits)
+      setOpenId(rule.id)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load rule hits')
+    }
+  }
+
+  const setMode = async (rule: RuleWithStats, mode: ThreatRuleMode) => {
+    setSavingId(rule.id)
+    setError(null)
+    try {
+      await adminFetch<ThreatRule>(`${API_ROUTES.ADMIN_THREAT_RULES}/${rule.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ mode }),
+      })
+      await loadRules()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update threat rule')
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="text-lg">Threat rules</CardTitle>
+          <CardDescription>Hits over the last {STATS_DAYS} days · shadow rules record hits without blocking</CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={loadRules} disabled={loading}>
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <p className="text-sm text-red-600 flex items-center gap-1">
+            <AlertCircle className="w-3 h-3" />
+            {error}
+          </p>
+        )}
+
+        <ul className="divide-y text-sm">
+          {rules.map(rule => (
+            <li key={rule.id} className="py-2">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <button type="button" className="flex items-center gap-2 text-left" onClick={() => toggleHits(rule)}>
+                  {openId === rule.id ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                  <span className="font-medium text-gray-900">{rule.name}</span>
+                  <span className="text-gray-500 uppercase text-xs">{rule.severity}</span>
+                </button>
+                <div className="flex items-center gap-3 text-gray-600">
+                  <span>
+                    {rule.stats
+                      ? `${rule.stats.hits} hits · ${rule.stats.blocked} blocked · ${rule.stats.shadow} shadow · ${rule.stats.uniqueIps} IPs`
+                      : 'No hits'}
+                  </span>
+                  <Select
+                    value={rule.mode}
+                    onValueChange={(value) => setMode(rule, value as ThreatRuleMode)}
+                    disabled={savingId === rule.id}
+                  >
+                    <SelectTrigger className={`w-32 capitalize ${MODE_CLASS[rule.mode]}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(['enforce', 'shadow', 'disabled'] as const).map(value => (
+                        <SelectItem key={value} value={value} className="capitalize">{value}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {openId === rule.id && (
+                <div className="mt-3 ml-6 space-y-2">
+                  <p className="text-gray-700">{rule.description}</p>
+                  <p className="text-gray-500">
+                    Inspects {rule.targets.join(', ')}
+                    {rule.allowPaths.length > 0 && ` · skips ${rule.allowPaths.join(', ')}`}
+                  </p>
+                  {hits.length === 0 && <p className="text-gray-500">No recent hits.</p>}
+                  <ol className="border-l pl-4 space-y-1">
+                    {hits.map(hit => (
+                      <li key={hit.id}>
+                        <span className="capitalize font-medium">{hit.outcome}</span>
+                        <span className="text-gray-500"> · {hit.method} {hit.path} · {hit.target} · {new Date(hit.createdAt).toLocaleString()}</span>
+                        <code className="block font-mono text-xs text-gray-700 break-all">{hit.matched}</code>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  )
+}
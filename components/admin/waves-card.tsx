@@ -0,0 +1,258 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '../ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import { AlertCircle, Loader2, Pencil, Plus, RefreshCw, Trash2 } from 'lucide-react'
+import { adminFetch } from '../../lib/admin-client'
+import { API_ROUTES, TIER_CONFIG } from '../../lib/constants'
+import { WaitlistTier, WaveSeats, WaveStatus } from '../../types'
+
+const WAVE_STATUS_OPTIONS: WaveStatus[] = ['upcoming', 'open', 'full', 'closed']
+
+const WAVE_STATUS_CLASS: Record<WaveStatus, string> = {
+  upcoming: 'text-blue-600',
+  open: 'text-green-600',
+  full: 'text-amber-600',
+  closed: 'text-gray-500',
+}
+
+interface WaveForm {
+  tier: WaitlistTier
+  totalSeats: string
+  status: WaveStatus
+  opensAt: string
+  closesAt: string
+}
+
+const EMPTY_FORM: WaveForm = {
+  tier: '99',
+  totalSeats: '100',
+  status: 'upcoming',
+  opensAt: '',
+  closesAt: '',
+}
+
+/**
+ * Wave configuration: seats, schedule and status per wave; the schedule cron opens and closes dated waves
+ */
+export function WavesCard() {
+  const [waves, setWaves] = useState<WaveSeats[]>([])
+  const [form, setForm] = useState<WaveForm>(EMPTY_FORM)
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadWaves = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      setWaves(await adminFetch<WaveSeats[]>(API_ROUTES.ADMIN_WAVES))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load waves')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadWaves()
+  }, [loadWaves])
+
+  const startEdit = (wave: WaveSeats) => {
+    setEditingId(wave.id)
+    setForm({
+      tier: wave.tier,
+      totalSeats: String(wave.total_seats),
+      status: wave.status,
+      opensAt: toLocalInput(wave.opens_at),
+      closesAt: toLocalInput(wave.closes_at),
+    })
+  }
+
+  const resetForm = () => {
+    setEditingId(null)
+    setForm(EMPTY_FORM)
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      const payload = {
+        totalSeats: Number(form.totalSeats),
+        status: form.status,
+        opensAt: form.opensAt ? new Date(form.opensAt).toISOString() : null,
+        closesAt: form.closesAt ? new Date(form.closesAt).toISOString() : null,
+      }
+
+      if (editingId === null) {
+        await adminFetch(API_ROUTES.ADMIN_WAVES, {
+          method: 'POST',
+          body: JSON.stringify({ ...payload, tier: form.tier }),
+        })
+      } else {
+        await adminFetch(`${API_ROUTES.ADMIN_WAVES}/${editingId}`, {
+          method: 'PATCH',
+          body: JSON.stringify(payload),
+        })
+      }
+
+      resetForm()
+      await loadWaves()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save wave')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (wave: WaveSeats) => {
+    if (!window.confirm(`Delete wave ${wave.id}?`)) return
+
+    setError(null)
+    try {
+      await adminFetch(`${API_ROUTES.ADMIN_WAVES}/${wave.id}`, { method: 'DELETE' })
+      if (editingId === wave.id) resetForm()
+      await loadWaves()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete wave')
+    }
+  }
+
+  const updateForm = (key: keyof WaveForm, value: string) => {
+    setForm(prev => ({ ...prev, [key]: value }))
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="text-lg">Waves</CardTitle>
+          <CardDescription>New applications join the oldest open wave of their tier</CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={loadWaves} disabled={loading}>
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <p className="text-sm text-red-600 flex items-center gap-1">
+            <AlertCircle className="w-3 h-3" />
+            {error}
+          </p>
+        )}
+
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-6 items-end">
+          <div>
+            <Label>Tier</Label>
+            <Select value={form.tier} onValueChange={(value) => updateForm('tier', value)} disabled={editingId !== null}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(['99', '199'] as const).map(tier => (
+                  <SelectItem key={tier} value={tier}>{TIER_CONFIG[tier].name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="wave-seats">Seats</Label>
+            <Input
+              id="wave-seats"
+              type="number"
+              min={1}
+              value={form.totalSeats}
+              onChange={(e) => updateForm('totalSeats', e.target.value)}
+            />
+          </div>
+          <div>
+            <Label>Status</Label>
+            <Select value={form.status} onValueChange={(value) => updateForm('status', value)}>
+              <SelectTrigger className="capitalize">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WAVE_STATUS_OPTIONS.map(status => (
+                  <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="wave-opens">Opens</Label>
+            <Input
+              id="wave-opens"
+              type="datetime-local"
+              value={form.opensAt}
+              onChange={(e) => updateForm('opensAt', e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="wave-closes">Closes</Label>
+            <Input
+              id="wave-closes"
+              type="datetime-local"
+              value={form.closesAt}
+              onChange={(e) => updateForm('closesAt', e.target.value)}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleSave} disabled={saving || !(Number(form.totalSeats) > 0)}>
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : editingId === null ? <Plus className="w-4 h-4 mr-1" /> : null}
+              {editingId === null ? 'Add wave' : `Save wave ${editingId}`}
+            </Button>
+            {editingId !== null && (
+              <Button size="sm" variant="ghost" onClick={resetForm}>Cancel</Button>
+            )}
+          </div>
+        </div>
+
+        {waves.length > 0 && (
+          <ul className="divide-y text-sm">
+            {waves.map(wave => (
+              <li key={wave.id} className="py-2 flex flex-wrap items-center justify-between gap-2">
+                <div>
+                  <span className="font-medium text-gray-900">Wave {wave.id}</span>
+                  <span className="text-gray-500"> · {TIER_CONFIG[wave.tier].name}</span>
+                  <span className={`ml-2 capitalize ${WAVE_STATUS_CLASS[wave.status]}`}>{wave.status}</span>
+                </div>
+                <div className="flex items-center gap-3 text-gray-600">
+                  <span>{wave.filled_seats} / {wave.total_seats} seats</span>
+                  <span>{describeSchedule(wave)}</span>
+                  <Button variant="ghost" size="sm" onClick={() => startEdit(wave)}>
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(wave)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function describeSchedule(wave: WaveSeats): string {
+  if (!wave.opens_at && !wave.closes_at) return 'No schedule'
+
+  const opens = wave.opens_at ? new Date(wave.opens_at).toLocaleString() : 'now'
+  const closes = wave.closes_at ? new Date(wave.closes_at).toLocaleString() : 'open-ended'
+  return `${opens} → ${closes}`
+}
+
+// ISO timestamp to a datetime-local input value in the browser's timezone
+function toLocalInput(value?: string): string {
+  if (!value) return ''
+
+  const date = new Date(value)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
@@ -0,0 +1,104 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '../ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card'
+import { Label } from '../ui/label'
+import { RadioGroup, RadioGroupItem } from '../ui/radio-group'
+import { AlertCircle, Check, Loader2 } from 'lucide-react'
+import { API_ROUTES, MEMBERSHIP_PLANS, MEMBERSHIP_PLAN_IDS, MembershipPlan } from '../../lib/constants'
+import { formatCurrency } from '../../lib/utils'
+
+interface ActivationFormProps {
+  token: string | null
+  completed: boolean
+  cancelled: boolean
+}
+
+/**
+ * Plan selection for the activation link; hands off to Stripe Checkout
+ */
+export function ActivationForm({ token, completed, cancelled }: ActivationFormProps) {
+  const [plan, setPlan] = useState<MembershipPlan>('founders_monthly')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(
+    token || completed || cancelled ? null : 'This activation link is missing its token.'
+  )
+
+  const handleCheckout = async () => {
+    if (!token) return
+
+    setSubmitting(true)
+    setError(null)
+
+    try {
+      const response = await fetch(API_ROUTES.MEMBERSHIP_ACTIVATE, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, plan }),
+      })
+      const body = await response.json().catch(() => ({}))
+
+      if (!response.ok || !body.data?.checkout_url) {
+        setError(body.error || 'Unable to start checkout')
+        setSubmitting(false)
+        return
+      }
+
+      window.location.href = body.data.checkout_url
+    } catch {
+      setError('Network error, please try again')
+      setSubmitting(false)
+    }
+  }
+
+  if (completed) {
+    return (
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Payment received</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-green-700 flex items-center gap-2">
+            <Check className="w-4 h-4" />
+            Your membership is being activated. We&apos;ll email you as soon as it&apos;s live.
+          </p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle>Activate your membership</CardTitle>
+        <CardDescription>
+          Your FastTrack credit is applied automatically to your first payment.
+          {cancelled && ' Checkout was cancelled - open the link from your email to try again.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <RadioGroup value={plan} onValueChange={(value) => setPlan(value as MembershipPlan)}>
+          {MEMBERSHIP_PLAN_IDS.map(planId => (
+            <div key={planId} className="flex items-center space-x-2">
+              <RadioGroupItem value={planId} id={planId} />
+              <Label htmlFor={planId}>
+                {MEMBERSHIP_PLANS[planId].name} - {formatCurrency(MEMBERSHIP_PLANS[planId].price)}/{MEMBERSHIP_PLANS[planId].interval}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+        <Button className="w-full" onClick={handleCheckout} disabled={!token || submitting}>
+          {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Continue to payment
+        </Button>
+        {error && (
+          <p className="text-sm text-red-600 flex items-center gap-1">
+            <AlertCircle className="w-3 h-3" />
+            {error}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,152 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '../ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { AlertCircle, Check, Loader2 } from 'lucide-react'
+import { API_ROUTES } from '../../lib/constants'
+import { VerificationChannel } from '../../types'
+
+const CHANNEL_LABELS: Record<VerificationChannel, string> = {
+  email: 'email',
+  phone: 'phone number',
+}
+
+interface ContactVerificationFormProps {
+  applicationId: string
+  // Contacts checkout still requires, from the create-checkout `unverified` response
+  channels: VerificationChannel[]
+  onVerified: () => void
+}
+
+/**
+ * One-time code step before checkout, for tiers that require a verified email and/or phone
+ */
+export function ContactVerificationForm({ applicationId, channels, onVerified }: ContactVerificationFormProps) {
+  const [remaining, setRemaining] = useState<VerificationChannel[]>(channels)
+  const [codeSent, setCodeSent] = useState(false)
+  const [code, setCode] = useState('')
+  const [sending, setSending] = useState(false)
+  const [confirming, setConfirming] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const channel = remaining[0]
+
+  const post = async (path: string, payload: Record<string, string>) => {
+    const response = await fetch(path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ applicationId, channel, ...payload }),
+    })
+    const body = await response.json().catch(() => ({}))
+
+    if (!response.ok) {
+      throw new Error(body.details?.[0] || body.error || 'Request failed')
+    }
+
+    return body
+  }
+
+  const handleSend = async () => {
+    setSending(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const body = await post(API_ROUTES.WAITLIST_VERIFY, {})
+      setCodeSent(true)
+      setMessage(body.message || 'Verification code sent')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to send a code')
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const handleConfirm = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setConfirming(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const body = await post(API_ROUTES.WAITLIST_VERIFY_CONFIRM, { code: code.trim() })
+      const next: VerificationChannel[] = body.data?.checkout_requires || []
+
+      setRemaining(next)
+      setCodeSent(false)
+      setCode('')
+
+      if (next.length === 0) {
+        onVerified()
+      } else {
+        setMessage(body.message || 'Verified')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to verify the code')
+    } finally {
+      setConfirming(false)
+    }
+  }
+
+  return (
+    <Card className="w-full max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle>Verify your {channel ? CHANNEL_LABELS[channel] : 'contact details'}</CardTitle>
+        <CardDescription>
+          This tier requires a verified {channels.map(c => CHANNEL_LABELS[c]).join(' and ')} before payment.
+          We&apos;ll send you a one-time code.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {channel && (
+          codeSent ? (
+            <form onSubmit={handleConfirm} className="space-y-3">
+              <div>
+                <Label htmlFor="verification-code">Code</Label>
+                <Input
+                  id="verification-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  required
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button type="submit" disabled={confirming || !code.trim()}>
+                  {confirming && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Verify
+                </Button>
+                <Button type="button" variant="ghost" onClick={handleSend} disabled={sending}>
+                  Send a new code
+                </Button>
+              </div>
+            </form>
+          ) : (
+            <Button className="w-full" onClick={handleSend} disabled={sending}>
+              {sending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Send code to my {CHANNEL_LABELS[channel]}
+            </Button>
+          )
+        )}
+
+        {message && (
+          <p className="text-sm text-green-700 flex items-center gap-2">
+            <Check className="w-4 h-4" />
+            {message}
+          </p>
+        )}
+        {error && (
+          <p className="text-sm text-red-600 flex items-center gap-1">
+            <AlertCircle className="w-3 h-3" />
+            {error}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
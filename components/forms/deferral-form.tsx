@@ -0,0 +1,79 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '../ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card'
+import { AlertCircle, Check, Loader2 } from 'lucide-react'
+import { API_ROUTES } from '../../lib/constants'
+import { formatDate } from '../../lib/utils'
+
+interface DeferralFormProps {
+  token: string | null
+}
+
+/**
+ * Confirmation step for the one-time activation deferral link in the acceptance email
+ */
+export function DeferralForm({ token }: DeferralFormProps) {
+  const [submitting, setSubmitting] = useState(false)
+  const [deferredUntil, setDeferredUntil] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(token ? null : 'This deferral link is missing its token.')
+
+  const handleConfirm = async () => {
+    if (!token) return
+
+    setSubmitting(true)
+    setError(null)
+
+    try {
+      const response = await fetch(API_ROUTES.WAITLIST_DEFER, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      })
+      const body = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        setError(body.error || 'Unable to defer activation')
+        return
+      }
+
+      setDeferredUntil(body.data.deferred_until)
+    } catch {
+      setError('Network error, please try again')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle>Defer your activation</CardTitle>
+        <CardDescription>
+          You can defer once, by 30 days. After the new deadline your seat is released and your
+          fee becomes site credit valid for 6 months.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {deferredUntil ? (
+          <p className="text-sm text-green-700 flex items-center gap-2">
+            <Check className="w-4 h-4" />
+            Your seat is held until {formatDate(deferredUntil)}.
+          </p>
+        ) : (
+          <Button className="w-full" onClick={handleConfirm} disabled={!token || submitting}>
+            {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Confirm deferral
+          </Button>
+        )}
+        {error && (
+          <p className="text-sm text-red-600 flex items-center gap-1">
+            <AlertCircle className="w-3 h-3" />
+            {error}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,124 @@
+'use client'
+
+import { useCallback, useRef, useState } from 'react'
+import { Button } from '../ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Recaptcha, type RecaptchaRef } from '../ui/recaptcha'
+import { AlertCircle, Check, Loader2 } from 'lucide-react'
+import { API_ROUTES } from '../../lib/constants'
+
+interface FreeSignupCardProps {
+  className?: string
+}
+
+/**
+ * Compact free waitlist signup, for visitors not ready for FastTrack
+ */
+export function FreeSignupCard({ className = '' }: FreeSignupCardProps) {
+  const recaptchaRef = useRef<RecaptchaRef>(null)
+  const [fullName, setFullName] = useState('')
+  const [email, setEmail] = useState('')
+  const [captchaToken, setCaptchaToken] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [joined, setJoined] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleCaptchaVerify = useCallback((token: string) => {
+    setCaptchaToken(token)
+  }, [])
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+
+    if (!captchaToken) {
+      setError('Please complete the security verification')
+      return
+    }
+
+    setSubmitting(true)
+    setError(null)
+
+    try {
+      // Forward the page's query string so UTM attribution reaches the API
+      const response = await fetch(`${API_ROUTES.WAITLIST_FREE}${window.location.search}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          full_name: fullName,
+          email,
+          'g-recaptcha-response': captchaToken,
+        }),
+      })
+      const body = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        setError(body.details?.[0] || body.error || 'Unable to join the waitlist')
+        recaptchaRef.current?.reset()
+        setCaptchaToken('')
+        return
+      }
+
+      setJoined(true)
+    } catch {
+      setError('Network error, please try again')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Card className={`w-full max-w-md mx-auto ${className}`}>
+      <CardHeader>
+        <CardTitle>Not ready for FastTrack?</CardTitle>
+        <CardDescription>
+          Join the free waitlist and we&apos;ll email you as founders seats open up.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {joined ? (
+          <p className="text-sm text-green-700 flex items-center gap-2">
+            <Check className="w-4 h-4" />
+            You&apos;re on the list. Check your inbox for a confirmation.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="free-full-name">Full Name</Label>
+              <Input
+                id="free-full-name"
+                value={fullName}
+                onChange={(e) => setFullName(e.target.value)}
+                autoComplete="name"
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="free-email">Email</Label>
+              <Input
+                id="free-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                autoComplete="email"
+                required
+              />
+            </div>
+            <Recaptcha ref={recaptchaRef} onVerify={handleCaptchaVerify} />
+            <Button type="submit" variant="outline" className="w-full" disabled={submitting}>
+              {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Join the free waitlist
+            </Button>
+            {error && (
+              <p className="text-sm text-red-600 flex items-center gap-1">
+                <AlertCircle className="w-3 h-3" />
+                {error}
+              </p>
+            )}
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,382 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '../ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Textarea } from '../ui/textarea'
+import { ContactVerificationForm } from './contact-verification-form'
+import { AlertCircle, Check, Loader2 } from 'lucide-react'
+import { API_ROUTES, TIER_CONFIG } from '../../lib/constants'
+import { formatCurrency, formatDate } from '../../lib/utils'
+import type { ApplicantStatusView } from '../../lib/applicant-portal'
+import { VerificationChannel, WaitlistStatus } from '../../types'
+
+const STATUS_LABELS: Record<WaitlistStatus, string> = {
+  pending: 'Awaiting interview',
+  interviewed: 'Interviewed, decision pending',
+  accepted: 'Accepted, awaiting activation',
+  rejected: 'Closed',
+  refunded: 'Closed and refunded',
+  activated: 'Membership active',
+  expired: 'Seat released',
+  deferred: 'Deferred',
+}
+
+interface StatusPortalProps {
+  applicationId: string
+  token: string
+}
+
+/**
+ * Applicant status portal opened from the emailed magic link
+ */
+export function StatusPortal({ applicationId, token }: StatusPortalProps) {
+  const [view, setView] = useState<ApplicantStatusView | null>(null)
+  const [phone, setPhone] = useState('')
+  const [notes, setNotes] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [withdrawing, setWithdrawing] = useState(false)
+  const [confirmWithdraw, setConfirmWithdraw] = useState(false)
+  const [paying, setPaying] = useState(false)
+  // Contacts to verify before checkout, when the tier requires it
+  const [unverified, setUnverified] = useState<VerificationChannel[] | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const request = useCallback(async (path: string, init: RequestInit = {}) => {
+    const response = await fetch(`${API_ROUTES.WAITLIST_STATUS}/${applicationId}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+    })
+    const body = await response.json().catch(() => ({}))
+
+    if (!response.ok) {
+      throw new Error(body.details?.[0] || body.error || 'Request failed')
+    }
+
+    return body.data as ApplicantStatusView
+  }, [applicationId, token])
+
+  const applyView = (next: ApplicantStatusView) => {
+    setView(next)
+    setPhone(next.phone || '')
+    setNotes(next.notes || '')
+  }
+
+  useEffect(() => {
+    request('')
+      .then(applyView)
+      .catch(err => setError(err instanceof Error ? err.message : 'Unable to load your application'))
+      .finally(() => setLoading(false))
+  }, [request])
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      applyView(await request('', {
+        method: 'PATCH',
+        body: JSON.stringify({ phone: phone || undefined, notes: notes || undefined }),
+      }))
+      setMessage('Your details have been updated.')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to save your details')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleWithdraw = async () => {
+    setWithdrawing(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      applyView(await request('/withdraw', { method: 'POST' }))
+      setMessage('Your application has been withdrawn. Any payment is being refunded.')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to withdraw your application')
+    } finally {
+      setWithdrawing(false)
+      setConfirmWithdraw(false)
+    }
+  }
+
+  // Start a new checkout for an application whose last one expired or failed
+  const handlePay = async () => {
+    if (!view) return
+
+    setPaying(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch(API_ROUTES.STRIPE_CREATE_CHECKOUT, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ applicationId }),
+      })
+      const body = await response.json().catch(() => ({}))
+
+      if (response.status === 403 && Array.isArray(body.unverified)) {
+        setUnverified(body.unverified)
+        setPaying(false)
+        return
+      }
+
+      if (!response.ok) {
+        throw new Error(body.error || 'Unable to start checkout')
+      }
+
+      window.location.href = body.checkoutUrl
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to start checkout')
+      setPaying(false)
+    }
+  }
+
+  if (loading) {
+    return <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+  }
+
+  if (!view) {
+    return (
+      <p className="text-sm text-red-600 flex items-center gap-1">
+        <AlertCircle className="w-3 h-3" />
+        {error || 'Unable to load your application'}
+      </p>
+    )
+  }
+
+  return (
+    <Card className="w-full max-w-lg">
+      <CardHeader>
+        <CardTitle>{TIER_CONFIG[view.tier].name} application</CardTitle>
+        <CardDescription>
+          {STATUS_LABELS[view.status]}
+          {view.decision === 'withdrawn' && ' (withdrawn)'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <dl className="grid grid-cols-2 gap-3 text-sm">
+          <dt className="text-gray-500">Applied</dt>
+          <dd>{formatDate(view.created_at)}</dd>
+          {view.queue && (
+            <>
+              <dt className="text-gray-500">Queue position</dt>
+              <dd>#{view.queue.position} of {view.queue.total} in Wave {view.queue.wave}</dd>
+            </>
+          )}
+          {view.interview_scheduled_at && (
+            <>
+              <dt className="text-gray-500">Interview</dt>
+              <dd>{new Date(view.interview_scheduled_at).toLocaleString()}</dd>
+            </>
+          )}
+          {view.decision_made_at && (
+            <>
+              <dt className="text-gray-500">Decision</dt>
+              <dd>{formatDate(view.decision_made_at)}</dd>
+            </>
+          )}
+          {view.activation_deadline && (
+            <>
+              <dt className="text-gray-500">Activate by</dt>
+              <dd>{formatDate(view.status === 'deferred' && view.deferred_until ? view.deferred_until : view.activation_deadline)}</dd>
+            </>
+          )}
+          <dt className="text-gray-500">Credit</dt>
+          <dd>
+            {formatCurrency(view.credit.total_cents / 100)}
+            {view.credit.site_credit_expires_at && ` (site credit expires ${formatDate(view.credit.site_credit_expires_at)})`}
+          </dd>
+        </dl>
+
+        {view.actions.can_pay && (
+          <p className="text-sm text-gray-600">
+            We haven&apos;t received your application fee yet. Your seat is held once you complete payment.
+          </p>
+        )}
+
+        {view.actions.can_pay && unverified && (
+          <ContactVerificationForm
+            applicationId={applicationId}
+            channels={unverified}
+            onVerified={() => {
+              setUnverified(null)
+              handlePay()
+            }}
+          />
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {view.actions.can_pay && !unverified && (
+            <Button onClick={handlePay} disabled={paying}>
+              {paying && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Complete payment
+            </Button>
+          )}
+          {view.actions.activation_url && (
+            <Button asChild>
+              <a href={view.actions.activation_url}>Activate membership</a>
+            </Button>
+          )}
+          {view.actions.deferral_url && (
+            <Button asChild variant="outline">
+              <a href={view.actions.deferral_url}>Defer activation</a>
+            </Button>
+          )}
+          {view.actions.interview_url && !view.interview_scheduled_at && (
+            <Button asChild variant="outline">
+              <a href={view.actions.interview_url}>Schedule interview</a>
+            </Button>
+          )}
+        </div>
+
+        {view.actions.can_update && (
+          <div className="space-y-3">
+            <div>
+              <Label htmlFor="status-phone">Phone</Label>
+              <Input id="status-phone" value={phone} onChange={(e) => setPhone(e.target.value)} placeholder="+15551234567" />
+            </div>
+            <div>
+              <Label htmlFor="status-notes">Notes for our team</Label>
+              <Textarea id="status-notes" value={notes} onChange={(e) => setNotes(e.target.value)} maxLength={500} />
+            </div>
+            <Button variant="secondary" onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save details
+            </Button>
+          </div>
+        )}
+
+        {view.actions.can_withdraw && (
+          <div className="border-t pt-4 space-y-2">
+            {confirmWithdraw ? (
+              <>
+                <p className="text-sm text-gray-600">
+                  Withdrawing closes your application and refunds your application fee in full. This can&apos;t be undone.
+                </p>
+                <div className="flex gap-2">
+                  <Button variant="destructive" onClick={handleWithdraw} disabled={withdrawing}>
+                    {withdrawing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Withdraw and refund
+                  </Button>
+                  <Button variant="ghost" onClick={() => setConfirmWithdraw(false)} disabled={withdrawing}>
+                    Keep my application
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <Button variant="link" className="px-0 text-red-600" onClick={() => setConfirmWithdraw(true)}>
+                Withdraw my application
+              </Button>
+            )}
+          </div>
+        )}
+
+        {message && (
+          <p className="text-sm text-green-700 flex items-center gap-2">
+            <Check className="w-4 h-4" />
+            {message}
+          </p>
+        )}
+        {error && (
+          <p className="text-sm text-red-600 flex items-center gap-1">
+            <AlertCircle className="w-3 h-3" />
+            {error}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Request a new magic link when there is no valid token
+ */
+export function StatusLinkForm({ expired }: { expired: boolean }) {
+  const [email, setEmail] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [sent, setSent] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setSubmitting(true)
+    setError(null)
+
+    try {
+      const response = await fetch(API_ROUTES.WAITLIST_STATUS, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      })
+      const body = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        setError(body.error || 'Unable to send a status link')
+        return
+      }
+
+      setSent(true)
+    } catch {
+      setError('Network error, please try again')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle>Check your application</CardTitle>
+        <CardDescription>
+          {expired
+            ? 'This status link is invalid or has expired. Enter your email and we\'ll send a new one.'
+            : 'Enter the email you applied with and we\'ll send you a link to your application.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {sent ? (
+          <p className="text-sm text-green-700 flex items-center gap-2">
+            <Check className="w-4 h-4" />
+            If we have an application for this email, a link is on its way.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="status-email">Email</Label>
+              <Input
+                id="status-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                autoComplete="email"
+                required
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={submitting}>
+              {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Email me a status link
+            </Button>
+            {error && (
+              <p className="text-sm text-red-600 flex items-center gap-1">
+                <AlertCircle className="w-3 h-3" />
+                {error}
+              </p>
+            )}
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,79 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '../ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card'
+import { AlertCircle, Check, Loader2 } from 'lucide-react'
+import { API_ROUTES } from '../../lib/constants'
+
+interface UnsubscribeFormProps {
+  token: string | null
+}
+
+/**
+ * Confirmation step for the unsubscribe link in campaign emails
+ * (a button rather than a GET, so link scanners can't unsubscribe anyone)
+ */
+export function UnsubscribeForm({ token }: UnsubscribeFormProps) {
+  const [submitting, setSubmitting] = useState(false)
+  const [unsubscribed, setUnsubscribed] = useState(false)
+  const [error, setError] = useState<string | null>(token ? null : 'This unsubscribe link is missing its token.')
+
+  const handleConfirm = async () => {
+    if (!token) return
+
+    setSubmitting(true)
+    setError(null)
+
+    try {
+      const response = await fetch(API_ROUTES.WAITLIST_UNSUBSCRIBE, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      })
+      const body = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        setError(body.error || 'Unable to unsubscribe')
+        return
+      }
+
+      setUnsubscribed(true)
+    } catch {
+      setError('Network error, please try again')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle>Unsubscribe from invitations</CardTitle>
+        <CardDescription>
+          You&apos;ll stop receiving wave invitation emails. Emails about an application
+          you&apos;ve already submitted are not affected.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {unsubscribed ? (
+          <p className="text-sm text-green-700 flex items-center gap-2">
+            <Check className="w-4 h-4" />
+            You&apos;ve been unsubscribed.
+          </p>
+        ) : (
+          <Button className="w-full" onClick={handleConfirm} disabled={!token || submitting}>
+            {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Unsubscribe
+          </Button>
+        )}
+        {error && (
+          <p className="text-sm text-red-600 flex items-center gap-1">
+            <AlertCircle className="w-3 h-3" />
+            {error}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -18,6 +18,9 @@ interface SeatCounts {
   tier_199_available: number
   tier_99_total: number
   tier_199_total: number
+  // Wave each tier is currently selling, null when it has none running
+  tier_99_wave: number | null
+  tier_199_wave: number | null
   last_updated: string
 }
 
@@ -58,6 +61,7 @@ export function TierSelector({ onTierSelect, className = '' }: TierSelectorProps
 
   // Calculate scarcity level for visual urgency
   const getScarcityLevel = (available: number, total: number) => {
+    if (total === 0) return 'critical'
     const percentage = (available / total) * 100
     if (percentage <= 10) return 'critical'
     if (percentage <= 25) return 'high'
@@ -183,7 +187,9 @@ export function TierSelector({ onTierSelect, className = '' }: TierSelectorProps
                       }`}>
                         <Users className="w-3 h-3" />
                         <span>
-                          {seatCounts.tier_99_available} of {seatCounts.tier_99_total} seats left
+                          {seatCounts.tier_99_wave === null
+                            ? 'No wave open'
+                            : `Wave ${seatCounts.tier_99_wave} · ${seatCounts.tier_99_available} of ${seatCounts.tier_99_total} seats left`}
                         </span>
                       </div>
                     </CardHeader>
@@ -221,7 +227,9 @@ export function TierSelector({ onTierSelect, className = '' }: TierSelectorProps
                         disabled={seatCounts.tier_99_available === 0}
                         className="w-full bg-orange-500 hover:bg-orange-600 text-white font-semibold py-3 rounded-xl transition-all duration-200 hover:shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
                       >
-                        {seatCounts.tier_99_available === 0 ? (
+                        {seatCounts.tier_99_wave === null ? (
+                          'Opening Soon'
+                        ) : seatCounts.tier_99_available === 0 ? (
                           'Sold Out'
                         ) : (
                           <span className="flex items-center justify-center gap-2">
@@ -262,7 +270,9 @@ export function TierSelector({ onTierSelect, className = '' }: TierSelectorProps
                       }`}>
                         <Users className="w-3 h-3" />
                         <span>
-                          {seatCounts.tier_199_available} of {seatCounts.tier_199_total} seats left
+                          {seatCounts.tier_199_wave === null
+                            ? 'No wave open'
+                            : `Wave ${seatCounts.tier_199_wave} · ${seatCounts.tier_199_available} of ${seatCounts.tier_199_total} seats left`}
                         </span>
                       </div>
                     </CardHeader>
@@ -300,7 +310,9 @@ export function TierSelector({ onTierSelect, className = '' }: TierSelectorProps
                         disabled={seatCounts.tier_199_available === 0}
                         className="w-full bg-gradient-to-r from-orange-500 to-orange-600 hover:from-orange-600 hover:to-orange-700 text-white font-semibold py-3 rounded-xl transition-all duration-200 hover:shadow-lg transform hover:scale-[1.02] disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
                       >
-                        {seatCounts.tier_199_available === 0 ? (
+                        {seatCounts.tier_199_wave === null ? (
+                          'Opening Soon'
+                        ) : seatCounts.tier_199_available === 0 ? (
                           'Sold Out'
                         ) : (
                           <span className="flex items-center justify-center gap-2">
@@ -4,12 +4,16 @@ import { useState } from 'react'
 import { HeroSection } from './sections/hero-section'
 import { TierSelector } from './sections/tier-selector'
 import { WaitlistForm } from './forms/waitlist-form'
+import { FreeSignupCard } from './forms/free-signup-card'
+import { ContactVerificationForm } from './forms/contact-verification-form'
 import { TrustBadges } from './sections/trust-badges'
 import { ProcessSteps } from './sections/process-steps'
 import { FAQ } from './sections/faq'
 import { ScrollReveal } from './ui/scroll-reveal'
 import { LoadingOverlay } from './ui/loading'
 import { motion, AnimatePresence } from 'framer-motion'
+import { API_ROUTES } from '../lib/constants'
+import { VerificationChannel } from '../types'
 
 type AppState = 'landing' | 'tier-selection' | 'application' | 'processing' | 'success'
 
@@ -30,6 +34,8 @@ export default function WaitlistApp() {
   const [selectedTier, setSelectedTier] = useState<'99' | '199' | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  // Set when checkout needs a verified email and/or phone first
+  const [verification, setVerification] = useState<{ applicationId: string; channels: VerificationChannel[] } | null>(null)
 
   // Handle primary CTA from hero section
   const handleHeroAction = () => {
@@ -61,7 +67,7 @@ export default function WaitlistApp() {
     
     try {
       // First, submit the application
-      const applicationResponse = await fetch('/api/waitlist/apply', {
+      const applicationResponse = await fetch(API_ROUTES.WAITLIST_APPLY, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -74,28 +80,9 @@ export default function WaitlistApp() {
         throw new Error('Failed to submit application')
       }
 
-      const { applicationId } = await applicationResponse.json()
+      const { data: application } = await applicationResponse.json()
 
-      // Then, create Stripe checkout session
-      const checkoutResponse = await fetch('/api/stripe/create-checkout', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          applicationId,
-          tier: selectedTier,
-          email: formData.email,
-          name: formData.fullName,
-        })
-      })
-
-      if (!checkoutResponse.ok) {
-        throw new Error('Failed to create checkout session')
-      }
-
-      const { url } = await checkoutResponse.json()
-      
-      // Redirect to Stripe Checkout
-      window.location.href = url
+      await startCheckout(application.id)
       
     } catch (err) {
       console.error('Form submission error:', err)
@@ -104,6 +91,44 @@ export default function WaitlistApp() {
     }
   }
 
+  // Create the Stripe checkout session and redirect, or ask for contact verification when the tier requires it
+  const startCheckout = async (applicationId: string) => {
+    const checkoutResponse = await fetch(API_ROUTES.STRIPE_CREATE_CHECKOUT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ applicationId })
+    })
+    const body = await checkoutResponse.json().catch(() => ({}))
+
+    if (checkoutResponse.status === 403 && Array.isArray(body.unverified)) {
+      setVerification({ applicationId, channels: body.unverified })
+      setIsLoading(false)
+      return
+    }
+
+    if (!checkoutResponse.ok) {
+      throw new Error(body.error || 'Failed to create checkout session')
+    }
+
+    // Redirect to Stripe Checkout
+    window.location.href = body.checkoutUrl
+  }
+
+  // Contacts verified: continue to payment
+  const handleVerified = async () => {
+    if (!verification) return
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      await startCheckout(verification.applicationId)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred')
+      setIsLoading(false)
+    }
+  }
+
   // Handle back navigation
   const handleBack = () => {
     if (currentState === 'application') {
@@ -179,11 +204,19 @@ export default function WaitlistApp() {
                     </motion.div>
                   )}
 
-                  <WaitlistForm
-                    selectedTier={selectedTier}
-                    onSubmit={handleFormSubmit}
-                    onBack={handleBack}
-                  />
+                  {verification ? (
+                    <ContactVerificationForm
+                      applicationId={verification.applicationId}
+                      channels={verification.channels}
+                      onVerified={handleVerified}
+                    />
+                  ) : (
+                    <WaitlistForm
+                      selectedTier={selectedTier}
+                      onSubmit={handleFormSubmit}
+                      onBack={handleBack}
+                    />
+                  )}
                 </ScrollReveal>
               </div>
             </motion.section>
@@ -197,6 +230,15 @@ export default function WaitlistApp() {
           />
         </ScrollReveal>
 
+        {/* Free Waitlist */}
+        <ScrollReveal direction="up">
+          <section id="free-waitlist" className="py-16 bg-gray-50">
+            <div className="container mx-auto px-4">
+              <FreeSignupCard />
+            </div>
+          </section>
+        </ScrollReveal>
+
         {/* FAQ Section */}
         <ScrollReveal direction="up">
           <FAQ />
@@ -0,0 +1,252 @@
+import { DatabaseOperations } from './database'
+import { EmailLinks, EmailService } from './email'
+import { CreditLedger } from './credit-ledger'
+import { APP_CONFIG } from './env'
+import { ApplicationTransitionError } from './application-lifecycle'
+import { ApplicationLifecycle } from './application-transitions'
+import { WaitlistApplication } from '../types'
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+const SCHEDULER_ACTOR = 'system:activation-scheduler'
+
+export interface ActivationSchedulerSummary {
+  reminded: number
+  interviews_reminded: number
+  expired: number
+  resumed: number
+  credits_expired: number
+  failures: Array<{ application_id: string; step: string; error: string }>
+}
+
+export interface DeferralResult {
+  success: boolean
+  status: number
+  error?: string
+  application?: WaitlistApplication
+}
+
+/**
+ * Activation hold rules from the FAQ: 14 days to activate, one 30-day deferral,
+ * then the seat is released and the fee becomes 6-month site credit (see CreditLedger).
+ * Also sends the reminder before a booked interview.
+ */
+export class ActivationScheduler {
+
+  /**
+   * Run every scheduled step; failures on one application don't stop the rest
+   */
+  static async run(now: Date = new Date()): Promise<ActivationSchedulerSummary> {
+    const summary: ActivationSchedulerSummary = {
+      reminded: 0,
+      interviews_reminded: 0,
+      expired: 0,
+      resumed: 0,
+      credits_expired: 0,
+      failures: [],
+    }
+
+    await this.sendInterviewReminders(now, summary)
+    await this.sendActivationReminders(now, summary)
+    await this.expireActivationHolds(now, summary)
+    await this.resumeDeferredReviews(now, summary)
+
+    try {
+      summary.credits_expired = await CreditLedger.expireSiteCredits(now)
+    } catch (error) {
+      summary.failures.push({
+        application_id: '*',
+        step: 'expire_site_credits',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+
+    if (summary.failures.length > 0) {
+      await DatabaseOperations.logSecurityEvent(
+        'activation_scheduler_failures',
+        'medium',
+        { event_data: { failures: summary.failures } }
+      )
+    }
+
+    return summary
+  }
+
+  /**
+   * Interview reminder: the booked interview is within INTERVIEW_REMINDER_HOURS
+   * Claimed before sending so overlapping runs send it once; released again if sending fails
+   */
+  private static async sendInterviewReminders(now: Date, summary: ActivationSchedulerSummary): Promise<void> {
+    const cutoff = new Date(now.getTime() + APP_CONFIG.DEADLINES.INTERVIEW_REMINDER_HOURS * HOUR_MS)
+
+    const due = await DatabaseOperations.getApplicationsDueInterviewReminder(now.toISOString(), cutoff.toISOString())
+
+    for (const application of due) {
+      const scheduledAt = application.interview_scheduled_at
+      if (!scheduledAt) continue
+
+      try {
+        if (!await DatabaseOperations.claimInterviewReminder(application.id, scheduledAt)) continue
+
+        try {
+          await EmailService.send('interview_reminder', application.email, {
+            fullName: application.full_name,
+            interviewAt: scheduledAt,
+            interviewUrl: EmailLinks.interview(application),
+          })
+        } catch (error) {
+          await DatabaseOperations.releaseInterviewReminder(application.id, scheduledAt)
+          throw error
+        }
+
+        summary.interviews_reminded++
+      } catch (error) {
+        summary.failures.push({
+          application_id: application.id,
+          step: 'interview_reminder',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        })
+      }
+    }
+  }
+
+  /**
+   * Day-10 reminder: deadline is within the last (ACTIVATION_DAYS - ACTIVATION_REMINDER_DAY) days
+   */
+  private static async sendActivationReminders(now: Date, summary: ActivationSchedulerSummary): Promise<void> {
+    const { ACTIVATION_DAYS, ACTIVATION_REMINDER_DAY } = APP_CONFIG.DEADLINES
+    const cutoff = new Date(now.getTime() + (ACTIVATION_DAYS - ACTIVATION_REMINDER_DAY) * DAY_MS)
+
+    const due = await DatabaseOperations.getApplicationsDueActivationReminder(cutoff.toISOString())
+
+    for (const application of due) {
+      if (!application.activation_deadline || new Date(application.activation_deadline) <= now) continue
+
+      try {
+        await EmailService.send('activation_reminder', application.email, {
+          fullName: application.full_name,
+          activationUrl: EmailLinks.activation(application),
+          activationDeadline: application.activation_deadline,
+          daysRemaining: Math.max(1, Math.ceil((new Date(application.activation_deadline).getTime() - now.getTime()) / DAY_MS)),
+        })
+        await DatabaseOperations.markActivationReminderSent(application.id)
+        summary.reminded++
+      } catch (error) {
+        summary.failures.push({
+          application_id: application.id,
+          step: 'activation_reminder',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        })
+      }
+    }
+  }
+
+  /**
+   * Expire unactivated seats and convert the application fee to site credit
+   * The seat-count refresh runs as a lifecycle side effect of 'expired'
+   */
+  private static async expireActivationHolds(now: Date, summary: ActivationSchedulerSummary): Promise<void> {
+    const expiredHolds = await DatabaseOperations.getExpiredActivationHolds(now.toISOString())
+
+    const creditExpiresAt = new Date(now)
+    creditExpiresAt.setMonth(creditExpiresAt.getMonth() + APP_CONFIG.DEADLINES.SITE_CREDIT_MONTHS)
+
+    for (const application of expiredHolds) {
+      try {
+        await ApplicationLifecycle.transition(application, 'expired', {
+          changedBy: SCHEDULER_ACTOR,
+          reason: application.status === 'deferred'
+            ? 'Deferral ended without activation'
+            : 'Activation deadline passed',
+          fields: {
+            site_credit_cents: application.credit_amount_cents,
+            site_credit_expires_at: creditExpiresAt.toISOString(),
+          },
+        })
+        summary.expired++
+      } catch (error) {
+        summary.failures.push({
+          application_id: application.id,
+          step: 'expire',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        })
+      }
+    }
+  }
+
+  /**
+   * Review deferrals (made before a decision) go back into the review queue
+   */
+  private static async resumeDeferredReviews(now: Date, summary: ActivationSchedulerSummary): Promise<void> {
+    const ended = await DatabaseOperations.getEndedReviewDeferrals(now.toISOString())
+
+    for (const application of ended) {
+      try {
+        await ApplicationLifecycle.transition(application, 'pending', {
+          changedBy: SCHEDULER_ACTOR,
+          reason: 'Review deferral ended',
+        })
+        summary.resumed++
+      } catch (error) {
+        summary.failures.push({
+          application_id: application.id,
+          step: 'resume',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        })
+      }
+    }
+  }
+
+  /**
+   * Applicant-requested deferral: once only, and only before the activation deadline.
+   * Extends the hold by DEFERRAL_DAYS past the original deadline.
+   */
+  static async requestDeferral(
+    applicationId: string,
+    context: {
+      ip_address?: string
+      user_agent?: string
+    } = {}
+  ): Promise<DeferralResult> {
+    const application = await DatabaseOperations.getApplicationById(applicationId)
+
+    if (!application) {
+      return { success: false, status: 404, error: 'Application not found' }
+    }
+
+    if (application.deferral_requested_at) {
+      return { success: false, status: 409, error: 'A deferral has already been used for this application' }
+    }
+
+    if (application.status !== 'accepted' || !application.activation_deadline) {
+      return { success: false, status: 409, error: 'Only accepted applications awaiting activation can be deferred' }
+    }
+
+    const now = new Date()
+    const deadline = new Date(application.activation_deadline)
+
+    if (now >= deadline) {
+      return { success: false, status: 409, error: 'The activation deadline has passed' }
+    }
+
+    try {
+      const result = await ApplicationLifecycle.transition(application, 'deferred', {
+        changedBy: `applicant:${application.email}`,
+        reason: 'Applicant requested deferral',
+        fields: {
+          deferred_until: new Date(deadline.getTime() + APP_CONFIG.DEADLINES.DEFERRAL_DAYS * DAY_MS).toISOString(),
+          deferral_requested_at: now.toISOString(),
+        },
+        ip_address: context.ip_address,
+        user_agent: context.user_agent,
+      })
+
+      return { success: true, status: 200, application: result.application }
+    } catch (error) {
+      if (error instanceof ApplicationTransitionError && error.code === 'conflict') {
+        return { success: false, status: 409, error: error.message }
+      }
+      throw error
+    }
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Browser-side helper for calling admin API routes
+ * Attaches the admin token and the double-submit CSRF token to each request
+ */
+
+const ADMIN_TOKEN_KEY = 'probwin-admin-token'
+// The csrf-token cookie lives for an hour (CSRFProtection.generateCSRFToken); refresh a little before it expires
+const CSRF_TOKEN_MAX_AGE_MS = 55 * 60 * 1000
+const CSRF_FAILURE_MESSAGE = 'CSRF token validation failed'
+
+let csrfToken: string | null = null
+let csrfIssuedAt = 0
+
+export class AdminApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'AdminApiError'
+  }
+}
+
+export function getAdminToken(): string | null {
+  if (typeof window === 'undefined') return null
+  return window.sessionStorage.getItem(ADMIN_TOKEN_KEY)
+}
+
+export function setAdminToken(token: string | null) {
+  csrfToken = null
+  if (token) {
+    window.sessionStorage.setItem(ADMIN_TOKEN_KEY, token)
+  } else {
+    window.sessionStorage.removeItem(ADMIN_TOKEN_KEY)
+  }
+}
+
+/**
+ * Fetch a CSRF token (and its cookie) for the current admin session
+ */
+async function ensureCsrfToken(): Promise<string> {
+  if (csrfToken && Date.now() - csrfIssuedAt < CSRF_TOKEN_MAX_AGE_MS) return csrfToken
+
+  const response = await fetch('/api/admin/csrf', {
+    headers: { 'x-admin-token': getAdminToken() || '' },
+    credentials: 'same-origin',
+  })
+
+  if (!response.ok) {
+    throw new AdminApiError('Admin access required', response.status)
+  }
+
+  const { data } = await response.json()
+  csrfToken = data.csrf_token as string
+  csrfIssuedAt = Date.now()
+  return csrfToken
+}
+
+/**
+ * Call an admin API route and return the `data` payload
+ * A request refused for its CSRF token (e.g. the cookie expired) is retried once with a fresh token
+ */
+export async function adminFetch<T = any>(path: string, init: RequestInit = {}, retried = false): Promise<T> {
+  const method = (init.method || 'GET').toUpperCase()
+  const headers = new Headers(init.headers)
+  headers.set('x-admin-token', getAdminToken() || '')
+
+  if (method !== 'GET') {
+    headers.set('Content-Type', 'application/json')
+    headers.set('x-csrf-token', await ensureCsrfToken())
+  }
+
+  const response = await fetch(path, { ...init, method, headers, credentials: 'same-origin' })
+  const body = await response.json().catch(() => ({}))
+
+  if (response.status === 403 && body.error === CSRF_FAILURE_MESSAGE && !retried) {
+    csrfToken = null
+    return adminFetch<T>(path, init, true)
+  }
+
+  if (!response.ok && response.status !== 207) {
+    throw new AdminApiError(body.error || `Request failed (${response.status})`, response.status)
+  }
+
+  return body.data as T
+}
+
+/**
+ * Verify the stored admin token by requesting a CSRF token
+ */
+export async function verifyAdminToken(): Promise<boolean> {
+  try {
+    csrfToken = null
+    await ensureCsrfToken()
+    return true
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,109 @@
+import { DatabaseOperations } from './database'
+import { ApplicationTransitionError, TRANSITION_ERROR_STATUS } from './application-lifecycle'
+import { ApplicationLifecycle, TransitionOptions, TransitionResult } from './application-transitions'
+import { WaitlistApplication, WaitlistStatus } from '../types'
+
+export type AdminDecision = 'accept' | 'reject' | 'defer'
+
+export interface AdminDecisionResult {
+  success: boolean
+  status: number
+  error?: string
+  application?: WaitlistApplication
+  refundId?: string
+}
+
+const DECISION_TARGET_STATUS: Record<AdminDecision, WaitlistStatus> = {
+  accept: 'accepted',
+  reject: 'rejected',
+  defer: 'deferred',
+}
+
+/**
+ * Reviewer decisions on waitlist applications
+ * Shared by the single decision endpoint and the dashboard bulk actions
+ */
+export class AdminDecisionService {
+
+  /**
+   * Apply a decision to one application, refunding on reject
+   */
+  static async decide(
+    applicationId: string,
+    decision: AdminDecision,
+    context: {
+      reviewerId?: string
+      ip_address?: string
+      user_agent?: string
+    } = {}
+  ): Promise<AdminDecisionResult> {
+    const application = await DatabaseOperations.getApplicationById(applicationId)
+
+    if (!application) {
+      return { success: false, status: 404, error: 'Application not found' }
+    }
+
+    // A fraud hold has to be cleared before the applicant can be given a seat
+    if (decision === 'accept' && application.fraud_status === 'hold') {
+      return {
+        success: false,
+        status: 409,
+        error: 'Application is on fraud hold, clear it before accepting',
+        application,
+      }
+    }
+
+    const options: TransitionOptions = {
+      changedBy: context.reviewerId || 'admin',
+      reason: `Admin decision: ${decision}`,
+      fields: decision === 'defer' ? {} : { decision_made_by: context.reviewerId },
+      ip_address: context.ip_address,
+      user_agent: context.user_agent,
+    }
+
+    let result: TransitionResult
+
+    try {
+      // Rejecting an already rejected application retries its failed refund
+      result = decision === 'reject' && application.status === 'rejected'
+        ? await ApplicationLifecycle.refund(application, options)
+        : await ApplicationLifecycle.transition(application, DECISION_TARGET_STATUS[decision], options)
+    } catch (error) {
+      if (!(error instanceof ApplicationTransitionError)) throw error
+
+      return {
+        success: false,
+        status: TRANSITION_ERROR_STATUS[error.code],
+        error: error.code === 'side_effect_failed' && decision === 'reject'
+          ? 'Application rejected but refund failed, retry the rejection to refund'
+          : error.message,
+        application: error.application,
+      }
+    }
+
+    await DatabaseOperations.logSecurityEvent(
+      'admin_decision',
+      'low',
+      {
+        user_identifier: application.email,
+        ip_address: context.ip_address,
+        user_agent: context.user_agent,
+        event_data: {
+          application_id: applicationId,
+          decision,
+          from_status: application.status,
+          to_status: result.application.status,
+          decision_made_by: context.reviewerId,
+          refund_id: result.effects.refund_id,
+        }
+      }
+    )
+
+    return {
+      success: true,
+      status: 200,
+      application: result.application,
+      refundId: result.effects.refund_id,
+    }
+  }
+}
@@ -6,7 +6,6 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import crypto from 'crypto';
 import { 
   SecurityRateLimit, 
   SecurityValidator, 
@@ -15,6 +14,20 @@ import {
   SecurityAuth,
   schemas 
 } from '@/lib/security';
+import {
+  ApiRateLimitPreset,
+  RATE_LIMITS,
+  RateLimitResult,
+  RateLimiter,
+  RateLimitRuleSetName,
+  adminAuthFailureKey,
+  adminRateLimitSubject,
+  applyRateLimitRules,
+  getRateLimitIdentity,
+  mostRestrictive,
+  rateLimitHeaders
+} from '@/lib/rate-limiter';
+import { SecurityMonitoring } from '@/lib/security-monitoring';
 
 // ===== TYPES =====
 
@@ -29,9 +42,14 @@ export interface ApiContext {
 export interface SecurityConfig {
   requireAuth?: boolean;
   requireAdmin?: boolean;
-  rateLimit?: 'strict' | 'moderate' | 'lenient';
+  requireCron?: boolean;
+  rateLimit?: ApiRateLimitPreset;
+  // Per-route rules over email, subnet, device and application ID (see RATE_LIMIT_RULES)
+  rateLimitRules?: RateLimitRuleSetName;
   schema?: any;
   requireCSRF?: boolean;
+  // Run the threat rules (lib/threat-rules.ts) over path, query, body and headers
+  threatInspection?: boolean;
 }
 
 // ===== AUTHENTICATION =====
@@ -40,6 +58,7 @@ export class ApiAuthentication {
   private static supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
   private static supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
   private static adminSecret = process.env.ADMIN_SECRET_KEY!;
+  private static cronSecret = process.env.CRON_SECRET!;
 
   /**
    * Authenticate user via Supabase JWT
@@ -128,6 +147,29 @@ export class ApiAuthentication {
     }
   }
 
+  /**
+   * Authenticate scheduled jobs via the CRON_SECRET bearer token (Vercel Cron convention)
+   */
+  static async authenticateCron(request: NextRequest): Promise<boolean> {
+    try {
+      const authHeader = request.headers.get('authorization');
+
+      if (!this.cronSecret || !authHeader || !authHeader.startsWith('Bearer ')) {
+        return false;
+      }
+
+      return SecurityAuth.validateAdminToken(authHeader.substring(7), this.cronSecret);
+    } catch (error) {
+      SecurityAudit.logSecurityEvent({
+        type: 'auth_failure',
+        ip: this.getClientIP(request),
+        details: `Cron authentication error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        severity: 'high'
+      });
+      return false;
+    }
+  }
+
   private static getClientIP(request: NextRequest): string {
     const forwarded = request.headers.get('x-forwarded-for');
     const realIP = request.headers.get('x-real-ip');
@@ -185,10 +227,8 @@ export class CSRFProtection {
 // ===== STRIPE WEBHOOK SECURITY =====
 
 export class StripeWebhookSecurity {
-  private static webhookSecret = process.env.STRIPE_WEBHOOK_SECRET!;
-
   /**
-   * Verify Stripe webhook signature
+   * Verify Stripe webhook signature (delegates to StripeSecurityManager.constructWebhookEvent)
    */
   static async verifyStripeWebhook(
     request: NextRequest,
@@ -207,65 +247,24 @@ export class StripeWebhookSecurity {
         return { valid: false };
       }
 
-      // Verify signature using crypto
-      const elements = signature.split(',');
-      let timestamp: string | undefined;
-      let v1: string | undefined;
+      // Loaded lazily so API routes without Stripe don't construct the Stripe client
+      const { StripeSecurityManager, StripeWebhookSignatureError } = await import('@/lib/stripe');
 
-      for (const element of elements) {
-        const [key, value] = element.split('=');
-        if (key === 't') timestamp = value;
-        if (key === 'v1') v1 = value;
-      }
-
-      if (!timestamp || !v1) {
-        SecurityAudit.logSecurityEvent({
-          type: 'validation_error',
-          ip: ApiAuthentication['getClientIP'](request),
-          details: 'Invalid Stripe signature format',
-          severity: 'high'
-        });
-        return { valid: false };
-      }
+      try {
+        const event = StripeSecurityManager.constructWebhookEvent(body, signature);
+        return { valid: true, event };
+      } catch (error) {
+        if (!(error instanceof StripeWebhookSignatureError)) throw error;
 
-      // Check timestamp (prevent replay attacks)
-      const timestampNum = parseInt(timestamp, 10);
-      const now = Math.floor(Date.now() / 1000);
-      if (now - timestampNum > 300) { // 5 minute tolerance
         SecurityAudit.logSecurityEvent({
           type: 'validation_error',
           ip: ApiAuthentication['getClientIP'](request),
-          details: 'Stripe webhook timestamp too old',
-          severity: 'high'
-        });
-        return { valid: false };
-      }
-
-      // Verify signature
-      const expectedSignature = crypto
-        .createHmac('sha256', this.webhookSecret)
-        .update(timestamp + '.' + body)
-        .digest('hex');
-
-      const isValid = crypto.timingSafeEqual(
-        Buffer.from(v1, 'hex'),
-        Buffer.from(expectedSignature, 'hex')
-      );
-
-      if (!isValid) {
-        SecurityAudit.logSecurityEvent({
-          type: 'validation_error',
-          ip: ApiAuthentication['getClientIP'](request),
-          details: 'Invalid Stripe webhook signature',
+          details: `Invalid Stripe webhook signature: ${error.message}`,
           severity: 'critical'
         });
         return { valid: false };
       }
 
-      // Parse event
-      const event = JSON.parse(body);
-      return { valid: true, event };
-
     } catch (error) {
       SecurityAudit.logSecurityEvent({
         type: 'validation_error',
@@ -293,9 +292,80 @@ export class ApiSecurityWrapper {
       const ip = this.getClientIP(request);
       const userAgent = request.headers.get('user-agent') || 'unknown';
 
+      // 0. Scheduled jobs authenticate first: they share the platform's egress IPs, so an IP limiter
+      // in front of CRON_SECRET would throttle one job with another's runs
+      if (config.requireCron) {
+        const isCron = await ApiAuthentication.authenticateCron(request);
+
+        if (!isCron) {
+          SecurityAudit.logSecurityEvent({
+            type: 'auth_failure',
+            ip,
+            userAgent,
+            details: 'Cron authentication required but not provided',
+            severity: 'high'
+          });
+
+          return SecurityHeaders.applyToResponse(
+            NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+          );
+        }
+      }
+
+      // Admins authenticate before rate limiting so the admin budget follows the token, not the IP.
+      // Failed attempts have their own per-IP budget; once it is used up no token from that IP is checked,
+      // so guessing stops rather than just changing status code
+      let isAdmin = false;
+
+      if (config.requireAdmin) {
+        const failureKey = adminAuthFailureKey(ip);
+        const failureBudget = await RateLimiter.peek(failureKey, RATE_LIMITS.ADMIN_AUTH_FAILURE);
+
+        if (!failureBudget.allowed) {
+          SecurityAudit.logSecurityEvent({
+            type: 'rate_limit',
+            ip,
+            userAgent,
+            details: 'Admin authentication refused: too many failed attempts',
+            severity: 'high'
+          });
+
+          return SecurityHeaders.applyToResponse(
+            NextResponse.json(
+              { error: 'Rate limit exceeded', retryAfter: failureBudget.retryAfter },
+              { status: 429, headers: rateLimitHeaders(failureBudget) }
+            )
+          );
+        }
+
+        isAdmin = await ApiAuthentication.authenticateAdmin(request);
+
+        if (!isAdmin) {
+          SecurityAudit.logSecurityEvent({
+            type: 'auth_failure',
+            ip,
+            userAgent,
+            details: 'Admin authentication required but not provided',
+            severity: 'high'
+          });
+
+          await RateLimiter.consume(failureKey, RATE_LIMITS.ADMIN_AUTH_FAILURE);
+
+          return SecurityHeaders.applyToResponse(
+            NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+          );
+        }
+      }
+
       // 1. Rate Limiting
+      let rateLimitResult: RateLimitResult | null = null;
+
       if (config.rateLimit) {
-        const rateLimitResult = await SecurityRateLimit.checkRateLimit(request, config.rateLimit);
+        rateLimitResult = await SecurityRateLimit.checkRateLimit(
+          request,
+          config.rateLimit,
+          isAdmin ? adminRateLimitSubject(request.headers.get('x-admin-token') as string) : undefined
+        );
         
         if (!rateLimitResult.allowed) {
           SecurityAudit.logSecurityEvent({
@@ -307,15 +377,66 @@ export class ApiSecurityWrapper {
           });
 
           const response = NextResponse.json(
-            { error: 'Rate limit exceeded' },
-            { status: 429 }
+            { error: 'Rate limit exceeded', retryAfter: rateLimitResult.retryAfter },
+            { status: 429, headers: rateLimitHeaders(rateLimitResult) }
           );
 
-          response.headers.set('X-RateLimit-Remaining', rateLimitResult.remaining?.toString() || '0');
-          response.headers.set('X-RateLimit-Reset', rateLimitResult.resetTime?.toString() || '0');
+          return SecurityHeaders.applyToResponse(response);
+        }
+      }
+
+      // Rule-based limits read `email` / `applicationId` from a JSON body
+      if (config.rateLimitRules) {
+        const body = ['POST', 'PUT', 'PATCH'].includes(request.method)
+          ? await request.clone().json().catch(() => ({}))
+          : {};
+
+        const ruleResult = await applyRateLimitRules(config.rateLimitRules, getRateLimitIdentity(request, {
+          email: typeof body?.email === 'string' ? body.email : undefined,
+          applicationId: typeof body?.applicationId === 'string' ? body.applicationId : undefined
+        }));
+
+        if (!ruleResult.allowed) {
+          SecurityAudit.logSecurityEvent({
+            type: 'rate_limit',
+            ip,
+            userAgent,
+            details: `Rate limit exceeded: ${config.rateLimitRules} ${ruleResult.rule}`,
+            severity: 'medium'
+          });
+
+          const response = NextResponse.json(
+            { error: 'Rate limit exceeded', retryAfter: ruleResult.retryAfter },
+            { status: 429, headers: rateLimitHeaders(ruleResult) }
+          );
 
           return SecurityHeaders.applyToResponse(response);
         }
+
+        if (ruleResult.limit > 0) {
+          rateLimitResult = rateLimitResult ? mostRestrictive([rateLimitResult, ruleResult]) : ruleResult;
+        }
+      }
+
+      // Threat rules: enforced hits can block the request, shadow hits are only recorded
+      if (config.threatInspection) {
+        const body = ['POST', 'PUT', 'PATCH'].includes(request.method)
+          ? await request.clone().text().catch(() => '')
+          : undefined;
+
+        const analysis = await SecurityMonitoring.analyzeRequest(
+          request.url,
+          Object.fromEntries(request.headers.entries()),
+          body,
+          ip,
+          request.method
+        );
+
+        if (analysis.shouldBlock) {
+          return SecurityHeaders.applyToResponse(
+            NextResponse.json({ error: 'Request blocked' }, { status: 403 })
+          );
+        }
       }
 
       // 2. CSRF Protection for state-changing methods
@@ -339,7 +460,6 @@ export class ApiSecurityWrapper {
 
       // 3. Authentication
       let user = null;
-      let isAdmin = false;
 
       if (config.requireAuth) {
         user = await ApiAuthentication.authenticateUser(request);
@@ -351,24 +471,6 @@ export class ApiSecurityWrapper {
         }
       }
 
-      if (config.requireAdmin) {
-        isAdmin = await ApiAuthentication.authenticateAdmin(request);
-        
-        if (!isAdmin) {
-          SecurityAudit.logSecurityEvent({
-            type: 'auth_failure',
-            ip,
-            userAgent,
-            details: 'Admin authentication required but not provided',
-            severity: 'high'
-          });
-
-          return SecurityHeaders.applyToResponse(
-            NextResponse.json({ error: 'Admin access required' }, { status: 403 })
-          );
-        }
-      }
-
       // 4. Request Validation
       if (config.schema && ['POST', 'PUT', 'PATCH'].includes(request.method)) {
         const validation = await SecurityValidator.validateRequest(request.clone(), config.schema);
@@ -401,6 +503,10 @@ export class ApiSecurityWrapper {
       };
 
       const response = await handler(context);
+
+      if (rateLimitResult) {
+        Object.entries(rateLimitHeaders(rateLimitResult)).forEach(([name, value]) => response.headers.set(name, value));
+      }
       
       // 6. Apply security headers
       return SecurityHeaders.applyToResponse(response);
@@ -444,7 +550,8 @@ export const SECURITY_CONFIGS = {
     rateLimit: 'lenient' as const,
     requireAuth: false,
     requireAdmin: false,
-    requireCSRF: false
+    requireCSRF: false,
+    threatInspection: true
   },
 
   // User-authenticated endpoints
@@ -452,12 +559,13 @@ export const SECURITY_CONFIGS = {
     rateLimit: 'moderate' as const,
     requireAuth: true,
     requireAdmin: false,
-    requireCSRF: true
+    requireCSRF: true,
+    threatInspection: true
   },
 
-  // Admin-only endpoints
+  // Admin-only endpoints (limited per admin token)
   admin: {
-    rateLimit: 'strict' as const,
+    rateLimit: 'admin' as const,
     requireAuth: false,
     requireAdmin: true,
     requireCSRF: true
@@ -469,6 +577,7 @@ export const SECURITY_CONFIGS = {
     requireAuth: false,
     requireAdmin: false,
     requireCSRF: true,
+    threatInspection: true,
     schema: schemas.email // Will be extended per endpoint
   },
 
@@ -478,6 +587,14 @@ export const SECURITY_CONFIGS = {
     requireAuth: false,
     requireAdmin: false,
     requireCSRF: false
+  },
+
+  // Scheduled job endpoints (no IP rate limit; CRON_SECRET is checked before anything else)
+  cron: {
+    requireAuth: false,
+    requireAdmin: false,
+    requireCron: true,
+    requireCSRF: false
   }
 } as const;
 
@@ -522,6 +639,19 @@ export const adminApi = (
     { ...SECURITY_CONFIGS.admin, ...customConfig }
   );
 
+/**
+ * Quick wrapper for scheduled job endpoints
+ */
+export const cronApi = (
+  handler: (ctx: ApiContext) => Promise<NextResponse>,
+  customConfig?: Partial<SecurityConfig>
+) => (request: NextRequest) => 
+  ApiSecurityWrapper.secureApiRoute(
+    request, 
+    handler, 
+    { ...SECURITY_CONFIGS.cron, ...customConfig }
+  );
+
 const ApiSecurity = {
   ApiSecurityWrapper,
   ApiAuthentication,
@@ -530,7 +660,8 @@ const ApiSecurity = {
   SECURITY_CONFIGS,
   publicApi,
   authenticatedApi,
-  adminApi
+  adminApi,
+  cronApi
 };
 
 export default ApiSecurity;
\ No newline at end of file
@@ -0,0 +1,246 @@
+import { DatabaseOperations } from './database'
+import { EmailLinks, EmailService } from './email'
+import { CreditLedger } from './credit-ledger'
+import { APP_CONFIG } from './env'
+import { ApplicantTokens } from './applicant-tokens'
+import { ApplicationTransitionError, TRANSITION_ERROR_STATUS, isTerminalStatus } from './application-lifecycle'
+import { ApplicationLifecycle } from './application-transitions'
+import { QueuePosition, WaitlistRanking } from './waitlist-ranking'
+import { CreditBalance, WaitlistApplication, WaitlistStatus, WaitlistTier } from '../types'
+
+export interface ApplicantStatusView {
+  id: string
+  full_name: string
+  email: string
+  phone: string | null
+  notes: string | null
+  tier: WaitlistTier
+  status: WaitlistStatus
+  created_at: string
+  interview_scheduled_at: string | null
+  interview_completed_at: string | null
+  decision: 'accepted' | 'not_accepted' | 'withdrawn' | null
+  decision_made_at: string | null
+  activation_deadline: string | null
+  deferred_until: string | null
+  // Place in the wave's queue while the application awaits a decision
+  queue: QueuePosition | null
+  credit: Omit<CreditBalance, 'email'>
+  actions: {
+    can_update: boolean
+    can_withdraw: boolean
+    can_defer: boolean
+    // No payment yet and no checkout open (e.g. the last one expired): the applicant can start a new checkout
+    can_pay: boolean
+    interview_url?: string
+    activation_url?: string
+    deferral_url?: string
+  }
+}
+
+export interface PortalResult {
+  success: boolean
+  status: number
+  error?: string
+  view?: ApplicantStatusView
+  refundId?: string
+}
+
+// Abandoned checkouts leave the application pending, so they never read as a decision
+function decisionOf(application: WaitlistApplication): ApplicantStatusView['decision'] {
+  switch (application.status) {
+    case 'accepted':
+    case 'activated':
+    case 'expired':
+      return 'accepted'
+    case 'deferred':
+      return application.activation_deadline ? 'accepted' : null
+    case 'rejected':
+    case 'refunded':
+      return application.withdrawn_at ? 'withdrawn' : 'not_accepted'
+    default:
+      return null
+  }
+}
+
+/**
+ * Applicant self-service status portal, reached through an emailed magic link (see EmailLinks.status)
+ */
+export class ApplicantPortal {
+
+  /**
+   * Email a status link for the applicant's latest application
+   * Unknown emails are only logged, so the endpoint can't be used to probe for applicants
+   */
+  static async requestLink(
+    email: string,
+    context: {
+      ip_address?: string
+      user_agent?: string
+    } = {}
+  ): Promise<void> {
+    const application = await DatabaseOperations.getLatestApplicationByEmail(email)
+
+    await DatabaseOperations.logSecurityEvent(
+      application ? 'status_link_sent' : 'status_link_unknown_email',
+      'low',
+      {
+        user_identifier: email.toLowerCase(),
+        ip_address: context.ip_address,
+        user_agent: context.user_agent,
+        event_data: { application_id: application?.id }
+      }
+    )
+
+    if (!application) return
+
+    await EmailService.send('status_link', application.email, {
+      fullName: application.full_name,
+      statusUrl: EmailLinks.status(application),
+      expiresHours: APP_CONFIG.DEADLINES.STATUS_LINK_HOURS,
+    })
+  }
+
+  /**
+   * Whether an `Authorization: Bearer <token>` header holds a status token for this application
+   */
+  static verifyAccess(authorization: string | null, applicationId: string): boolean {
+    const token = authorization?.startsWith('Bearer ') ? authorization.slice(7) : null
+
+    return !!token && ApplicantTokens.verify(token, 'status') === applicationId
+  }
+
+  /**
+   * Status, decision, deadlines, credit and available actions for one application
+   */
+  static async getStatus(applicationId: string): Promise<ApplicantStatusView | null> {
+    const application = await DatabaseOperations.getApplicationById(applicationId)
+
+    if (!application) return null
+
+    return this.toView(application)
+  }
+
+  /**
+   * Update phone and notes while the application is still open
+   */
+  static async updateDetails(
+    applicationId: string,
+    details: Partial<Pick<WaitlistApplication, 'phone' | 'notes'>>
+  ): Promise<PortalResult> {
+    const application = await DatabaseOperations.getApplicationById(applicationId)
+
+    if (!application) {
+      return { success: false, status: 404, error: 'Application not found' }
+    }
+
+    if (isTerminalStatus(application.status)) {
+      return { success: false, status: 409, error: 'This application is closed and can no longer be changed' }
+    }
+
+    const updated = await DatabaseOperations.updateApplicantDetails(application.id, details)
+
+    return { success: true, status: 200, view: await this.toView(updated) }
+  }
+
+  /**
+   * Withdraw an application awaiting review; paid applications are refunded by the reject path
+   */
+  static async withdraw(
+    applicationId: string,
+    context: {
+      ip_address?: string
+      user_agent?: string
+    } = {}
+  ): Promise<PortalResult> {
+    const application = await DatabaseOperations.getApplicationById(applicationId)
+
+    if (!application) {
+      return { success: false, status: 404, error: 'Application not found' }
+    }
+
+    if (application.status !== 'pending') {
+      return { success: false, status: 409, error: 'Only applications awaiting review can be withdrawn' }
+    }
+
+    try {
+      const result = await ApplicationLifecycle.transition(application, 'rejected', {
+        changedBy: `applicant:${application.email}`,
+        reason: 'Applicant withdrew',
+        fields: { withdrawn_at: new Date().toISOString() },
+        ip_address: context.ip_address,
+        user_agent: context.user_agent,
+      })
+
+      return {
+        success: true,
+        status: 200,
+        view: await this.toView(result.application),
+        refundId: result.effects.refund_id,
+      }
+    } catch (error) {
+      if (error instanceof ApplicationTransitionError) {
+        return {
+          success: false,
+          status: TRANSITION_ERROR_STATUS[error.code],
+          error: error.code === 'side_effect_failed'
+            ? 'Your application was withdrawn but the refund could not be issued yet. Our team has been notified.'
+            : error.message,
+        }
+      }
+      throw error
+    }
+  }
+
+  private static async toView(application: WaitlistApplication): Promise<ApplicantStatusView> {
+    const now = new Date()
+    const [balance, queue] = await Promise.all([
+      CreditLedger.getBalance(application.email),
+      WaitlistRanking.getPosition(application),
+    ])
+
+    const holdEnd = application.status === 'deferred' ? application.deferred_until : application.activation_deadline
+    const holdOpen = (application.status === 'accepted' || (application.status === 'deferred' && !!application.activation_deadline))
+      && !!holdEnd && new Date(holdEnd) > now
+    const canDefer = application.status === 'accepted'
+      && !application.deferral_requested_at
+      && !!application.activation_deadline
+      && new Date(application.activation_deadline) > now
+    const canPay = application.status === 'pending'
+      && !application.stripe_checkout_session_id
+      && !application.stripe_payment_intent_id
+
+    return {
+      id: application.id,
+      full_name: application.full_name,
+      email: application.email,
+      phone: application.phone || null,
+      notes: application.notes || null,
+      tier: application.tier,
+      status: application.status,
+      created_at: application.created_at,
+      interview_scheduled_at: application.interview_scheduled_at || null,
+      interview_completed_at: application.interview_completed_at || null,
+      decision: decisionOf(application),
+      decision_made_at: application.decision_made_at || null,
+      activation_deadline: application.activation_deadline || null,
+      deferred_until: application.deferred_until || null,
+      queue,
+      credit: {
+        fasttrack_cents: balance.fasttrack_cents,
+        site_cents: balance.site_cents,
+        total_cents: balance.total_cents,
+        site_credit_expires_at: balance.site_credit_expires_at,
+      },
+      actions: {
+        can_update: !isTerminalStatus(application.status),
+        can_withdraw: application.status === 'pending',
+        can_defer: canDefer,
+        can_pay: canPay,
+        interview_url: application.status === 'pending' && !canPay ? EmailLinks.interview(application) : undefined,
+        activation_url: holdOpen ? EmailLinks.activation(application) : undefined,
+        deferral_url: canDefer ? EmailLinks.deferral(application) : undefined,
+      },
+    }
+  }
+}
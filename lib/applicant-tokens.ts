@@ -0,0 +1,49 @@
+import jwt from 'jsonwebtoken'
+import { getEnv } from './env'
+
+/**
+ * Signed, single-purpose links for applicants and free signups (no account required)
+ * Tokens are HS256 JWTs bound to one record (application, invitation or signup) and one purpose
+ */
+
+export type ApplicantTokenPurpose = 'deferral' | 'activation' | 'invitation' | 'unsubscribe' | 'status'
+
+interface ApplicantTokenPayload {
+  sub: string
+  purpose: ApplicantTokenPurpose
+}
+
+export class ApplicantTokens {
+
+  /**
+   * Sign a token for a record that expires at the given time
+   */
+  static sign(subjectId: string, purpose: ApplicantTokenPurpose, expiresAt: Date): string {
+    const expiresInSeconds = Math.max(60, Math.floor((expiresAt.getTime() - Date.now()) / 1000))
+
+    return jwt.sign({ purpose }, getEnv('JWT_SECRET'), {
+      algorithm: 'HS256',
+      subject: subjectId,
+      expiresIn: expiresInSeconds,
+    })
+  }
+
+  /**
+   * Verify a token and return its subject ID, or null if invalid, expired or for another purpose
+   */
+  static verify(token: string, purpose: ApplicantTokenPurpose): string | null {
+    try {
+      const payload = jwt.verify(token, getEnv('JWT_SECRET'), {
+        algorithms: ['HS256'],
+      }) as ApplicantTokenPayload
+
+      if (payload.purpose !== purpose || !payload.sub) {
+        return null
+      }
+
+      return payload.sub
+    } catch {
+      return null
+    }
+  }
+}
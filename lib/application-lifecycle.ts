@@ -0,0 +1,106 @@
+import { WaitlistApplication, WaitlistStatus } from '../types'
+
+/**
+ * Application lifecycle rules shared by the database layer, API routes and admin UI
+ * Keep in sync with is_valid_status_transition() in the Supabase migrations
+ */
+
+export const APPLICATION_TRANSITIONS: Record<WaitlistStatus, readonly WaitlistStatus[]> = {
+  pending: ['interviewed', 'accepted', 'rejected', 'deferred'],
+  interviewed: ['accepted', 'rejected', 'deferred'],
+  accepted: ['activated', 'expired', 'deferred'],
+  rejected: ['refunded'],
+  // Review deferrals return to the queue, applicant deferrals can still activate or expire
+  deferred: ['pending', 'accepted', 'rejected', 'activated', 'expired'],
+  refunded: [],
+  activated: [],
+  expired: [],
+}
+
+export type ApplicationTransitionFields = Partial<Pick<WaitlistApplication,
+  | 'interview_completed_at'
+  | 'decision_made_at'
+  | 'decision_made_by'
+  | 'activation_deadline'
+  | 'deferred_until'
+  | 'deferral_requested_at'
+  | 'site_credit_cents'
+  | 'site_credit_expires_at'
+  | 'withdrawn_at'
+  | 'checkout_abandoned_at'
+>>
+
+// Timestamps the valid_status_transitions CHECK requires for each target status
+export const REQUIRED_TRANSITION_FIELDS: Partial<Record<WaitlistStatus, (keyof ApplicationTransitionFields)[]>> = {
+  interviewed: ['interview_completed_at'],
+  accepted: ['decision_made_at'],
+  rejected: ['decision_made_at'],
+  deferred: ['deferred_until'],
+}
+
+// Statuses that no longer hold a seat in their wave (see v_seat_counts)
+export const SEAT_RELEASING_STATUSES: readonly WaitlistStatus[] = ['rejected', 'refunded', 'expired']
+
+export type ApplicationTransitionErrorCode =
+  | 'not_found'
+  | 'invalid_transition'
+  | 'missing_fields'
+  | 'conflict'
+  | 'side_effect_failed'
+
+// HTTP status for each transition error, shared by the admin and applicant APIs
+export const TRANSITION_ERROR_STATUS: Record<ApplicationTransitionErrorCode, number> = {
+  not_found: 404,
+  invalid_transition: 409,
+  missing_fields: 400,
+  conflict: 409,
+  side_effect_failed: 502,
+}
+
+export class ApplicationTransitionError extends Error {
+  constructor(
+    message: string,
+    public code: ApplicationTransitionErrorCode,
+    public application?: WaitlistApplication
+  ) {
+    super(message)
+    this.name = 'ApplicationTransitionError'
+  }
+}
+
+export function getAllowedTransitions(from: WaitlistStatus): readonly WaitlistStatus[] {
+  return APPLICATION_TRANSITIONS[from]
+}
+
+export function canTransition(from: WaitlistStatus, to: WaitlistStatus): boolean {
+  return APPLICATION_TRANSITIONS[from].includes(to)
+}
+
+export function isTerminalStatus(status: WaitlistStatus): boolean {
+  return APPLICATION_TRANSITIONS[status].length === 0
+}
+
+/**
+ * Throw if a transition is illegal or missing the timestamps its target status requires
+ */
+export function assertTransition(
+  from: WaitlistStatus,
+  to: WaitlistStatus,
+  fields: ApplicationTransitionFields = {}
+): void {
+  if (!canTransition(from, to)) {
+    throw new ApplicationTransitionError(
+      `Cannot move an application from '${from}' to '${to}'`,
+      'invalid_transition'
+    )
+  }
+
+  const missing = (REQUIRED_TRANSITION_FIELDS[to] || []).filter(field => !fields[field])
+
+  if (missing.length > 0) {
+    throw new ApplicationTransitionError(
+      `Moving to '${to}' requires ${missing.join(', ')}`,
+      'missing_fields'
+    )
+  }
+}
@@ -0,0 +1,295 @@
+import { DatabaseOperations } from './database'
+import { StripeSecurityManager } from './stripe'
+import { APP_CONFIG } from './env'
+import { EmailLinks, EmailService } from './email'
+import { CreditLedger } from './credit-ledger'
+import { QUEUE_STATUSES, WaitlistRanking } from './waitlist-ranking'
+import {
+  ApplicationTransitionError,
+  ApplicationTransitionFields,
+  SEAT_RELEASING_STATUSES,
+} from './application-lifecycle'
+import { WaitlistApplication, WaitlistStatus } from '../types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface TransitionOptions {
+  changedBy?: string
+  reason?: string
+  fields?: ApplicationTransitionFields
+  ip_address?: string
+  user_agent?: string
+}
+
+export interface TransitionContext {
+  application: WaitlistApplication
+  previous: WaitlistApplication
+  from: WaitlistStatus
+  to: WaitlistStatus
+  options: TransitionOptions
+}
+
+export interface TransitionHookResult {
+  application?: WaitlistApplication
+  data?: Record<string, any>
+}
+
+export interface TransitionHook {
+  name: string
+  // Target statuses the hook runs for, all transitions when omitted
+  to?: readonly WaitlistStatus[]
+  // Critical hook failures are reported to the caller, others are only logged
+  critical?: boolean
+  run: (context: TransitionContext) => Promise<TransitionHookResult | void>
+}
+
+export interface TransitionResult {
+  application: WaitlistApplication
+  from: WaitlistStatus
+  to: WaitlistStatus
+  effects: Record<string, any>
+}
+
+const transitionHooks: TransitionHook[] = []
+
+/**
+ * Register a side effect to run after a status change is committed
+ */
+export function registerTransitionHook(hook: TransitionHook): void {
+  if (transitionHooks.some(existing => existing.name === hook.name)) {
+    return
+  }
+  transitionHooks.push(hook)
+}
+
+/**
+ * Fill in the timestamps a target status requires when the caller did not supply them
+ */
+function withDefaultFields(
+  to: WaitlistStatus,
+  fields: ApplicationTransitionFields = {}
+): ApplicationTransitionFields {
+  const now = new Date()
+
+  switch (to) {
+    case 'interviewed':
+      return { interview_completed_at: now.toISOString(), ...fields }
+    case 'accepted':
+      return {
+        decision_made_at: now.toISOString(),
+        activation_deadline: new Date(now.getTime() + APP_CONFIG.DEADLINES.ACTIVATION_DAYS * DAY_MS).toISOString(),
+        ...fields,
+      }
+    case 'rejected':
+      return { decision_made_at: now.toISOString(), ...fields }
+    case 'deferred':
+      return {
+        deferred_until: new Date(now.getTime() + APP_CONFIG.DEADLINES.DEFERRAL_DAYS * DAY_MS).toISOString(),
+        ...fields,
+      }
+    default:
+      return fields
+  }
+}
+
+/**
+ * Typed transition engine for waitlist applications
+ * Every status change goes through here so guards, timestamps, history and side effects stay consistent
+ */
+export class ApplicationLifecycle {
+
+  /**
+   * Move an application to a new status and run its side effects
+   */
+  static async transition(
+    applicationOrId: WaitlistApplication | string,
+    to: WaitlistStatus,
+    options: TransitionOptions = {}
+  ): Promise<TransitionResult> {
+    const previous = typeof applicationOrId === 'string'
+      ? await DatabaseOperations.getApplicationById(applicationOrId)
+      : applicationOrId
+
+    if (!previous) {
+      throw new ApplicationTransitionError('Application not found', 'not_found')
+    }
+
+    const from = previous.status
+
+    const updated = await DatabaseOperations.transitionApplicationStatus(
+      previous.id,
+      from,
+      to,
+      withDefaultFields(to, options.fields),
+      {
+        changed_by: options.changedBy,
+        reason: options.reason,
+      }
+    )
+
+    if (!updated) {
+      throw new ApplicationTransitionError(
+        'Application status changed while processing, please reload',
+        'conflict',
+        previous
+      )
+    }
+
+    let application = updated
+    const effects: Record<string, any> = {}
+
+    for (const hook of transitionHooks) {
+      if (hook.to && !hook.to.includes(to)) continue
+
+      try {
+        const result = await hook.run({ application, previous, from, to, options })
+        if (result?.application) application = result.application
+        if (result?.data) Object.assign(effects, result.data)
+      } catch (error) {
+        await DatabaseOperations.logSecurityEvent(
+          'lifecycle_side_effect_failed',
+          hook.critical ? 'high' : 'medium',
+          {
+            user_identifier: application.email,
+            ip_address: options.ip_address,
+            user_agent: options.user_agent,
+            event_data: {
+              application_id: application.id,
+              hook: hook.name,
+              from_status: from,
+              to_status: to,
+              error: error instanceof Error ? error.message : 'Unknown error',
+            }
+          }
+        )
+
+        if (hook.critical) {
+          throw new ApplicationTransitionError(
+            error instanceof Error ? error.message : `Side effect '${hook.name}' failed`,
+            'side_effect_failed',
+            application
+          )
+        }
+      }
+    }
+
+    return { application, from, to, effects }
+  }
+
+  /**
+   * Refund a rejected application's payment and mark it refunded
+   * Also used to retry a refund that failed during rejection
+   */
+  static async refund(
+    application: WaitlistApplication,
+    options: TransitionOptions = {}
+  ): Promise<TransitionResult> {
+    if (application.status !== 'rejected') {
+      throw new ApplicationTransitionError(
+        `Cannot refund an application with status '${application.status}'`,
+        'invalid_transition',
+        application
+      )
+    }
+
+    if (!application.stripe_payment_intent_id) {
+      return { application, from: 'rejected', to: 'rejected', effects: {} }
+    }
+
+    let refund
+    try {
+      refund = await StripeSecurityManager.issueRefund(application.stripe_payment_intent_id)
+    } catch (error) {
+      throw new ApplicationTransitionError(
+        error instanceof Error ? error.message : 'Refund processing failed',
+        'side_effect_failed',
+        application
+      )
+    }
+
+    const result = await this.transition(application, 'refunded', {
+      changedBy: options.changedBy,
+      reason: `Refund ${refund.id} issued`,
+      ip_address: options.ip_address,
+      user_agent: options.user_agent,
+    })
+
+    return { ...result, effects: { ...result.effects, refund_id: refund.id } }
+  }
+}
+
+// Keep public seat counters current when an application takes or releases a seat
+registerTransitionHook({
+  name: 'refresh_seat_counts',
+  run: async ({ from, to }) => {
+    if (SEAT_RELEASING_STATUSES.includes(from) !== SEAT_RELEASING_STATUSES.includes(to)) {
+      await DatabaseOperations.refreshSeatCounts()
+    }
+  },
+})
+
+// Record the wave's queue order when an applicant is interviewed, decided or leaves it
+registerTransitionHook({
+  name: 'queue_snapshot',
+  run: async ({ application, from, to }) => {
+    if (QUEUE_STATUSES.includes(from) || QUEUE_STATUSES.includes(to)) {
+      await WaitlistRanking.snapshot(application.wave, `${from} -> ${to}`)
+    }
+  },
+})
+
+// Rejected applicants get their application fee back (refund() skips applications that never paid)
+registerTransitionHook({
+  name: 'refund_on_reject',
+  to: ['rejected'],
+  critical: true,
+  run: async ({ application, options }) => {
+    const result = await ApplicationLifecycle.refund(application, options)
+    return { application: result.application, data: result.effects }
+  },
+})
+
+// Decision emails (PRD 6.4): accepted, and not accepted (or withdrawn) once any refund has been issued
+registerTransitionHook({
+  name: 'decision_email',
+  to: ['accepted', 'rejected', 'refunded'],
+  run: async ({ application, to }) => {
+    if (to === 'accepted') {
+      await EmailService.send('accepted', application.email, {
+        fullName: application.full_name,
+        tier: application.tier,
+        creditAmountCents: application.credit_amount_cents,
+        activationUrl: EmailLinks.activation(application),
+        activationDeadline: application.activation_deadline || new Date().toISOString(),
+        deferralUrl: EmailLinks.deferral(application),
+        deferralDays: APP_CONFIG.DEADLINES.DEFERRAL_DAYS,
+      })
+      return
+    }
+
+    // Paid rejections are emailed when the refund lands in 'refunded'
+    if (to === 'rejected' && application.stripe_payment_intent_id) return
+
+    await EmailService.send(application.withdrawn_at ? 'withdrawal_confirmed' : 'not_accepted', application.email, {
+      fullName: application.full_name,
+      tier: application.tier,
+      refundAmountCents: to === 'refunded' ? application.credit_amount_cents : 0,
+    })
+  },
+})
+
+// Credit ledger movements for paid applications (credit applied to a membership is debited when the
+// invoice redeems the coupon, see MembershipActivation.handleFirstInvoicePaid)
+registerTransitionHook({
+  name: 'credit_ledger',
+  to: ['expired', 'refunded'],
+  run: async ({ application, to }) => {
+    if (!application.stripe_payment_intent_id) return
+
+    if (to === 'expired' && application.site_credit_expires_at) {
+      await CreditLedger.recordConversion(application, application.site_credit_expires_at)
+    } else if (to === 'refunded') {
+      await CreditLedger.recordRefundReversal(application, application.stripe_payment_intent_id)
+    }
+  },
+})
@@ -7,6 +7,10 @@ export const ROUTES = {
   TERMS: '/terms',
   PRIVACY: '/privacy',
   REFUND_POLICY: '/refund-policy',
+  DEFER: '/defer',
+  ACTIVATE: '/activate',
+  UNSUBSCRIBE: '/unsubscribe',
+  STATUS: '/status',
   ADMIN: '/admin',
 } as const;
 
@@ -14,11 +18,80 @@ export const API_ROUTES = {
   SEATS: '/api/seats',
   WAITLIST_APPLY: '/api/waitlist/apply',
   WAITLIST_FREE: '/api/waitlist/free',
+  WAITLIST_DEFER: '/api/waitlist/defer',
+  WAITLIST_UNSUBSCRIBE: '/api/waitlist/unsubscribe',
+  WAITLIST_STATUS: '/api/waitlist/status',
+  WAITLIST_VERIFY: '/api/waitlist/verify',
+  WAITLIST_VERIFY_CONFIRM: '/api/waitlist/verify/confirm',
+  CAMPAIGN_OPEN: '/api/campaigns/open',
+  CAMPAIGN_CLICK: '/api/campaigns/click',
+  MEMBERSHIP_ACTIVATE: '/api/membership/activate',
   STRIPE_WEBHOOK: '/api/stripe/webhook',
   STRIPE_CREATE_CHECKOUT: '/api/stripe/create-checkout',
+  SCHEDULING_WEBHOOK: '/api/scheduling/webhook',
   ADMIN_DECISION: '/api/admin/decision',
+  ADMIN_APPLICATIONS: '/api/admin/applications',
+  ADMIN_APPLICATIONS_BULK: '/api/admin/applications/bulk',
+  ADMIN_CSRF: '/api/admin/csrf',
+  ADMIN_CREDITS: '/api/admin/credits',
+  ADMIN_ACTIVATE: '/api/admin/activate',
+  ADMIN_CAMPAIGNS: '/api/admin/campaigns',
+  ADMIN_CAMPAIGNS_SEND: '/api/admin/campaigns/send',
+  ADMIN_SLA: '/api/admin/sla',
+  ADMIN_WAVES: '/api/admin/waves',
+  ADMIN_QUEUE: '/api/admin/queue',
+  ADMIN_FRAUD: '/api/admin/fraud',
+  ADMIN_ALERTS: '/api/admin/alerts',
+  ADMIN_THREAT_RULES: '/api/admin/threat-rules',
+  ADMIN_STRIPE_EVENTS: '/api/admin/stripe-events',
+  ADMIN_STRIPE_EVENTS_REPLAY: '/api/admin/stripe-events/replay',
+  ADMIN_INTERVIEWS: '/api/admin/interviews',
+  CRON_ACTIVATION: '/api/cron/activation',
+  CRON_SLA: '/api/cron/sla',
+  CRON_WAVES: '/api/cron/waves',
+  CRON_RATE_LIMITS: '/api/cron/rate-limits',
+  CRON_SECURITY_ALERTS: '/api/cron/security-alerts',
+  CRON_THREAT_RULES: '/api/cron/threat-rules',
 } as const;
 
+// Membership plans from the pricing FAQ (Stripe price IDs come from env)
+export const MEMBERSHIP_PLANS = {
+  founders_monthly: {
+    name: 'Founders Cohort',
+    interval: 'month',
+    price: 699,
+    priceEnvKey: 'STRIPE_PRICE_ID_FOUNDERS_MONTHLY',
+  },
+  founders_annual: {
+    name: 'Founders Cohort',
+    interval: 'year',
+    price: 6990,
+    priceEnvKey: 'STRIPE_PRICE_ID_FOUNDERS_ANNUAL',
+  },
+  standard_monthly: {
+    name: 'Standard',
+    interval: 'month',
+    price: 899,
+    priceEnvKey: 'STRIPE_PRICE_ID_STANDARD_MONTHLY',
+  },
+  standard_quarterly: {
+    name: 'Standard',
+    interval: 'quarter',
+    price: 2399,
+    priceEnvKey: 'STRIPE_PRICE_ID_STANDARD_QUARTERLY',
+  },
+  standard_annual: {
+    name: 'Standard',
+    interval: 'year',
+    price: 8990,
+    priceEnvKey: 'STRIPE_PRICE_ID_STANDARD_ANNUAL',
+  },
+} as const;
+
+export type MembershipPlan = keyof typeof MEMBERSHIP_PLANS;
+
+export const MEMBERSHIP_PLAN_IDS = Object.keys(MEMBERSHIP_PLANS) as [MembershipPlan, ...MembershipPlan[]];
+
 export const FORM_FIELDS = {
   BANKROLL_OPTIONS: [
     { value: 'under-1k', label: 'Under $1,000' },
@@ -44,7 +117,6 @@ export const TIER_CONFIG = {
   '99': {
     name: 'FastTrack',
     price: 99,
-    wave: 1,
     features: [
       'Priority review over free waitlist',
       'Decision typically in 2-3 weeks',
@@ -56,7 +128,6 @@ export const TIER_CONFIG = {
   '199': {
     name: 'FastTrack+',
     price: 199,
-    wave: 2,
     features: [
       'Interview scheduled within 72 hours',
       'Decision within 5 business days',
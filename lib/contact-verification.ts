@@ -0,0 +1,459 @@
+import { createHmac, randomInt, randomUUID, timingSafeEqual } from 'crypto'
+import { mkdir, writeFile } from 'fs/promises'
+import path from 'path'
+import { createServiceClient } from './supabase'
+import { DatabaseOperations } from './database'
+import { EmailService } from './email'
+import { APP_CONFIG, getEnv, isProduction } from './env'
+import { VerificationChannel, VerificationCode, WaitlistApplication, WaitlistTier } from '../types'
+
+export const VERIFICATION_CHANNELS: readonly VerificationChannel[] = ['email', 'phone']
+
+export interface VerificationMessage {
+  channel: VerificationChannel
+  destination: string
+  code: string
+  fullName: string
+  expiresMinutes: number
+}
+
+export interface VerificationSender {
+  name: string
+  send(message: VerificationMessage): Promise<{ id: string }>
+}
+
+export type VerificationErrorCode =
+  | 'not_found'
+  | 'no_destination'
+  | 'already_verified'
+  | 'cooldown'
+  | 'no_code'
+  | 'expired'
+  | 'invalid_code'
+  | 'too_many_attempts'
+  | 'delivery_failed'
+
+// HTTP status for each verification error, used by the verification API
+export const VERIFICATION_ERROR_STATUS: Record<VerificationErrorCode, number> = {
+  not_found: 404,
+  no_destination: 400,
+  already_verified: 409,
+  cooldown: 429,
+  no_code: 410,
+  expired: 410,
+  invalid_code: 400,
+  too_many_attempts: 429,
+  delivery_failed: 502,
+}
+
+export class VerificationError extends Error {
+  constructor(message: string, public code: VerificationErrorCode) {
+    super(message)
+    this.name = 'VerificationError'
+  }
+}
+
+/**
+ * Codes by email go through the email transport (Resend, or the local outbox)
+ */
+export class EmailCodeSender implements VerificationSender {
+  name = 'email'
+
+  async send(message: VerificationMessage): Promise<{ id: string }> {
+    return EmailService.send('verification_code', message.destination, {
+      fullName: message.fullName,
+      code: message.code,
+      expiresMinutes: message.expiresMinutes,
+    })
+  }
+}
+
+/**
+ * Twilio Programmable Messaging (production SMS)
+ */
+export class TwilioSmsSender implements VerificationSender {
+  name = 'twilio'
+
+  constructor(private accountSid: string, private authToken: string, private fromNumber: string) {}
+
+  async send(message: VerificationMessage): Promise<{ id: string }> {
+    return this.sendText(message.destination, smsBody(message))
+  }
+
+  /**
+   * Send any text message (also used for security alert SMS)
+   */
+  async sendText(to: string, text: string): Promise<{ id: string }> {
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${Buffer.from(`${this.accountSid}:${this.authToken}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        To: to,
+        From: this.fromNumber,
+        Body: text,
+      }),
+    })
+
+    const body = await response.json().catch(() => ({}))
+
+    if (!response.ok) {
+      throw new Error(`Twilio API error (${response.status}): ${body.message || 'Unknown error'}`)
+    }
+
+    return { id: body.sid }
+  }
+}
+
+/**
+ * Local SMS outbox: writes each message to a JSON file instead of sending it
+ */
+export class StubSmsSender implements VerificationSender {
+  name = 'stub'
+
+  constructor(private directory: string) {}
+
+  async send(message: VerificationMessage): Promise<{ id: string }> {
+    const id = randomUUID()
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-sms-${id}.json`
+
+    await mkdir(this.directory, { recursive: true })
+    await writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ id, created_at: new Date().toISOString(), to: message.destination, body: smsBody(message) }, null, 2),
+      'utf8'
+    )
+
+    return { id }
+  }
+}
+
+const smsBody = (message: VerificationMessage): string =>
+  `${message.code} is your ProbWin.ai verification code. It expires in ${message.expiresMinutes} minutes.`
+
+const senders: Partial<Record<VerificationChannel, VerificationSender>> = {}
+
+/**
+ * Email codes use the email transport; SMS uses SMS_PROVIDER ('twilio' | 'stub'), Twilio in production by default
+ * The stub is never used in production, since nothing would be delivered
+ */
+export function getVerificationSender(channel: VerificationChannel): VerificationSender {
+  if (!senders[channel]) {
+    if (channel === 'email') {
+      senders.email = new EmailCodeSender()
+    } else {
+      const selected = process.env.SMS_PROVIDER || (isProduction ? 'twilio' : 'stub')
+
+      senders.phone = selected === 'stub' && !isProduction
+        ? new StubSmsSender(path.resolve(process.env.SMS_OUTBOX_DIR || '.outbox/sms'))
+        : new TwilioSmsSender(getEnv('TWILIO_ACCOUNT_SID'), getEnv('TWILIO_AUTH_TOKEN'), getEnv('TWILIO_FROM_NUMBER'))
+    }
+  }
+
+  return senders[channel]!
+}
+
+/**
+ * Override a channel's sender (e.g. an in-memory sender in local scripts)
+ */
+export function setVerificationSender(channel: VerificationChannel, next: VerificationSender | null): void {
+  if (next) {
+    senders[channel] = next
+  } else {
+    delete senders[channel]
+  }
+}
+
+// Codes are bound to the application and channel, so a leaked hash can't be replayed elsewhere
+const hashCode = (applicationId: string, channel: VerificationChannel, code: string): string =>
+  createHmac('sha256', getEnv('SECURITY_SALT')).update(`${applicationId}:${channel}:${code}`).digest('hex')
+
+const codesMatch = (expectedHash: string, providedHash: string): boolean => {
+  const expected = Buffer.from(expectedHash, 'hex')
+  const provided = Buffer.from(providedHash, 'hex')
+  return expected.length === provided.length && timingSafeEqual(expected, provided)
+}
+
+const destinationFor = (application: WaitlistApplication, channel: VerificationChannel): string | undefined =>
+  channel === 'email' ? application.email : application.phone || undefined
+
+export const isContactVerified = (application: WaitlistApplication, channel: VerificationChannel): boolean =>
+  !!(channel === 'email' ? application.email_verified_at : application.phone_verified_at)
+
+/**
+ * Contacts checkout requires for a tier, from VERIFICATION_REQUIRED_99 / VERIFICATION_REQUIRED_199
+ * (comma-separated 'email' and/or 'phone'; verification is optional when unset)
+ */
+export function requiredVerifications(tier: WaitlistTier): VerificationChannel[] {
+  return (process.env[`VERIFICATION_REQUIRED_${tier}`] || '')
+    .split(',')
+    .map(channel => channel.trim())
+    .filter((channel): channel is VerificationChannel => VERIFICATION_CHANNELS.includes(channel as VerificationChannel))
+}
+
+/**
+ * One-time code verification of an applicant's email and phone
+ */
+export class ContactVerification {
+
+  /**
+   * Contacts the application still has to verify before it can check out
+   */
+  static missingForCheckout(application: WaitlistApplication): VerificationChannel[] {
+    return requiredVerifications(application.tier).filter(channel => !isContactVerified(application, channel))
+  }
+
+  /**
+   * Send a new code to the application's current email or phone, replacing any earlier code
+   */
+  static async sendCode(
+    applicationId: string,
+    channel: VerificationChannel,
+    context: {
+      ip_address?: string
+      user_agent?: string
+    } = {}
+  ): Promise<{ expires_at: string }> {
+    const application = await DatabaseOperations.getApplicationById(applicationId)
+
+    if (!application) {
+      throw new VerificationError('Application not found', 'not_found')
+    }
+
+    const destination = destinationFor(application, channel)
+
+    if (!destination) {
+      throw new VerificationError(`This application has no ${channel} to verify`, 'no_destination')
+    }
+
+    if (isContactVerified(application, channel)) {
+      throw new VerificationError(`This ${channel} is already verified`, 'already_verified')
+    }
+
+    const latest = await this.getLiveCode(application.id, channel)
+    const cooldownMs = APP_CONFIG.VERIFICATION.RESEND_COOLDOWN_SECONDS * 1000
+
+    if (latest && Date.now() - new Date(latest.created_at).getTime() < cooldownMs) {
+      throw new VerificationError('A code was sent recently, wait a minute before requesting another', 'cooldown')
+    }
+
+    const code = randomInt(0, 10 ** APP_CONFIG.VERIFICATION.CODE_LENGTH)
+      .toString()
+      .padStart(APP_CONFIG.VERIFICATION.CODE_LENGTH, '0')
+    const expiresAt = new Date(Date.now() + APP_CONFIG.VERIFICATION.CODE_TTL_MINUTES * 60 * 1000).toISOString()
+    const sender = getVerificationSender(channel)
+
+    await this.supersede(application.id, channel)
+
+    const supabase = createServiceClient()
+
+    const { data, error } = await supabase
+      .from('verification_codes')
+      .insert([{
+        application_id: application.id,
+        channel,
+        destination,
+        code_hash: hashCode(application.id, channel, code),
+        expires_at: expiresAt,
+        max_attempts: APP_CONFIG.VERIFICATION.MAX_ATTEMPTS,
+        sender: sender.name,
+      }])
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Database error creating verification code:', error)
+      throw new Error('Failed to create verification code')
+    }
+
+    try {
+      await sender.send({
+        channel,
+        destination,
+        code,
+        fullName: application.full_name,
+        expiresMinutes: APP_CONFIG.VERIFICATION.CODE_TTL_MINUTES,
+      })
+    } catch (sendError) {
+      console.error(`Verification code delivery by ${sender.name} failed:`, sendError)
+
+      // An undelivered code shouldn't hold up the cooldown
+      await this.supersede(application.id, channel)
+      await DatabaseOperations.logSecurityEvent('verification_send_failed', 'medium', {
+        user_identifier: application.email,
+        ip_address: context.ip_address,
+        user_agent: context.user_agent,
+        event_data: {
+          application_id: application.id,
+          channel,
+          sender: sender.name,
+          error: sendError instanceof Error ? sendError.message : 'Unknown error',
+        }
+      })
+
+      throw new VerificationError(`We couldn't send a code to this ${channel}, check it and try again`, 'delivery_failed')
+    }
+
+    await DatabaseOperations.logSecurityEvent('verification_code_sent', 'low', {
+      user_identifier: application.email,
+      ip_address: context.ip_address,
+      user_agent: context.user_agent,
+      event_data: {
+        application_id: application.id,
+        channel,
+        code_id: data.id,
+        sender: sender.name,
+      }
+    })
+
+    return { expires_at: expiresAt }
+  }
+
+  /**
+   * Check a code; the contact is verified on a match, every wrong guess counts against the code
+   */
+  static async confirmCode(
+    applicationId: string,
+    channel: VerificationChannel,
+    code: string,
+    context: {
+      ip_address?: string
+      user_agent?: string
+    } = {}
+  ): Promise<WaitlistApplication> {
+    const application = await DatabaseOperations.getApplicationById(applicationId)
+
+    if (!application) {
+      throw new VerificationError('Application not found', 'not_found')
+    }
+
+    if (isContactVerified(application, channel)) {
+      return application
+    }
+
+    const record = await this.getLiveCode(application.id, channel)
+
+    if (!record) {
+      throw new VerificationError('No active code, request a new one', 'no_code')
+    }
+
+    // A code sent before the contact was changed doesn't verify the new one
+    if (new Date(record.expires_at) <= new Date() || record.destination !== destinationFor(application, channel)) {
+      throw new VerificationError('This code has expired, request a new one', 'expired')
+    }
+
+    if (record.attempts >= record.max_attempts) {
+      throw new VerificationError('Too many incorrect attempts, request a new code', 'too_many_attempts')
+    }
+
+    // Count the attempt before comparing; the guard makes concurrent guesses each use up an attempt
+    const supabase = createServiceClient()
+
+    const { data: counted, error } = await supabase
+      .from('verification_codes')
+      .update({ attempts: record.attempts + 1 })
+      .eq('id', record.id)
+      .eq('attempts', record.attempts)
+      .select('id')
+
+    if (error) {
+      console.error('Database error recording verification attempt:', error)
+      throw new Error('Failed to record verification attempt')
+    }
+
+    if (!counted?.length) {
+      throw new VerificationError('Incorrect code', 'invalid_code')
+    }
+
+    if (!codesMatch(record.code_hash, hashCode(application.id, channel, code))) {
+      const remaining = record.max_attempts - record.attempts - 1
+
+      await DatabaseOperations.logSecurityEvent('verification_failed', remaining > 0 ? 'low' : 'medium', {
+        user_identifier: application.email,
+        ip_address: context.ip_address,
+        user_agent: context.user_agent,
+        event_data: {
+          application_id: application.id,
+          channel,
+          code_id: record.id,
+          attempts_remaining: remaining,
+        }
+      })
+
+      throw remaining > 0
+        ? new VerificationError(`Incorrect code, ${remaining} attempt${remaining === 1 ? '' : 's'} left`, 'invalid_code')
+        : new VerificationError('Too many incorrect attempts, request a new code', 'too_many_attempts')
+    }
+
+    const { error: verifyError } = await supabase
+      .from('verification_codes')
+      .update({ verified_at: new Date().toISOString() })
+      .eq('id', record.id)
+
+    if (verifyError) {
+      console.error('Database error completing verification code:', verifyError)
+      throw new Error('Failed to complete verification')
+    }
+
+    const verified = await DatabaseOperations.markContactVerified(application.id, channel, record.destination)
+
+    if (!verified) {
+      throw new VerificationError('This code has expired, request a new one', 'expired')
+    }
+
+    await DatabaseOperations.logSecurityEvent('contact_verified', 'low', {
+      user_identifier: application.email,
+      ip_address: context.ip_address,
+      user_agent: context.user_agent,
+      event_data: {
+        application_id: application.id,
+        channel,
+        code_id: record.id,
+      }
+    })
+
+    return verified
+  }
+
+  // The newest code for the channel that hasn't been used or replaced
+  private static async getLiveCode(applicationId: string, channel: VerificationChannel): Promise<VerificationCode | null> {
+    const supabase = createServiceClient()
+
+    const { data, error } = await supabase
+      .from('verification_codes')
+      .select('*')
+      .eq('application_id', applicationId)
+      .eq('channel', channel)
+      .is('verified_at', null)
+      .is('superseded_at', null)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Database error fetching verification code:', error)
+      throw new Error('Failed to fetch verification code')
+    }
+
+    return data as VerificationCode | null
+  }
+
+  private static async supersede(applicationId: string, channel: VerificationChannel): Promise<void> {
+    const supabase = createServiceClient()
+
+    const { error } = await supabase
+      .from('verification_codes')
+      .update({ superseded_at: new Date().toISOString() })
+      .eq('application_id', applicationId)
+      .eq('channel', channel)
+      .is('verified_at', null)
+      .is('superseded_at', null)
+
+    if (error) {
+      console.error('Database error superseding verification codes:', error)
+      throw new Error('Failed to supersede verification codes')
+    }
+  }
+}
@@ -0,0 +1,312 @@
+import { createServiceClient } from './supabase'
+import { StripeSecurityManager } from './stripe'
+import { CreditBalance, CreditCoupon, CreditEntryType, CreditKind, CreditLedgerEntry, WaitlistApplication } from '../types'
+
+type LedgerApplication = Pick<WaitlistApplication, 'id' | 'email' | 'credit_amount_cents'>
+
+interface LedgerMovement {
+  email: string
+  application_id?: string
+  entry_type: CreditEntryType
+  credit_kind: CreditKind
+  amount_cents: number
+  expires_at?: string
+  stripe_reference?: string
+  notes?: string
+}
+
+/**
+ * Append-only ledger of FastTrack fees and site credit
+ * Movements are idempotent per application (fee issue and reversal per payment intent), so webhook and job retries are safe
+ */
+export class CreditLedger {
+
+  /**
+   * FastTrack fee paid, once per payment intent (a retried checkout after a failed payment is a new issue)
+   */
+  static async recordIssue(application: LedgerApplication, paymentIntentId?: string): Promise<void> {
+    await this.record([{
+      email: application.email,
+      application_id: application.id,
+      entry_type: 'issue',
+      credit_kind: 'fasttrack',
+      amount_cents: application.credit_amount_cents,
+      stripe_reference: paymentIntentId,
+      notes: 'FastTrack application fee',
+    }])
+  }
+
+  /**
+   * A membership invoice redeemed a credit coupon: debit the discount it received from the email's balances
+   * (site credit first, then FastTrack), keyed to the coupon so webhook retries are no-ops. Returns the cents debited
+   */
+  static async recordRedemption(stripeCouponId: string, amountCents: number, stripeReference: string): Promise<number> {
+    const supabase = createServiceClient()
+
+    const { data, error } = await supabase.rpc('redeem_credit_coupon', {
+      p_stripe_coupon_id: stripeCouponId,
+      p_amount_cents: amountCents,
+      p_reference: stripeReference,
+    })
+
+    if (error) {
+      console.error('Database error redeeming credit coupon:', error)
+      throw new Error('Failed to record credit redemption')
+    }
+
+    return Number(data) || 0
+  }
+
+  /**
+   * Seat not activated: FastTrack credit becomes non-refundable site credit
+   */
+  static async recordConversion(application: LedgerApplication, expiresAt: string): Promise<void> {
+    await this.record([
+      {
+        email: application.email,
+        application_id: application.id,
+        entry_type: 'convert',
+        credit_kind: 'fasttrack',
+        amount_cents: -application.credit_amount_cents,
+        notes: 'Converted to site credit',
+      },
+      {
+        email: application.email,
+        application_id: application.id,
+        entry_type: 'convert',
+        credit_kind: 'site',
+        amount_cents: application.credit_amount_cents,
+        expires_at: expiresAt,
+        notes: 'Converted from FastTrack credit',
+      },
+    ])
+  }
+
+  /**
+   * Fee refunded or its payment failed: withdraw the FastTrack credit issued for that payment intent
+   */
+  static async recordRefundReversal(application: LedgerApplication, paymentIntentId?: string): Promise<void> {
+    await this.record([{
+      email: application.email,
+      application_id: application.id,
+      entry_type: 'refund_reversal',
+      credit_kind: 'fasttrack',
+      amount_cents: -application.credit_amount_cents,
+      stripe_reference: paymentIntentId,
+      notes: 'Application fee refunded',
+    }])
+  }
+
+  /**
+   * Expire site credit older than its expiry date, returns the number of entries written
+   */
+  static async expireSiteCredits(now: Date = new Date()): Promise<number> {
+    const supabase = createServiceClient()
+
+    try {
+      const { data, error } = await supabase.rpc('expire_site_credits', {
+        p_now: now.toISOString(),
+      })
+
+      if (error) {
+        console.error('Database error expiring site credits:', error)
+        throw new Error('Failed to expire site credits')
+      }
+
+      return Number(data) || 0
+    } catch (error) {
+      console.error('Error in expireSiteCredits:', error)
+      throw error
+    }
+  }
+
+  /**
+   * All ledger entries for an email, oldest first
+   */
+  static async getEntries(email: string): Promise<CreditLedgerEntry[]> {
+    const supabase = createServiceClient()
+
+    try {
+      const { data, error } = await supabase
+        .from('credit_ledger')
+        .select('*')
+        .eq('email', email.toLowerCase())
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        console.error('Database error fetching credit ledger:', error)
+        throw new Error('Failed to fetch credit ledger')
+      }
+
+      return (data || []) as CreditLedgerEntry[]
+    } catch (error) {
+      console.error('Error in getEntries:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Current FastTrack and site credit balance for an email
+   */
+  static async getBalance(email: string): Promise<CreditBalance> {
+    const entries = await this.getEntries(email)
+
+    const sumKind = (kind: CreditKind, applicationId?: string | null) =>
+      entries
+        .filter(entry => entry.credit_kind === kind && (applicationId === undefined || entry.application_id === applicationId))
+        .reduce((total, entry) => total + entry.amount_cents, 0)
+
+    const fasttrackCents = sumKind('fasttrack')
+    const siteCents = sumKind('site')
+
+    // Earliest expiry among conversions that still have a balance
+    const siteCreditExpiresAt = entries
+      .filter(entry => entry.entry_type === 'convert' && entry.credit_kind === 'site' && entry.expires_at)
+      .filter(entry => sumKind('site', entry.application_id) > 0)
+      .map(entry => entry.expires_at as string)
+      .sort()[0] || null
+
+    return {
+      email: email.toLowerCase(),
+      fasttrack_cents: fasttrackCents,
+      site_cents: siteCents,
+      total_cents: fasttrackCents + siteCents,
+      site_credit_expires_at: siteCreditExpiresAt,
+    }
+  }
+
+  /**
+   * One-time Stripe coupon equal to the credit balance (PRD 6.3 "simplest path")
+   * An email has at most one open coupon: checkouts reuse it, and it is replaced only when the balance has changed.
+   * Returns null when there is no balance to redeem, or when the open coupon was already used by a checkout
+   * whose payment hasn't been recorded yet
+   */
+  static async createBalanceCoupon(
+    email: string,
+    applicationId?: string
+  ): Promise<{ coupon: CreditCoupon; balance: CreditBalance } | null> {
+    const balance = await this.getBalance(email)
+    const open = await this.getOpenCoupon(balance.email)
+
+    if (open) {
+      const stripeCoupon = await StripeSecurityManager.retrieveCreditCoupon(open.stripe_coupon_id)
+
+      if (stripeCoupon && stripeCoupon.times_redeemed > 0) {
+        return null
+      }
+
+      if (stripeCoupon?.valid && open.amount_cents === balance.total_cents) {
+        return { coupon: open, balance }
+      }
+
+      // The balance moved (issued, converted, expired) or the coupon lapsed: replace it
+      if (stripeCoupon) {
+        await StripeSecurityManager.deleteCreditCoupon(open.stripe_coupon_id)
+      }
+      await this.voidCoupon(open.id)
+    }
+
+    if (balance.total_cents <= 0) {
+      return null
+    }
+
+    const stripeCoupon = await StripeSecurityManager.createCreditCoupon({
+      amountCents: balance.total_cents,
+      email: balance.email,
+      redeemBy: balance.site_credit_expires_at ? new Date(balance.site_credit_expires_at) : undefined,
+    })
+
+    const supabase = createServiceClient()
+
+    const { data, error } = await supabase
+      .from('credit_coupons')
+      .insert([{
+        email: balance.email,
+        application_id: applicationId || null,
+        stripe_coupon_id: stripeCoupon.id,
+        amount_cents: balance.total_cents,
+        redeem_by: balance.site_credit_expires_at,
+      }])
+      .select('*')
+      .single()
+
+    if (error) {
+      await StripeSecurityManager.deleteCreditCoupon(stripeCoupon.id)
+
+      // Unique violation: a concurrent checkout opened the email's coupon first; share it
+      if (error.code === '23505') {
+        const winner = await this.getOpenCoupon(balance.email)
+        return winner ? { coupon: winner, balance } : null
+      }
+
+      console.error('Database error recording credit coupon:', error)
+      throw new Error('Failed to record credit coupon')
+    }
+
+    return { coupon: data as CreditCoupon, balance }
+  }
+
+  /**
+   * The email's open credit coupon, if any
+   */
+  static async getOpenCoupon(email: string): Promise<CreditCoupon | null> {
+    const supabase = createServiceClient()
+
+    const { data, error } = await supabase
+      .from('credit_coupons')
+      .select('*')
+      .eq('email', email.toLowerCase())
+      .eq('status', 'open')
+      .maybeSingle()
+
+    if (error) {
+      console.error('Database error fetching credit coupon:', error)
+      throw new Error('Failed to fetch credit coupon')
+    }
+
+    return data as CreditCoupon | null
+  }
+
+  private static async voidCoupon(id: string): Promise<void> {
+    const supabase = createServiceClient()
+
+    const { error } = await supabase
+      .from('credit_coupons')
+      .update({ status: 'void', voided_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('status', 'open')
+
+    if (error) {
+      console.error('Database error voiding credit coupon:', error)
+      throw new Error('Failed to void credit coupon')
+    }
+  }
+
+  /**
+   * Insert movements, ignoring ones already recorded for the application
+   */
+  private static async record(movements: LedgerMovement[]): Promise<void> {
+    const supabase = createServiceClient()
+
+    try {
+      for (const movement of movements) {
+        if (movement.amount_cents === 0) continue
+
+        const { error } = await supabase
+          .from('credit_ledger')
+          .insert([{ ...movement, email: movement.email.toLowerCase() }])
+
+        if (error) {
+          if (error.code === '23505') {
+            continue // Already recorded
+          }
+          console.error('Database error recording credit movement:', error)
+          throw new Error('Failed to record credit movement')
+        }
+      }
+    } catch (error) {
+      console.error('Error in CreditLedger.record:', error)
+      throw error
+    }
+  }
+}
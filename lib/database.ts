@@ -1,5 +1,17 @@
 import { createServiceClient } from './supabase'
-import { WaitlistApplication, SeatData, ApplicationFormData } from '../types'
+import {
+  WaitlistApplication,
+  WaitlistStatus,
+  WaitlistTier,
+  Wave,
+  SeatData,
+  ApplicationFormData,
+  ApplicationFilters,
+  SecurityAuditLogEntry,
+  ApplicationStatusHistoryEntry,
+  VerificationChannel,
+} from '../types'
+import { ApplicationTransitionFields, assertTransition } from './application-lifecycle'
 
 /**
  * Secure database operations using service role
@@ -36,6 +48,27 @@ export class DatabaseOperations {
     }
   }
   
+  /**
+   * The wave new applications for a tier join (see current_wave()), or null when no wave is running
+   */
+  static async getCurrentWave(tier: WaitlistTier): Promise<Wave | null> {
+    const supabase = createServiceClient()
+    
+    try {
+      const { data, error } = await supabase.rpc('current_wave', { p_tier: tier })
+      
+      if (error) {
+        console.error('Database error fetching current wave:', error)
+        throw new Error('Failed to fetch current wave')
+      }
+      
+      return (data as Wave[] | null)?.[0] || null
+    } catch (error) {
+      console.error('Error in getCurrentWave:', error)
+      throw error
+    }
+  }
+  
   /**
    * Create a new waitlist application
    */
@@ -50,108 +83,922 @@ export class DatabaseOperations {
     const supabase = createServiceClient()
     
     try {
-      // Determine wave based on tier
-      const wave = formData.tier === '99' ? 1 : 2
-      const creditAmount = formData.tier === '99' ? 9900 : 19900
-      
+      // New applications join the tier's current wave
+      const currentWave = await this.getCurrentWave(formData.tier)
+      if (!currentWave) {
+        throw new Error('This tier is not open for applications')
+      }
+      const wave = currentWave.id
+      const creditAmount = formData.tier === '99' ? 9900 : 19900
+      
+      const { data, error } = await supabase
+        .from('waitlist_applications')
+        .insert([{
+          tier: formData.tier,
+          wave,
+          full_name: formData.full_name,
+          email: formData.email.toLowerCase(),
+          phone: formData.phone,
+          country: formData.country,
+          bankroll_range: formData.bankroll_range,
+          sportsbooks: [formData.sportsbooks], // Convert to array
+          time_commitment: formData.time_commitment,
+          risk_profile: { level: formData.risk_profile },
+          notes: formData.notes || null,
+          credit_amount_cents: creditAmount,
+          ip_address: metadata.ip_address,
+          user_agent: metadata.user_agent,
+          recaptcha_verified: metadata.recaptcha_verified,
+        }])
+        .select()
+        .single()
+      
+      if (error) {
+        console.error('Database error creating application:', error)
+        
+        // Handle specific constraint violations
+        if (error.code === '23505' && error.message.includes('unique_email_per_wave')) {
+          throw new Error('You have already applied for this tier')
+        }
+        
+        throw new Error('Failed to create application')
+      }
+      
+      return data as WaitlistApplication
+    } catch (error) {
+      console.error('Error in createApplication:', error)
+      throw error
+    }
+  }
+  
+  /**
+   * Update application with Stripe information
+   */
+  static async updateApplicationStripeInfo(
+    applicationId: string,
+    stripeData: {
+      customer_id?: string
+      checkout_session_id?: string
+      payment_intent_id?: string
+    }
+  ): Promise<void> {
+    const supabase = createServiceClient()
+    
+    try {
+      const { error } = await supabase
+        .from('waitlist_applications')
+        .update({
+          stripe_customer_id: stripeData.customer_id,
+          stripe_checkout_session_id: stripeData.checkout_session_id,
+          stripe_payment_intent_id: stripeData.payment_intent_id,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', applicationId)
+      
+      if (error) {
+        console.error('Database error updating Stripe info:', error)
+        throw new Error('Failed to update payment information')
+      }
+    } catch (error) {
+      console.error('Error in updateApplicationStripeInfo:', error)
+      throw error
+    }
+  }
+  
+  /**
+   * Claim an open application for a new checkout; claims made before staleBefore are taken over
+   * Returns the claim time to pass to completeCheckoutClaim, or null when a session exists or another request holds the claim
+   */
+  static async claimCheckout(applicationId: string, staleBefore: string): Promise<string | null> {
+    const supabase = createServiceClient()
+    const claimedAt = new Date().toISOString()
+    
+    try {
+      const { data, error } = await supabase
+        .from('waitlist_applications')
+        .update({
+          checkout_claimed_at: claimedAt,
+          updated_at: claimedAt,
+        })
+        .eq('id', applicationId)
+        .eq('status', 'pending')
+        .is('stripe_checkout_session_id', null)
+        .or(`checkout_claimed_at.is.null,checkout_claimed_at.lt."${staleBefore}"`)
+        .select('id')
+      
+      if (error) {
+        console.error('Database error claiming checkout:', error)
+        throw new Error('Failed to claim checkout')
+      }
+      
+      return (data || []).length > 0 ? claimedAt : null
+    } catch (error) {
+      console.error('Error in claimCheckout:', error)
+      throw error
+    }
+  }
+  
+  /**
+   * Store the checkout session if the claim still holds; false when another request took it over
+   */
+  static async completeCheckoutClaim(applicationId: string, claimedAt: string, checkoutSessionId: string): Promise<boolean> {
+    const supabase = createServiceClient()
+    
+    try {
+      const { data, error } = await supabase
+        .from('waitlist_applications')
+        .update({
+          stripe_checkout_session_id: checkoutSessionId,
+          checkout_claimed_at: null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', applicationId)
+        .eq('status', 'pending')
+        .eq('checkout_claimed_at', claimedAt)
+        .is('stripe_checkout_session_id', null)
+        .select('id')
+      
+      if (error) {
+        console.error('Database error completing checkout claim:', error)
+        throw new Error('Failed to update payment information')
+      }
+      
+      return (data || []).length > 0
+    } catch (error) {
+      console.error('Error in completeCheckoutClaim:', error)
+      throw error
+    }
+  }
+  
+  /**
+   * Give up a checkout claim that did not produce a session
+   */
+  static async releaseCheckoutClaim(applicationId: string, claimedAt: string): Promise<void> {
+    const supabase = createServiceClient()
+    
+    try {
+      const { error } = await supabase
+        .from('waitlist_applications')
+        .update({
+          checkout_claimed_at: null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', applicationId)
+        .eq('checkout_claimed_at', claimedAt)
+      
+      if (error) {
+        console.error('Database error releasing checkout claim:', error)
+        throw new Error('Failed to release checkout claim')
+      }
+    } catch (error) {
+      console.error('Error in releaseCheckoutClaim:', error)
+      throw error
+    }
+  }
+  
+  /**
+   * Update membership activation details (plan, subscription checkout, subscription)
+   */
+  static async updateApplicationMembership(
+    applicationId: string,
+    membership: Partial<Pick<WaitlistApplication,
+      | 'membership_plan'
+      | 'membership_checkout_session_id'
+      | 'stripe_subscription_id'
+      | 'stripe_customer_id'
+      | 'activated_at'
+    >>
+  ): Promise<void> {
+    const supabase = createServiceClient()
+    
+    try {
+      const { error } = await supabase
+        .from('waitlist_applications')
+        .update({
+          ...membership,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', applicationId)
+      
+      if (error) {
+        console.error('Database error updating membership info:', error)
+        throw new Error('Failed to update membership information')
+      }
+    } catch (error) {
+      console.error('Error in updateApplicationMembership:', error)
+      throw error
+    }
+  }
+  
+  /**
+   * Get application by Stripe checkout session ID
+   */
+  static async getApplicationByStripeSession(sessionId: string): Promise<WaitlistApplication | null> {
+    const supabase = createServiceClient()
+    
+    try {
+      const { data, error } = await supabase
+        .from('waitlist_applications')
+        .select('*')
+        .eq('stripe_checkout_session_id', sessionId)
+        .single()
+      
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return null // No matching record
+        }
+        console.error('Database error fetching application by session:', error)
+        throw new Error('Failed to fetch application')
+      }
+      
+      return data as WaitlistApplication
+    } catch (error) {
+      console.error('Error in getApplicationByStripeSession:', error)
+      throw error
+    }
+  }
+  
+  /**
+   * Get application by Stripe payment intent ID
+   */
+  static async getApplicationByPaymentIntent(paymentIntentId: string): Promise<WaitlistApplication | null> {
+    const supabase = createServiceClient()
+    
+    try {
+      const { data, error } = await supabase
+        .from('waitlist_applications')
+        .select('*')
+        .eq('stripe_payment_intent_id', paymentIntentId)
+        .maybeSingle()
+      
+      if (error) {
+        console.error('Database error fetching application by payment intent:', error)
+        throw new Error('Failed to fetch application')
+      }
+      
+      return data as WaitlistApplication | null
+    } catch (error) {
+      console.error('Error in getApplicationByPaymentIntent:', error)
+      throw error
+    }
+  }
+  
+  /**
+   * Record a payment dispute (chargeback) opened or updated on an application's payment
+   */
+  static async updateApplicationDispute(
+    applicationId: string,
+    dispute: Required<Pick<WaitlistApplication, 'dispute_id' | 'dispute_status'>> & Pick<WaitlistApplication, 'disputed_at'>
+  ): Promise<WaitlistApplication> {
+    const supabase = createServiceClient()
+    
+    try {
+      const { data, error } = await supabase
+        .from('waitlist_applications')
+        .update({
+          ...dispute,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', applicationId)
+        .select('*')
+        .single()
+      
+      if (error) {
+        console.error('Database error updating dispute:', error)
+        throw new Error('Failed to update dispute')
+      }
+      
+      return data as WaitlistApplication
+    } catch (error) {
+      console.error('Error in updateApplicationDispute:', error)
+      throw error
+    }
+  }
+  
+  /**
+   * Record a fraud score, or a reviewer's fraud status decision
+   */
+  static async updateApplicationFraud(
+    applicationId: string,
+    fraud: Pick<WaitlistApplication, 'fraud_status'> & Partial<Pick<WaitlistApplication,
+      'fraud_score' | 'fraud_reasons' | 'fraud_scored_at' | 'recaptcha_score' | 'fraud_reviewed_by' | 'fraud_reviewed_at'
+    >>
+  ): Promise<WaitlistApplication> {
+    const supabase = createServiceClient()
+    
+    try {
+      const { data, error } = await supabase
+        .from('waitlist_applications')
+        .update({
+          ...fraud,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', applicationId)
+        .select('*')
+        .single()
+      
+      if (error) {
+        console.error('Database error updating fraud score:', error)
+        throw new Error('Failed to update fraud score')
+      }
+      
+      return data as WaitlistApplication
+    } catch (error) {
+      console.error('Error in updateApplicationFraud:', error)
+      throw error
+    }
+  }
+  
+  /**
+   * Count audit log events of the given types from an IP address or for an identifier since a point in time
+   */
+  static async countSecurityEventsSince(
+    match: { ip_address: string } | { user_identifier: string },
+    since: string,
+    eventTypes: readonly string[]
+  ): Promise<number> {
+    const supabase = createServiceClient()
+    
+    try {
+      const { count, error } = await supabase
+        .from('security_audit_log')
+        .select('id', { count: 'exact', head: true })
+        .match(match)
+        .in('event_type', eventTypes)
+        .gte('created_at', since)
+      
+      if (error) {
+        console.error('Database error counting security events:', error)
+        throw new Error('Failed to count security events')
+      }
+      
+      return count || 0
+    } catch (error) {
+      console.error('Error in countSecurityEventsSince:', error)
+      throw error
+    }
+  }
+  
+  /**
+   * Count other people's applications from the same IP address and browser
+   */
+  static async countApplicationsFromDevice(
+    device: { ip_address: string; user_agent: string },
+    excludeEmail: string
+  ): Promise<number> {
+    const supabase = createServiceClient()
+    
+    try {
+      const { count, error } = await supabase
+        .from('waitlist_applications')
+        .select('id', { count: 'exact', head: true })
+        .eq('ip_address', device.ip_address)
+        .eq('user_agent', device.user_agent)
+        .neq('email', excludeEmail.toLowerCase())
+      
+      if (error) {
+        console.error('Database error counting device applications:', error)
+        throw new Error('Failed to count device applications')
+      }
+      
+      return count || 0
+    } catch (error) {
+      console.error('Error in countApplicationsFromDevice:', error)
+      throw error
+    }
+  }
+  
+  /**
+   * Get application by ID
+   */
+  static async getApplicationById(applicationId: string): Promise<WaitlistApplication | null> {
+    const supabase = createServiceClient()
+    
+    try {
+      const { data, error } = await supabase
+        .from('waitlist_applications')
+        .select('*')
+        .eq('id', applicationId)
+        .single()
+      
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return null // No matching record
+        }
+        console.error('Database error fetching application by ID:', error)
+        throw new Error('Failed to fetch application')
+      }
+      
+      return data as WaitlistApplication
+    } catch (error) {
+      console.error('Error in getApplicationById:', error)
+      throw error
+    }
+  }
+  
+  /**
+   * Set or clear the booked interview time, re-arming the interview reminder
+   * With onlyIfScheduledAt, the update only applies while that booking is the current one
+   */
+  static async updateInterviewSchedule(
+    applicationId: string,
+    scheduledAt: string | null,
+    onlyIfScheduledAt?: string
+  ): Promise<void> {
+    const supabase = createServiceClient()
+    
+    try {
+      let query = supabase
+        .from('waitlist_applications')
+        .update({
+          interview_scheduled_at: scheduledAt,
+          interview_reminder_sent_at: null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', applicationId)
+      
+      if (onlyIfScheduledAt) {
+        query = query.eq('interview_scheduled_at', onlyIfScheduledAt)
+      }
+      
+      const { error } = await query
+      
+      if (error) {
+        console.error('Database error updating interview schedule:', error)
+        throw new Error('Failed to update interview schedule')
+      }
+    } catch (error) {
+      console.error('Error in updateInterviewSchedule:', error)
+      throw error
+    }
+  }
+  
+  /**
+   * Get paid applications in the given statuses, oldest first
+   */
+  static async getPaidApplicationsByStatus(statuses: readonly WaitlistStatus[]): Promise<WaitlistApplication[]> {
+    const supabase = createServiceClient()
+    
+    try {
+      const { data, error } = await supabase
+        .from('waitlist_applications')
+        .select('*')
+        .in('status', statuses)
+        .not('stripe_payment_intent_id', 'is', null)
+        .order('created_at', { ascending: true })
+      
+      if (error) {
+        console.error('Database error fetching applications by status:', error)
+        throw new Error('Failed to fetch applications')
+      }
+      
+      return (data || []) as WaitlistApplication[]
+    } catch (error) {
+      console.error('Error in getPaidApplicationsByStatus:', error)
+      throw error
+    }
+  }
+  
+  /**
+   * Get the most recent application for an email
+   */
+  static async getLatestApplicationByEmail(email: string): Promise<WaitlistApplication | null> {
+    const supabase = createServiceClient()
+    
+    try {
+      const { data, error } = await supabase
+        .from('waitlist_applications')
+        .select('*')
+        .eq('email', email.toLowerCase())
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+      
+      if (error) {
+        console.error('Database error fetching application by email:', error)
+        throw new Error('Failed to fetch application')
+      }
+      
+      return data as WaitlistApplication | null
+    } catch (error) {
+      console.error('Error in getLatestApplicationByEmail:', error)
+      throw error
+    }
+  }
+  
+  /**
+   * Update the contact details an applicant can change themselves
+   */
+  static async updateApplicantDetails(
+    applicationId: string,
+    details: Partial<Pick<WaitlistApplication, 'phone' | 'notes'>>
+  ): Promise<WaitlistApplication> {
+    const supabase = createServiceClient()
+    
+    try {
       const { data, error } = await supabase
         .from('waitlist_applications')
-        .insert([{
-          tier: formData.tier,
-          wave,
-          full_name: formData.full_name,
-          email: formData.email.toLowerCase(),
-          phone: formData.phone,
-          country: formData.country,
-          bankroll_range: formData.bankroll_range,
-          sportsbooks: [formData.sportsbooks], // Convert to array
-          time_commitment: formData.time_commitment,
-          risk_profile: { level: formData.risk_profile },
-          notes: formData.notes || null,
-          credit_amount_cents: creditAmount,
-          ip_address: metadata.ip_address,
-          user_agent: metadata.user_agent,
-          recaptcha_verified: metadata.recaptcha_verified,
-        }])
-        .select()
+        .update({
+          ...details,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', applicationId)
+        .select('*')
         .single()
       
       if (error) {
-        console.error('Database error creating application:', error)
-        
-        // Handle specific constraint violations
-        if (error.code === '23505' && error.message.includes('unique_email_per_wave')) {
-          throw new Error('You have already applied for this tier')
-        }
-        
-        throw new Error('Failed to create application')
+        console.error('Database error updating applicant details:', error)
+        throw new Error('Failed to update application details')
       }
       
       return data as WaitlistApplication
     } catch (error) {
-      console.error('Error in createApplication:', error)
+      console.error('Error in updateApplicantDetails:', error)
       throw error
     }
   }
   
   /**
-   * Update application with Stripe information
+   * Mark the application's email or phone as verified
+   * Only applies while the contact is still the one the code was sent to
    */
-  static async updateApplicationStripeInfo(
+  static async markContactVerified(
     applicationId: string,
-    stripeData: {
-      customer_id?: string
-      checkout_session_id?: string
-      payment_intent_id?: string
+    channel: VerificationChannel,
+    destination: string
+  ): Promise<WaitlistApplication | null> {
+    const supabase = createServiceClient()
+    
+    try {
+      const { data, error } = await supabase
+        .from('waitlist_applications')
+        .update({
+          [channel === 'email' ? 'email_verified_at' : 'phone_verified_at']: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', applicationId)
+        .eq(channel, destination)
+        .select('*')
+        .maybeSingle()
+      
+      if (error) {
+        console.error('Database error marking contact verified:', error)
+        throw new Error('Failed to mark contact verified')
+      }
+      
+      return data as WaitlistApplication | null
+    } catch (error) {
+      console.error('Error in markContactVerified:', error)
+      throw error
     }
-  ): Promise<void> {
+  }
+  
+  /**
+   * List applications for the admin review queue, oldest first
+   */
+  static async listApplications(
+    filters: ApplicationFilters,
+    page: { limit: number; offset: number }
+  ): Promise<{ applications: WaitlistApplication[]; total: number }> {
+    const supabase = createServiceClient()
+    
+    try {
+      let query = supabase
+        .from('waitlist_applications')
+        .select('*', { count: 'exact' })
+      
+      if (filters.wave !== undefined) query = query.eq('wave', filters.wave)
+      if (filters.tier) query = query.eq('tier', filters.tier)
+      if (filters.status) query = query.eq('status', filters.status)
+      if (filters.bankroll_range) query = query.eq('bankroll_range', filters.bankroll_range)
+      if (filters.risk_profile) query = query.eq('risk_profile->>level', filters.risk_profile)
+      if (filters.country) query = query.eq('country', filters.country)
+      if (filters.min_fraud_score !== undefined) query = query.gte('fraud_score', filters.min_fraud_score)
+      if (filters.recaptcha_verified !== undefined) query = query.eq('recaptcha_verified', filters.recaptcha_verified)
+      
+      const { data, error, count } = await query
+        .order('created_at', { ascending: true })
+        .range(page.offset, page.offset + page.limit - 1)
+      
+      if (error) {
+        console.error('Database error listing applications:', error)
+        throw new Error('Failed to list applications')
+      }
+      
+      return {
+        applications: (data || []) as WaitlistApplication[],
+        total: count || 0,
+      }
+    } catch (error) {
+      console.error('Error in listApplications:', error)
+      throw error
+    }
+  }
+  
+  /**
+   * Get security audit log entries related to an application, newest first
+   */
+  static async getApplicationAuditLog(
+    application: Pick<WaitlistApplication, 'id' | 'email'>,
+    limit: number = 100
+  ): Promise<SecurityAuditLogEntry[]> {
+    const supabase = createServiceClient()
+    
+    try {
+      const { data, error } = await supabase
+        .from('security_audit_log')
+        .select('*')
+        .or(`user_identifier.eq."${application.email}",event_data->>application_id.eq.${application.id}`)
+        .order('created_at', { ascending: false })
+        .limit(limit)
+      
+      if (error) {
+        console.error('Database error fetching application audit log:', error)
+        throw new Error('Failed to fetch audit log')
+      }
+      
+      return (data || []) as SecurityAuditLogEntry[]
+    } catch (error) {
+      console.error('Error in getApplicationAuditLog:', error)
+      throw error
+    }
+  }
+  
+  /**
+   * Move an application between statuses, only if it is still in the expected status.
+   * Writes the status history row in the same transaction.
+   * Returns null when the row was moved by someone else in the meantime.
+   */
+  static async transitionApplicationStatus(
+    applicationId: string,
+    from: WaitlistStatus,
+    to: WaitlistStatus,
+    fields: ApplicationTransitionFields,
+    audit: {
+      changed_by?: string
+      reason?: string
+    } = {}
+  ): Promise<WaitlistApplication | null> {
+    const supabase = createServiceClient()
+    
+    try {
+      assertTransition(from, to, fields)
+      
+      const { data, error } = await supabase
+        .rpc('transition_application_status', {
+          p_application_id: applicationId,
+          p_from_status: from,
+          p_to_status: to,
+          p_fields: fields,
+          p_changed_by: audit.changed_by,
+          p_reason: audit.reason,
+        })
+        .maybeSingle()
+      
+      if (error) {
+        console.error('Database error transitioning application status:', error)
+        throw new Error('Failed to update application status')
+      }
+      
+      return data as WaitlistApplication | null
+    } catch (error) {
+      console.error('Error in transitionApplicationStatus:', error)
+      throw error
+    }
+  }
+  
+  /**
+   * Get the status history of an application, newest first
+   */
+  static async getApplicationStatusHistory(applicationId: string): Promise<ApplicationStatusHistoryEntry[]> {
+    const supabase = createServiceClient()
+    
+    try {
+      const { data, error } = await supabase
+        .from('application_status_history')
+        .select('*')
+        .eq('application_id', applicationId)
+        .order('created_at', { ascending: false })
+      
+      if (error) {
+        console.error('Database error fetching status history:', error)
+        throw new Error('Failed to fetch status history')
+      }
+      
+      return (data || []) as ApplicationStatusHistoryEntry[]
+    } catch (error) {
+      console.error('Error in getApplicationStatusHistory:', error)
+      throw error
+    }
+  }
+  
+  /**
+   * Refresh the seat count materialized view
+   */
+  static async refreshSeatCounts(): Promise<void> {
+    const supabase = createServiceClient()
+    
+    try {
+      const { error } = await supabase.rpc('refresh_seat_counts')
+      
+      if (error) {
+        console.error('Database error refreshing seat counts:', error)
+        throw new Error('Failed to refresh seat counts')
+      }
+    } catch (error) {
+      console.error('Error in refreshSeatCounts:', error)
+      throw error
+    }
+  }
+  
+  /**
+   * Accepted applications whose activation deadline falls before the cutoff and have not been reminded
+   */
+  static async getApplicationsDueActivationReminder(cutoff: string): Promise<WaitlistApplication[]> {
+    const supabase = createServiceClient()
+    
+    try {
+      const { data, error } = await supabase
+        .from('waitlist_applications')
+        .select('*')
+        .eq('status', 'accepted')
+        .is('activation_reminder_sent_at', null)
+        .lte('activation_deadline', cutoff)
+        .order('activation_deadline', { ascending: true })
+      
+      if (error) {
+        console.error('Database error fetching activation reminders:', error)
+        throw new Error('Failed to fetch activation reminders')
+      }
+      
+      return (data || []) as WaitlistApplication[]
+    } catch (error) {
+      console.error('Error in getApplicationsDueActivationReminder:', error)
+      throw error
+    }
+  }
+  
+  /**
+   * Record that the day-10 activation reminder was sent
+   */
+  static async markActivationReminderSent(applicationId: string): Promise<void> {
     const supabase = createServiceClient()
     
     try {
       const { error } = await supabase
         .from('waitlist_applications')
         .update({
-          stripe_customer_id: stripeData.customer_id,
-          stripe_checkout_session_id: stripeData.checkout_session_id,
-          stripe_payment_intent_id: stripeData.payment_intent_id,
+          activation_reminder_sent_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
         })
         .eq('id', applicationId)
       
       if (error) {
-        console.error('Database error updating Stripe info:', error)
-        throw new Error('Failed to update payment information')
+        console.error('Database error marking activation reminder:', error)
+        throw new Error('Failed to update activation reminder')
       }
     } catch (error) {
-      console.error('Error in updateApplicationStripeInfo:', error)
+      console.error('Error in markActivationReminderSent:', error)
       throw error
     }
   }
   
   /**
-   * Get application by Stripe checkout session ID
+   * Pending applications with an interview booked between now and the cutoff, not yet reminded
    */
-  static async getApplicationByStripeSession(sessionId: string): Promise<WaitlistApplication | null> {
+  static async getApplicationsDueInterviewReminder(now: string, cutoff: string): Promise<WaitlistApplication[]> {
     const supabase = createServiceClient()
     
     try {
       const { data, error } = await supabase
         .from('waitlist_applications')
         .select('*')
-        .eq('stripe_checkout_session_id', sessionId)
-        .single()
+        .eq('status', 'pending')
+        .is('interview_reminder_sent_at', null)
+        .is('interview_completed_at', null)
+        .gt('interview_scheduled_at', now)
+        .lte('interview_scheduled_at', cutoff)
+        .order('interview_scheduled_at', { ascending: true })
       
       if (error) {
-        if (error.code === 'PGRST116') {
-          return null // No matching record
-        }
-        console.error('Database error fetching application by session:', error)
-        throw new Error('Failed to fetch application')
+        console.error('Database error fetching interview reminders:', error)
+        throw new Error('Failed to fetch interview reminders')
       }
       
-      return data as WaitlistApplication
+      return (data || []) as WaitlistApplication[]
     } catch (error) {
-      console.error('Error in getApplicationByStripeSession:', error)
+      console.error('Error in getApplicationsDueInterviewReminder:', error)
+      throw error
+    }
+  }
+  
+  /**
+   * Claim the interview reminder for this booking before sending it
+   * Returns false when another run claimed it or the interview was rebooked since it was fetched
+   */
+  static async claimInterviewReminder(applicationId: string, scheduledAt: string): Promise<boolean> {
+    const supabase = createServiceClient()
+    
+    try {
+      const { data, error } = await supabase
+        .from('waitlist_applications')
+        .update({
+          interview_reminder_sent_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', applicationId)
+        .eq('interview_scheduled_at', scheduledAt)
+        .is('interview_reminder_sent_at', null)
+        .select('id')
+      
+      if (error) {
+        console.error('Database error claiming interview reminder:', error)
+        throw new Error('Failed to claim interview reminder')
+      }
+      
+      return (data || []).length > 0
+    } catch (error) {
+      console.error('Error in claimInterviewReminder:', error)
+      throw error
+    }
+  }
+  
+  /**
+   * Release a claimed interview reminder that failed to send, so the next run retries it
+   */
+  static async releaseInterviewReminder(applicationId: string, scheduledAt: string): Promise<void> {
+    const supabase = createServiceClient()
+    
+    try {
+      const { error } = await supabase
+        .from('waitlist_applications')
+        .update({
+          interview_reminder_sent_at: null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', applicationId)
+        .eq('interview_scheduled_at', scheduledAt)
+      
+      if (error) {
+        console.error('Database error releasing interview reminder:', error)
+        throw new Error('Failed to release interview reminder')
+      }
+    } catch (error) {
+      console.error('Error in releaseInterviewReminder:', error)
+      throw error
+    }
+  }
+  
+  /**
+   * Seat holds that ran out: accepted past the activation deadline,
+   * or deferred by the applicant (activation deadline set) past the deferral
+   */
+  static async getExpiredActivationHolds(now: string): Promise<WaitlistApplication[]> {
+    const supabase = createServiceClient()
+    
+    try {
+      const { data, error } = await supabase
+        .from('waitlist_applications')
+        .select('*')
+        .or(
+          `and(status.eq.accepted,activation_deadline.lt."${now}"),` +
+          `and(status.eq.deferred,activation_deadline.not.is.null,deferred_until.lt."${now}")`
+        )
+      
+      if (error) {
+        console.error('Database error fetching expired holds:', error)
+        throw new Error('Failed to fetch expired activation holds')
+      }
+      
+      return (data || []) as WaitlistApplication[]
+    } catch (error) {
+      console.error('Error in getExpiredActivationHolds:', error)
+      throw error
+    }
+  }
+  
+  /**
+   * Review deferrals (no decision yet) whose deferral period has ended
+   */
+  static async getEndedReviewDeferrals(now: string): Promise<WaitlistApplication[]> {
+    const supabase = createServiceClient()
+    
+    try {
+      const { data, error } = await supabase
+        .from('waitlist_applications')
+        .select('*')
+        .eq('status', 'deferred')
+        .is('activation_deadline', null)
+        .lt('deferred_until', now)
+      
+      if (error) {
+        console.error('Database error fetching ended deferrals:', error)
+        throw new Error('Failed to fetch ended deferrals')
+      }
+      
+      return (data || []) as WaitlistApplication[]
+    } catch (error) {
+      console.error('Error in getEndedReviewDeferrals:', error)
       throw error
     }
   }
@@ -243,7 +1090,7 @@ export class DatabaseOperations {
   }
   
   /**
-   * Check if wave has available seats
+   * Check if the tier's current wave has available seats
    */
   static async checkWaveAvailability(tier: '99' | '199'): Promise<{
     available: boolean
@@ -254,7 +1101,11 @@ export class DatabaseOperations {
     const supabase = createServiceClient()
     
     try {
-      const wave = tier === '99' ? 1 : 2
+      const currentWave = await this.getCurrentWave(tier)
+      
+      if (!currentWave) {
+        throw new Error('Wave not found')
+      }
       
       const { data, error } = await supabase.rpc('get_public_seat_counts')
       
@@ -263,7 +1114,7 @@ export class DatabaseOperations {
         throw new Error('Failed to check availability')
       }
       
-      const waveData = data.find((row: any) => row.wave === wave)
+      const waveData = data.find((row: any) => row.wave === currentWave.id)
       
       if (!waveData) {
         throw new Error('Wave not found')
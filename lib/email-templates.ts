@@ -0,0 +1,293 @@
+import { COPY, ROUTES, TIER_CONFIG } from './constants'
+import { formatCurrency, formatDate } from './utils'
+import { WaitlistTier } from '../types'
+
+/**
+ * Typed transactional email templates (PRD 6.4)
+ * Every template renders both HTML and plain text with the legal footer
+ */
+
+export interface EmailTemplateData {
+  payment_received: {
+    fullName: string
+    tier: WaitlistTier
+    interviewUrl: string
+  }
+  interview_reminder: {
+    fullName: string
+    interviewAt: string
+    interviewUrl: string
+  }
+  accepted: {
+    fullName: string
+    tier: WaitlistTier
+    creditAmountCents: number
+    activationUrl: string
+    activationDeadline: string
+    deferralUrl: string
+    deferralDays: number
+  }
+  not_accepted: {
+    fullName: string
+    tier: WaitlistTier
+    refundAmountCents: number
+  }
+  activation_reminder: {
+    fullName: string
+    activationUrl: string
+    activationDeadline: string
+    daysRemaining: number
+  }
+  free_waitlist_confirmation: {
+    fullName: string
+  }
+  wave_invitation: {
+    fullName: string
+    tier: WaitlistTier
+    inviteUrl: string
+    expiresAt: string
+    unsubscribeUrl: string
+    openPixelUrl: string
+  }
+  status_link: {
+    fullName: string
+    statusUrl: string
+    expiresHours: number
+  }
+  withdrawal_confirmed: {
+    fullName: string
+    tier: WaitlistTier
+    refundAmountCents: number
+  }
+  verification_code: {
+    fullName: string
+    code: string
+    expiresMinutes: number
+  }
+  security_alert: {
+    severity: 'low' | 'medium' | 'high' | 'critical'
+    title: string
+    description: string
+    alertType: string
+    ip?: string
+    occurrences: number
+    firstSeenAt: string
+    // Sent again because nobody acknowledged the alert in time
+    escalation: boolean
+    adminUrl: string
+  }
+}
+
+export type EmailTemplateName = keyof EmailTemplateData
+
+export interface RenderedEmail {
+  subject: string
+  html: string
+  text: string
+}
+
+interface TemplateContent {
+  subject: string
+  // Paragraphs, rendered as <p> in HTML and blank-line separated in text
+  paragraphs: string[]
+  action?: {
+    label: string
+    url: string
+  }
+  // 1x1 image for open tracking (HTML only)
+  trackingPixelUrl?: string
+}
+
+const REFUND_BUSINESS_DAYS = 3
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+
+const firstName = (fullName: string): string => fullName.trim().split(/\s+/)[0] || fullName
+
+const TEMPLATES: { [K in EmailTemplateName]: (data: EmailTemplateData[K]) => TemplateContent } = {
+  payment_received: (data) => ({
+    subject: 'Payment received — schedule your interview',
+    paragraphs: [
+      `Hi ${firstName(data.fullName)},`,
+      `Thanks for applying for ${TIER_CONFIG[data.tier].name}. Your $${TIER_CONFIG[data.tier].price} payment was received and will be credited to your first membership payment if you are accepted.`,
+      data.tier === '199'
+        ? 'As a FastTrack+ applicant your interview will be scheduled within 72 hours and you will receive a decision within 5 business days.'
+        : 'FastTrack applicants typically receive a decision within 2-3 weeks of their interview.',
+      'Pick an interview slot using the link below. If you are not accepted, your payment is refunded in full automatically.',
+    ],
+    action: { label: 'Schedule your interview', url: data.interviewUrl },
+  }),
+
+  interview_reminder: (data) => ({
+    subject: 'Reminder: your ProbWin.ai interview is tomorrow',
+    paragraphs: [
+      `Hi ${firstName(data.fullName)},`,
+      `This is a reminder that your interview is scheduled for ${new Date(data.interviewAt).toUTCString()}.`,
+      'If you need to reschedule, use the link below.',
+    ],
+    action: { label: 'View or reschedule', url: data.interviewUrl },
+  }),
+
+  accepted: (data) => ({
+    subject: "You're in — activate your ProbWin.ai founders membership",
+    paragraphs: [
+      `Hi ${firstName(data.fullName)},`,
+      `Congratulations, your ${TIER_CONFIG[data.tier].name} application has been accepted. Your ${formatCurrency(data.creditAmountCents / 100)} credit will be applied to your first membership payment.`,
+      `Please activate your membership by ${formatDate(data.activationDeadline)}. Seats that are not activated within 14 days are released to the next applicant.`,
+      `Not ready yet? You can defer once, by ${data.deferralDays} days, before your deadline: ${data.deferralUrl}`,
+    ],
+    action: { label: 'Activate membership', url: data.activationUrl },
+  }),
+
+  not_accepted: (data) => ({
+    subject: 'Your ProbWin.ai application decision',
+    paragraphs: [
+      `Hi ${firstName(data.fullName)},`,
+      `Thank you for your interest in ProbWin.ai. After reviewing your ${TIER_CONFIG[data.tier].name} application, we are unable to offer you a founders seat at this time.`,
+      data.refundAmountCents > 0
+        ? `A full refund of ${formatCurrency(data.refundAmountCents / 100)} has been initiated to your original payment method. Refunds usually appear within ${REFUND_BUSINESS_DAYS} business days, depending on your bank.`
+        : 'No payment was taken for this application, so there is nothing to refund.',
+      'You remain on our free waitlist and we will let you know when new seats open.',
+    ],
+  }),
+
+  activation_reminder: (data) => ({
+    subject: `${data.daysRemaining} days left to activate your founders seat`,
+    paragraphs: [
+      `Hi ${firstName(data.fullName)},`,
+      `Your founders seat is reserved until ${formatDate(data.activationDeadline)} — ${data.daysRemaining} days from now.`,
+      'After the deadline the seat is released to the next applicant on the waitlist.',
+    ],
+    action: { label: 'Activate membership', url: data.activationUrl },
+  }),
+
+  free_waitlist_confirmation: (data) => ({
+    subject: "You're on the ProbWin.ai waitlist",
+    paragraphs: [
+      `Hi ${firstName(data.fullName)},`,
+      "Thanks for joining the ProbWin.ai free waitlist. We'll email you as founders seats open up in each wave.",
+      'Want priority review? FastTrack applicants are interviewed ahead of the free waitlist and the application fee is credited to your first payment.',
+    ],
+  }),
+
+  wave_invitation: (data) => ({
+    subject: `Founders seats are open — your invitation expires ${formatDate(data.expiresAt)}`,
+    paragraphs: [
+      `Hi ${firstName(data.fullName)},`,
+      `A new wave of founders seats has opened and, as a free waitlist member, you're invited to apply for ${TIER_CONFIG[data.tier].name} before seats are offered more widely.`,
+      `Your invitation is valid until ${formatDate(data.expiresAt)}. The $${TIER_CONFIG[data.tier].price} application fee is credited to your first membership payment, or refunded in full if you are not accepted.`,
+      `Don't want these emails? Unsubscribe: ${data.unsubscribeUrl}`,
+    ],
+    action: { label: 'Apply now', url: data.inviteUrl },
+    trackingPixelUrl: data.openPixelUrl,
+  }),
+
+  status_link: (data) => ({
+    subject: 'Your ProbWin.ai application status link',
+    paragraphs: [
+      `Hi ${firstName(data.fullName)},`,
+      `Use the link below to check your application status, update your details or request a deferral. The link works for ${data.expiresHours} hours.`,
+      "If you didn't request this email you can ignore it.",
+    ],
+    action: { label: 'View application status', url: data.statusUrl },
+  }),
+
+  withdrawal_confirmed: (data) => ({
+    subject: 'Your ProbWin.ai application has been withdrawn',
+    paragraphs: [
+      `Hi ${firstName(data.fullName)},`,
+      `Your ${TIER_CONFIG[data.tier].name} application has been withdrawn as requested.`,
+      data.refundAmountCents > 0
+        ? `A full refund of ${formatCurrency(data.refundAmountCents / 100)} has been initiated to your original payment method. Refunds usually appear within ${REFUND_BUSINESS_DAYS} business days, depending on your bank.`
+        : 'No payment was taken for this application, so there is nothing to refund.',
+      'You are welcome to apply again when new seats open.',
+    ],
+  }),
+
+  verification_code: (data) => ({
+    subject: `${data.code} is your ProbWin.ai verification code`,
+    paragraphs: [
+      `Hi ${firstName(data.fullName)},`,
+      `Your verification code is ${data.code}. Enter it on the application page to confirm your email address. The code expires in ${data.expiresMinutes} minutes.`,
+      "If you didn't apply to ProbWin.ai you can ignore this email.",
+    ],
+  }),
+
+  security_alert: (data) => ({
+    subject: `[${data.severity.toUpperCase()}]${data.escalation ? ' Unacknowledged:' : ''} ${data.title}`,
+    paragraphs: [
+      data.description,
+      `Type: ${data.alertType}${data.ip ? ` · IP: ${data.ip}` : ''} · Seen ${data.occurrences} time(s) since ${new Date(data.firstSeenAt).toUTCString()}`,
+      data.escalation
+        ? 'This alert has not been acknowledged within its response time. Acknowledge or assign it from the admin page.'
+        : 'Acknowledge, assign or resolve it from the admin page; see the security incident response playbook for next steps.',
+    ],
+    action: { label: 'Open security alerts', url: data.adminUrl },
+  }),
+}
+
+function footer(baseUrl: string): { html: string; text: string } {
+  const links = [
+    { label: 'Terms', url: `${baseUrl}${ROUTES.TERMS}` },
+    { label: 'Privacy', url: `${baseUrl}${ROUTES.PRIVACY}` },
+    { label: 'Refunds', url: `${baseUrl}${ROUTES.REFUND_POLICY}` },
+  ]
+
+  return {
+    html: [
+      '<hr style="border:none;border-top:1px solid #e5e7eb;margin:32px 0 16px" />',
+      '<p style="font-size:12px;color:#6b7280;margin:0 0 8px">ProbWin.ai · support@probwin.ai</p>',
+      `<p style="font-size:12px;color:#6b7280;margin:0 0 8px">${links
+        .map(link => `<a href="${escapeHtml(link.url)}" style="color:#6b7280">${link.label}</a>`)
+        .join(' · ')}</p>`,
+      `<p style="font-size:12px;color:#6b7280;margin:0">${escapeHtml(COPY.FOOTER.DISCLAIMER)}</p>`,
+    ].join('\n'),
+    text: [
+      '--',
+      'ProbWin.ai · support@probwin.ai',
+      links.map(link => `${link.label}: ${link.url}`).join('\n'),
+      COPY.FOOTER.DISCLAIMER,
+    ].join('\n'),
+  }
+}
+
+/**
+ * Render a template to subject, HTML and plain text
+ */
+export function renderEmail<T extends EmailTemplateName>(
+  template: T,
+  data: EmailTemplateData[T],
+  baseUrl: string
+): RenderedEmail {
+  const content = TEMPLATES[template](data)
+  const legal = footer(baseUrl)
+
+  const html = [
+    '<div style="font-family:-apple-system,BlinkMacSystemFont,Segoe UI,Roboto,sans-serif;font-size:15px;line-height:1.6;color:#111827;max-width:560px;margin:0 auto;padding:24px">',
+    ...content.paragraphs.map(paragraph => `<p style="margin:0 0 16px">${escapeHtml(paragraph)}</p>`),
+    content.action
+      ? `<p style="margin:24px 0"><a href="${escapeHtml(content.action.url)}" style="background:#ea580c;color:#ffffff;padding:12px 20px;border-radius:6px;text-decoration:none;font-weight:600">${escapeHtml(content.action.label)}</a></p>`
+      : '',
+    legal.html,
+    content.trackingPixelUrl
+      ? `<img src="${escapeHtml(content.trackingPixelUrl)}" width="1" height="1" alt="" style="display:block;border:0" />`
+      : '',
+    '</div>',
+  ].join('\n')
+
+  const text = [
+    ...content.paragraphs,
+    content.action ? `${content.action.label}: ${content.action.url}` : '',
+    legal.text,
+  ]
+    .filter(Boolean)
+    .join('\n\n')
+
+  return { subject: content.subject, html, text }
+}
@@ -0,0 +1,225 @@
+import { randomUUID } from 'crypto'
+import { mkdir, writeFile } from 'fs/promises'
+import path from 'path'
+import { DatabaseOperations } from './database'
+import { ApplicantTokens } from './applicant-tokens'
+import { API_ROUTES, ROUTES } from './constants'
+import { APP_CONFIG, getEnv, isProduction } from './env'
+import { EmailTemplateData, EmailTemplateName, renderEmail } from './email-templates'
+import { WaitlistApplication } from '../types'
+
+const DEFAULT_FROM = 'ProbWin.ai <support@probwin.ai>'
+const RESEND_API_URL = 'https://api.resend.com/emails'
+
+export interface EmailMessage {
+  to: string
+  from: string
+  subject: string
+  html: string
+  text: string
+  template: EmailTemplateName
+}
+
+export interface EmailTransport {
+  name: string
+  send(message: EmailMessage): Promise<{ id: string }>
+}
+
+/**
+ * Resend HTTP API transport (production)
+ */
+export class ResendTransport implements EmailTransport {
+  name = 'resend'
+
+  constructor(private apiKey: string) {}
+
+  async send(message: EmailMessage): Promise<{ id: string }> {
+    const response = await fetch(RESEND_API_URL, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: message.from,
+        to: [message.to],
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        tags: [{ name: 'template', value: message.template }],
+      }),
+    })
+
+    const body = await response.json().catch(() => ({}))
+
+    if (!response.ok) {
+      throw new Error(`Resend API error (${response.status}): ${body.message || 'Unknown error'}`)
+    }
+
+    return { id: body.id }
+  }
+}
+
+/**
+ * Local outbox transport: writes each message to a JSON file instead of sending it
+ */
+export class OutboxTransport implements EmailTransport {
+  name = 'outbox'
+
+  constructor(private directory: string) {}
+
+  async send(message: EmailMessage): Promise<{ id: string }> {
+    const id = randomUUID()
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.template}-${id}.json`
+
+    await mkdir(this.directory, { recursive: true })
+    await writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ id, created_at: new Date().toISOString(), ...message }, null, 2),
+      'utf8'
+    )
+
+    return { id }
+  }
+}
+
+let transport: EmailTransport | null = null
+
+/**
+ * Transport selected by EMAIL_TRANSPORT ('resend' | 'outbox'), Resend in production by default
+ */
+export function getEmailTransport(): EmailTransport {
+  if (!transport) {
+    const selected = process.env.EMAIL_TRANSPORT || (isProduction ? 'resend' : 'outbox')
+
+    transport = selected === 'resend'
+      ? new ResendTransport(getEnv('RESEND_API_KEY'))
+      : new OutboxTransport(path.resolve(process.env.EMAIL_OUTBOX_DIR || '.outbox'))
+  }
+
+  return transport
+}
+
+/**
+ * Override the transport (e.g. an in-memory transport in local scripts)
+ */
+export function setEmailTransport(next: EmailTransport | null): void {
+  transport = next
+}
+
+const getBaseUrl = (): string => process.env.NEXT_PUBLIC_BASE_URL || 'https://probwin.ai'
+
+/**
+ * Links included in application and campaign emails
+ */
+export const EmailLinks = {
+  // utm_content carries the application ID through to the scheduling webhook
+  interview(application: Pick<WaitlistApplication, 'id' | 'full_name' | 'email'>): string {
+    const calendlyUrl = process.env.CALENDLY_URL
+    if (!calendlyUrl) {
+      return `${getBaseUrl()}${ROUTES.SUCCESS}`
+    }
+
+    const url = new URL(calendlyUrl)
+    url.searchParams.set('name', application.full_name)
+    url.searchParams.set('email', application.email)
+    url.searchParams.set('utm_content', application.id)
+    return url.toString()
+  },
+
+  // Valid until the seat hold ends (the deferral end for deferred seats)
+  activation(application: Pick<WaitlistApplication, 'id' | 'status' | 'activation_deadline' | 'deferred_until'>): string {
+    const holdEnd = application.status === 'deferred' ? application.deferred_until : application.activation_deadline
+    const token = ApplicantTokens.sign(application.id, 'activation', holdEnd ? new Date(holdEnd) : new Date())
+    return `${getBaseUrl()}${ROUTES.ACTIVATE}?token=${encodeURIComponent(token)}`
+  },
+
+  // Valid until the activation deadline, the last moment a deferral can be requested
+  deferral(application: Pick<WaitlistApplication, 'id' | 'activation_deadline'>): string {
+    const expiresAt = application.activation_deadline ? new Date(application.activation_deadline) : new Date()
+    const token = ApplicantTokens.sign(application.id, 'deferral', expiresAt)
+    return `${getBaseUrl()}${ROUTES.DEFER}?token=${encodeURIComponent(token)}`
+  },
+
+  // Click-through and open pixel share one token, valid for the invitation window
+  invitation(invitationId: string, expiresAt: Date): { clickUrl: string; openPixelUrl: string } {
+    const token = encodeURIComponent(ApplicantTokens.sign(invitationId, 'invitation', expiresAt))
+    return {
+      clickUrl: `${getBaseUrl()}${API_ROUTES.CAMPAIGN_CLICK}?token=${token}`,
+      openPixelUrl: `${getBaseUrl()}${API_ROUTES.CAMPAIGN_OPEN}?token=${token}`,
+    }
+  },
+
+  // Magic link to the applicant status portal
+  status(application: Pick<WaitlistApplication, 'id'>): string {
+    const expiresAt = new Date(Date.now() + APP_CONFIG.DEADLINES.STATUS_LINK_HOURS * 60 * 60 * 1000)
+    const token = ApplicantTokens.sign(application.id, 'status', expiresAt)
+    return `${getBaseUrl()}${ROUTES.STATUS}?token=${encodeURIComponent(token)}`
+  },
+
+  unsubscribe(freeSignupId: string): string {
+    const expiresAt = new Date()
+    expiresAt.setFullYear(expiresAt.getFullYear() + 1)
+    const token = ApplicantTokens.sign(freeSignupId, 'unsubscribe', expiresAt)
+    return `${getBaseUrl()}${ROUTES.UNSUBSCRIBE}?token=${encodeURIComponent(token)}`
+  },
+}
+
+/**
+ * Transactional email sending
+ */
+export class EmailService {
+
+  /**
+   * Render and send a template, logging failures to the security audit log
+   */
+  static async send<T extends EmailTemplateName>(
+    template: T,
+    to: string,
+    data: EmailTemplateData[T]
+  ): Promise<{ id: string }> {
+    const rendered = renderEmail(template, data, getBaseUrl())
+    const emailTransport = getEmailTransport()
+
+    try {
+      const result = await emailTransport.send({
+        to,
+        from: process.env.EMAIL_FROM || DEFAULT_FROM,
+        template,
+        ...rendered,
+      })
+
+      await DatabaseOperations.logSecurityEvent(
+        'email_sent',
+        'low',
+        {
+          user_identifier: to,
+          event_data: {
+            template,
+            transport: emailTransport.name,
+            message_id: result.id,
+          }
+        }
+      )
+
+      return result
+    } catch (error) {
+      console.error(`Failed to send ${template} email:`, error)
+
+      await DatabaseOperations.logSecurityEvent(
+        'email_send_failed',
+        'medium',
+        {
+          user_identifier: to,
+          event_data: {
+            template,
+            transport: emailTransport.name,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          }
+        }
+      )
+
+      throw new Error('Email delivery failed')
+    }
+  }
+}
@@ -85,10 +85,29 @@ export const APP_CONFIG = {
   },
   DEADLINES: {
     ACTIVATION_DAYS: 14,
+    ACTIVATION_REMINDER_DAY: 10,
     DEFERRAL_DAYS: 30,
+    SITE_CREDIT_MONTHS: 6,
+    INVITATION_WINDOW_HOURS: 72,
+    STATUS_LINK_HOURS: 24,
     INTERVIEW_SLA_FASTTRACK_PLUS_HOURS: 72,
     DECISION_SLA_FASTTRACK_PLUS_DAYS: 5,
     DECISION_SLA_FASTTRACK_WEEKS: 3,
+    SLA_AT_RISK_HOURS: 24,
+    INTERVIEW_REMINDER_HOURS: 24,
+    SEAT_HOLD_MINUTES: 60,
+  },
+  FRAUD: {
+    REVIEW_SCORE: 0.5, // Flag for manual review
+    HOLD_SCORE: 0.8, // Block checkout and acceptance until reviewed
+    IP_VELOCITY_PER_HOUR: 10,
+    EMAIL_VELOCITY_PER_DAY: 5,
+  },
+  VERIFICATION: {
+    CODE_LENGTH: 6,
+    CODE_TTL_MINUTES: 10,
+    MAX_ATTEMPTS: 5,
+    RESEND_COOLDOWN_SECONDS: 60,
   },
   SECURITY: {
     MAX_LOGIN_ATTEMPTS: 5,
@@ -0,0 +1,323 @@
+import { DatabaseOperations } from './database'
+import { SecurityMonitoring } from './security-monitoring'
+import { APP_CONFIG } from './env'
+import { FraudReason, FraudStatus, WaitlistApplication } from '../types'
+
+const HOUR_MS = 60 * 60 * 1000
+
+export type FraudStage = 'apply' | 'payment'
+
+// Audit log events that count towards IP and email velocity: submissions only, not the app's own follow-up
+// events (emails, verification codes, checkouts, scoring), which an ordinary applicant generates several of
+export const FRAUD_VELOCITY_EVENT_TYPES = ['application_attempt', 'free_signup_attempt'] as const
+
+export type FraudVelocityEvent = typeof FRAUD_VELOCITY_EVENT_TYPES[number]
+
+// Stripe Radar's assessment of the FastTrack charge (charge.outcome)
+export interface RadarOutcome {
+  risk_level?: string | null
+  risk_score?: number | null
+  type?: string | null
+}
+
+// Request-time signals; anything omitted falls back to what is stored on the application
+export interface FraudSignals {
+  // reCAPTCHA v3 score, 1.0 is very likely human
+  recaptcha_score?: number | null
+  recaptcha_verified?: boolean
+  ip_address?: string | null
+  radar?: RadarOutcome | null
+}
+
+// Counts looked up from the audit log (submissions only, see FRAUD_VELOCITY_EVENT_TYPES) and other applications
+export interface FraudLookups {
+  ip_events_last_hour: number
+  email_events_last_day: number
+  duplicate_devices: number
+}
+
+export interface FraudAssessment {
+  score: number
+  status: FraudStatus
+  reasons: FraudReason[]
+}
+
+const FRAUD_STATUS_RANK: Record<FraudStatus, number> = { clear: 0, review: 1, hold: 2 }
+
+const BUILT_IN_DISPOSABLE_DOMAINS = [
+  '10minutemail.com',
+  'dispostable.com',
+  'emailondeck.com',
+  'fakeinbox.com',
+  'getnada.com',
+  'guerrillamail.com',
+  'maildrop.cc',
+  'mailinator.com',
+  'mailnesia.com',
+  'mintemail.com',
+  'mohmal.com',
+  'sharklasers.com',
+  'temp-mail.org',
+  'tempmail.com',
+  'tempr.email',
+  'throwawaymail.com',
+  'trashmail.com',
+  'yopmail.com',
+]
+
+// Calling codes for the countries applicants most often list; other countries skip the mismatch check
+const COUNTRY_CALLING_CODES: Record<string, string> = {
+  US: '1',
+  CA: '1',
+  GB: '44',
+  IE: '353',
+  AU: '61',
+  NZ: '64',
+  DE: '49',
+  FR: '33',
+  ES: '34',
+  IT: '39',
+  NL: '31',
+  SE: '46',
+  NO: '47',
+  DK: '45',
+  MX: '52',
+  BR: '55',
+  IN: '91',
+  ZA: '27',
+  NG: '234',
+  PH: '63',
+  SG: '65',
+  JP: '81',
+}
+
+/**
+ * Built-in disposable email domains plus FRAUD_DISPOSABLE_DOMAINS (comma-separated)
+ */
+export function getDisposableDomains(): ReadonlySet<string> {
+  return new Set([
+    ...BUILT_IN_DISPOSABLE_DOMAINS,
+    ...(process.env.FRAUD_DISPOSABLE_DOMAINS || '')
+      .split(',')
+      .map(domain => domain.trim().toLowerCase())
+      .filter(Boolean),
+  ])
+}
+
+export function fraudStatusFor(score: number): FraudStatus {
+  if (score >= APP_CONFIG.FRAUD.HOLD_SCORE) return 'hold'
+  if (score >= APP_CONFIG.FRAUD.REVIEW_SCORE) return 'review'
+  return 'clear'
+}
+
+const stricterStatus = (a: FraudStatus, b: FraudStatus): FraudStatus =>
+  FRAUD_STATUS_RANK[a] >= FRAUD_STATUS_RANK[b] ? a : b
+
+/**
+ * Score an application from its signals
+ * Each signal that fires carries a weight (its own fraud probability); weights combine as independent
+ * evidence, so the score is 1 - Π(1 - weight) and every point of it is explained by a reason.
+ */
+export function assessFraud(
+  application: WaitlistApplication,
+  signals: FraudSignals,
+  lookups: FraudLookups
+): FraudAssessment {
+  const reasons: FraudReason[] = []
+  const add = (reason: FraudReason) => reasons.push(reason)
+
+  const recaptchaScore = signals.recaptcha_score ?? application.recaptcha_score ?? null
+  const recaptchaVerified = signals.recaptcha_verified ?? application.recaptcha_verified
+
+  if (recaptchaScore !== null && recaptchaScore < 0.3) {
+    add({ signal: 'recaptcha', weight: 0.6, detail: `reCAPTCHA score ${recaptchaScore} (likely automated)` })
+  } else if (recaptchaScore !== null && recaptchaScore < 0.5) {
+    add({ signal: 'recaptcha', weight: 0.3, detail: `reCAPTCHA score ${recaptchaScore}` })
+  } else if (recaptchaVerified === false) {
+    add({ signal: 'recaptcha', weight: 0.4, detail: 'reCAPTCHA not verified' })
+  }
+
+  const domain = application.email.split('@').pop()?.toLowerCase() || ''
+  if (getDisposableDomains().has(domain)) {
+    add({ signal: 'disposable_email', weight: 0.5, detail: `Disposable email domain ${domain}` })
+  }
+
+  if (lookups.ip_events_last_hour >= APP_CONFIG.FRAUD.IP_VELOCITY_PER_HOUR * 2) {
+    add({ signal: 'ip_velocity', weight: 0.6, detail: `${lookups.ip_events_last_hour} submissions from this IP in the last hour` })
+  } else if (lookups.ip_events_last_hour >= APP_CONFIG.FRAUD.IP_VELOCITY_PER_HOUR) {
+    add({ signal: 'ip_velocity', weight: 0.35, detail: `${lookups.ip_events_last_hour} submissions from this IP in the last hour` })
+  }
+
+  if (lookups.email_events_last_day >= APP_CONFIG.FRAUD.EMAIL_VELOCITY_PER_DAY) {
+    add({ signal: 'email_velocity', weight: 0.3, detail: `${lookups.email_events_last_day} submissions for this email in the last day` })
+  }
+
+  const phone = application.phone?.replace(/[^\d+]/g, '')
+  const callingCode = application.country ? COUNTRY_CALLING_CODES[application.country.toUpperCase()] : undefined
+  if (phone?.startsWith('+') && callingCode && !phone.startsWith(`+${callingCode}`)) {
+    add({
+      signal: 'phone_country_mismatch',
+      weight: 0.25,
+      detail: `Phone number is not a +${callingCode} number for country ${application.country}`,
+    })
+  }
+
+  const radar = signals.radar
+  if (radar?.type === 'blocked' || radar?.risk_level === 'highest') {
+    add({ signal: 'stripe_radar', weight: 0.9, detail: `Stripe Radar risk ${radar.risk_level || radar.type} (score ${radar.risk_score ?? 'n/a'})` })
+  } else if (radar?.risk_level === 'elevated') {
+    add({ signal: 'stripe_radar', weight: 0.5, detail: `Stripe Radar risk elevated (score ${radar.risk_score ?? 'n/a'})` })
+  }
+
+  if (lookups.duplicate_devices >= 3) {
+    add({ signal: 'duplicate_device', weight: 0.7, detail: `${lookups.duplicate_devices} other applicants used this IP and browser` })
+  } else if (lookups.duplicate_devices >= 1) {
+    add({ signal: 'duplicate_device', weight: 0.4, detail: `${lookups.duplicate_devices} other applicant(s) used this IP and browser` })
+  }
+
+  const score = Math.round((1 - reasons.reduce((clean, reason) => clean * (1 - reason.weight), 1)) * 100) / 100
+
+  return { score, status: fraudStatusFor(score), reasons }
+}
+
+/**
+ * Fraud scoring at apply time and on payment, with auto-hold and manual review
+ * 'review' flags the application for reviewers; 'hold' also blocks checkout and acceptance until a reviewer clears it
+ */
+export class FraudScoring {
+
+  /**
+   * Score (or re-score) an application and store the result
+   * A stored hold is never lifted automatically; after a manual review, only a higher score changes the status again
+   */
+  static async scoreApplication(
+    applicationId: string,
+    stage: FraudStage,
+    signals: FraudSignals = {}
+  ): Promise<FraudAssessment | null> {
+    const application = await DatabaseOperations.getApplicationById(applicationId)
+
+    if (!application) return null
+
+    const assessment = assessFraud(application, signals, await this.lookup(application, signals))
+    const previousStatus = application.fraud_status || 'clear'
+
+    const status = application.fraud_reviewed_at
+      ? assessment.score > (application.fraud_score ?? 0) ? assessment.status : previousStatus
+      : stricterStatus(assessment.status, previousStatus)
+
+    await DatabaseOperations.updateApplicationFraud(application.id, {
+      fraud_score: assessment.score,
+      fraud_reasons: assessment.reasons,
+      fraud_status: status,
+      fraud_scored_at: new Date().toISOString(),
+      ...(signals.recaptcha_score != null && { recaptcha_score: signals.recaptcha_score }),
+    })
+
+    await DatabaseOperations.logSecurityEvent(
+      'fraud_scored',
+      status === 'hold' ? 'high' : status === 'review' ? 'medium' : 'low',
+      {
+        user_identifier: application.email,
+        event_data: {
+          application_id: application.id,
+          stage,
+          score: assessment.score,
+          status,
+          signals: assessment.reasons.map(reason => reason.signal),
+        }
+      }
+    )
+
+    if (status !== 'clear' && status !== previousStatus) {
+      await SecurityMonitoring.createAlert({
+        alertType: status === 'hold' ? 'fraud_hold' : 'fraud_review',
+        severity: status === 'hold' ? 'high' : 'medium',
+        title: status === 'hold' ? 'Application put on fraud hold' : 'Application flagged for fraud review',
+        description: `${application.full_name} (${stage}) scored ${assessment.score}: ${assessment.reasons.map(reason => reason.detail).join('; ')}`,
+        metadata: {
+          relatedEvents: [application.id],
+        },
+      })
+    }
+
+    return { ...assessment, status }
+  }
+
+  /**
+   * A reviewer's decision on a flagged or held application
+   */
+  static async review(
+    applicationId: string,
+    status: FraudStatus,
+    reviewer: string
+  ): Promise<WaitlistApplication | null> {
+    const application = await DatabaseOperations.getApplicationById(applicationId)
+
+    if (!application) return null
+
+    const updated = await DatabaseOperations.updateApplicationFraud(application.id, {
+      fraud_status: status,
+      fraud_reviewed_by: reviewer,
+      fraud_reviewed_at: new Date().toISOString(),
+    })
+
+    await DatabaseOperations.logSecurityEvent('fraud_reviewed', 'medium', {
+      user_identifier: application.email,
+      event_data: {
+        application_id: application.id,
+        from_status: application.fraud_status || 'clear',
+        to_status: status,
+        score: application.fraud_score,
+        reviewer,
+      }
+    })
+
+    return updated
+  }
+
+  /**
+   * Record an application or free signup submission for the velocity checks, whether or not it is stored
+   */
+  static async recordAttempt(
+    event: FraudVelocityEvent,
+    attempt: { email: string; ip_address?: string; user_agent?: string }
+  ): Promise<void> {
+    await DatabaseOperations.logSecurityEvent(event, 'low', {
+      user_identifier: attempt.email.toLowerCase(),
+      ip_address: attempt.ip_address && attempt.ip_address !== 'unknown' ? attempt.ip_address : undefined,
+      user_agent: attempt.user_agent,
+    })
+  }
+
+  private static async lookup(application: WaitlistApplication, signals: FraudSignals): Promise<FraudLookups> {
+    const now = Date.now()
+    // The audit log keeps the request IP; devices are compared as stored on the applications
+    const ip = signals.ip_address || application.ip_address
+    const device = application.ip_address && application.user_agent
+      ? { ip_address: application.ip_address, user_agent: application.user_agent }
+      : null
+
+    const [ipEvents, emailEvents, duplicateDevices] = await Promise.all([
+      ip && ip !== 'unknown'
+        ? DatabaseOperations.countSecurityEventsSince(
+            { ip_address: ip },
+            new Date(now - HOUR_MS).toISOString(),
+            FRAUD_VELOCITY_EVENT_TYPES
+          )
+        : 0,
+      DatabaseOperations.countSecurityEventsSince(
+        { user_identifier: application.email },
+        new Date(now - 24 * HOUR_MS).toISOString(),
+        FRAUD_VELOCITY_EVENT_TYPES
+      ),
+      device ? DatabaseOperations.countApplicationsFromDevice(device, application.email) : 0,
+    ])
+
+    return {
+      ip_events_last_hour: ipEvents,
+      email_events_last_day: emailEvents,
+      duplicate_devices: duplicateDevices,
+    }
+  }
+}
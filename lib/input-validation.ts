@@ -258,82 +258,3 @@ export function validateHeaders(headers: Headers): {
     issues,
   }
 }
-
-/**
- * SQL injection detection
- */
-export function detectSQLInjection(input: string): boolean {
-  const sqlPatterns = [
-    /union.*select/i,
-    /insert.*into/i,
-    /delete.*from/i,
-    /update.*set/i,
-    /drop.*table/i,
-    /exec.*xp_/i,
-    /'\s*;\s*drop/i,
-    /'\s*or\s*'1'\s*=\s*'1/i,
-    /'\s*or\s*1\s*=\s*1/i,
-  ]
-  
-  return sqlPatterns.some(pattern => pattern.test(input))
-}
-
-/**
- * XSS detection
- */
-export function detectXSS(input: string): boolean {
-  const xssPatterns = [
-    /<script[^>]*>/i,
-    /<iframe[^>]*>/i,
-    /<object[^>]*>/i,
-    /<embed[^>]*>/i,
-    /javascript:/i,
-    /vbscript:/i,
-    /on\w+\s*=/i,
-    /<img[^>]+src[^>]*>/i,
-  ]
-  
-  return xssPatterns.some(pattern => pattern.test(input))
-}
-
-/**
- * Comprehensive input security check
- */
-export function securityCheckInput(input: string): {
-  isSafe: boolean
-  threats: string[]
-} {
-  const threats: string[] = []
-  
-  if (detectSQLInjection(input)) {
-    threats.push('SQL Injection')
-  }
-  
-  if (detectXSS(input)) {
-    threats.push('XSS')
-  }
-  
-  // Path traversal detection
-  if (input.includes('../') || input.includes('..\\')) {
-    threats.push('Path Traversal')
-  }
-  
-  // Command injection detection
-  const commandPatterns = [
-    /;\s*rm\s/i,
-    /;\s*cat\s/i,
-    /;\s*ls\s/i,
-    /;\s*wget\s/i,
-    /;\s*curl\s/i,
-    /\|\s*nc\s/i,
-  ]
-  
-  if (commandPatterns.some(pattern => pattern.test(input))) {
-    threats.push('Command Injection')
-  }
-  
-  return {
-    isSafe: threats.length === 0,
-    threats,
-  }
-}
\ No newline at end of file
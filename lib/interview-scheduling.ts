@@ -0,0 +1,246 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { DatabaseOperations } from './database'
+import { getEnv, isProduction } from './env'
+import { UUIDSchema } from './input-validation'
+import { ApplicationTransitionError } from './application-lifecycle'
+import { ApplicationLifecycle } from './application-transitions'
+import { WaitlistApplication } from '../types'
+
+// Calendly rejects signatures older than 3 minutes; we do the same
+const SIGNATURE_TOLERANCE_SECONDS = 180
+
+export type SchedulingEventType = 'scheduled' | 'canceled' | 'completed'
+
+/**
+ * Provider-neutral interview event
+ */
+export interface SchedulingEvent {
+  type: SchedulingEventType
+  email: string
+  // Set when the booking link carried the application ID (see EmailLinks.interview)
+  applicationId?: string
+  scheduledAt?: string
+  occurredAt: string
+  reference?: string
+}
+
+export class SchedulingSignatureError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SchedulingSignatureError'
+  }
+}
+
+export interface SchedulingProvider {
+  name: string
+  // Verify the webhook and normalize it; null for events we don't track
+  parseWebhook(rawBody: string, headers: Headers): SchedulingEvent | null
+}
+
+/**
+ * Calendly webhooks (invitee.created / invitee.canceled)
+ * Signature header: `Calendly-Webhook-Signature: t=<unix>,v1=<hex hmac-sha256 of "t.body">`
+ */
+export class CalendlyProvider implements SchedulingProvider {
+  name = 'calendly'
+
+  constructor(private signingKey: string) {}
+
+  parseWebhook(rawBody: string, headers: Headers): SchedulingEvent | null {
+    this.verifySignature(rawBody, headers.get('calendly-webhook-signature'))
+
+    const body = JSON.parse(rawBody)
+    const payload = body.payload || {}
+
+    const type: SchedulingEventType | null =
+      body.event === 'invitee.created' ? 'scheduled' :
+      body.event === 'invitee.canceled' ? 'canceled' :
+      null
+
+    if (!type || !payload.email) {
+      return null
+    }
+
+    return {
+      type,
+      email: String(payload.email).toLowerCase(),
+      applicationId: payload.tracking?.utm_content || undefined,
+      scheduledAt: payload.scheduled_event?.start_time,
+      occurredAt: body.created_at || new Date().toISOString(),
+      reference: payload.uri,
+    }
+  }
+
+  private verifySignature(rawBody: string, header: string | null): void {
+    if (!header) {
+      throw new SchedulingSignatureError('Missing Calendly signature')
+    }
+
+    const parts = Object.fromEntries(
+      header.split(',').map(part => part.trim().split('=') as [string, string])
+    )
+
+    if (!parts.t || !parts.v1) {
+      throw new SchedulingSignatureError('Malformed Calendly signature')
+    }
+
+    if (Math.abs(Date.now() / 1000 - Number(parts.t)) > SIGNATURE_TOLERANCE_SECONDS) {
+      throw new SchedulingSignatureError('Calendly signature timestamp outside tolerance')
+    }
+
+    const expected = createHmac('sha256', this.signingKey).update(`${parts.t}.${rawBody}`).digest('hex')
+    const expectedBuffer = Buffer.from(expected, 'hex')
+    const providedBuffer = Buffer.from(parts.v1, 'hex')
+
+    if (expectedBuffer.length !== providedBuffer.length || !timingSafeEqual(expectedBuffer, providedBuffer)) {
+      throw new SchedulingSignatureError('Invalid Calendly signature')
+    }
+  }
+}
+
+/**
+ * Unsigned provider-neutral events for local development:
+ * `{ "type": "scheduled", "email": "...", "application_id": "...", "scheduled_at": "..." }`
+ */
+export class StubSchedulingProvider implements SchedulingProvider {
+  name = 'stub'
+
+  parseWebhook(rawBody: string): SchedulingEvent | null {
+    const body = JSON.parse(rawBody)
+
+    if (!['scheduled', 'canceled', 'completed'].includes(body.type) || !body.email) {
+      return null
+    }
+
+    return {
+      type: body.type,
+      email: String(body.email).toLowerCase(),
+      applicationId: body.application_id,
+      scheduledAt: body.scheduled_at,
+      occurredAt: body.occurred_at || new Date().toISOString(),
+      reference: body.reference,
+    }
+  }
+}
+
+let provider: SchedulingProvider | null = null
+
+/**
+ * Provider selected by SCHEDULING_PROVIDER ('calendly' | 'stub'), Calendly in production by default
+ * The stub is never used in production, since it accepts unsigned events
+ */
+export function getSchedulingProvider(): SchedulingProvider {
+  if (!provider) {
+    const selected = process.env.SCHEDULING_PROVIDER || (isProduction ? 'calendly' : 'stub')
+
+    provider = selected === 'stub' && !isProduction
+      ? new StubSchedulingProvider()
+      : new CalendlyProvider(getEnv('CALENDLY_WEBHOOK_SIGNING_KEY'))
+  }
+
+  return provider
+}
+
+/**
+ * Override the provider (e.g. a fake provider in local scripts)
+ */
+export function setSchedulingProvider(next: SchedulingProvider | null): void {
+  provider = next
+}
+
+export interface SchedulingEventResult {
+  handled: boolean
+  application_id?: string
+  reason?: string
+}
+
+/**
+ * Writes interview bookings and completions onto applications
+ */
+export class InterviewScheduling {
+
+  /**
+   * Apply a normalized scheduling event to its application
+   */
+  static async handleEvent(event: SchedulingEvent, actor: string): Promise<SchedulingEventResult> {
+    const application = await this.resolveApplication(event)
+
+    if (!application) {
+      return { handled: false, reason: 'No application for invitee' }
+    }
+
+    if (event.type === 'completed') {
+      await this.markCompleted(application, event.occurredAt, actor)
+      return { handled: true, application_id: application.id }
+    }
+
+    // Bookings only matter until the interview has happened
+    if (application.status !== 'pending') {
+      return { handled: false, application_id: application.id, reason: `Application is ${application.status}` }
+    }
+
+    if (event.type === 'scheduled') {
+      if (!event.scheduledAt) {
+        return { handled: false, application_id: application.id, reason: 'Event has no start time' }
+      }
+      await DatabaseOperations.updateInterviewSchedule(application.id, event.scheduledAt)
+    } else {
+      // A reschedule cancels the old booking; only clear it if it is the booking we hold
+      await DatabaseOperations.updateInterviewSchedule(application.id, null, event.scheduledAt)
+    }
+
+    await DatabaseOperations.logSecurityEvent(
+      `interview_${event.type}`,
+      'low',
+      {
+        user_identifier: application.email,
+        event_data: {
+          application_id: application.id,
+          scheduled_at: event.scheduledAt,
+          reference: event.reference,
+          actor,
+        }
+      }
+    )
+
+    return { handled: true, application_id: application.id }
+  }
+
+  /**
+   * Interview held: move the application to 'interviewed'
+   */
+  static async markCompleted(
+    application: WaitlistApplication,
+    completedAt: string,
+    actor: string
+  ): Promise<WaitlistApplication> {
+    if (application.status === 'interviewed') {
+      return application
+    }
+
+    try {
+      const result = await ApplicationLifecycle.transition(application, 'interviewed', {
+        changedBy: actor,
+        reason: 'Interview completed',
+        fields: { interview_completed_at: completedAt },
+      })
+      return result.application
+    } catch (error) {
+      if (error instanceof ApplicationTransitionError && error.code === 'invalid_transition') {
+        return application
+      }
+      throw error
+    }
+  }
+
+  private static async resolveApplication(event: SchedulingEvent): Promise<WaitlistApplication | null> {
+    if (event.applicationId && UUIDSchema.safeParse(event.applicationId).success) {
+      const application = await DatabaseOperations.getApplicationById(event.applicationId)
+      if (application && application.email.toLowerCase() === event.email) {
+        return application
+      }
+    }
+
+    return DatabaseOperations.getLatestApplicationByEmail(event.email)
+  }
+}
@@ -0,0 +1,360 @@
+import { createServiceClient } from './supabase'
+import { DatabaseOperations } from './database'
+import { ApplicantTokens } from './applicant-tokens'
+import { EmailLinks, EmailService } from './email'
+import { CampaignInvitation, InvitationCampaign, InvitationCampaignStats, WaitlistApplication, Wave } from '../types'
+
+const HOUR_MS = 60 * 60 * 1000
+
+export interface CampaignBatchResult {
+  sent: number
+  failed: number
+  failures: Array<{ invitation_id: string; error: string }>
+}
+
+interface QueuedInvitation {
+  id: string
+  free_signup_id: string
+  email: string
+  full_name: string
+}
+
+/**
+ * Free-to-paid conversion: invite free signups to a wave with a time-limited link (PRD "when waves open")
+ * Tracks opens, clicks and conversions; unsubscribed and converted signups are never invited
+ */
+export class InvitationCampaigns {
+
+  /**
+   * Create a campaign for a wave, or null if the wave doesn't exist
+   */
+  static async createCampaign(campaign: {
+    name: string
+    waveId: number
+    windowHours: number
+    createdBy: string
+  }): Promise<InvitationCampaign | null> {
+    const supabase = createServiceClient()
+
+    try {
+      if (!await this.getWave(campaign.waveId)) {
+        return null
+      }
+
+      const { data, error } = await supabase
+        .from('invitation_campaigns')
+        .insert([{
+          name: campaign.name,
+          wave_id: campaign.waveId,
+          window_hours: campaign.windowHours,
+          created_by: campaign.createdBy,
+        }])
+        .select('*')
+        .single()
+
+      if (error) {
+        console.error('Database error creating campaign:', error)
+        throw new Error('Failed to create campaign')
+      }
+
+      return data as InvitationCampaign
+    } catch (error) {
+      console.error('Error in createCampaign:', error)
+      throw error
+    }
+  }
+
+  /**
+   * All campaigns with their funnel counts, newest first
+   */
+  static async listCampaigns(): Promise<InvitationCampaignStats[]> {
+    const supabase = createServiceClient()
+
+    try {
+      const { data, error } = await supabase
+        .from('invitation_campaign_stats')
+        .select('*')
+        .order('created_at', { ascending: false })
+
+      if (error) {
+        console.error('Database error listing campaigns:', error)
+        throw new Error('Failed to list campaigns')
+      }
+
+      return (data || []).map(row => ({
+        ...row,
+        sent: Number(row.sent),
+        queued: Number(row.queued),
+        opened: Number(row.opened),
+        clicked: Number(row.clicked),
+        converted: Number(row.converted),
+      })) as InvitationCampaignStats[]
+    } catch (error) {
+      console.error('Error in listCampaigns:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Queue and email the next batch of invitees; failed sends stay queued for the next batch
+   */
+  static async sendBatch(campaignId: string, limit: number, actor: string): Promise<CampaignBatchResult | null> {
+    const supabase = createServiceClient()
+    const campaign = await this.getCampaign(campaignId)
+
+    if (!campaign) {
+      return null
+    }
+
+    const wave = await this.getWave(campaign.wave_id)
+
+    if (!wave) {
+      throw new Error('Campaign wave not found')
+    }
+
+    const { data, error } = await supabase.rpc('queue_campaign_invitations', {
+      p_campaign_id: campaign.id,
+      p_limit: limit,
+    })
+
+    if (error) {
+      console.error('Database error queueing invitations:', error)
+      throw new Error('Failed to queue invitations')
+    }
+
+    const result: CampaignBatchResult = { sent: 0, failed: 0, failures: [] }
+
+    for (const invitation of (data || []) as QueuedInvitation[]) {
+      const sentAt = new Date()
+      const expiresAt = new Date(sentAt.getTime() + campaign.window_hours * HOUR_MS)
+      const links = EmailLinks.invitation(invitation.id, expiresAt)
+
+      try {
+        await EmailService.send('wave_invitation', invitation.email, {
+          fullName: invitation.full_name,
+          tier: wave.tier,
+          inviteUrl: links.clickUrl,
+          expiresAt: expiresAt.toISOString(),
+          unsubscribeUrl: EmailLinks.unsubscribe(invitation.free_signup_id),
+          openPixelUrl: links.openPixelUrl,
+        })
+
+        await this.updateInvitation(invitation.id, {
+          sent_at: sentAt.toISOString(),
+          expires_at: expiresAt.toISOString(),
+          last_error: null,
+        })
+        result.sent++
+      } catch (sendError) {
+        const message = sendError instanceof Error ? sendError.message : 'Unknown error'
+        await this.updateInvitation(invitation.id, { last_error: message }).catch(() => undefined)
+        result.failed++
+        result.failures.push({ invitation_id: invitation.id, error: message })
+      }
+    }
+
+    await DatabaseOperations.logSecurityEvent(
+      'campaign_batch_sent',
+      result.failed > 0 ? 'medium' : 'low',
+      {
+        user_identifier: actor,
+        event_data: {
+          campaign_id: campaign.id,
+          wave_id: campaign.wave_id,
+          sent: result.sent,
+          failed: result.failed,
+        }
+      }
+    )
+
+    return result
+  }
+
+  /**
+   * Open pixel loaded; returns false for invalid or expired tokens
+   */
+  static async recordOpen(token: string): Promise<boolean> {
+    const invitationId = ApplicantTokens.verify(token, 'invitation')
+
+    if (!invitationId) return false
+
+    await this.updateInvitation(invitationId, { opened_at: new Date().toISOString() }, 'opened_at')
+    return true
+  }
+
+  /**
+   * Invitation link clicked (a click implies an open); returns the invitation, or null if invalid or expired
+   */
+  static async recordClick(token: string): Promise<CampaignInvitation | null> {
+    const invitationId = ApplicantTokens.verify(token, 'invitation')
+
+    if (!invitationId) return null
+
+    const now = new Date().toISOString()
+    await this.updateInvitation(invitationId, { opened_at: now }, 'opened_at')
+    await this.updateInvitation(invitationId, { clicked_at: now }, 'clicked_at')
+
+    return this.getInvitation(invitationId)
+  }
+
+  /**
+   * FastTrack checkout completed: mark the free signup converted and attribute the latest invitation
+   */
+  static async recordConversion(application: Pick<WaitlistApplication, 'id' | 'email'>): Promise<void> {
+    const supabase = createServiceClient()
+    const email = application.email.toLowerCase()
+    const now = new Date().toISOString()
+
+    try {
+      const { error: signupError } = await supabase
+        .from('free_waitlist')
+        .update({ converted_to_paid_at: now })
+        .eq('email', email)
+        .is('converted_to_paid_at', null)
+
+      if (signupError) {
+        console.error('Database error marking free signup converted:', signupError)
+        throw new Error('Failed to mark free signup converted')
+      }
+
+      const { data: invitation, error: lookupError } = await supabase
+        .from('campaign_invitations')
+        .select('id')
+        .eq('email', email)
+        .not('sent_at', 'is', null)
+        .is('converted_at', null)
+        .order('sent_at', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      if (lookupError) {
+        console.error('Database error finding invitation for conversion:', lookupError)
+        throw new Error('Failed to find invitation')
+      }
+
+      if (invitation) {
+        await this.updateInvitation(invitation.id, {
+          converted_at: now,
+          application_id: application.id,
+        })
+      }
+    } catch (error) {
+      console.error('Error in recordConversion:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Unsubscribe a free signup from campaign emails; returns false for invalid tokens
+   */
+  static async unsubscribe(token: string): Promise<boolean> {
+    const supabase = createServiceClient()
+    const freeSignupId = ApplicantTokens.verify(token, 'unsubscribe')
+
+    if (!freeSignupId) return false
+
+    try {
+      const { error } = await supabase
+        .from('free_waitlist')
+        .update({ unsubscribed_at: new Date().toISOString() })
+        .eq('id', freeSignupId)
+        .is('unsubscribed_at', null)
+
+      if (error) {
+        console.error('Database error unsubscribing free signup:', error)
+        throw new Error('Failed to unsubscribe')
+      }
+
+      return true
+    } catch (error) {
+      console.error('Error in unsubscribe:', error)
+      throw error
+    }
+  }
+
+  private static async getCampaign(campaignId: string): Promise<InvitationCampaign | null> {
+    const supabase = createServiceClient()
+
+    const { data, error } = await supabase
+      .from('invitation_campaigns')
+      .select('*')
+      .eq('id', campaignId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Database error fetching campaign:', error)
+      throw new Error('Failed to fetch campaign')
+    }
+
+    return data as InvitationCampaign | null
+  }
+
+  private static async getInvitation(invitationId: string): Promise<CampaignInvitation | null> {
+    const supabase = createServiceClient()
+
+    const { data, error } = await supabase
+      .from('campaign_invitations')
+      .select('*')
+      .eq('id', invitationId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Database error fetching invitation:', error)
+      throw new Error('Failed to fetch invitation')
+    }
+
+    return data as CampaignInvitation | null
+  }
+
+  private static async getWave(waveId: number): Promise<Wave | null> {
+    const supabase = createServiceClient()
+
+    const { data, error } = await supabase
+      .from('waves')
+      .select('*')
+      .eq('id', waveId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Database error fetching wave:', error)
+      throw new Error('Failed to fetch wave')
+    }
+
+    return data as Wave | null
+  }
+
+  /**
+   * Update an invitation; with onlyIfUnset, the first timestamp wins
+   */
+  private static async updateInvitation(
+    invitationId: string,
+    fields: Partial<Pick<CampaignInvitation,
+      | 'sent_at'
+      | 'expires_at'
+      | 'opened_at'
+      | 'clicked_at'
+      | 'converted_at'
+      | 'application_id'
+      | 'last_error'
+    >>,
+    onlyIfUnset?: 'opened_at' | 'clicked_at'
+  ): Promise<void> {
+    const supabase = createServiceClient()
+
+    let query = supabase
+      .from('campaign_invitations')
+      .update(fields)
+      .eq('id', invitationId)
+
+    if (onlyIfUnset) {
+      query = query.is(onlyIfUnset, null)
+    }
+
+    const { error } = await query
+
+    if (error) {
+      console.error('Database error updating invitation:', error)
+      throw new Error('Failed to update invitation')
+    }
+  }
+}
@@ -0,0 +1,184 @@
+import Stripe from 'stripe'
+import { DatabaseOperations } from './database'
+import { StripeSecurityManager } from './stripe'
+import { CreditLedger } from './credit-ledger'
+import { ApplicationTransitionError } from './application-lifecycle'
+import { ApplicationLifecycle } from './application-transitions'
+import { MembershipPlan, ROUTES } from './constants'
+import { getEnv } from './env'
+import { WaitlistApplication } from '../types'
+
+export interface ActivationCheckoutResult {
+  success: boolean
+  status: number
+  error?: string
+  checkoutUrl?: string | null
+  sessionId?: string
+  creditAppliedCents?: number
+}
+
+/**
+ * Whether an accepted (or applicant-deferred) seat can still be activated
+ */
+function isHoldOpen(application: WaitlistApplication, now: Date): boolean {
+  if (application.status === 'accepted') {
+    return !!application.activation_deadline && new Date(application.activation_deadline) > now
+  }
+
+  if (application.status === 'deferred') {
+    // Only deferrals of an accepted seat carry an activation deadline
+    return !!application.activation_deadline && !!application.deferred_until && new Date(application.deferred_until) > now
+  }
+
+  return false
+}
+
+/**
+ * Membership purchase for accepted applicants
+ * Checkout applies the credit balance as a coupon; the first paid invoice activates the application
+ */
+export class MembershipActivation {
+
+  /**
+   * Create a subscription checkout for an application awaiting activation
+   */
+  static async startCheckout(
+    applicationId: string,
+    plan: MembershipPlan,
+    context: {
+      initiatedBy: 'admin' | 'applicant'
+      ip_address?: string
+      user_agent?: string
+    }
+  ): Promise<ActivationCheckoutResult> {
+    const application = await DatabaseOperations.getApplicationById(applicationId)
+
+    if (!application) {
+      return { success: false, status: 404, error: 'Application not found' }
+    }
+
+    if (application.status === 'activated') {
+      return { success: false, status: 409, error: 'Membership is already active' }
+    }
+
+    if (!isHoldOpen(application, new Date())) {
+      return { success: false, status: 409, error: 'This application is not awaiting activation' }
+    }
+
+    // Every checkout for the email shares one coupon, so only one of them can redeem the balance
+    const credit = await CreditLedger.createBalanceCoupon(application.email, application.id)
+    const baseUrl = getEnv('NEXT_PUBLIC_BASE_URL')
+
+    const session = await StripeSecurityManager.createMembershipCheckoutSession({
+      plan,
+      applicationId: application.id,
+      customerEmail: application.email,
+      customerId: application.stripe_customer_id,
+      couponId: credit?.coupon.stripe_coupon_id,
+      successUrl: `${baseUrl}${ROUTES.ACTIVATE}`,
+      cancelUrl: `${baseUrl}${ROUTES.ACTIVATE}?cancelled=1`,
+    })
+
+    await DatabaseOperations.updateApplicationMembership(application.id, {
+      membership_plan: plan,
+      membership_checkout_session_id: session.id,
+    })
+
+    await DatabaseOperations.logSecurityEvent(
+      'membership_checkout_created',
+      'low',
+      {
+        user_identifier: application.email,
+        ip_address: context.ip_address,
+        user_agent: context.user_agent,
+        event_data: {
+          application_id: application.id,
+          plan,
+          session_id: session.id,
+          coupon_id: credit?.coupon.stripe_coupon_id,
+          credit_applied_cents: credit?.balance.total_cents || 0,
+          initiated_by: context.initiatedBy,
+        }
+      }
+    )
+
+    return {
+      success: true,
+      status: 200,
+      checkoutUrl: session.url,
+      sessionId: session.id,
+      creditAppliedCents: credit?.balance.total_cents || 0,
+    }
+  }
+
+  /**
+   * Membership checkout finished: link the subscription to the application
+   */
+  static async handleCheckoutCompleted(session: Stripe.Checkout.Session): Promise<void> {
+    const applicationId = session.metadata?.application_id
+
+    if (!applicationId) return
+
+    await DatabaseOperations.updateApplicationMembership(applicationId, {
+      stripe_customer_id: typeof session.customer === 'string' ? session.customer : session.customer?.id,
+      stripe_subscription_id: typeof session.subscription === 'string' ? session.subscription : session.subscription?.id,
+    })
+  }
+
+  /**
+   * First subscription invoice paid: the application becomes 'activated'
+   */
+  static async handleFirstInvoicePaid(invoice: Stripe.Invoice): Promise<void> {
+    const details = invoice.parent?.subscription_details
+
+    if (!details?.metadata || details.metadata.purpose !== 'membership_activation') {
+      return
+    }
+
+    const applicationId = details.metadata.application_id
+    const subscriptionId = typeof details.subscription === 'string' ? details.subscription : details.subscription.id
+
+    // The credit is spent once the invoice used the coupon, whatever happens to the activation below
+    const discountCents = (invoice.total_discount_amounts || []).reduce((total, discount) => total + discount.amount, 0)
+    if (details.metadata.credit_coupon_id && discountCents > 0) {
+      await CreditLedger.recordRedemption(details.metadata.credit_coupon_id, discountCents, invoice.id as string)
+    }
+
+    const application = await DatabaseOperations.getApplicationById(applicationId)
+
+    if (!application || application.status === 'activated') {
+      return
+    }
+
+    await DatabaseOperations.updateApplicationMembership(application.id, {
+      stripe_subscription_id: subscriptionId,
+      activated_at: new Date().toISOString(),
+    })
+
+    try {
+      await ApplicationLifecycle.transition(application, 'activated', {
+        changedBy: 'system:stripe-webhook',
+        reason: `First membership invoice ${invoice.id} paid`,
+      })
+    } catch (error) {
+      // e.g. the hold expired while checkout was open - needs a human, retrying won't help
+      if (error instanceof ApplicationTransitionError && error.code === 'invalid_transition') {
+        await DatabaseOperations.logSecurityEvent(
+          'membership_paid_without_open_hold',
+          'high',
+          {
+            user_identifier: application.email,
+            event_data: {
+              application_id: application.id,
+              status: application.status,
+              invoice_id: invoice.id,
+              subscription_id: subscriptionId,
+            }
+          }
+        )
+        return
+      }
+      throw error
+    }
+  }
+}
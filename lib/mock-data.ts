@@ -8,6 +8,9 @@ export interface MockSeatData {
   tier_199_available: number
   tier_99_total: number
   tier_199_total: number
+  // Current wave per tier, null when the tier has no running wave
+  tier_99_wave: number | null
+  tier_199_wave: number | null
   last_updated: string
 }
 
@@ -29,6 +32,8 @@ export const mockSeatData: MockSeatData = {
   tier_199_available: 8,  // Very high scarcity
   tier_99_total: 100,
   tier_199_total: 50,
+  tier_99_wave: 1,
+  tier_199_wave: 2,
   last_updated: new Date().toISOString(),
 }
 
@@ -71,6 +76,8 @@ export function getDynamicMockSeatData(): MockSeatData {
     tier_199_available: Math.max(1, mockSeatData.tier_199_available - Math.floor(reductionFactor / 2)),
     tier_99_total: mockSeatData.tier_99_total,
     tier_199_total: mockSeatData.tier_199_total,
+    tier_99_wave: mockSeatData.tier_99_wave,
+    tier_199_wave: mockSeatData.tier_199_wave,
     last_updated: new Date().toISOString(),
   }
 }
@@ -0,0 +1,186 @@
+import Stripe from 'stripe'
+import { DatabaseOperations } from './database'
+import { CreditLedger } from './credit-ledger'
+import { SeatReservations } from './seat-reservations'
+import { WaitlistRanking } from './waitlist-ranking'
+import { ApplicationTransitionError } from './application-lifecycle'
+import { ApplicationLifecycle } from './application-transitions'
+import { WaitlistApplication } from '../types'
+
+const WEBHOOK_ACTOR = 'system:stripe-webhook'
+
+const paymentIntentId = (paymentIntent: string | Stripe.PaymentIntent | null): string | null =>
+  typeof paymentIntent === 'string' ? paymentIntent : paymentIntent?.id || null
+
+/**
+ * FastTrack payment events that arrive after checkout: refunds, disputes (chargebacks) and abandoned checkouts
+ */
+export class PaymentEvents {
+
+  /**
+   * Charge refunded, by us (rejection) or from the Stripe dashboard
+   * Rejected applications are settled as refunded; refunds on open applications are flagged for review,
+   * since moving them to 'rejected' would try to refund again
+   */
+  static async handleChargeRefunded(charge: Stripe.Charge): Promise<void> {
+    const application = await this.findByPaymentIntent(paymentIntentId(charge.payment_intent))
+
+    if (!application) {
+      await this.log('payment_refund_unmatched', 'medium', null, {
+        charge_id: charge.id,
+        payment_intent_id: paymentIntentId(charge.payment_intent),
+        amount_refunded: charge.amount_refunded,
+      })
+      return
+    }
+
+    if (!charge.refunded) {
+      await this.log('payment_partially_refunded', 'medium', application, {
+        charge_id: charge.id,
+        amount_refunded: charge.amount_refunded,
+        amount: charge.amount,
+      })
+      return
+    }
+
+    if (application.status === 'refunded') {
+      return
+    }
+
+    if (application.status !== 'rejected') {
+      await this.log('payment_refunded_out_of_band', 'high', application, {
+        charge_id: charge.id,
+        status: application.status,
+        amount_refunded: charge.amount_refunded,
+      })
+      return
+    }
+
+    await this.transition(application, 'refunded', `Charge ${charge.id} refunded in Stripe`)
+    await this.log('payment_refunded', 'low', application, { charge_id: charge.id })
+  }
+
+  /**
+   * Dispute opened: flag the application for reviewers
+   */
+  static async handleDisputeCreated(dispute: Stripe.Dispute): Promise<void> {
+    const application = await this.findByPaymentIntent(paymentIntentId(dispute.payment_intent))
+
+    if (application) {
+      await DatabaseOperations.updateApplicationDispute(application.id, {
+        dispute_id: dispute.id,
+        dispute_status: dispute.status,
+        disputed_at: new Date(dispute.created * 1000).toISOString(),
+      })
+    }
+
+    await this.log('payment_dispute_created', 'critical', application, {
+      dispute_id: dispute.id,
+      charge_id: typeof dispute.charge === 'string' ? dispute.charge : dispute.charge.id,
+      reason: dispute.reason,
+      amount: dispute.amount,
+      status: dispute.status,
+    })
+  }
+
+  /**
+   * Dispute closed (won or lost): keep the flag, record the outcome
+   */
+  static async handleDisputeClosed(dispute: Stripe.Dispute): Promise<void> {
+    const application = await this.findByPaymentIntent(paymentIntentId(dispute.payment_intent))
+
+    if (application) {
+      await DatabaseOperations.updateApplicationDispute(application.id, {
+        dispute_id: dispute.id,
+        dispute_status: dispute.status,
+        disputed_at: application.disputed_at || new Date(dispute.created * 1000).toISOString(),
+      })
+    }
+
+    await this.log('payment_dispute_closed', dispute.status === 'lost' ? 'high' : 'medium', application, {
+      dispute_id: dispute.id,
+      reason: dispute.reason,
+      amount: dispute.amount,
+      status: dispute.status,
+    })
+  }
+
+  /**
+   * FastTrack checkout expired or its delayed payment failed: release the applicant's seat and let them retry
+   * The application stays pending; abandoning a checkout is not a decision
+   */
+  static async handleCheckoutAbandoned(session: Stripe.Checkout.Session, reason: 'expired' | 'payment_failed'): Promise<void> {
+    const applicationId = session.metadata?.application_id
+
+    // Membership checkouts don't hold a seat; the applicant can start a new one
+    if (!applicationId || session.metadata?.purpose === 'membership_activation') {
+      return
+    }
+
+    const application = await DatabaseOperations.getApplicationById(applicationId)
+
+    // Only the application's current checkout counts, and only while nothing else has happened to it
+    if (!application || application.stripe_checkout_session_id !== session.id || application.status !== 'pending') {
+      return
+    }
+
+    // An expired session can't have been paid; a completed one has a payment intent
+    if (reason === 'expired' && application.stripe_payment_intent_id) {
+      return
+    }
+
+    const released = await SeatReservations.abandonCheckout(application.id, session.id, `checkout_${reason}`)
+
+    if (!released) {
+      return
+    }
+
+    await DatabaseOperations.refreshSeatCounts()
+
+    // Checkout completion recorded the credit and queued the applicant before the delayed payment failed
+    if (reason === 'payment_failed') {
+      await CreditLedger.recordRefundReversal(application, paymentIntentId(session.payment_intent) || undefined)
+      await WaitlistRanking.snapshot(application.wave, 'checkout_payment_failed')
+    }
+
+    await this.log(`checkout_${reason}`, 'low', application, { session_id: session.id })
+  }
+
+  private static async findByPaymentIntent(id: string | null): Promise<WaitlistApplication | null> {
+    return id ? DatabaseOperations.getApplicationByPaymentIntent(id) : null
+  }
+
+  /**
+   * Transition as the webhook; a concurrent change (e.g. a reviewer decision) wins
+   */
+  private static async transition(
+    application: WaitlistApplication,
+    to: 'refunded',
+    reason: string
+  ): Promise<WaitlistApplication | null> {
+    try {
+      const result = await ApplicationLifecycle.transition(application, to, {
+        changedBy: WEBHOOK_ACTOR,
+        reason,
+      })
+      return result.application
+    } catch (error) {
+      if (error instanceof ApplicationTransitionError && (error.code === 'conflict' || error.code === 'invalid_transition')) {
+        return null
+      }
+      throw error
+    }
+  }
+
+  private static async log(
+    eventType: string,
+    severity: 'low' | 'medium' | 'high' | 'critical',
+    application: WaitlistApplication | null,
+    eventData: Record<string, any>
+  ): Promise<void> {
+    await DatabaseOperations.logSecurityEvent(eventType, severity, {
+      user_identifier: application?.email,
+      event_data: { application_id: application?.id, ...eventData },
+    })
+  }
+}
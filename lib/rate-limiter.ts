@@ -1,77 +1,405 @@
+import { createHash } from 'crypto'
 import { NextRequest } from 'next/server'
+import { createServiceClient } from './supabase'
+import { getEnv, isProduction } from './env'
+
+export type RateLimitAlgorithm = 'sliding_window' | 'token_bucket'
+
+export interface RateLimitPolicy {
+  limit: number
+  windowMs: number
+  // Sliding window by default
+  algorithm?: RateLimitAlgorithm
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  // When the limit is fully available again (ms since epoch)
+  resetTime: number
+  // Seconds until the next request would be allowed, 0 when allowed
+  retryAfter: number
+}
 
 /**
- * In-memory rate limiter for development/small scale
- * For production, consider using Redis or Upstash
+ * Per-key algorithm state, stored as-is by every store
+ * sliding_window: counts for the current and previous fixed windows, weighted by overlap (sliding window counter)
+ * token_bucket: `limit` tokens, refilled continuously over `windowMs`
  */
-class InMemoryRateLimiter {
-  private requests: Map<string, { count: number; resetTime: number }> = new Map()
+export type RateLimitState =
+  | { algorithm: 'sliding_window'; window_start: number; count: number; previous_count: number }
+  | { algorithm: 'token_bucket'; tokens: number; updated_at: number }
+
+export interface StoredRateLimitState {
+  state: RateLimitState | null
+  // 0 when the key doesn't exist
+  version: number
+}
+
+/**
+ * Backend for rate limit state
+ * Stores only need a versioned read and a compare-and-set; the algorithms run in RateLimiter, so every store
+ * limits the same way and concurrent writers retry instead of losing updates
+ */
+export interface RateLimitStore {
+  name: string
+  get(key: string): Promise<StoredRateLimitState>
+  // Write only if the key is still at `version`; false when another request got there first
+  compareAndSet(key: string, version: number, state: RateLimitState, ttlMs: number): Promise<boolean>
+  delete(key: string): Promise<void>
+}
+
+/**
+ * Per-instance store for development and as a fallback when the shared store is unreachable
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  name = 'memory'
+
+  private entries: Map<string, { state: RateLimitState; version: number; expiresAt: number }> = new Map()
   private cleanupInterval: NodeJS.Timeout
-  
+
   constructor() {
     // Cleanup expired entries every 5 minutes
     this.cleanupInterval = setInterval(() => {
       const now = Date.now()
-      this.requests.forEach((data, key) => {
-        if (now > data.resetTime) {
-          this.requests.delete(key)
+      this.entries.forEach((entry, key) => {
+        if (now > entry.expiresAt) {
+          this.entries.delete(key)
         }
       })
     }, 5 * 60 * 1000)
   }
-  
+
+  async get(key: string): Promise<StoredRateLimitState> {
+    const entry = this.entries.get(key)
+
+    if (!entry) {
+      return { state: null, version: 0 }
+    }
+
+    return { state: Date.now() > entry.expiresAt ? null : entry.state, version: entry.version }
+  }
+
+  async compareAndSet(key: string, version: number, state: RateLimitState, ttlMs: number): Promise<boolean> {
+    if ((this.entries.get(key)?.version || 0) !== version) {
+      return false
+    }
+
+    this.entries.set(key, { state, version: version + 1, expiresAt: Date.now() + ttlMs })
+    return true
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+
+  destroy() {
+    clearInterval(this.cleanupInterval)
+    this.entries.clear()
+  }
+}
+
+/**
+ * Supabase store: the rate_limits table, written through rate_limit_compare_and_set()
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  name = 'postgres'
+
+  async get(key: string): Promise<StoredRateLimitState> {
+    const supabase = createServiceClient()
+
+    const { data, error } = await supabase
+      .from('rate_limits')
+      .select('version, state, expires_at')
+      .eq('key', key)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Database error fetching rate limit:', error)
+      throw new Error('Failed to fetch rate limit')
+    }
+
+    if (!data) {
+      return { state: null, version: 0 }
+    }
+
+    // An expired row is a fresh limit, but the version still guards the overwrite
+    return {
+      state: new Date(data.expires_at).getTime() < Date.now() ? null : data.state as RateLimitState,
+      version: Number(data.version),
+    }
+  }
+
+  async compareAndSet(key: string, version: number, state: RateLimitState, ttlMs: number): Promise<boolean> {
+    const supabase = createServiceClient()
+
+    const { data, error } = await supabase.rpc('rate_limit_compare_and_set', {
+      p_key: key,
+      p_version: version,
+      p_state: state,
+      p_expires_at: new Date(Date.now() + ttlMs).toISOString(),
+    })
+
+    if (error) {
+      console.error('Database error updating rate limit:', error)
+      throw new Error('Failed to update rate limit')
+    }
+
+    return data === true
+  }
+
+  async delete(key: string): Promise<void> {
+    const supabase = createServiceClient()
+
+    const { error } = await supabase
+      .from('rate_limits')
+      .delete()
+      .eq('key', key)
+
+    if (error) {
+      console.error('Database error clearing rate limit:', error)
+      throw new Error('Failed to clear rate limit')
+    }
+  }
+
   /**
-   * Check if request is allowed
-   * @param identifier - Usually IP address or user ID
-   * @param limit - Maximum requests allowed
-   * @param windowMs - Time window in milliseconds
-   * @returns { allowed: boolean, remaining: number, resetTime: number }
+   * Remove expired rows (see the rate limit cron)
    */
-  check(identifier: string, limit: number, windowMs: number) {
-    const now = Date.now()
-    const resetTime = now + windowMs
-    
-    const current = this.requests.get(identifier)
-    
-    if (!current || now > current.resetTime) {
-      // First request or window expired
-      this.requests.set(identifier, { count: 1, resetTime })
-      return {
-        allowed: true,
-        remaining: limit - 1,
-        resetTime,
-        retryAfter: 0,
-      }
+  static async prune(): Promise<number> {
+    const supabase = createServiceClient()
+
+    const { data, error } = await supabase.rpc('prune_rate_limits')
+
+    if (error) {
+      console.error('Database error pruning rate limits:', error)
+      throw new Error('Failed to prune rate limits')
     }
-    
-    if (current.count < limit) {
-      // Within limit
-      current.count++
-      return {
-        allowed: true,
-        remaining: limit - current.count,
-        resetTime: current.resetTime,
-        retryAfter: 0,
-      }
+
+    return data || 0
+  }
+}
+
+// Compare-and-set on a hash { v: version, s: state JSON }; a missing key is version 0
+const REDIS_COMPARE_AND_SET = `
+local current = redis.call('HGET', KEYS[1], 'v')
+if (current or '0') ~= ARGV[1] then return 0 end
+redis.call('HSET', KEYS[1], 'v', tostring(tonumber(ARGV[1]) + 1), 's', ARGV[2])
+redis.call('PEXPIRE', KEYS[1], ARGV[3])
+return 1
+`
+
+/**
+ * Redis store over the Redis REST protocol (Upstash and compatible proxies), so it works from serverless
+ * functions without a connection pool
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  name = 'redis'
+
+  constructor(private url: string, private token: string, private prefix = 'ratelimit:') {}
+
+  async get(key: string): Promise<StoredRateLimitState> {
+    const [version, state] = await this.command<[string | null, string | null]>(['HMGET', this.prefix + key, 'v', 's'])
+
+    return {
+      state: state ? JSON.parse(state) as RateLimitState : null,
+      version: version ? Number(version) : 0,
     }
-    
-    // Rate limited
+  }
+
+  async compareAndSet(key: string, version: number, state: RateLimitState, ttlMs: number): Promise<boolean> {
+    const result = await this.command<number>([
+      'EVAL',
+      REDIS_COMPARE_AND_SET,
+      '1',
+      this.prefix + key,
+      String(version),
+      JSON.stringify(state),
+      String(Math.ceil(ttlMs)),
+    ])
+
+    return result === 1
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.command(['DEL', this.prefix + key])
+  }
+
+  private async command<T>(args: string[]): Promise<T> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(args),
+    })
+
+    const body = await response.json().catch(() => ({}))
+
+    if (!response.ok || body.error) {
+      throw new Error(`Redis error (${response.status}): ${body.error || 'Unknown error'}`)
+    }
+
+    return body.result as T
+  }
+}
+
+let store: RateLimitStore | null = null
+const fallbackStore = new MemoryRateLimitStore()
+
+/**
+ * Store selected by RATE_LIMIT_STORE ('memory' | 'postgres' | 'redis'), Postgres in production by default
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    const selected = process.env.RATE_LIMIT_STORE || (isProduction ? 'postgres' : 'memory')
+
+    store = selected === 'redis'
+      ? new RedisRateLimitStore(getEnv('REDIS_REST_URL'), getEnv('REDIS_REST_TOKEN'))
+      : selected === 'postgres'
+        ? new PostgresRateLimitStore()
+        : fallbackStore
+  }
+
+  return store
+}
+
+/**
+ * Override the store (e.g. a fresh in-memory store in local scripts)
+ */
+export function setRateLimitStore(next: RateLimitStore | null): void {
+  store = next
+}
+
+/**
+ * Run the policy's algorithm on a key's state at `now`
+ * Returns the decision and the state to store when the request is counted
+ */
+export function evaluateRateLimit(
+  state: RateLimitState | null,
+  policy: RateLimitPolicy,
+  now: number
+): { result: RateLimitResult; next: RateLimitState } {
+  const { limit, windowMs } = policy
+
+  if ((policy.algorithm || 'sliding_window') === 'token_bucket') {
+    const refillPerMs = limit / windowMs
+    const previous = state?.algorithm === 'token_bucket' ? state : null
+    const tokens = previous
+      ? Math.min(limit, previous.tokens + (now - previous.updated_at) * refillPerMs)
+      : limit
+    const allowed = tokens >= 1
+    const left = allowed ? tokens - 1 : tokens
+
     return {
-      allowed: false,
-      remaining: 0,
-      resetTime: current.resetTime,
-      retryAfter: Math.ceil((current.resetTime - now) / 1000),
+      result: {
+        allowed,
+        limit,
+        remaining: Math.floor(left),
+        resetTime: now + Math.ceil((limit - left) / refillPerMs),
+        retryAfter: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs / 1000),
+      },
+      next: { algorithm: 'token_bucket', tokens: left, updated_at: now },
     }
   }
-  
-  destroy() {
-    clearInterval(this.cleanupInterval)
-    this.requests.clear()
+
+  const windowStart = Math.floor(now / windowMs) * windowMs
+  const previous = state?.algorithm === 'sliding_window' ? state : null
+  const count = previous?.window_start === windowStart ? previous.count : 0
+  const previousCount = previous?.window_start === windowStart
+    ? previous.previous_count
+    : previous?.window_start === windowStart - windowMs ? previous.count : 0
+
+  // The previous window counts for the part of it still inside the sliding window
+  const elapsed = now - windowStart
+  const estimated = previousCount * ((windowMs - elapsed) / windowMs) + count
+  const allowed = estimated + 1 <= limit
+  const windowEnd = windowStart + windowMs
+
+  // Denied: wait until enough of the previous window has slid out, or for the next window when this one is full
+  const spare = limit - 1 - count
+  const retryAt = spare >= 0 && previousCount > 0
+    ? windowStart + windowMs - (spare * windowMs) / previousCount
+    : windowEnd
+
+  return {
+    result: {
+      allowed,
+      limit,
+      remaining: allowed ? Math.max(0, Math.floor(limit - estimated - 1)) : 0,
+      resetTime: windowEnd,
+      retryAfter: allowed ? 0 : Math.max(1, Math.ceil((retryAt - now) / 1000)),
+    },
+    next: {
+      algorithm: 'sliding_window',
+      window_start: windowStart,
+      count: allowed ? count + 1 : count,
+      previous_count: previousCount,
+    },
   }
 }
 
-// Global rate limiter instance
-const rateLimiter = new InMemoryRateLimiter()
+// Long enough for the state to matter: a sliding window reads the previous window, a bucket refills within one
+const stateTtl = (policy: RateLimitPolicy): number =>
+  (policy.algorithm || 'sliding_window') === 'sliding_window' ? policy.windowMs * 2 : policy.windowMs
+
+const MAX_COMPARE_AND_SET_ATTEMPTS = 5
+
+/**
+ * Rate limiting over the configured store
+ */
+export class RateLimiter {
+
+  /**
+   * Count a request against a key and decide whether it is allowed
+   * If the shared store fails, the per-instance store decides so limits still apply
+   */
+  static async consume(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+    const primary = getRateLimitStore()
+
+    try {
+      return await this.consumeFrom(primary, key, policy)
+    } catch (error) {
+      if (primary === fallbackStore) throw error
+
+      console.error(`Rate limit store ${primary.name} failed, using per-instance limits:`, error)
+      return this.consumeFrom(fallbackStore, key, policy)
+    }
+  }
+
+  /**
+   * The key's current standing without counting a request
+   */
+  static async peek(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+    const { state } = await getRateLimitStore().get(key)
+    const { result } = evaluateRateLimit(state, policy, Date.now())
+
+    // evaluateRateLimit reports what's left after this request; nothing was counted here
+    return { ...result, remaining: result.allowed ? result.remaining + 1 : 0 }
+  }
+
+  static async reset(key: string): Promise<void> {
+    await getRateLimitStore().delete(key)
+  }
+
+  private static async consumeFrom(store: RateLimitStore, key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+    for (let attempt = 1; ; attempt++) {
+      const { state, version } = await store.get(key)
+      const { result, next } = evaluateRateLimit(state, policy, Date.now())
+
+      // Denied requests aren't counted, so there's nothing to write
+      if (!result.allowed || await store.compareAndSet(key, version, next, stateTtl(policy))) {
+        return result
+      }
+
+      // Heavy contention on one key: deny rather than spin
+      if (attempt >= MAX_COMPARE_AND_SET_ATTEMPTS) {
+        return { ...result, allowed: false, remaining: 0, retryAfter: 1 }
+      }
+    }
+  }
+}
 
 /**
  * Rate limiting configurations for different endpoints
@@ -79,35 +407,251 @@ const rateLimiter = new InMemoryRateLimiter()
 export const RATE_LIMITS = {
   // Waitlist application submission - very strict
   WAITLIST_APPLY: { limit: 3, windowMs: 15 * 60 * 1000 }, // 3 requests per 15 minutes
-  
+
   // Free signup - moderate
   FREE_SIGNUP: { limit: 5, windowMs: 60 * 1000 }, // 5 requests per minute
-  
-  // Seat availability check - generous for real-time updates
-  SEATS_CHECK: { limit: 60, windowMs: 60 * 1000 }, // 60 requests per minute
-  
+
+  // Seat availability check - generous for real-time updates, bursts allowed
+  SEATS_CHECK: { limit: 60, windowMs: 60 * 1000, algorithm: 'token_bucket' }, // 60 requests per minute
+
   // Stripe checkout creation - strict
   STRIPE_CHECKOUT: { limit: 5, windowMs: 10 * 60 * 1000 }, // 5 requests per 10 minutes
-  
+
   // General API - moderate
-  API_GENERAL: { limit: 100, windowMs: 15 * 60 * 1000 }, // 100 requests per 15 minutes
-  
+  API_GENERAL: { limit: 100, windowMs: 15 * 60 * 1000, algorithm: 'token_bucket' }, // 100 requests per 15 minutes
+
   // Admin endpoints - very strict
   ADMIN: { limit: 10, windowMs: 60 * 1000 }, // 10 requests per minute
-} as const
+
+  // ApiSecurityWrapper presets (SecurityConfig.rateLimit)
+  API_STRICT: { limit: 5, windowMs: 15 * 60 * 1000 }, // 5 requests per 15 minutes
+  API_MODERATE: { limit: 20, windowMs: 15 * 60 * 1000 }, // 20 requests per 15 minutes
+  API_LENIENT: { limit: 100, windowMs: 15 * 60 * 1000 }, // 100 requests per 15 minutes
+  // Per admin token rather than per IP; bursts allowed for working through the review queue
+  API_ADMIN: { limit: 300, windowMs: 15 * 60 * 1000, algorithm: 'token_bucket' }, // 300 requests per 15 minutes
+
+  // Failed admin logins per IP; while used up, tokens from that IP aren't checked at all
+  ADMIN_AUTH_FAILURE: { limit: 10, windowMs: 15 * 60 * 1000 }, // 10 failures per 15 minutes
+} as const satisfies Record<string, RateLimitPolicy>
+
+export type RateLimitName = keyof typeof RATE_LIMITS
+
+export type ApiRateLimitPreset = 'strict' | 'moderate' | 'lenient' | 'admin'
+
+export const API_RATE_LIMIT_PRESETS: Record<ApiRateLimitPreset, RateLimitName> = {
+  strict: 'API_STRICT',
+  moderate: 'API_MODERATE',
+  lenient: 'API_LENIENT',
+  admin: 'API_ADMIN',
+}
+
+export type RateLimitDimension = 'ip' | 'subnet' | 'email' | 'device' | 'application'
+
+export interface RateLimitRule {
+  // Part of the key, so each rule in a set has its own budget
+  name: string
+  // The rule's key combines these; a rule is skipped when a dimension isn't known for the request
+  dimensions: readonly RateLimitDimension[]
+  policy: RateLimitPolicy
+}
+
+const MINUTE_MS = 60 * 1000
+
+/**
+ * Rule sets per route: every rule is checked and the request is refused if any budget is used up
+ * Per-email and per-application budgets stop IP rotation; subnet budgets are sized for shared NATs,
+ * and the tighter subnet + device budget singles out one browser behind them
+ */
+export const RATE_LIMIT_RULES = {
+  WAITLIST_APPLY: [
+    { name: 'email', dimensions: ['email'], policy: RATE_LIMITS.WAITLIST_APPLY },
+    { name: 'device', dimensions: ['subnet', 'device'], policy: { limit: 5, windowMs: 15 * MINUTE_MS } },
+    { name: 'subnet', dimensions: ['subnet'], policy: { limit: 30, windowMs: 15 * MINUTE_MS } },
+  ],
+  FREE_SIGNUP: [
+    { name: 'email', dimensions: ['email'], policy: { limit: 2, windowMs: 60 * MINUTE_MS } },
+    { name: 'device', dimensions: ['subnet', 'device'], policy: RATE_LIMITS.FREE_SIGNUP },
+    { name: 'subnet', dimensions: ['subnet'], policy: { limit: 30, windowMs: MINUTE_MS, algorithm: 'token_bucket' } },
+  ],
+  STATUS_LINK: [
+    { name: 'email', dimensions: ['email'], policy: { limit: 3, windowMs: 60 * MINUTE_MS } },
+    { name: 'subnet', dimensions: ['subnet'], policy: { limit: 20, windowMs: 15 * MINUTE_MS } },
+  ],
+  STRIPE_CHECKOUT: [
+    { name: 'application', dimensions: ['application'], policy: RATE_LIMITS.STRIPE_CHECKOUT },
+    { name: 'subnet', dimensions: ['subnet'], policy: { limit: 30, windowMs: 10 * MINUTE_MS } },
+  ],
+  VERIFICATION_SEND: [
+    { name: 'application', dimensions: ['application'], policy: { limit: 5, windowMs: 60 * MINUTE_MS } },
+    { name: 'subnet', dimensions: ['subnet'], policy: { limit: 20, windowMs: 60 * MINUTE_MS } },
+  ],
+  VERIFICATION_CONFIRM: [
+    { name: 'application', dimensions: ['application'], policy: { limit: 10, windowMs: 15 * MINUTE_MS } },
+    { name: 'device', dimensions: ['subnet', 'device'], policy: { limit: 30, windowMs: 15 * MINUTE_MS } },
+  ],
+} as const satisfies Record<string, readonly RateLimitRule[]>
+
+export type RateLimitRuleSetName = keyof typeof RATE_LIMIT_RULES
+
+/**
+ * What a request can be limited by; email and application ID come from the request body when present
+ */
+export interface RateLimitIdentity {
+  ip: string
+  userAgent: string
+  email?: string
+  applicationId?: string
+}
+
+/**
+ * Lowercase, drop +tags, and drop dots for Gmail, so one inbox is one budget
+ */
+export function normalizeEmail(email: string): string {
+  const [local, domain] = email.trim().toLowerCase().split('@')
+
+  if (!domain) return local
+
+  const base = local.split('+')[0]
+
+  return domain === 'gmail.com' || domain === 'googlemail.com'
+    ? `${base.replace(/\./g, '')}@gmail.com`
+    : `${base}@${domain}`
+}
+
+/**
+ * The /24 for IPv4 (and IPv4-mapped IPv6), the /64 for IPv6
+ */
+export function ipSubnet(ip: string): string {
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)
+  const address = mapped ? mapped[1] : ip
+
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(address)) {
+    return `${address.split('.').slice(0, 3).join('.')}.0/24`
+  }
+
+  if (address.includes(':')) {
+    const [head, tail = ''] = address.toLowerCase().split('::')
+    const headGroups = head ? head.split(':') : []
+    const tailGroups = address.includes('::') && tail ? tail.split(':') : []
+    const groups = [
+      ...headGroups,
+      ...Array(Math.max(0, 8 - headGroups.length - tailGroups.length)).fill('0'),
+      ...tailGroups,
+    ]
+    return `${groups.slice(0, 4).map(group => group.replace(/^0+(?=.)/, '')).join(':')}::/64`
+  }
+
+  return address
+}
+
+// Keys don't carry raw emails or user agents into the store
+const keyHash = (value: string): string => createHash('sha256').update(value).digest('hex').slice(0, 32)
+
+/**
+ * Rate limit subject for an authenticated admin (the token is hashed, never stored in a key)
+ */
+export function adminRateLimitSubject(adminToken: string): string {
+  return `admin:${keyHash(adminToken)}`
+}
+
+/**
+ * Failed admin login budget for an IP, separate from every request budget
+ */
+export function adminAuthFailureKey(ip: string): string {
+  return `admin-auth-fail:${ip}`
+}
+
+function dimensionValue(dimension: RateLimitDimension, identity: RateLimitIdentity): string | null {
+  switch (dimension) {
+    case 'ip':
+      return identity.ip !== 'unknown' ? identity.ip : null
+    case 'subnet':
+      return identity.ip !== 'unknown' ? ipSubnet(identity.ip) : null
+    case 'email':
+      return identity.email ? keyHash(normalizeEmail(identity.email)) : null
+    case 'device':
+      return keyHash(identity.userAgent)
+    case 'application':
+      return identity.applicationId || null
+  }
+}
+
+/**
+ * The refusing result with the longest wait, or the allowed result with the least left
+ */
+export function mostRestrictive(results: RateLimitResult[]): RateLimitResult {
+  return results.reduce((worst, result) => {
+    if (worst.allowed !== result.allowed) return result.allowed ? worst : result
+    return (result.allowed ? result.remaining < worst.remaining : result.retryAfter > worst.retryAfter) ? result : worst
+  })
+}
+
+/**
+ * Check every rule in a route's set; each rule keys on its own dimensions and counts separately
+ * `rule` names the rule that refused the request
+ */
+export async function applyRateLimitRules(
+  ruleSet: RateLimitRuleSetName,
+  identity: RateLimitIdentity
+): Promise<RateLimitResult & { rule?: string }> {
+  const checks = (RATE_LIMIT_RULES[ruleSet] as readonly RateLimitRule[]).flatMap(rule => {
+    const values = rule.dimensions.map(dimension => dimensionValue(dimension, identity))
+
+    if (values.some(value => value === null)) return []
+
+    const key = `${ruleSet}:${rule.name}:${values.join('|')}`
+    return [RateLimiter.consume(key, rule.policy).then(result => ({ ...result, rule: rule.name }))]
+  })
+
+  if (checks.length === 0) {
+    return { allowed: true, limit: 0, remaining: 0, resetTime: Date.now(), retryAfter: 0 }
+  }
+
+  const results = await Promise.all(checks)
+  const result = mostRestrictive(results)
+
+  return result.allowed ? { ...result, rule: undefined } : result
+}
+
+/**
+ * Identity for rule-based limits
+ */
+export function getRateLimitIdentity(
+  request: NextRequest,
+  details: Pick<RateLimitIdentity, 'email' | 'applicationId'> = {}
+): RateLimitIdentity {
+  const forwarded = request.headers.get('x-forwarded-for')
+
+  return {
+    ip: request.ip || forwarded?.split(',')[0].trim() || request.headers.get('x-real-ip') || 'unknown',
+    userAgent: request.headers.get('user-agent') || 'unknown',
+    ...details,
+  }
+}
+
+/**
+ * Standard rate limit headers; Retry-After only when the request was refused
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': result.limit.toString(),
+    'X-RateLimit-Remaining': result.remaining.toString(),
+    'X-RateLimit-Reset': Math.ceil(result.resetTime / 1000).toString(),
+    ...(!result.allowed && { 'Retry-After': result.retryAfter.toString() }),
+  }
+}
 
 /**
  * Apply rate limiting to a request
  */
 export function applyRateLimit(
   request: NextRequest,
-  limitType: keyof typeof RATE_LIMITS,
+  limitType: RateLimitName,
   customIdentifier?: string
-) {
-  const config = RATE_LIMITS[limitType]
+): Promise<RateLimitResult> {
   const identifier = customIdentifier || getClientIdentifier(request)
-  
-  return rateLimiter.check(identifier, config.limit, config.windowMs)
+
+  return RateLimiter.consume(`${limitType}:${identifier}`, RATE_LIMITS[limitType])
 }
 
 /**
@@ -117,7 +661,7 @@ export function applyRateLimit(
 function getClientIdentifier(request: NextRequest): string {
   const ip = request.ip || 'unknown'
   const userAgent = request.headers.get('user-agent') || 'unknown'
-  
+
   // Create a simple hash of IP + first part of user agent
   const userAgentPrefix = userAgent.split(' ')[0] || 'unknown'
   return `${ip}:${userAgentPrefix}`
@@ -128,14 +672,14 @@ function getClientIdentifier(request: NextRequest): string {
  */
 export async function withRateLimit<T>(
   request: NextRequest,
-  limitType: keyof typeof RATE_LIMITS,
+  limitType: RateLimitName,
   handler: () => Promise<T>,
   customIdentifier?: string
 ): Promise<T | Response> {
-  const result = applyRateLimit(request, limitType, customIdentifier)
-  
+  const result = await applyRateLimit(request, limitType, customIdentifier)
+
   if (!result.allowed) {
-    const response = new Response(
+    return new Response(
       JSON.stringify({
         error: 'Too many requests',
         message: `Rate limit exceeded. Try again in ${result.retryAfter} seconds.`,
@@ -145,78 +689,45 @@ export async function withRateLimit<T>(
         status: 429,
         headers: {
           'Content-Type': 'application/json',
-          'Retry-After': result.retryAfter.toString(),
-          'X-RateLimit-Limit': RATE_LIMITS[limitType].limit.toString(),
-          'X-RateLimit-Remaining': '0',
-          'X-RateLimit-Reset': Math.ceil(result.resetTime / 1000).toString(),
+          ...rateLimitHeaders(result),
         },
       }
     )
-    
-    return response
   }
-  
+
   // Execute the handler
   const handlerResult = await handler()
-  
+
   // Add rate limit headers to successful responses
   if (handlerResult instanceof Response) {
-    handlerResult.headers.set('X-RateLimit-Limit', RATE_LIMITS[limitType].limit.toString())
-    handlerResult.headers.set('X-RateLimit-Remaining', result.remaining.toString())
-    handlerResult.headers.set('X-RateLimit-Reset', Math.ceil(result.resetTime / 1000).toString())
+    Object.entries(rateLimitHeaders(result)).forEach(([name, value]) => handlerResult.headers.set(name, value))
   }
-  
+
   return handlerResult
 }
 
 /**
  * Get rate limit status for monitoring
+ * This doesn't consume a request, just checks status
  */
-export function getRateLimitStatus(
+export async function getRateLimitStatus(
   request: NextRequest,
-  limitType: keyof typeof RATE_LIMITS,
+  limitType: RateLimitName,
   customIdentifier?: string
 ) {
-  const config = RATE_LIMITS[limitType]
   const identifier = customIdentifier || getClientIdentifier(request)
-  
-  // This doesn't consume a request, just checks status
-  const current = (rateLimiter as any).requests.get(identifier)
-  const now = Date.now()
-  
-  if (!current || now > current.resetTime) {
-    return {
-      remaining: config.limit,
-      resetTime: now + config.windowMs,
-      limited: false,
-    }
-  }
-  
+  const result = await RateLimiter.peek(`${limitType}:${identifier}`, RATE_LIMITS[limitType])
+
   return {
-    remaining: Math.max(0, config.limit - current.count),
-    resetTime: current.resetTime,
-    limited: current.count >= config.limit,
+    remaining: result.remaining,
+    resetTime: result.resetTime,
+    limited: !result.allowed,
   }
 }
 
 /**
  * Clear rate limit for a specific identifier (admin use)
  */
-export function clearRateLimit(identifier: string) {
-  (rateLimiter as any).requests.delete(identifier)
+export async function clearRateLimit(limitType: RateLimitName, identifier: string): Promise<void> {
+  await RateLimiter.reset(`${limitType}:${identifier}`)
 }
-
-/**
- * Get all rate limit entries (for monitoring)
- */
-export function getAllRateLimitEntries() {
-  const entries: Array<{ identifier: string; count: number; resetTime: string }> = []
-  ;(rateLimiter as any).requests.forEach((value: any, key: string) => {
-    entries.push({
-      identifier: key,
-      count: value.count,
-      resetTime: new Date(value.resetTime).toISOString(),
-    })
-  })
-  return entries
-}
\ No newline at end of file
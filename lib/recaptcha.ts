@@ -11,6 +11,8 @@ const recaptchaResponseSchema = z.object({
   success: z.boolean(),
   challenge_ts: z.string().optional(),
   hostname: z.string().optional(),
+  // Only reCAPTCHA v3 keys return a score
+  score: z.number().optional(),
   'error-codes': z.array(z.string()).optional(),
 })
 
@@ -36,6 +38,7 @@ export interface RecaptchaVerificationResult {
   errorCodes?: string[]
   timestamp?: string
   hostname?: string
+  score?: number
   errorMessage?: string
 }
 
@@ -95,6 +98,7 @@ export class RecaptchaVerifier {
         errorCodes: result['error-codes'],
         timestamp: result.challenge_ts,
         hostname: result.hostname,
+        score: result.score,
         errorMessage: result['error-codes']
           ?.map(code => RECAPTCHA_ERROR_CODES[code as keyof typeof RECAPTCHA_ERROR_CODES] || code)
           .join(', '),
@@ -0,0 +1,99 @@
+import { createServiceClient } from './supabase'
+import { APP_CONFIG } from './env'
+import { SeatReservation, WaitlistApplication } from '../types'
+
+/**
+ * Atomic seat holds for FastTrack checkout (see reserve_seat() in the Supabase migrations)
+ * A seat is held while the Checkout session is open, converted on payment and released when checkout is abandoned
+ */
+export class SeatReservations {
+
+  /**
+   * Hold a seat in the application's wave for SEAT_HOLD_MINUTES
+   * Returns null when the wave is full or not open
+   */
+  static async reserve(applicationId: string): Promise<SeatReservation | null> {
+    const supabase = createServiceClient()
+
+    try {
+      const { data, error } = await supabase.rpc('reserve_seat', {
+        p_application_id: applicationId,
+        p_hold_seconds: APP_CONFIG.DEADLINES.SEAT_HOLD_MINUTES * 60,
+      })
+
+      if (error) {
+        console.error('Database error reserving seat:', error)
+        throw new Error('Failed to reserve seat')
+      }
+
+      return (data as SeatReservation[] | null)?.[0] || null
+    } catch (error) {
+      console.error('Error in reserve:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Link the hold to the Checkout session it is waiting on
+   */
+  static async attachCheckout(applicationId: string, checkoutSessionId: string): Promise<void> {
+    const supabase = createServiceClient()
+
+    const { error } = await supabase
+      .from('seat_reservations')
+      .update({ checkout_session_id: checkoutSessionId })
+      .eq('application_id', applicationId)
+      .eq('status', 'held')
+
+    if (error) {
+      console.error('Database error attaching checkout to reservation:', error)
+      throw new Error('Failed to update seat reservation')
+    }
+  }
+
+  /**
+   * Payment received: the seat is taken for good
+   */
+  static async convert(applicationId: string): Promise<void> {
+    await this.settle('convert_seat_reservation', { p_application_id: applicationId })
+  }
+
+  /**
+   * Checkout abandoned or failed to start: give the seat back
+   */
+  static async release(applicationId: string, reason: string): Promise<void> {
+    await this.settle('release_seat_reservation', { p_application_id: applicationId, p_reason: reason })
+  }
+
+  /**
+   * Checkout expired or its delayed payment failed: release the seat and clear the session so the applicant
+   * can start a new checkout; the application stays pending. Returns null when the session is no longer current
+   */
+  static async abandonCheckout(applicationId: string, checkoutSessionId: string, reason: string): Promise<WaitlistApplication | null> {
+    const supabase = createServiceClient()
+
+    const { data, error } = await supabase.rpc('abandon_checkout', {
+      p_application_id: applicationId,
+      p_session_id: checkoutSessionId,
+      p_reason: reason,
+    })
+
+    if (error) {
+      console.error('Database error abandoning checkout:', error)
+      throw new Error('Failed to release abandoned checkout')
+    }
+
+    return (data as WaitlistApplication[] | null)?.[0] || null
+  }
+
+  private static async settle(fn: 'convert_seat_reservation' | 'release_seat_reservation', args: Record<string, string>): Promise<void> {
+    const supabase = createServiceClient()
+
+    const { error } = await supabase.rpc(fn, args)
+
+    if (error) {
+      console.error(`Database error in ${fn}:`, error)
+      throw new Error('Failed to update seat reservation')
+    }
+  }
+}
@@ -0,0 +1,384 @@
+/**
+ * Security Alert Store for ProbWin.ai
+ * Persists SecurityMonitoring alerts (see migration 018) and the incident workflow
+ * around them: acknowledge, assign, resolve, reopen, suppress and a timeline per alert
+ */
+
+import { supabaseServiceClient } from '@/lib/supabase-security';
+import type { NewSecurityAlert, SecurityAlert, SecurityAlertSeverity, SecurityAlertStatus } from '@/lib/security-monitoring';
+
+// ===== TYPES =====
+
+export type SecurityAlertAction =
+  | 'created'
+  | 'escalated'
+  | 'acknowledged'
+  | 'assigned'
+  | 'resolved'
+  | 'reopened'
+  | 'suppressed'
+  | 'note'
+  | 'notified';
+
+export interface SecurityAlertEvent {
+  id: string;
+  alertId: string;
+  action: SecurityAlertAction;
+  actor: string;
+  note?: string;
+  details: Record<string, any>;
+  createdAt: string;
+}
+
+// What happened to a raised alert: only created and escalated alerts are notified
+export type SecurityAlertOutcome = 'created' | 'escalated' | 'deduplicated' | 'suppressed';
+
+export interface SecurityAlertFilters {
+  status?: SecurityAlertStatus;
+  severity?: SecurityAlertSeverity;
+  alertType?: string;
+  ip?: string;
+  assignedTo?: string;
+  since?: string;
+}
+
+export type SecurityAlertErrorCode = 'not_found' | 'invalid_transition';
+
+// HTTP status for each alert error, used by the admin alerts API
+export const SECURITY_ALERT_ERROR_STATUS: Record<SecurityAlertErrorCode, number> = {
+  not_found: 404,
+  invalid_transition: 409,
+};
+
+export class SecurityAlertError extends Error {
+  constructor(message: string, public code: SecurityAlertErrorCode) {
+    super(message);
+    this.name = 'SecurityAlertError';
+  }
+}
+
+// ===== ROW MAPPING =====
+
+function toSecurityAlert(row: any): SecurityAlert {
+  return {
+    id: row.id,
+    alertType: row.alert_type,
+    severity: row.severity,
+    title: row.title,
+    description: row.description,
+    metadata: row.metadata || {},
+    timestamp: row.created_at,
+    acknowledged: row.acknowledged,
+    status: row.status,
+    occurrences: row.occurrences,
+    lastSeenAt: row.last_seen_at,
+    acknowledgedAt: row.acknowledged_at || undefined,
+    acknowledgedBy: row.acknowledged_by || undefined,
+    assignedTo: row.assigned_to || undefined,
+    assignedAt: row.assigned_at || undefined,
+    resolvedAt: row.resolved_at || undefined,
+    resolvedBy: row.resolved_by || undefined,
+    resolution: row.resolution || undefined,
+    suppressedUntil: row.suppressed_until || undefined,
+    escalatedAt: row.escalated_at || undefined
+  };
+}
+
+function toSecurityAlertEvent(row: any): SecurityAlertEvent {
+  return {
+    id: row.id,
+    alertId: row.alert_id,
+    action: row.action,
+    actor: row.actor,
+    note: row.note || undefined,
+    details: row.details || {},
+    createdAt: row.created_at
+  };
+}
+
+// ===== SECURITY ALERT STORE =====
+
+export class SecurityAlerts {
+
+  /**
+   * Store an alert, folding repeats of its type and IP into a suppressed or recent unresolved alert
+   */
+  static async record(
+    alertData: NewSecurityAlert,
+    dedupeWindowMinutes: number
+  ): Promise<{ outcome: SecurityAlertOutcome; alert: SecurityAlert }> {
+    const { data, error } = await supabaseServiceClient.rpc('record_security_alert', {
+      p_alert_type: alertData.alertType,
+      p_severity: alertData.severity,
+      p_title: alertData.title,
+      p_description: alertData.description,
+      p_metadata: alertData.metadata,
+      p_ip: alertData.metadata.ip || null,
+      p_dedupe_window_minutes: dedupeWindowMinutes
+    });
+
+    if (error || !data) {
+      console.error('Database error recording security alert:', error);
+      throw new Error('Failed to record security alert');
+    }
+
+    return { outcome: data.outcome, alert: toSecurityAlert(data.alert) };
+  }
+
+  /**
+   * Alerts matching the filters, most recently seen first
+   */
+  static async list(
+    filters: SecurityAlertFilters,
+    page: { limit: number; offset: number }
+  ): Promise<{ alerts: SecurityAlert[]; total: number }> {
+    let query = supabaseServiceClient
+      .from('security_alerts')
+      .select('*', { count: 'exact' });
+
+    if (filters.status) query = query.eq('status', filters.status);
+    if (filters.severity) query = query.eq('severity', filters.severity);
+    if (filters.alertType) query = query.eq('alert_type', filters.alertType);
+    if (filters.ip) query = query.eq('ip', filters.ip);
+    if (filters.assignedTo) query = query.eq('assigned_to', filters.assignedTo);
+    if (filters.since) query = query.gte('last_seen_at', filters.since);
+
+    const { data, error, count } = await query
+      .order('last_seen_at', { ascending: false })
+      .range(page.offset, page.offset + page.limit - 1);
+
+    if (error) {
+      console.error('Database error listing security alerts:', error);
+      throw new Error('Failed to list security alerts');
+    }
+
+    return {
+      alerts: (data || []).map(toSecurityAlert),
+      total: count || 0
+    };
+  }
+
+  /**
+   * One alert with its timeline, oldest event first
+   */
+  static async get(id: string): Promise<{ alert: SecurityAlert; events: SecurityAlertEvent[] } | null> {
+    const [alertResult, eventsResult] = await Promise.all([
+      supabaseServiceClient.from('security_alerts').select('*').eq('id', id).maybeSingle(),
+      supabaseServiceClient
+        .from('security_alert_events')
+        .select('*')
+        .eq('alert_id', id)
+        .order('created_at', { ascending: true })
+    ]);
+
+    if (alertResult.error || eventsResult.error) {
+      console.error('Database error fetching security alert:', alertResult.error || eventsResult.error);
+      throw new Error('Failed to fetch security alert');
+    }
+
+    if (!alertResult.data) return null;
+
+    return {
+      alert: toSecurityAlert(alertResult.data),
+      events: (eventsResult.data || []).map(toSecurityAlertEvent)
+    };
+  }
+
+  /**
+   * Number of alerts per severity seen since the given time
+   */
+  static async countBySeverity(since: string): Promise<Record<SecurityAlertSeverity, number>> {
+    const { data, error } = await supabaseServiceClient
+      .from('security_alerts')
+      .select('severity')
+      .gte('last_seen_at', since);
+
+    if (error) {
+      console.error('Database error counting security alerts:', error);
+      throw new Error('Failed to count security alerts');
+    }
+
+    const counts: Record<SecurityAlertSeverity, number> = { low: 0, medium: 0, high: 0, critical: 0 };
+    for (const row of data || []) {
+      counts[row.severity as SecurityAlertSeverity] += 1;
+    }
+    return counts;
+  }
+
+  /**
+   * Open alerts of a severity raised before the cutoff and not escalated yet, oldest first
+   */
+  static async listUnescalated(severity: SecurityAlertSeverity, before: string, limit: number = 50): Promise<SecurityAlert[]> {
+    const { data, error } = await supabaseServiceClient
+      .from('security_alerts')
+      .select('*')
+      .eq('status', 'open')
+      .eq('severity', severity)
+      .is('escalated_at', null)
+      .lt('created_at', before)
+      .order('created_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      console.error('Database error listing unescalated security alerts:', error);
+      throw new Error('Failed to list unescalated security alerts');
+    }
+
+    return (data || []).map(toSecurityAlert);
+  }
+
+  /**
+   * Claim an alert for escalation; false if it was acknowledged or claimed by another run meanwhile
+   */
+  static async markEscalated(id: string): Promise<boolean> {
+    const { data, error } = await supabaseServiceClient
+      .from('security_alerts')
+      .update({ escalated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('status', 'open')
+      .is('escalated_at', null)
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Database error escalating security alert:', error);
+      throw new Error('Failed to escalate security alert');
+    }
+
+    return Boolean(data);
+  }
+
+  /**
+   * Append an event to an alert's timeline; failures are logged, not thrown
+   */
+  static async logEvent(
+    id: string,
+    event: { action: SecurityAlertAction; actor: string; note?: string; details?: Record<string, any> }
+  ): Promise<void> {
+    const { error } = await supabaseServiceClient
+      .from('security_alert_events')
+      .insert({
+        alert_id: id,
+        action: event.action,
+        actor: event.actor,
+        note: event.note || null,
+        details: event.details || {}
+      });
+
+    if (error) {
+      console.error('Database error logging security alert event:', error);
+    }
+  }
+
+  // ===== WORKFLOW =====
+
+  static async acknowledge(id: string, actor: string, note?: string): Promise<SecurityAlert> {
+    return this.transition(id, ['open'], {
+      status: 'acknowledged',
+      acknowledged: true,
+      acknowledged_at: new Date().toISOString(),
+      acknowledged_by: actor
+    }, { action: 'acknowledged', actor, note });
+  }
+
+  static async assign(id: string, assignee: string, actor: string, note?: string): Promise<SecurityAlert> {
+    return this.transition(id, ['open', 'acknowledged'], {
+      assigned_to: assignee,
+      assigned_at: new Date().toISOString()
+    }, { action: 'assigned', actor, note, details: { assignee } });
+  }
+
+  static async resolve(id: string, actor: string, resolution: string): Promise<SecurityAlert> {
+    return this.transition(id, ['open', 'acknowledged'], {
+      status: 'resolved',
+      resolved_at: new Date().toISOString(),
+      resolved_by: actor,
+      resolution
+    }, { action: 'resolved', actor, note: resolution });
+  }
+
+  /**
+   * Reopen a resolved alert; it goes back to the queue unacknowledged
+   */
+  static async reopen(id: string, actor: string, note?: string): Promise<SecurityAlert> {
+    return this.transition(id, ['resolved'], {
+      status: 'open',
+      acknowledged: false,
+      acknowledged_at: null,
+      acknowledged_by: null,
+      resolved_at: null,
+      resolved_by: null,
+      resolution: null
+    }, { action: 'reopened', actor, note });
+  }
+
+  /**
+   * Count repeats of this alert's type and IP silently until the given time (null lifts the suppression)
+   */
+  static async suppress(id: string, until: string | null, actor: string, note?: string): Promise<SecurityAlert> {
+    return this.transition(id, null, {
+      suppressed_until: until
+    }, { action: 'suppressed', actor, note, details: { until } });
+  }
+
+  /**
+   * Add a reviewer note to the alert's timeline (the incident log)
+   */
+  static async addNote(id: string, actor: string, note: string): Promise<SecurityAlertEvent> {
+    const { data, error } = await supabaseServiceClient
+      .from('security_alert_events')
+      .insert({ alert_id: id, action: 'note', actor, note })
+      .select('*')
+      .single();
+
+    if (error) {
+      // Foreign key violation: no such alert
+      if (error.code === '23503') {
+        throw new SecurityAlertError('Security alert not found', 'not_found');
+      }
+      console.error('Database error adding security alert note:', error);
+      throw new Error('Failed to add security alert note');
+    }
+
+    return toSecurityAlertEvent(data);
+  }
+
+  /**
+   * Apply a workflow change if the alert is in one of the allowed statuses (null: any), and log it to the timeline
+   */
+  private static async transition(
+    id: string,
+    allowedFrom: SecurityAlertStatus[] | null,
+    changes: Record<string, any>,
+    event: { action: SecurityAlertAction; actor: string; note?: string; details?: Record<string, any> }
+  ): Promise<SecurityAlert> {
+    let query = supabaseServiceClient
+      .from('security_alerts')
+      .update(changes)
+      .eq('id', id);
+
+    if (allowedFrom) query = query.in('status', allowedFrom);
+
+    const { data, error } = await query.select('*').maybeSingle();
+
+    if (error) {
+      console.error('Database error updating security alert:', error);
+      throw new Error('Failed to update security alert');
+    }
+
+    if (!data) {
+      const existing = await this.get(id);
+      if (!existing) {
+        throw new SecurityAlertError('Security alert not found', 'not_found');
+      }
+      throw new SecurityAlertError(`Security alert is ${existing.alert.status}; cannot mark it ${event.action}`, 'invalid_transition');
+    }
+
+    // The change itself is saved; a missing timeline entry shouldn't fail the request
+    await this.logEvent(id, event);
+
+    return toSecurityAlert(data);
+  }
+}
+
+export default SecurityAlerts;
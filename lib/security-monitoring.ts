@@ -5,7 +5,10 @@
  */
 
 import { SecurityAudit } from '@/lib/security';
+import { SecurityAlerts } from '@/lib/security-alerts';
+import { SecurityNotifications } from '@/lib/security-notifications';
 import { supabaseServiceClient } from '@/lib/supabase-security';
+import { ThreatInspection, ThreatRuleEngine } from '@/lib/threat-rules';
 
 // ===== MONITORING CONFIGURATION =====
 
@@ -44,15 +47,25 @@ export const MONITORING_CONFIG = {
     SHORT_TERM: 5,
     MEDIUM_TERM: 15,
     LONG_TERM: 60
-  }
+  },
+
+  // Repeats of an alert type from the same IP within this window fold into the unresolved alert
+  ALERT_DEDUPE_WINDOW_MINUTES: 60,
+
+  // Longest an admin can suppress an alert type + IP for
+  MAX_ALERT_SUPPRESSION_HOURS: 7 * 24
 } as const;
 
 // ===== TYPES =====
 
+export type SecurityAlertSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export type SecurityAlertStatus = 'open' | 'acknowledged' | 'resolved';
+
 export interface SecurityAlert {
   id: string;
   alertType: string;
-  severity: 'low' | 'medium' | 'high' | 'critical';
+  severity: SecurityAlertSeverity;
   title: string;
   description: string;
   metadata: {
@@ -65,18 +78,22 @@ export interface SecurityAlert {
   };
   timestamp: string;
   acknowledged: boolean;
-  resolvedAt?: string;
+  status: SecurityAlertStatus;
+  // Repeats of the same type and IP folded into this alert, see SecurityAlerts.record
+  occurrences: number;
+  lastSeenAt: string;
+  acknowledgedAt?: string;
+  acknowledgedBy?: string;
   assignedTo?: string;
+  assignedAt?: string;
+  resolvedAt?: string;
+  resolvedBy?: string;
+  resolution?: string;
+  suppressedUntil?: string;
+  escalatedAt?: string;
 }
 
-export interface ThreatPattern {
-  id: string;
-  name: string;
-  pattern: RegExp;
-  description: string;
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  enabled: boolean;
-}
+export type NewSecurityAlert = Pick<SecurityAlert, 'alertType' | 'severity' | 'title' | 'description' | 'metadata'>;
 
 export interface MonitoringMetrics {
   timestamp: string;
@@ -96,117 +113,25 @@ export interface MonitoringMetrics {
   };
 }
 
-// ===== THREAT DETECTION PATTERNS =====
-
-const THREAT_PATTERNS: ThreatPattern[] = [
-  {
-    id: 'xss-attempt',
-    name: 'Cross-Site Scripting (XSS) Attempt',
-    pattern: /<script[^>]*>.*?<\/script>|javascript:|on\w+\s*=/gi,
-    description: 'Potential XSS attack detected in request',
-    severity: 'critical',
-    enabled: true
-  },
-  {
-    id: 'sql-injection',
-    name: 'SQL Injection Attempt',
-    pattern: /(union|select|insert|update|delete|drop|create|alter)\s+.*?(from|into|table|database)/gi,
-    description: 'Potential SQL injection attack detected',
-    severity: 'critical',
-    enabled: true
-  },
-  {
-    id: 'path-traversal',
-    name: 'Path Traversal Attempt',
-    pattern: /\.\.[\/\\]|\.\.%2[fF]|%2e%2e/gi,
-    description: 'Path traversal attempt detected',
-    severity: 'high',
-    enabled: true
-  },
-  {
-    id: 'command-injection',
-    name: 'Command Injection Attempt',
-    pattern: /[;&|`$(){}\\]/g,
-    description: 'Potential command injection detected',
-    severity: 'high',
-    enabled: true
-  },
-  {
-    id: 'sensitive-file-access',
-    name: 'Sensitive File Access Attempt',
-    pattern: /\/(etc\/passwd|\.env|config|wp-config|\.git|\.svn)/gi,
-    description: 'Attempt to access sensitive files',
-    severity: 'medium',
-    enabled: true
-  },
-  {
-    id: 'enumeration-attempt',
-    name: 'Directory/File Enumeration',
-    pattern: /\/(admin|administrator|wp-admin|phpmyadmin|backup|config)/gi,
-    description: 'Directory enumeration attempt detected',
-    severity: 'medium',
-    enabled: true
-  }
-];
-
 // ===== SECURITY MONITORING CLASS =====
 
 export class SecurityMonitoring {
-  private static alertsCache = new Map<string, SecurityAlert>();
   private static metricsCache = new Map<string, any>();
   
   // ===== THREAT DETECTION =====
 
   /**
-   * Analyze request for security threats
+   * Analyze request for security threats with the threat rule engine (rules live in the
+   * threat_rules table, see lib/threat-rules.ts); only enforced rules count towards blocking
    */
-  static analyzeRequest(
+  static async analyzeRequest(
     url: string,
     headers: Record<string, string>,
-    body?: string,
-    ip?: string
-  ): {
-    threats: Array<{ pattern: ThreatPattern; matches: string[] }>;
-    riskScore: number;
-    shouldBlock: boolean;
-  } {
-    const threats: Array<{ pattern: ThreatPattern; matches: string[] }> = [];
-    let riskScore = 0;
-
-    const searchTargets = [
-      url,
-      headers['user-agent'] || '',
-      headers['referer'] || '',
-      body || ''
-    ].join(' ');
-
-    // Check against threat patterns
-    for (const pattern of THREAT_PATTERNS) {
-      if (!pattern.enabled) continue;
-
-      const matches = searchTargets.match(pattern.pattern);
-      if (matches) {
-        threats.push({ pattern, matches });
-        
-        // Calculate risk score
-        switch (pattern.severity) {
-          case 'critical':
-            riskScore += 100;
-            break;
-          case 'high':
-            riskScore += 75;
-            break;
-          case 'medium':
-            riskScore += 50;
-            break;
-          case 'low':
-            riskScore += 25;
-            break;
-        }
-      }
-    }
-
-    const shouldBlock = riskScore >= 75; // Block high-risk requests
+    body?: unknown,
+    ip?: string,
+    method?: string
+  ): Promise<ThreatInspection> {
+    const { threats, shadowHits, riskScore, shouldBlock } = await ThreatRuleEngine.inspect({ url, method, headers, body, ip });
 
     // Log threats found
     if (threats.length > 0) {
@@ -214,12 +139,12 @@ export class SecurityMonitoring {
         type: 'suspicious_activity',
         ip,
         userAgent: headers['user-agent'],
-        details: `Threats detected: ${threats.map(t => t.pattern.name).join(', ')}`,
+        details: `Threats detected: ${threats.map(t => `${t.rule.name} in ${t.target}`).join(', ')}`,
         severity: shouldBlock ? 'critical' : 'high'
       });
     }
 
-    return { threats, riskScore, shouldBlock };
+    return { threats, shadowHits, riskScore, shouldBlock };
   }
 
   /**
@@ -365,112 +290,54 @@ export class SecurityMonitoring {
   // ===== ALERT MANAGEMENT =====
 
   /**
-   * Create and store security alert
+   * Create and store security alert; repeats of the same type and IP are folded into the
+   * open alert (or counted silently while suppressed) and not notified again
    */
-  static async createAlert(alertData: Omit<SecurityAlert, 'id' | 'timestamp' | 'acknowledged'>): Promise<SecurityAlert> {
-    const alert: SecurityAlert = {
-      id: crypto.randomUUID(),
-      timestamp: new Date().toISOString(),
-      acknowledged: false,
-      ...alertData
-    };
+  static async createAlert(alertData: NewSecurityAlert): Promise<SecurityAlert> {
+    let alert: SecurityAlert;
+    let notify = true;
 
-    // Store in cache
-    this.alertsCache.set(alert.id, alert);
-
-    // Store in database
     try {
-      await supabaseServiceClient
-        .from('security_alerts')
-        .insert({
-          id: alert.id,
-          alert_type: alert.alertType,
-          severity: alert.severity,
-          title: alert.title,
-          description: alert.description,
-          metadata: alert.metadata,
-          timestamp: alert.timestamp,
-          acknowledged: alert.acknowledged
-        });
+      const recorded = await SecurityAlerts.record(alertData, MONITORING_CONFIG.ALERT_DEDUPE_WINDOW_MINUTES);
+      alert = recorded.alert;
+      notify = recorded.outcome === 'created' || recorded.outcome === 'escalated';
     } catch (error) {
       console.error('Failed to store alert:', error);
+
+      // Still notify: losing the record is better than losing the alert
+      const now = new Date().toISOString();
+      alert = {
+        id: crypto.randomUUID(),
+        timestamp: now,
+        acknowledged: false,
+        status: 'open',
+        occurrences: 1,
+        lastSeenAt: now,
+        ...alertData
+      };
     }
 
-    // Send notifications
-    await this.sendNotification(alert);
+    if (notify) {
+      await this.sendNotification(alert);
+    }
 
     return alert;
   }
 
   /**
-   * Send alert notifications
+   * Send alert notifications (routing, quiet hours and delivery in lib/security-notifications.ts)
    */
   private static async sendNotification(alert: SecurityAlert): Promise<void> {
     try {
       // Log the alert
       console.error(`[SECURITY ALERT - ${alert.severity.toUpperCase()}] ${alert.title}: ${alert.description}`);
 
-      // In production, implement actual notification services
-      if (process.env.NODE_ENV === 'production') {
-        // Email notifications for critical alerts
-        if (alert.severity === 'critical') {
-          await this.sendEmailAlert(alert);
-        }
-
-        // Slack notifications for high and critical alerts
-        if (['high', 'critical'].includes(alert.severity)) {
-          await this.sendSlackAlert(alert);
-        }
-
-        // Webhook for external monitoring systems
-        await this.sendWebhookAlert(alert);
-      }
+      await SecurityNotifications.notify(alert);
     } catch (error) {
       console.error('Failed to send notification:', error);
     }
   }
 
-  /**
-   * Send email alert (placeholder - implement with your email service)
-   */
-  private static async sendEmailAlert(alert: SecurityAlert): Promise<void> {
-    // TODO: Implement email service (Resend, SendGrid, etc.)
-    console.log(`EMAIL ALERT: ${alert.title} - ${alert.description}`);
-  }
-
-  /**
-   * Send Slack alert (placeholder - implement with Slack webhook)
-   */
-  private static async sendSlackAlert(alert: SecurityAlert): Promise<void> {
-    // TODO: Implement Slack webhook
-    console.log(`SLACK ALERT: ${alert.title} - ${alert.description}`);
-  }
-
-  /**
-   * Send webhook alert to external monitoring system
-   */
-  private static async sendWebhookAlert(alert: SecurityAlert): Promise<void> {
-    try {
-      const webhookUrl = process.env.SECURITY_WEBHOOK_URL;
-      if (!webhookUrl) return;
-
-      await fetch(webhookUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${process.env.SECURITY_WEBHOOK_TOKEN}`
-        },
-        body: JSON.stringify({
-          source: 'probwin-security',
-          alert,
-          timestamp: new Date().toISOString()
-        })
-      });
-    } catch (error) {
-      console.error('Webhook notification failed:', error);
-    }
-  }
-
   // ===== METRICS COLLECTION =====
 
   /**
@@ -615,15 +482,15 @@ export class SecurityMonitoring {
     let overallStatus: 'healthy' | 'warning' | 'critical' = 'healthy';
 
     // Check recent alert volume
-    const recentAlerts = Array.from(this.alertsCache.values())
-      .filter(alert => {
-        const alertTime = new Date(alert.timestamp);
-        const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
-        return alertTime > oneHourAgo;
-      });
-
-    const criticalAlerts = recentAlerts.filter(a => a.severity === 'critical').length;
-    const highAlerts = recentAlerts.filter(a => a.severity === 'high').length;
+    let criticalAlerts = 0;
+    let highAlerts = 0;
+    try {
+      const counts = await SecurityAlerts.countBySeverity(new Date(Date.now() - 60 * 60 * 1000).toISOString());
+      criticalAlerts = counts.critical;
+      highAlerts = counts.high;
+    } catch (error) {
+      console.error('Alert volume check error:', error);
+    }
 
     if (criticalAlerts > 0) {
       overallStatus = 'critical';
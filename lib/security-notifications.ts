@@ -0,0 +1,470 @@
+/**
+ * Security Alert Notifications for ProbWin.ai
+ * Routes SecurityMonitoring alerts to email, Slack, a signed webhook and SMS by severity,
+ * holds paging channels during quiet hours and escalates alerts nobody acknowledged in time
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { TwilioSmsSender } from '@/lib/contact-verification';
+import { ROUTES } from '@/lib/constants';
+import { EmailService } from '@/lib/email';
+import { getEnv, isProduction } from '@/lib/env';
+import { SecurityAlerts } from '@/lib/security-alerts';
+import type { MONITORING_CONFIG, SecurityAlert, SecurityAlertSeverity } from '@/lib/security-monitoring';
+
+// ===== ROUTING POLICY =====
+
+export type AlertChannel = (typeof MONITORING_CONFIG.NOTIFICATION_CHANNELS)[keyof typeof MONITORING_CONFIG.NOTIFICATION_CHANNELS];
+
+// Channels notified when an alert is raised, or when a repeat raises its severity
+export const ALERT_SEVERITY_CHANNELS: Record<SecurityAlertSeverity, readonly AlertChannel[]> = {
+  critical: ['email', 'slack', 'webhook', 'sms'],
+  high: ['slack', 'webhook'],
+  medium: ['webhook'],
+  low: ['webhook']
+};
+
+// Response times from docs/SECURITY-INCIDENT-RESPONSE-PLAYBOOK.md: alerts still open (unacknowledged)
+// after this many minutes are escalated once to these channels
+export const ALERT_ESCALATION: Record<SecurityAlertSeverity, { minutes: number; channels: readonly AlertChannel[] } | null> = {
+  critical: { minutes: 15, channels: ['sms', 'email'] },
+  high: { minutes: 60, channels: ['email', 'sms'] },
+  medium: { minutes: 240, channels: ['email'] },
+  low: null
+};
+
+// Channels that page someone: held during quiet hours unless the alert is critical
+export const PAGING_CHANNELS: readonly AlertChannel[] = ['email', 'sms'];
+
+export const ALERT_DELIVERY_CONFIG = {
+  // Slack and webhook POSTs are retried on network errors, 429 and 5xx
+  MAX_ATTEMPTS: 3,
+  RETRY_BASE_DELAY_MS: 500,
+  MAX_RETRY_DELAY_MS: 5000,
+  REQUEST_TIMEOUT_MS: 5000,
+  // Receivers should reject webhook signatures older than this
+  SIGNATURE_TOLERANCE_SECONDS: 300
+} as const;
+
+/**
+ * Whether now falls in ALERT_QUIET_HOURS ('HH-HH' in UTC, e.g. '22-07'; unset for none)
+ */
+export function isQuietHours(now: Date = new Date()): boolean {
+  const match = /^(\d{1,2})-(\d{1,2})$/.exec((process.env.ALERT_QUIET_HOURS || '').trim());
+  if (!match) return false;
+
+  const start = Number(match[1]);
+  const end = Number(match[2]);
+  if (start > 23 || end > 23 || start === end) return false;
+
+  const hour = now.getUTCHours();
+  return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+}
+
+/**
+ * Channels for an alert now: its severity's channels (or escalation channels), minus paging channels in quiet hours
+ */
+export function routeAlert(alert: SecurityAlert, escalation: boolean, now: Date = new Date()): AlertChannel[] {
+  const channels = escalation
+    ? ALERT_ESCALATION[alert.severity]?.channels || []
+    : ALERT_SEVERITY_CHANNELS[alert.severity];
+
+  if (alert.severity !== 'critical' && isQuietHours(now)) {
+    return channels.filter(channel => !PAGING_CHANNELS.includes(channel));
+  }
+
+  return [...channels];
+}
+
+// ===== FORMATTING =====
+
+const SEVERITY_COLORS: Record<SecurityAlertSeverity, string> = {
+  critical: '#b91c1c',
+  high: '#ea580c',
+  medium: '#d97706',
+  low: '#6b7280'
+};
+
+const getAdminUrl = (): string => `${process.env.NEXT_PUBLIC_BASE_URL || 'https://probwin.ai'}${ROUTES.ADMIN}`;
+
+const headline = (alert: SecurityAlert, escalation: boolean): string =>
+  `[${alert.severity.toUpperCase()}]${escalation ? ' Unacknowledged:' : ''} ${alert.title}`;
+
+// Slack treats &, < and > as control characters in message text
+const slackEscape = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Slack incoming-webhook message (also accepted by Slack-compatible receivers such as Mattermost)
+ */
+export function formatSlackMessage(alert: SecurityAlert, escalation: boolean): Record<string, any> {
+  const fields = [
+    { title: 'Type', value: alert.alertType },
+    { title: 'Occurrences', value: String(alert.occurrences) },
+    { title: 'IP', value: alert.metadata.ip },
+    { title: 'Endpoint', value: alert.metadata.endpoint },
+    { title: 'Assigned to', value: alert.assignedTo }
+  ].filter((field): field is { title: string; value: string } => Boolean(field.value));
+
+  return {
+    text: slackEscape(headline(alert, escalation)),
+    attachments: [
+      {
+        fallback: slackEscape(`${headline(alert, escalation)}: ${alert.description}`),
+        color: SEVERITY_COLORS[alert.severity],
+        title: slackEscape(alert.title),
+        title_link: getAdminUrl(),
+        text: slackEscape(alert.description),
+        fields: fields.map(field => ({ title: field.title, value: slackEscape(field.value), short: true })),
+        footer: 'ProbWin.ai security monitoring',
+        ts: Math.floor(new Date(alert.lastSeenAt).getTime() / 1000)
+      }
+    ]
+  };
+}
+
+/**
+ * Signature header for a webhook body: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ */
+export function signWebhookPayload(body: string, secret: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Check a webhook signature header as a receiver would (e.g. against a captured delivery)
+ */
+export function verifyWebhookSignature(
+  body: string,
+  header: string,
+  secret: string,
+  toleranceSeconds: number = ALERT_DELIVERY_CONFIG.SIGNATURE_TOLERANCE_SECONDS
+): boolean {
+  const parts = Object.fromEntries(header.split(',').map(part => part.split('=') as [string, string]));
+  const timestamp = Number(parts.t);
+  if (!parts.v1 || !Number.isFinite(timestamp)) return false;
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(signWebhookPayload(body, secret, timestamp).split('v1=')[1], 'hex');
+  const received = Buffer.from(parts.v1, 'hex');
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+// ===== DELIVERY =====
+
+export interface AlertDelivery {
+  id: string;
+  channel: AlertChannel;
+  destination: string;
+  // Shown on the alert timeline; webhook URLs carry secrets, so only their host
+  label: string;
+  payload: any;
+  headers?: Record<string, string>;
+}
+
+export interface AlertDeliveryResult {
+  channel: AlertChannel;
+  destination: string;
+  status: 'delivered' | 'failed';
+  attempts: number;
+  error?: string;
+}
+
+export interface AlertTransport {
+  name: string;
+  deliver(delivery: AlertDelivery): Promise<{ attempts: number }>;
+}
+
+export class AlertDeliveryError extends Error {
+  constructor(message: string, public attempts: number) {
+    super(message);
+    this.name = 'AlertDeliveryError';
+  }
+}
+
+const listEnv = (value?: string): string[] =>
+  (value || '').split(',').map(item => item.trim()).filter(Boolean);
+
+const hostOf = (url: string): string => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return 'invalid url';
+  }
+};
+
+/**
+ * One delivery per configured destination of each channel; channels without a destination are skipped
+ */
+export function buildDeliveries(alert: SecurityAlert, channels: AlertChannel[], escalation: boolean): AlertDelivery[] {
+  const deliveries: AlertDelivery[] = [];
+
+  for (const channel of channels) {
+    switch (channel) {
+      case 'email':
+        for (const to of listEnv(process.env.SECURITY_ALERT_EMAILS || process.env.ADMIN_EMAIL)) {
+          deliveries.push({
+            id: randomUUID(),
+            channel,
+            destination: to,
+            label: to,
+            payload: {
+              severity: alert.severity,
+              title: alert.title,
+              description: alert.description,
+              alertType: alert.alertType,
+              ip: alert.metadata.ip,
+              occurrences: alert.occurrences,
+              firstSeenAt: alert.timestamp,
+              escalation,
+              adminUrl: getAdminUrl()
+            }
+          });
+        }
+        break;
+
+      case 'slack': {
+        const url = process.env.SLACK_SECURITY_WEBHOOK_URL;
+        if (url) {
+          deliveries.push({ id: randomUUID(), channel, destination: url, label: 'slack', payload: formatSlackMessage(alert, escalation) });
+        }
+        break;
+      }
+
+      case 'webhook': {
+        const url = process.env.SECURITY_WEBHOOK_URL;
+        if (!url) break;
+
+        const id = randomUUID();
+        const payload = {
+          id,
+          type: escalation ? 'security_alert.escalated' : 'security_alert.raised',
+          source: 'probwin-security',
+          created_at: new Date().toISOString(),
+          alert
+        };
+        const headers: Record<string, string> = { 'X-ProbWin-Delivery': id };
+
+        if (process.env.SECURITY_WEBHOOK_SECRET) {
+          headers['X-ProbWin-Signature'] = signWebhookPayload(JSON.stringify(payload), process.env.SECURITY_WEBHOOK_SECRET);
+        }
+        if (process.env.SECURITY_WEBHOOK_TOKEN) {
+          headers['Authorization'] = `Bearer ${process.env.SECURITY_WEBHOOK_TOKEN}`;
+        }
+
+        deliveries.push({ id, channel, destination: url, label: hostOf(url), payload, headers });
+        break;
+      }
+
+      case 'sms':
+        for (const to of listEnv(process.env.SECURITY_ALERT_SMS_NUMBERS)) {
+          deliveries.push({
+            id: randomUUID(),
+            channel,
+            destination: to,
+            label: to,
+            payload: { text: `ProbWin.ai ${headline(alert, escalation)}. ${getAdminUrl()}` }
+          });
+        }
+        break;
+    }
+  }
+
+  return deliveries;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * POST JSON with exponential backoff and jitter; 4xx other than 429 fails at once
+ */
+async function postWithRetry(url: string, body: string, headers: Record<string, string> = {}): Promise<{ attempts: number }> {
+  const { MAX_ATTEMPTS, RETRY_BASE_DELAY_MS, MAX_RETRY_DELAY_MS, REQUEST_TIMEOUT_MS } = ALERT_DELIVERY_CONFIG;
+  let lastError = 'Unknown error';
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    let retryAfterMs = 0;
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      });
+
+      if (response.ok) return { attempts: attempt };
+
+      lastError = `HTTP ${response.status}`;
+      if (response.status !== 429 && response.status < 500) {
+        throw new AlertDeliveryError(lastError, attempt);
+      }
+      retryAfterMs = Number(response.headers.get('retry-after')) * 1000 || 0;
+    } catch (error) {
+      if (error instanceof AlertDeliveryError) throw error;
+      lastError = error instanceof Error ? error.message : 'Network error';
+    }
+
+    if (attempt < MAX_ATTEMPTS) {
+      const backoff = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1) + Math.random() * RETRY_BASE_DELAY_MS;
+      await sleep(Math.min(Math.max(backoff, retryAfterMs), MAX_RETRY_DELAY_MS));
+    }
+  }
+
+  throw new AlertDeliveryError(lastError, MAX_ATTEMPTS);
+}
+
+/**
+ * Sends for real: email through EmailService, SMS through Twilio, Slack and webhooks over HTTP with retries
+ */
+export class LiveAlertTransport implements AlertTransport {
+  name = 'live';
+
+  async deliver(delivery: AlertDelivery): Promise<{ attempts: number }> {
+    switch (delivery.channel) {
+      case 'email':
+        await EmailService.send('security_alert', delivery.destination, delivery.payload);
+        return { attempts: 1 };
+      case 'sms':
+        await new TwilioSmsSender(getEnv('TWILIO_ACCOUNT_SID'), getEnv('TWILIO_AUTH_TOKEN'), getEnv('TWILIO_FROM_NUMBER'))
+          .sendText(delivery.destination, delivery.payload.text);
+        return { attempts: 1 };
+      case 'slack':
+      case 'webhook':
+        return postWithRetry(delivery.destination, JSON.stringify(delivery.payload), delivery.headers);
+    }
+  }
+}
+
+/**
+ * Local capture sink: writes each delivery (payload and headers as they would be sent) to a JSON file
+ */
+export class CaptureAlertTransport implements AlertTransport {
+  name = 'capture';
+
+  constructor(private directory: string) {}
+
+  async deliver(delivery: AlertDelivery): Promise<{ attempts: number }> {
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${delivery.channel}-${delivery.id}.json`;
+
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({
+        id: delivery.id,
+        created_at: new Date().toISOString(),
+        channel: delivery.channel,
+        destination: delivery.destination,
+        headers: delivery.headers || {},
+        // Exactly the signed body for webhooks
+        body: delivery.channel === 'webhook' ? JSON.stringify(delivery.payload) : undefined,
+        payload: delivery.payload
+      }, null, 2),
+      'utf8'
+    );
+
+    return { attempts: 1 };
+  }
+}
+
+let transport: AlertTransport | null = null;
+
+/**
+ * Transport selected by ALERT_DELIVERY ('live' | 'capture'), live in production by default
+ * The capture sink is never used in production, since nothing would reach anyone
+ */
+export function getAlertTransport(): AlertTransport {
+  if (!transport) {
+    const selected = process.env.ALERT_DELIVERY || (isProduction ? 'live' : 'capture');
+
+    transport = selected === 'capture' && !isProduction
+      ? new CaptureAlertTransport(path.resolve(process.env.ALERT_CAPTURE_DIR || '.outbox/alerts'))
+      : new LiveAlertTransport();
+  }
+
+  return transport;
+}
+
+/**
+ * Override the transport (e.g. an in-memory transport in local scripts)
+ */
+export function setAlertTransport(next: AlertTransport | null): void {
+  transport = next;
+}
+
+// ===== NOTIFICATIONS =====
+
+export class SecurityNotifications {
+
+  /**
+   * Deliver an alert to its routed channels and record each delivery on the alert's timeline
+   */
+  static async notify(
+    alert: SecurityAlert,
+    options: { escalation?: boolean; now?: Date } = {}
+  ): Promise<AlertDeliveryResult[]> {
+    const escalation = options.escalation || false;
+    const deliveries = buildDeliveries(alert, routeAlert(alert, escalation, options.now), escalation);
+    const alertTransport = getAlertTransport();
+
+    const results = await Promise.all(deliveries.map(async (delivery): Promise<AlertDeliveryResult> => {
+      try {
+        const { attempts } = await alertTransport.deliver(delivery);
+        return { channel: delivery.channel, destination: delivery.label, status: 'delivered', attempts };
+      } catch (error) {
+        console.error(`Security alert ${delivery.channel} delivery failed:`, error);
+        return {
+          channel: delivery.channel,
+          destination: delivery.label,
+          status: 'failed',
+          attempts: error instanceof AlertDeliveryError ? error.attempts : 1,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        };
+      }
+    }));
+
+    await Promise.all(results.map(result =>
+      SecurityAlerts.logEvent(alert.id, {
+        action: 'notified',
+        actor: 'system',
+        note: `${result.channel} → ${result.destination}: ${result.status}${result.error ? ` (${result.error})` : ''}`,
+        details: { ...result, transport: alertTransport.name, escalation }
+      })
+    ));
+
+    return results;
+  }
+
+  /**
+   * Escalate open alerts past their severity's response time (cron); outside critical,
+   * nothing is escalated during quiet hours, so those alerts escalate when quiet hours end
+   */
+  static async escalateUnacknowledged(now: Date = new Date()): Promise<{ escalated: number; deliveries: number; failed: number }> {
+    const summary = { escalated: 0, deliveries: 0, failed: 0 };
+    const quiet = isQuietHours(now);
+
+    for (const severity of Object.keys(ALERT_ESCALATION) as SecurityAlertSeverity[]) {
+      const policy = ALERT_ESCALATION[severity];
+      if (!policy || (quiet && severity !== 'critical')) continue;
+
+      const cutoff = new Date(now.getTime() - policy.minutes * 60 * 1000).toISOString();
+      const alerts = await SecurityAlerts.listUnescalated(severity, cutoff);
+
+      for (const alert of alerts) {
+        // Another run may have escalated it, or someone acknowledged it since the query
+        if (!(await SecurityAlerts.markEscalated(alert.id))) continue;
+
+        const results = await this.notify(alert, { escalation: true, now });
+        summary.escalated += 1;
+        summary.deliveries += results.length;
+        summary.failed += results.filter(result => result.status === 'failed').length;
+      }
+    }
+
+    return summary;
+  }
+}
+
+export default SecurityNotifications;
@@ -9,6 +9,13 @@ import DOMPurify from 'isomorphic-dompurify';
 import crypto from 'crypto';
 import rateLimit from 'express-rate-limit';
 import { NextRequest, NextResponse } from 'next/server';
+import {
+  API_RATE_LIMIT_PRESETS,
+  ApiRateLimitPreset,
+  RATE_LIMITS,
+  RateLimiter,
+  RateLimitResult
+} from './rate-limiter';
 
 // ===== INPUT VALIDATION SCHEMAS =====
 
@@ -230,58 +237,19 @@ export class SecurityValidator {
 
 // ===== RATE LIMITING =====
 
-const rateLimitConfigs = {
-  strict: {
-    windowMs: 15 * 60 * 1000, // 15 minutes
-    max: 5, // limit each IP to 5 requests per windowMs
-    message: 'Too many requests, please try again later',
-  },
-  moderate: {
-    windowMs: 15 * 60 * 1000,
-    max: 20,
-    message: 'Rate limit exceeded, please try again later',
-  },
-  lenient: {
-    windowMs: 15 * 60 * 1000,
-    max: 100,
-    message: 'Rate limit exceeded, please try again later',
-  }
-};
-
-// In-memory store for rate limiting (use Redis in production)
-const rateLimitStore = new Map();
-
 export class SecurityRateLimit {
   /**
-   * Simple rate limiting for Next.js API routes
+   * Rate limiting for Next.js API routes, per preset and client IP (or the given subject, e.g. an admin)
+   * Counters live in the shared rate limit store (see lib/rate-limiter.ts)
    */
   static async checkRateLimit(
     request: NextRequest, 
-    config: 'strict' | 'moderate' | 'lenient' = 'moderate'
-  ): Promise<{ allowed: boolean; remaining?: number; resetTime?: number }> {
-    const ip = this.getClientIP(request);
-    const key = `rate-limit:${ip}`;
-    const now = Date.now();
-    const limiterConfig = rateLimitConfigs[config];
-    
-    let record = rateLimitStore.get(key) || { count: 0, resetTime: now + limiterConfig.windowMs };
+    config: ApiRateLimitPreset = 'moderate',
+    subject?: string
+  ): Promise<RateLimitResult> {
+    const key = subject || this.getClientIP(request);
     
-    // Reset if window expired
-    if (now >= record.resetTime) {
-      record = { count: 0, resetTime: now + limiterConfig.windowMs };
-    }
-    
-    record.count++;
-    rateLimitStore.set(key, record);
-    
-    const allowed = record.count <= limiterConfig.max;
-    const remaining = Math.max(0, limiterConfig.max - record.count);
-    
-    return {
-      allowed,
-      remaining,
-      resetTime: record.resetTime
-    };
+    return RateLimiter.consume(`api:${config}:${key}`, RATE_LIMITS[API_RATE_LIMIT_PRESETS[config]]);
   }
 
   /**
@@ -0,0 +1,263 @@
+import { createServiceClient } from './supabase'
+import { DatabaseOperations } from './database'
+import { APP_CONFIG } from './env'
+import { SecurityMonitoring } from './security-monitoring'
+import { WaitlistApplication, WaitlistStatus, WaitlistTier } from '../types'
+
+const HOUR_MS = 60 * 60 * 1000
+const BUSINESS_DAYS_PER_WEEK = 5
+const HOLIDAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// Paid applications still waiting on an interview or a decision
+export const SLA_OPEN_STATUSES: readonly WaitlistStatus[] = ['pending', 'interviewed']
+
+// at_risk: due within APP_CONFIG.DEADLINES.SLA_AT_RISK_HOURS
+export type SlaState = 'on_track' | 'at_risk' | 'breached'
+
+export type SlaKind = 'interview' | 'decision'
+
+export interface ApplicationSla {
+  application_id: string
+  email: string
+  full_name: string
+  tier: WaitlistTier
+  status: WaitlistStatus
+  created_at: string
+  // FastTrack+ only: interview within 72 hours of applying
+  interview_due_at: string | null
+  interview_breached: boolean
+  interview_state: SlaState | null
+  // Business days from the interview (or application, until interviewed)
+  decision_due_at: string
+  decision_breached: boolean
+  decision_state: SlaState
+}
+
+export interface SlaReportData {
+  generated_at: string
+  open: number
+  at_risk: ApplicationSla[]
+  breached: ApplicationSla[]
+}
+
+export interface SlaMonitorSummary {
+  open: number
+  at_risk: number
+  breached: number
+  alerted: number
+}
+
+// One row per deadline and level in sla_alerts, so each is alerted on once
+interface SlaAlertRow {
+  application_id: string
+  kind: SlaKind
+  level: Exclude<SlaState, 'on_track'>
+  due_at: string
+}
+
+const isWeekend = (date: Date): boolean => date.getUTCDay() === 0 || date.getUTCDay() === 6
+
+/**
+ * Non-working days from SLA_HOLIDAYS (comma-separated YYYY-MM-DD, UTC); malformed entries are ignored
+ */
+export function getSlaHolidays(): ReadonlySet<string> {
+  return new Set(
+    (process.env.SLA_HOLIDAYS || '')
+      .split(',')
+      .map(day => day.trim())
+      .filter(day => HOLIDAY_PATTERN.test(day))
+  )
+}
+
+/**
+ * Add business days (Mon-Fri, UTC, skipping holidays), keeping the time of day
+ */
+export function addBusinessDays(start: Date, days: number, holidays: ReadonlySet<string> = getSlaHolidays()): Date {
+  const result = new Date(start)
+  let remaining = days
+
+  while (remaining > 0) {
+    result.setUTCDate(result.getUTCDate() + 1)
+    if (!isWeekend(result) && !holidays.has(result.toISOString().slice(0, 10))) remaining--
+  }
+
+  return result
+}
+
+function slaState(dueAt: Date, metAt: Date | null, now: Date): SlaState {
+  if ((metAt || now) > dueAt) return 'breached'
+  if (metAt) return 'on_track'
+  return dueAt.getTime() - now.getTime() <= APP_CONFIG.DEADLINES.SLA_AT_RISK_HOURS * HOUR_MS ? 'at_risk' : 'on_track'
+}
+
+/**
+ * SLA deadlines promised in TIER_CONFIG for one application
+ */
+export function computeApplicationSla(
+  application: WaitlistApplication,
+  now: Date = new Date(),
+  holidays: ReadonlySet<string> = getSlaHolidays()
+): ApplicationSla {
+  const { INTERVIEW_SLA_FASTTRACK_PLUS_HOURS, DECISION_SLA_FASTTRACK_PLUS_DAYS, DECISION_SLA_FASTTRACK_WEEKS } = APP_CONFIG.DEADLINES
+  const appliedAt = new Date(application.created_at)
+  const isFastTrackPlus = application.tier === '199'
+
+  const interviewDue = isFastTrackPlus
+    ? new Date(appliedAt.getTime() + INTERVIEW_SLA_FASTTRACK_PLUS_HOURS * HOUR_MS)
+    : null
+
+  // Completed, else booked, else not yet: a booking past the deadline is already a breach
+  const interviewAt = application.interview_completed_at || application.interview_scheduled_at
+  const interviewState = interviewDue ? slaState(interviewDue, interviewAt ? new Date(interviewAt) : null, now) : null
+
+  const decisionClockStart = application.interview_completed_at ? new Date(application.interview_completed_at) : appliedAt
+  const decisionDue = addBusinessDays(
+    decisionClockStart,
+    isFastTrackPlus ? DECISION_SLA_FASTTRACK_PLUS_DAYS : DECISION_SLA_FASTTRACK_WEEKS * BUSINESS_DAYS_PER_WEEK,
+    holidays
+  )
+  const decisionState = slaState(decisionDue, application.decision_made_at ? new Date(application.decision_made_at) : null, now)
+
+  return {
+    application_id: application.id,
+    email: application.email,
+    full_name: application.full_name,
+    tier: application.tier,
+    status: application.status,
+    created_at: application.created_at,
+    interview_due_at: interviewDue?.toISOString() || null,
+    interview_breached: interviewState === 'breached',
+    interview_state: interviewState,
+    decision_due_at: decisionDue.toISOString(),
+    decision_breached: decisionState === 'breached',
+    decision_state: decisionState,
+  }
+}
+
+/**
+ * Reviewer-facing SLA report over open applications
+ */
+export class SlaReport {
+
+  /**
+   * Open applications that are breached, or due soon, most overdue first
+   */
+  static async getReport(now: Date = new Date()): Promise<SlaReportData> {
+    const open = await DatabaseOperations.getPaidApplicationsByStatus(SLA_OPEN_STATUSES)
+    const holidays = getSlaHolidays()
+
+    const slas = open
+      .map(application => computeApplicationSla(application, now, holidays))
+      .sort((a, b) => nextDueAt(a).localeCompare(nextDueAt(b)))
+
+    return {
+      generated_at: now.toISOString(),
+      open: open.length,
+      breached: slas.filter(sla => sla.interview_breached || sla.decision_breached),
+      at_risk: slas.filter(sla =>
+        !sla.interview_breached && !sla.decision_breached
+        && (sla.interview_state === 'at_risk' || sla.decision_state === 'at_risk')
+      ),
+    }
+  }
+}
+
+/**
+ * Earliest deadline still in play, for ordering
+ */
+function nextDueAt(sla: ApplicationSla): string {
+  return sla.interview_due_at && sla.interview_state !== 'on_track' && sla.interview_due_at < sla.decision_due_at
+    ? sla.interview_due_at
+    : sla.decision_due_at
+}
+
+function describe(alerts: SlaAlertRow[]): string {
+  return alerts
+    .map(alert => `${alert.application_id.slice(0, 8)} ${alert.kind} due ${alert.due_at}`)
+    .join('; ')
+}
+
+/**
+ * Scheduled SLA check: alerts reviewers once per deadline when it becomes at risk, and again when breached
+ */
+export class SlaMonitor {
+
+  /**
+   * Alert on deadlines that became at risk or breached since the last run
+   */
+  static async run(now: Date = new Date()): Promise<SlaMonitorSummary> {
+    const report = await SlaReport.getReport(now)
+    const summary: SlaMonitorSummary = {
+      open: report.open,
+      at_risk: report.at_risk.length,
+      breached: report.breached.length,
+      alerted: 0,
+    }
+
+    // An application can have one deadline breached and the other at risk
+    const tracked = [...report.breached, ...report.at_risk]
+    const newlyAtRisk = await this.recordAlerts(tracked, 'at_risk')
+    const newlyBreached = await this.recordAlerts(tracked, 'breached')
+
+    if (newlyAtRisk.length > 0) {
+      await SecurityMonitoring.createAlert({
+        alertType: 'sla_at_risk',
+        severity: 'high',
+        title: 'Application review SLA at risk',
+        description: `${newlyAtRisk.length} deadline(s) due within ${APP_CONFIG.DEADLINES.SLA_AT_RISK_HOURS}h: ${describe(newlyAtRisk)}`,
+        metadata: {
+          count: newlyAtRisk.length,
+          relatedEvents: newlyAtRisk.map(alert => alert.application_id),
+        },
+      })
+    }
+
+    if (newlyBreached.length > 0) {
+      await SecurityMonitoring.createAlert({
+        alertType: 'sla_breached',
+        severity: 'high',
+        title: 'Application review SLA breached',
+        description: `${newlyBreached.length} deadline(s) missed: ${describe(newlyBreached)}`,
+        metadata: {
+          count: newlyBreached.length,
+          relatedEvents: newlyBreached.map(alert => alert.application_id),
+        },
+      })
+    }
+
+    summary.alerted = newlyAtRisk.length + newlyBreached.length
+    return summary
+  }
+
+  /**
+   * Record each deadline at this level; returns only those not alerted on before
+   */
+  private static async recordAlerts(slas: ApplicationSla[], level: Exclude<SlaState, 'on_track'>): Promise<SlaAlertRow[]> {
+    const rows: SlaAlertRow[] = slas.flatMap(sla => {
+      const due: SlaAlertRow[] = []
+      if (sla.interview_due_at && sla.interview_state === level) {
+        due.push({ application_id: sla.application_id, kind: 'interview', level, due_at: sla.interview_due_at })
+      }
+      if (sla.decision_state === level) {
+        due.push({ application_id: sla.application_id, kind: 'decision', level, due_at: sla.decision_due_at })
+      }
+      return due
+    })
+
+    if (rows.length === 0) return []
+
+    const supabase = createServiceClient()
+
+    const { data, error } = await supabase
+      .from('sla_alerts')
+      .upsert(rows, { onConflict: 'application_id,kind,level,due_at', ignoreDuplicates: true })
+      .select('application_id, kind, level, due_at')
+
+    if (error) {
+      console.error('Database error recording SLA alerts:', error)
+      throw new Error('Failed to record SLA alerts')
+    }
+
+    return (data || []) as SlaAlertRow[]
+  }
+}
@@ -0,0 +1,199 @@
+import Stripe from 'stripe'
+import { createServiceClient } from './supabase'
+import { DatabaseOperations } from './database'
+import { StripeSecurityManager } from './stripe'
+import { StripeEventRecord, StripeEventStatus } from '../types'
+
+// A processing claim older than this is assumed dead and can be taken over
+const CLAIM_STALE_SECONDS = 300
+
+export type StripeEventOutcome =
+  | 'processed'
+  // Already processed: acknowledge without running side effects again
+  | 'duplicate'
+  // Another delivery holds the claim: ask Stripe to retry later
+  | 'in_progress'
+  | 'failed'
+
+export interface StripeEventResult {
+  outcome: StripeEventOutcome
+  event_id: string
+  attempts?: number
+  error?: string
+}
+
+/**
+ * Stripe webhook event store: records every delivery by event ID and runs its side effects once
+ * Failed events stay in the store for Stripe's retries or an admin replay
+ */
+export class StripeEvents {
+
+  /**
+   * Record a verified delivery and process it unless it was already handled
+   */
+  static async receive(event: Stripe.Event): Promise<StripeEventResult> {
+    await this.record(event)
+    return this.processStored(event.id, event)
+  }
+
+  /**
+   * Re-run a failed (or stale processing) event from its stored payload; null if the event is unknown
+   */
+  static async replay(eventId: string, actor: string): Promise<StripeEventResult | null> {
+    const stored = await this.getEvent(eventId)
+
+    if (!stored) {
+      return null
+    }
+
+    await DatabaseOperations.logSecurityEvent(
+      'stripe_event_replayed',
+      'medium',
+      {
+        user_identifier: actor,
+        event_data: {
+          event_id: stored.id,
+          event_type: stored.type,
+          previous_status: stored.status,
+          attempts: stored.attempts,
+        }
+      }
+    )
+
+    return this.processStored(stored.id, stored.payload as Stripe.Event)
+  }
+
+  /**
+   * Stored events, newest first
+   */
+  static async listEvents(filters: {
+    status?: StripeEventStatus
+    type?: string
+    limit: number
+  }): Promise<StripeEventRecord[]> {
+    const supabase = createServiceClient()
+
+    try {
+      let query = supabase
+        .from('stripe_events')
+        .select('id, received_at, updated_at, type, livemode, stripe_created_at, status, attempts, last_error, processing_started_at, processed_at')
+        .order('received_at', { ascending: false })
+        .limit(filters.limit)
+
+      if (filters.status) query = query.eq('status', filters.status)
+      if (filters.type) query = query.eq('type', filters.type)
+
+      const { data, error } = await query
+
+      if (error) {
+        console.error('Database error listing Stripe events:', error)
+        throw new Error('Failed to list Stripe events')
+      }
+
+      return (data || []) as StripeEventRecord[]
+    } catch (error) {
+      console.error('Error in listEvents:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Claim, run and settle one stored event
+   */
+  private static async processStored(eventId: string, event: Stripe.Event): Promise<StripeEventResult> {
+    const claimed = await this.claim(eventId)
+
+    if (!claimed) {
+      const current = await this.getEvent(eventId)
+      return {
+        outcome: current?.status === 'processed' ? 'duplicate' : 'in_progress',
+        event_id: eventId,
+        attempts: current?.attempts,
+      }
+    }
+
+    try {
+      await StripeSecurityManager.processWebhookEvent(event)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      await this.settle(eventId, { status: 'failed', last_error: message })
+      return { outcome: 'failed', event_id: eventId, attempts: claimed.attempts, error: message }
+    }
+
+    await this.settle(eventId, { status: 'processed', processed_at: new Date().toISOString() })
+    return { outcome: 'processed', event_id: eventId, attempts: claimed.attempts }
+  }
+
+  /**
+   * Insert the delivery; redeliveries of a known event ID are ignored
+   */
+  private static async record(event: Stripe.Event): Promise<void> {
+    const supabase = createServiceClient()
+
+    const { error } = await supabase
+      .from('stripe_events')
+      .upsert([{
+        id: event.id,
+        type: event.type,
+        livemode: event.livemode,
+        stripe_created_at: event.created ? new Date(event.created * 1000).toISOString() : null,
+        payload: event,
+      }], { onConflict: 'id', ignoreDuplicates: true })
+
+    if (error) {
+      console.error('Database error recording Stripe event:', error)
+      throw new Error('Failed to record Stripe event')
+    }
+  }
+
+  private static async claim(eventId: string): Promise<StripeEventRecord | null> {
+    const supabase = createServiceClient()
+
+    const { data, error } = await supabase.rpc('claim_stripe_event', {
+      p_event_id: eventId,
+      p_stale_seconds: CLAIM_STALE_SECONDS,
+    })
+
+    if (error) {
+      console.error('Database error claiming Stripe event:', error)
+      throw new Error('Failed to claim Stripe event')
+    }
+
+    return (data as StripeEventRecord[] | null)?.[0] || null
+  }
+
+  private static async settle(
+    eventId: string,
+    fields: Partial<Pick<StripeEventRecord, 'status' | 'last_error' | 'processed_at'>>
+  ): Promise<void> {
+    const supabase = createServiceClient()
+
+    const { error } = await supabase
+      .from('stripe_events')
+      .update(fields)
+      .eq('id', eventId)
+      .eq('status', 'processing')
+
+    if (error) {
+      console.error('Database error settling Stripe event:', error)
+      throw new Error('Failed to update Stripe event')
+    }
+  }
+
+  private static async getEvent(eventId: string): Promise<StripeEventRecord | null> {
+    const supabase = createServiceClient()
+
+    const { data, error } = await supabase
+      .from('stripe_events')
+      .select('*')
+      .eq('id', eventId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Database error fetching Stripe event:', error)
+      throw new Error('Failed to fetch Stripe event')
+    }
+
+    return data as StripeEventRecord | null
+  }
+}
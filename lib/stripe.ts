@@ -1,7 +1,7 @@
 import Stripe from 'stripe'
-import { createHash, timingSafeEqual } from 'crypto'
 import { getEnv } from './env'
 import { APP_CONFIG } from './env'
+import { MEMBERSHIP_PLANS, MembershipPlan } from './constants'
 
 // Initialize Stripe with the latest API version
 export const stripe = new Stripe(getEnv('STRIPE_SECRET_KEY'), {
@@ -9,6 +9,22 @@ export const stripe = new Stripe(getEnv('STRIPE_SECRET_KEY'), {
   typescript: true,
 })
 
+export class StripeWebhookSignatureError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'StripeWebhookSignatureError'
+  }
+}
+
+/**
+ * Webhook signing secrets: STRIPE_WEBHOOK_SECRET, plus STRIPE_WEBHOOK_SECRET_PREVIOUS
+ * while a rolled secret is still signing deliveries
+ */
+export const getWebhookSecrets = (): string[] => [
+  getEnv('STRIPE_WEBHOOK_SECRET'),
+  ...(process.env.STRIPE_WEBHOOK_SECRET_PREVIOUS ? [process.env.STRIPE_WEBHOOK_SECRET_PREVIOUS] : []),
+]
+
 /**
  * Secure Stripe operations with PCI DSS compliance
  * Based on security audit recommendations
@@ -17,33 +33,30 @@ export class StripeSecurityManager {
   private static readonly WEBHOOK_TOLERANCE = 300 // 5 minutes
   
   /**
-   * Verify Stripe webhook signature with timing-safe comparison
+   * Verify a webhook delivery and parse its event (Stripe's v1 HMAC-SHA256 scheme via the SDK)
+   * The header may carry several v1 signatures; any of our secrets may match one of them
    */
-  static verifyWebhookSignature(
+  static constructWebhookEvent(
     payload: string,
     signature: string,
-    secret: string
-  ): boolean {
-    try {
-      const timestamp = this.extractTimestamp(signature)
-      const expectedSignature = this.computeSignature(timestamp, payload, secret)
-      
-      // Check timestamp tolerance
-      const now = Math.floor(Date.now() / 1000)
-      if (Math.abs(now - timestamp) > this.WEBHOOK_TOLERANCE) {
-        console.warn('Webhook timestamp outside tolerance window')
-        return false
+    secrets: string[] = getWebhookSecrets()
+  ): Stripe.Event {
+    let lastError: unknown
+    
+    for (const secret of secrets) {
+      try {
+        return Stripe.webhooks.constructEvent(payload, signature, secret, this.WEBHOOK_TOLERANCE)
+      } catch (error) {
+        if (!(error instanceof Stripe.errors.StripeSignatureVerificationError)) {
+          throw error
+        }
+        lastError = error
       }
-      
-      // Timing-safe comparison prevents timing attacks
-      return timingSafeEqual(
-        Buffer.from(expectedSignature, 'hex'),
-        Buffer.from(this.extractSignature(signature), 'hex')
-      )
-    } catch (error) {
-      console.error('Webhook signature verification failed:', error)
-      return false
     }
+    
+    throw new StripeWebhookSignatureError(
+      lastError instanceof Error ? lastError.message : 'No webhook secret configured'
+    )
   }
   
   /**
@@ -55,6 +68,8 @@ export class StripeSecurityManager {
     customerEmail: string
     successUrl: string
     cancelUrl: string
+    // Seat hold expiry; the session must not outlive the hold
+    expiresAt?: Date
   }): Promise<Stripe.Checkout.Session> {
     try {
       const priceId = params.tier === '99' 
@@ -101,7 +116,9 @@ export class StripeSecurityManager {
         },
         
         // Session configuration
-        expires_at: Math.floor(Date.now() / 1000) + 3600, // 1 hour expiry
+        expires_at: params.expiresAt
+          ? Math.floor(params.expiresAt.getTime() / 1000)
+          : Math.floor(Date.now() / 1000) + 3600, // 1 hour expiry
         allow_promotion_codes: false,
         automatic_tax: {
           enabled: false,
@@ -117,6 +134,91 @@ export class StripeSecurityManager {
     }
   }
   
+  /**
+   * Create subscription checkout session for membership activation
+   * The applicant's credit balance is applied as a one-time coupon
+   */
+  static async createMembershipCheckoutSession(params: {
+    plan: MembershipPlan
+    applicationId: string
+    customerEmail: string
+    customerId?: string
+    couponId?: string
+    successUrl: string
+    cancelUrl: string
+  }): Promise<Stripe.Checkout.Session> {
+    try {
+      const metadata = {
+        application_id: params.applicationId,
+        plan: params.plan,
+        purpose: 'membership_activation',
+        // Read back from the first invoice to debit the credit it redeemed
+        ...(params.couponId ? { credit_coupon_id: params.couponId } : {}),
+      }
+      
+      const sessionParams: Stripe.Checkout.SessionCreateParams = {
+        mode: 'subscription',
+        
+        line_items: [{
+          price: getEnv(MEMBERSHIP_PLANS[params.plan].priceEnvKey),
+          quantity: 1,
+        }],
+        
+        success_url: `${params.successUrl}?session_id={CHECKOUT_SESSION_ID}`,
+        cancel_url: params.cancelUrl,
+        
+        // Reuse the customer from the FastTrack payment when we have one
+        ...(params.customerId
+          ? { customer: params.customerId }
+          : { customer_email: params.customerEmail }),
+        billing_address_collection: 'required',
+        
+        // FastTrack credit (coupons and promotion codes can't be combined)
+        ...(params.couponId
+          ? { discounts: [{ coupon: params.couponId }] }
+          : { allow_promotion_codes: false }),
+        
+        metadata,
+        subscription_data: {
+          metadata,
+          description: `ProbWin.ai ${MEMBERSHIP_PLANS[params.plan].name} membership`,
+        },
+        
+        expires_at: Math.floor(Date.now() / 1000) + 3600, // 1 hour expiry
+      }
+      
+      return await stripe.checkout.sessions.create(sessionParams)
+    } catch (error) {
+      console.error('Failed to create membership checkout session:', error)
+      throw new Error('Payment processing error')
+    }
+  }
+  
+  /**
+   * Expire an open checkout session so it can no longer be paid
+   */
+  static async expireCheckoutSession(sessionId: string): Promise<void> {
+    try {
+      await stripe.checkout.sessions.expire(sessionId)
+    } catch (error) {
+      console.error('Failed to expire checkout session:', error)
+      throw new Error('Checkout session expiry failed')
+    }
+  }
+  
+  /**
+   * Stripe Radar's outcome for a payment's charge, or null before a charge exists
+   */
+  static async getRadarOutcome(paymentIntentId: string): Promise<Stripe.Charge.Outcome | null> {
+    const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId, {
+      expand: ['latest_charge'],
+    })
+    
+    const charge = paymentIntent.latest_charge
+    
+    return charge && typeof charge !== 'string' ? charge.outcome : null
+  }
+  
   /**
    * Process webhook event securely
    */
@@ -137,6 +239,18 @@ export class StripeSecurityManager {
           await this.handlePaymentFailed(event.data.object as Stripe.PaymentIntent)
           break
           
+        case 'invoice.paid':
+          await this.handleInvoicePaid(event.data.object as Stripe.Invoice)
+          break
+          
+        case 'charge.refunded':
+        case 'charge.dispute.created':
+        case 'charge.dispute.closed':
+        case 'checkout.session.expired':
+        case 'checkout.session.async_payment_failed':
+          await this.handlePaymentLifecycleEvent(event)
+          break
+          
         default:
           console.log(`Unhandled webhook event type: ${event.type}`)
       }
@@ -157,6 +271,27 @@ export class StripeSecurityManager {
         throw new Error('Missing application_id in session metadata')
       }
       
+      // Membership subscriptions are activated on the first paid invoice
+      if (session.metadata.purpose === 'membership_activation') {
+        const { MembershipActivation } = await import('./membership-activation')
+        await MembershipActivation.handleCheckoutCompleted(session)
+        return
+      }
+      
+      const current = await DatabaseOperations.getApplicationById(session.metadata.application_id)
+      
+      // Already recorded (webhook retry)
+      if (current && session.payment_intent && current.stripe_payment_intent_id === session.payment_intent) {
+        return
+      }
+      
+      // Only the application's current session, while the application is still open, can be paid for;
+      // a superseded session or one for an application closed while checkout was open is refunded
+      if (!current || current.stripe_checkout_session_id !== session.id || current.status !== 'pending') {
+        await this.refundStaleCheckout(session, current?.email)
+        return
+      }
+      
       // Update application with Stripe information
       await DatabaseOperations.updateApplicationStripeInfo(
         session.metadata.application_id,
@@ -167,13 +302,99 @@ export class StripeSecurityManager {
         }
       )
       
+      // The seat held at checkout is now paid for
+      const { SeatReservations } = await import('./seat-reservations')
+      await SeatReservations.convert(session.metadata.application_id)
+      
       console.log(`Checkout completed for application: ${session.metadata.application_id}`)
+
+      // Record the FastTrack credit, track free waitlist conversion and send the payment received email
+      const application = await DatabaseOperations.getApplicationById(session.metadata.application_id)
+
+      if (application) {
+        const { CreditLedger } = await import('./credit-ledger')
+        await CreditLedger.recordIssue(application, session.payment_intent as string)
+
+        // Payment puts the applicant in the wave's queue
+        const { WaitlistRanking } = await import('./waitlist-ranking')
+        await WaitlistRanking.snapshot(application.wave, 'payment_received')
+
+        // Re-score with Stripe Radar's view of the charge; a hold blocks acceptance until reviewed
+        const { FraudScoring } = await import('./fraud-scoring')
+
+        try {
+          await FraudScoring.scoreApplication(application.id, 'payment', {
+            radar: session.payment_intent
+              ? await this.getRadarOutcome(session.payment_intent as string)
+              : null,
+          })
+        } catch (error) {
+          console.error('Fraud scoring failed on payment:', error)
+        }
+
+        // Free waitlist conversion and invitation attribution are reporting only
+        const { InvitationCampaigns } = await import('./invitation-campaigns')
+
+        try {
+          await InvitationCampaigns.recordConversion(application)
+        } catch (error) {
+          console.error('Free waitlist conversion tracking failed:', error)
+        }
+
+        const { EmailService, EmailLinks } = await import('./email')
+
+        try {
+          await EmailService.send('payment_received', application.email, {
+            fullName: application.full_name,
+            tier: application.tier,
+            interviewUrl: EmailLinks.interview(application),
+          })
+        } catch (error) {
+          // Don't fail the webhook - delivery failures are in the audit log
+          console.error('Payment received email failed:', error)
+        }
+      }
     } catch (error) {
       console.error('Error handling checkout completion:', error)
       throw error
     }
   }
   
+  /**
+   * Refund a completed checkout that no longer belongs to an open application, leaving the application untouched
+   */
+  private static async refundStaleCheckout(session: Stripe.Checkout.Session, email?: string): Promise<void> {
+    const { DatabaseOperations } = await import('./database')
+    const paymentIntentId = session.payment_intent as string | null
+    
+    let refundId: string | null = null
+    let refundError: string | null = null
+    
+    if (paymentIntentId) {
+      try {
+        refundId = (await this.issueRefund(paymentIntentId, 'duplicate')).id
+      } catch (error) {
+        refundError = error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+    
+    // A failed refund needs someone to refund it by hand
+    await DatabaseOperations.logSecurityEvent(
+      'checkout_completed_stale',
+      refundError ? 'high' : 'medium',
+      {
+        user_identifier: email,
+        event_data: {
+          application_id: session.metadata?.application_id,
+          session_id: session.id,
+          payment_intent_id: paymentIntentId,
+          refund_id: refundId,
+          refund_error: refundError,
+        }
+      }
+    )
+  }
+  
   /**
    * Handle successful payment
    */
@@ -190,6 +411,53 @@ export class StripeSecurityManager {
     }
   }
   
+  /**
+   * Handle paid invoice (first membership invoice activates the application)
+   */
+  private static async handleInvoicePaid(invoice: Stripe.Invoice): Promise<void> {
+    try {
+      if (invoice.billing_reason !== 'subscription_create') {
+        return
+      }
+      
+      const { MembershipActivation } = await import('./membership-activation')
+      await MembershipActivation.handleFirstInvoicePaid(invoice)
+    } catch (error) {
+      console.error('Error handling invoice payment:', error)
+      throw error
+    }
+  }
+  
+  /**
+   * Handle refunds, disputes and abandoned checkouts (see PaymentEvents)
+   */
+  private static async handlePaymentLifecycleEvent(event: Stripe.Event): Promise<void> {
+    try {
+      const { PaymentEvents } = await import('./payment-events')
+      
+      switch (event.type) {
+        case 'charge.refunded':
+          await PaymentEvents.handleChargeRefunded(event.data.object)
+          break
+        case 'charge.dispute.created':
+          await PaymentEvents.handleDisputeCreated(event.data.object)
+          break
+        case 'charge.dispute.closed':
+          await PaymentEvents.handleDisputeClosed(event.data.object)
+          break
+        case 'checkout.session.expired':
+          await PaymentEvents.handleCheckoutAbandoned(event.data.object, 'expired')
+          break
+        case 'checkout.session.async_payment_failed':
+          await PaymentEvents.handleCheckoutAbandoned(event.data.object, 'payment_failed')
+          break
+      }
+    } catch (error) {
+      console.error(`Error handling ${event.type}:`, error)
+      throw error
+    }
+  }
+  
   /**
    * Handle failed payment
    */
@@ -242,40 +510,73 @@ export class StripeSecurityManager {
   }
   
   /**
-   * Get payment intent details
+   * Create a single-use coupon worth a customer's credit balance
    */
-  static async getPaymentIntent(paymentIntentId: string): Promise<Stripe.PaymentIntent> {
+  static async createCreditCoupon(params: {
+    amountCents: number
+    email: string
+    redeemBy?: Date
+  }): Promise<Stripe.Coupon> {
     try {
-      return await stripe.paymentIntents.retrieve(paymentIntentId)
+      return await stripe.coupons.create({
+        amount_off: params.amountCents,
+        currency: 'usd',
+        duration: 'once',
+        max_redemptions: 1,
+        name: 'FastTrack credit',
+        redeem_by: params.redeemBy ? Math.floor(params.redeemBy.getTime() / 1000) : undefined,
+        metadata: {
+          email: params.email,
+          source: 'credit_ledger',
+          created_at: new Date().toISOString(),
+        },
+      })
     } catch (error) {
-      console.error('Failed to retrieve payment intent:', error)
-      throw new Error('Payment lookup failed')
+      console.error('Failed to create credit coupon:', error)
+      throw new Error('Coupon creation failed')
     }
   }
-  
-  // Private helper methods for webhook verification
-  private static extractTimestamp(signature: string): number {
-    const timestampMatch = signature.match(/t=(\d+)/)
-    if (!timestampMatch) {
-      throw new Error('Unable to extract timestamp from signature')
+
+  /**
+   * A credit coupon as Stripe sees it now (times redeemed, still valid), or null if it was deleted
+   */
+  static async retrieveCreditCoupon(couponId: string): Promise<Stripe.Coupon | null> {
+    try {
+      return await stripe.coupons.retrieve(couponId)
+    } catch (error) {
+      if (error instanceof Stripe.errors.StripeInvalidRequestError && error.statusCode === 404) {
+        return null
+      }
+      console.error('Failed to retrieve credit coupon:', error)
+      throw new Error('Coupon lookup failed')
     }
-    return parseInt(timestampMatch[1], 10)
   }
-  
-  private static extractSignature(signature: string): string {
-    const signatureMatch = signature.match(/v1=([a-z0-9]+)/)
-    if (!signatureMatch) {
-      throw new Error('Unable to extract signature from header')
+
+  /**
+   * Delete a credit coupon so no new checkout can redeem it
+   */
+  static async deleteCreditCoupon(couponId: string): Promise<void> {
+    try {
+      await stripe.coupons.del(couponId)
+    } catch (error) {
+      if (error instanceof Stripe.errors.StripeInvalidRequestError && error.statusCode === 404) {
+        return
+      }
+      console.error('Failed to delete credit coupon:', error)
+      throw new Error('Coupon deletion failed')
     }
-    return signatureMatch[1]
   }
-  
-  private static computeSignature(timestamp: number, payload: string, secret: string): string {
-    const signedPayload = `${timestamp}.${payload}`
-    return createHash('sha256')
-      .update(signedPayload, 'utf8')
-      .update(secret, 'utf8')
-      .digest('hex')
+
+  /**
+   * Get payment intent details
+   */
+  static async getPaymentIntent(paymentIntentId: string): Promise<Stripe.PaymentIntent> {
+    try {
+      return await stripe.paymentIntents.retrieve(paymentIntentId)
+    } catch (error) {
+      console.error('Failed to retrieve payment intent:', error)
+      throw new Error('Payment lookup failed')
+    }
   }
 }
 
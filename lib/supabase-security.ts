@@ -7,6 +7,7 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { z } from 'zod';
 import { SecurityAudit, SecuritySanitizer, SecurityValidator, schemas } from '@/lib/security';
+import { DatabaseOperations } from '@/lib/database';
 
 // ===== TYPES AND INTERFACES =====
 
@@ -219,6 +220,13 @@ export class SupabaseSecureOperations {
         return { success: false, error: 'Application already exists for this email' };
       }
 
+      // New applications join the tier's current wave
+      const currentWave = await DatabaseOperations.getCurrentWave(validatedData.wave_type === 'fasttrack_plus' ? '199' : '99');
+
+      if (!currentWave) {
+        return { success: false, error: 'This tier is not open for applications' };
+      }
+
       // Prepare secure application data
       const applicationInsert = {
         ...validatedData,
@@ -226,7 +234,7 @@ export class SupabaseSecureOperations {
         user_agent_hash: context.userAgent ? this.hashUserAgent(context.userAgent) : null,
         gdpr_consent_date: new Date().toISOString(),
         data_retention_expires_at: new Date(Date.now() + (7 * 365 * 24 * 60 * 60 * 1000)).toISOString(), // 7 years
-        wave_number: 1 // Default to wave 1
+        wave_number: currentWave.id
       };
 
       // Insert application
@@ -248,7 +256,7 @@ export class SupabaseSecureOperations {
       }
 
       // Update seat availability
-      await this.updateSeatAvailability(validatedData.wave_type, 1, 1);
+      await this.updateSeatAvailability(validatedData.wave_type, currentWave.id, 1);
 
       return { success: true, data };
     } catch (error) {
@@ -0,0 +1,524 @@
+/**
+ * Threat Rule Engine for ProbWin.ai
+ * Request inspection rules stored in the threat_rules table (migration 020). Each rule scopes its
+ * pattern to request fields, can allowlist IPs, paths and values, and is either enforced or run in
+ * shadow mode, where hits are only recorded so the rule can be tuned before it blocks anything
+ */
+
+import { DatabaseOperations } from '@/lib/database';
+import { supabaseServiceClient } from '@/lib/supabase-security';
+
+// ===== TYPES =====
+
+export type ThreatRuleMode = 'enforce' | 'shadow' | 'disabled';
+
+export type ThreatRuleSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export type ThreatHitOutcome = 'blocked' | 'flagged' | 'shadow';
+
+export interface ThreatRule {
+  id: string;
+  name: string;
+  description: string;
+  pattern: string;
+  flags: string;
+  severity: ThreatRuleSeverity;
+  mode: ThreatRuleMode;
+  // 'path', 'query', 'query:<param>', 'body', 'body:<field.path>' or 'header:<name>'
+  targets: string[];
+  allowIps: string[];
+  // Path prefixes the rule never applies to
+  allowPaths: string[];
+  // A field value matching one of these is not a hit
+  allowPatterns: string[];
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+export type ThreatRuleInput = Omit<ThreatRule, 'updatedAt' | 'updatedBy'>;
+
+export type ThreatRuleUpdate = Partial<Omit<ThreatRuleInput, 'id'>>;
+
+export interface ThreatRuleStats {
+  ruleId: string;
+  hits: number;
+  blocked: number;
+  flagged: number;
+  shadow: number;
+  uniqueIps: number;
+  lastHitAt?: string;
+}
+
+export interface ThreatRuleHit {
+  id: string;
+  ruleId: string;
+  outcome: ThreatHitOutcome;
+  ip?: string;
+  method?: string;
+  path?: string;
+  target: string;
+  matched: string;
+  createdAt: string;
+}
+
+export interface ThreatRequest {
+  url: string;
+  method?: string;
+  headers: Record<string, string>;
+  // Parsed JSON, or raw text (parsed here when it is JSON)
+  body?: unknown;
+  ip?: string;
+}
+
+export interface ThreatMatch {
+  rule: ThreatRule;
+  target: string;
+  matched: string;
+}
+
+export interface ThreatInspection {
+  // Hits of enforced rules
+  threats: ThreatMatch[];
+  // Would-be hits of shadow rules; never count towards blocking
+  shadowHits: ThreatMatch[];
+  riskScore: number;
+  shouldBlock: boolean;
+}
+
+export const THREAT_RULE_CONFIG = {
+  // Rules are re-read this often, so edits reach every instance without a deploy
+  CACHE_TTL_MS: 60 * 1000,
+  BLOCK_SCORE: 75,
+  SEVERITY_SCORES: { critical: 100, high: 75, medium: 50, low: 25 },
+  MAX_PATTERN_LENGTH: 500,
+  MAX_MATCH_LENGTH: 200,
+  HIT_RETENTION_DAYS: 30
+} as const;
+
+export type ThreatRuleErrorCode = 'not_found' | 'invalid_rule' | 'duplicate';
+
+// HTTP status for each rule error, used by the admin threat rules API
+export const THREAT_RULE_ERROR_STATUS: Record<ThreatRuleErrorCode, number> = {
+  not_found: 404,
+  invalid_rule: 400,
+  duplicate: 409
+};
+
+export class ThreatRuleError extends Error {
+  constructor(message: string, public code: ThreatRuleErrorCode) {
+    super(message);
+    this.name = 'ThreatRuleError';
+  }
+}
+
+// ===== COMPILING AND MATCHING =====
+
+interface CompiledThreatRule {
+  rule: ThreatRule;
+  pattern: RegExp;
+  allowPatterns: RegExp[];
+}
+
+/**
+ * Compile a rule's expressions; throws ThreatRuleError for an invalid pattern or flags
+ * (never global: a stateful lastIndex would skip matches between requests)
+ */
+export function compileThreatRule(rule: ThreatRule): CompiledThreatRule {
+  if (!/^[imsu]*$/.test(rule.flags)) {
+    throw new ThreatRuleError(`Invalid flags "${rule.flags}"; use i, m, s or u`, 'invalid_rule');
+  }
+
+  const compile = (source: string): RegExp => {
+    if (!source || source.length > THREAT_RULE_CONFIG.MAX_PATTERN_LENGTH) {
+      throw new ThreatRuleError(`Patterns must be 1-${THREAT_RULE_CONFIG.MAX_PATTERN_LENGTH} characters`, 'invalid_rule');
+    }
+    try {
+      return new RegExp(source, rule.flags);
+    } catch (error) {
+      throw new ThreatRuleError(`Invalid pattern: ${error instanceof Error ? error.message : source}`, 'invalid_rule');
+    }
+  };
+
+  return {
+    rule,
+    pattern: compile(rule.pattern),
+    allowPatterns: rule.allowPatterns.map(compile)
+  };
+}
+
+// Collect the string leaves of a parsed body as body:<field.path>
+function flattenStrings(value: unknown, prefix: string, out: Array<{ target: string; value: string }>, depth = 0): void {
+  if (depth > 10) return;
+
+  if (typeof value === 'string') {
+    out.push({ target: prefix, value });
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => flattenStrings(item, `${prefix}.${index}`, out, depth + 1));
+  } else if (value && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) {
+      flattenStrings(item, `${prefix}.${key}`, out, depth + 1);
+    }
+  }
+}
+
+function parseBody(body: unknown): unknown {
+  if (typeof body !== 'string') return body;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * Every inspectable field of a request, named the way rule targets refer to them
+ */
+export function extractRequestFields(request: ThreatRequest): Array<{ target: string; value: string }> {
+  const url = new URL(request.url, 'http://localhost');
+  const fields: Array<{ target: string; value: string }> = [{ target: 'path', value: url.pathname }];
+
+  url.searchParams.forEach((value, name) => fields.push({ target: `query:${name}`, value }));
+
+  // A JSON body is inspected field by field, so its own punctuation is never matched
+  const body = parseBody(request.body);
+  if (typeof body === 'string') {
+    if (body) fields.push({ target: 'body', value: body });
+  } else {
+    const bodyFields: Array<{ target: string; value: string }> = [];
+    flattenStrings(body, '', bodyFields);
+    fields.push(...bodyFields.map(field => ({ target: `body:${field.target.slice(1)}`, value: field.value })));
+  }
+
+  for (const [name, value] of Object.entries(request.headers)) {
+    fields.push({ target: `header:${name.toLowerCase()}`, value });
+  }
+
+  return fields;
+}
+
+// 'body' covers every body field, 'body:profile' covers profile and its nested fields
+function targetCovers(target: string, field: string): boolean {
+  const normalized = target.toLowerCase();
+  const name = field.toLowerCase();
+
+  if (normalized === 'path') return name === 'path';
+  if (normalized === 'query' || normalized === 'body') return name === normalized || name.startsWith(`${normalized}:`);
+  return name === normalized || name.startsWith(`${normalized}.`);
+}
+
+function matchRule(
+  compiled: CompiledThreatRule,
+  fields: Array<{ target: string; value: string }>
+): { target: string; matched: string } | null {
+  for (const field of fields) {
+    if (!compiled.rule.targets.some(target => targetCovers(target, field.target))) continue;
+
+    const match = compiled.pattern.exec(field.value);
+    if (!match) continue;
+    if (compiled.allowPatterns.some(allow => allow.test(field.value))) continue;
+
+    return { target: field.target, matched: match[0].slice(0, THREAT_RULE_CONFIG.MAX_MATCH_LENGTH) };
+  }
+
+  return null;
+}
+
+// ===== ROW MAPPING =====
+
+function toThreatRule(row: any): ThreatRule {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    pattern: row.pattern,
+    flags: row.flags,
+    severity: row.severity,
+    mode: row.mode,
+    targets: row.targets || [],
+    allowIps: row.allow_ips || [],
+    allowPaths: row.allow_paths || [],
+    allowPatterns: row.allow_patterns || [],
+    updatedAt: row.updated_at,
+    updatedBy: row.updated_by || undefined
+  };
+}
+
+function toRow(rule: ThreatRuleUpdate): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  if (rule.name !== undefined) row.name = rule.name;
+  if (rule.description !== undefined) row.description = rule.description;
+  if (rule.pattern !== undefined) row.pattern = rule.pattern;
+  if (rule.flags !== undefined) row.flags = rule.flags;
+  if (rule.severity !== undefined) row.severity = rule.severity;
+  if (rule.mode !== undefined) row.mode = rule.mode;
+  if (rule.targets !== undefined) row.targets = rule.targets;
+  if (rule.allowIps !== undefined) row.allow_ips = rule.allowIps;
+  if (rule.allowPaths !== undefined) row.allow_paths = rule.allowPaths;
+  if (rule.allowPatterns !== undefined) row.allow_patterns = rule.allowPatterns;
+  return row;
+}
+
+// ===== THREAT RULE ENGINE =====
+
+export class ThreatRuleEngine {
+  private static cache: { rules: CompiledThreatRule[]; loadedAt: number } | null = null;
+
+  /**
+   * Active (enforce and shadow) rules, cached for CACHE_TTL_MS; keeps the last good set if a reload fails
+   */
+  static async getActiveRules(): Promise<CompiledThreatRule[]> {
+    if (this.cache && Date.now() - this.cache.loadedAt < THREAT_RULE_CONFIG.CACHE_TTL_MS) {
+      return this.cache.rules;
+    }
+
+    const { data, error } = await supabaseServiceClient
+      .from('threat_rules')
+      .select('*')
+      .neq('mode', 'disabled');
+
+    if (error) {
+      console.error('Database error loading threat rules:', error);
+      return this.cache?.rules || [];
+    }
+
+    const rules: CompiledThreatRule[] = [];
+    for (const row of data || []) {
+      try {
+        rules.push(compileThreatRule(toThreatRule(row)));
+      } catch (compileError) {
+        // Rules are validated on write; skip one broken by a manual edit rather than all of them
+        console.error(`Skipping threat rule ${row.id}:`, compileError);
+      }
+    }
+
+    this.cache = { rules, loadedAt: Date.now() };
+    return rules;
+  }
+
+  /**
+   * Drop the cached rules (after an edit on this instance; others reload within CACHE_TTL_MS)
+   */
+  static invalidate(): void {
+    this.cache = null;
+  }
+
+  /**
+   * Run the active rules over a request and record every hit
+   */
+  static async inspect(request: ThreatRequest): Promise<ThreatInspection> {
+    const rules = await this.getActiveRules();
+    const fields = extractRequestFields(request);
+    const path = fields[0].value;
+
+    const threats: ThreatMatch[] = [];
+    const shadowHits: ThreatMatch[] = [];
+
+    for (const compiled of rules) {
+      const { rule } = compiled;
+      if (request.ip && rule.allowIps.includes(request.ip)) continue;
+      if (rule.allowPaths.some(prefix => path.startsWith(prefix))) continue;
+
+      const match = matchRule(compiled, fields);
+      if (!match) continue;
+
+      (rule.mode === 'enforce' ? threats : shadowHits).push({ rule, ...match });
+    }
+
+    const riskScore = threats.reduce((score, threat) => score + THREAT_RULE_CONFIG.SEVERITY_SCORES[threat.rule.severity], 0);
+    const shouldBlock = riskScore >= THREAT_RULE_CONFIG.BLOCK_SCORE;
+
+    if (threats.length > 0 || shadowHits.length > 0) {
+      await this.recordHits(request, path, [
+        ...threats.map(threat => ({ ...threat, outcome: (shouldBlock ? 'blocked' : 'flagged') as ThreatHitOutcome })),
+        ...shadowHits.map(hit => ({ ...hit, outcome: 'shadow' as ThreatHitOutcome }))
+      ]);
+    }
+
+    return { threats, shadowHits, riskScore, shouldBlock };
+  }
+
+  private static async recordHits(
+    request: ThreatRequest,
+    path: string,
+    hits: Array<ThreatMatch & { outcome: ThreatHitOutcome }>
+  ): Promise<void> {
+    const { error } = await supabaseServiceClient
+      .from('threat_rule_hits')
+      .insert(hits.map(hit => ({
+        rule_id: hit.rule.id,
+        outcome: hit.outcome,
+        ip: request.ip || null,
+        method: request.method || null,
+        path,
+        target: hit.target,
+        matched: hit.matched
+      })));
+
+    // Statistics only; inspection results stand either way
+    if (error) {
+      console.error('Database error recording threat rule hits:', error);
+    }
+  }
+
+  // ===== RULE MANAGEMENT =====
+
+  /**
+   * All rules, including disabled ones
+   */
+  static async list(): Promise<ThreatRule[]> {
+    const { data, error } = await supabaseServiceClient
+      .from('threat_rules')
+      .select('*')
+      .order('id', { ascending: true });
+
+    if (error) {
+      console.error('Database error listing threat rules:', error);
+      throw new Error('Failed to list threat rules');
+    }
+
+    return (data || []).map(toThreatRule);
+  }
+
+  static async get(id: string): Promise<ThreatRule | null> {
+    const { data, error } = await supabaseServiceClient
+      .from('threat_rules')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Database error fetching threat rule:', error);
+      throw new Error('Failed to fetch threat rule');
+    }
+
+    return data ? toThreatRule(data) : null;
+  }
+
+  static async create(input: ThreatRuleInput, actor: string): Promise<ThreatRule> {
+    compileThreatRule(input);
+
+    const { data, error } = await supabaseServiceClient
+      .from('threat_rules')
+      .insert({ id: input.id, ...toRow(input), updated_by: actor })
+      .select('*')
+      .single();
+
+    if (error) {
+      // Unique violation: the ID is taken
+      if (error.code === '23505') {
+        throw new ThreatRuleError(`Threat rule ${input.id} already exists`, 'duplicate');
+      }
+      console.error('Database error creating threat rule:', error);
+      throw new Error('Failed to create threat rule');
+    }
+
+    await DatabaseOperations.logSecurityEvent('threat_rule_created', 'medium', {
+      user_identifier: actor,
+      event_data: { rule: input.id, mode: input.mode, severity: input.severity }
+    });
+
+    this.invalidate();
+    return toThreatRule(data);
+  }
+
+  /**
+   * Change a rule (e.g. switch shadow to enforce, widen an allowlist); the edit is validated before saving
+   */
+  static async update(id: string, changes: ThreatRuleUpdate, actor: string): Promise<ThreatRule> {
+    const existing = await this.get(id);
+    if (!existing) {
+      throw new ThreatRuleError('Threat rule not found', 'not_found');
+    }
+
+    compileThreatRule({ ...existing, ...changes });
+
+    const { data, error } = await supabaseServiceClient
+      .from('threat_rules')
+      .update({ ...toRow(changes), updated_by: actor })
+      .eq('id', id)
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Database error updating threat rule:', error);
+      throw new Error('Failed to update threat rule');
+    }
+
+    await DatabaseOperations.logSecurityEvent('threat_rule_updated', 'medium', {
+      user_identifier: actor,
+      event_data: { rule: id, changes: Object.keys(changes), mode: data.mode }
+    });
+
+    this.invalidate();
+    return toThreatRule(data);
+  }
+
+  // ===== STATISTICS =====
+
+  /**
+   * Hit counts per rule since the given time (rules without hits are absent)
+   */
+  static async stats(since: string): Promise<ThreatRuleStats[]> {
+    const { data, error } = await supabaseServiceClient.rpc('threat_rule_stats', { p_since: since });
+
+    if (error) {
+      console.error('Database error fetching threat rule stats:', error);
+      throw new Error('Failed to fetch threat rule stats');
+    }
+
+    return (data || []).map((row: any) => ({
+      ruleId: row.rule_id,
+      hits: Number(row.hits),
+      blocked: Number(row.blocked),
+      flagged: Number(row.flagged),
+      shadow: Number(row.shadow),
+      uniqueIps: Number(row.unique_ips),
+      lastHitAt: row.last_hit_at || undefined
+    }));
+  }
+
+  /**
+   * A rule's latest hits, newest first, to review for false positives
+   */
+  static async recentHits(ruleId: string, limit: number = 50): Promise<ThreatRuleHit[]> {
+    const { data, error } = await supabaseServiceClient
+      .from('threat_rule_hits')
+      .select('*')
+      .eq('rule_id', ruleId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Database error fetching threat rule hits:', error);
+      throw new Error('Failed to fetch threat rule hits');
+    }
+
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      ruleId: row.rule_id,
+      outcome: row.outcome,
+      ip: row.ip || undefined,
+      method: row.method || undefined,
+      path: row.path || undefined,
+      target: row.target,
+      matched: row.matched,
+      createdAt: row.created_at
+    }));
+  }
+
+  /**
+   * Delete hits older than the retention period (cron)
+   */
+  static async pruneHits(retentionDays: number = THREAT_RULE_CONFIG.HIT_RETENTION_DAYS): Promise<number> {
+    const { data, error } = await supabaseServiceClient.rpc('prune_threat_rule_hits', { p_retention_days: retentionDays });
+
+    if (error) {
+      console.error('Database error pruning threat rule hits:', error);
+      throw new Error('Failed to prune threat rule hits');
+    }
+
+    return data || 0;
+  }
+}
+
+export default ThreatRuleEngine;
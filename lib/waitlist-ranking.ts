@@ -0,0 +1,245 @@
+import { createHash } from 'crypto'
+import { createServiceClient } from './supabase'
+import { QueueEntry, QueueSnapshot, WaitlistApplication, WaitlistStatus, WaitlistTier } from '../types'
+
+// Statuses still waiting for a seat; accepted applicants already hold one
+export const QUEUE_STATUSES: readonly WaitlistStatus[] = ['pending', 'interviewed']
+
+// PRD: FastTrack+ is served before FastTrack (the free waitlist is invited separately)
+export const TIER_PRIORITY: Record<WaitlistTier, number> = {
+  '199': 0,
+  '99': 1,
+}
+
+export interface RankedApplication extends QueueEntry {
+  full_name: string
+  email: string
+}
+
+export interface QueuePosition {
+  wave: number
+  position: number
+  total: number
+}
+
+export interface QueueChainCheck {
+  valid: boolean
+  snapshots: number
+  // First snapshot whose hashes or link to its predecessor don't match
+  broken_sequence?: number
+}
+
+const QUEUE_COLUMNS = 'id, full_name, email, tier, status, wave, interview_completed_at, paid_at, paid_sequence'
+
+/**
+ * Queue order within a wave: tier priority, then interviewed before not yet interviewed, then payment order
+ * (server-stamped paid_at/paid_sequence, so ties can't happen). Only paid applications awaiting a decision are ranked.
+ */
+export function rankApplications(applications: WaitlistApplication[]): RankedApplication[] {
+  return applications
+    .filter(app => QUEUE_STATUSES.includes(app.status) && app.paid_at && app.paid_sequence != null)
+    .sort((a, b) =>
+      TIER_PRIORITY[a.tier] - TIER_PRIORITY[b.tier]
+      || Number(!a.interview_completed_at) - Number(!b.interview_completed_at)
+      || a.paid_sequence! - b.paid_sequence!
+    )
+    .map((app, index) => ({
+      application_id: app.id,
+      position: index + 1,
+      tier: app.tier,
+      status: app.status,
+      interview_completed_at: app.interview_completed_at || null,
+      paid_at: app.paid_at!,
+      paid_sequence: app.paid_sequence!,
+      full_name: app.full_name,
+      email: app.email,
+    }))
+}
+
+// Snapshots keep the order, not applicants' contact details
+const toQueueEntry = (ranked: RankedApplication): QueueEntry => ({
+  application_id: ranked.application_id,
+  position: ranked.position,
+  tier: ranked.tier,
+  status: ranked.status,
+  interview_completed_at: ranked.interview_completed_at,
+  paid_at: ranked.paid_at,
+  paid_sequence: ranked.paid_sequence,
+})
+
+/**
+ * Serialize with sorted keys so hashes survive a JSONB round trip
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+    return `{${entries.join(',')}}`
+  }
+  return JSON.stringify(value ?? null)
+}
+
+const sha256 = (data: string) => createHash('sha256').update(data).digest('hex')
+
+export const orderingHash = (entries: QueueEntry[]) => sha256(entries.map(entry => entry.application_id).join('\n'))
+
+export function snapshotHash(snapshot: Pick<QueueSnapshot, 'wave' | 'sequence' | 'entries' | 'ordering_hash' | 'previous_hash'>): string {
+  return sha256(canonicalJson({
+    wave: snapshot.wave,
+    sequence: snapshot.sequence,
+    entries: snapshot.entries,
+    ordering_hash: snapshot.ordering_hash,
+    previous_hash: snapshot.previous_hash,
+  }))
+}
+
+/**
+ * Fair FIFO queue per wave, with a tamper-evident history of every change in order
+ */
+export class WaitlistRanking {
+
+  /**
+   * The wave's current queue, first in line first
+   */
+  static async getQueue(wave: number): Promise<RankedApplication[]> {
+    const supabase = createServiceClient()
+
+    try {
+      const { data, error } = await supabase
+        .from('waitlist_applications')
+        .select(QUEUE_COLUMNS)
+        .eq('wave', wave)
+        .in('status', QUEUE_STATUSES)
+        .not('paid_at', 'is', null)
+
+      if (error) {
+        console.error('Database error fetching wave queue:', error)
+        throw new Error('Failed to fetch wave queue')
+      }
+
+      return rankApplications((data || []) as WaitlistApplication[])
+    } catch (error) {
+      console.error('Error in getQueue:', error)
+      throw error
+    }
+  }
+
+  /**
+   * An application's place in its wave's queue, or null when it isn't waiting for a seat
+   */
+  static async getPosition(application: WaitlistApplication): Promise<QueuePosition | null> {
+    if (!QUEUE_STATUSES.includes(application.status) || !application.paid_at) {
+      return null
+    }
+
+    const queue = await this.getQueue(application.wave)
+    const entry = queue.find(ranked => ranked.application_id === application.id)
+
+    return entry ? { wave: application.wave, position: entry.position, total: queue.length } : null
+  }
+
+  /**
+   * Record the wave's queue if its order changed since the last snapshot
+   * Returns the new snapshot, or null when the order is unchanged
+   */
+  static async snapshot(wave: number, reason: string): Promise<QueueSnapshot | null> {
+    const supabase = createServiceClient()
+
+    // A concurrent snapshot can take our sequence number; recompute on top of it once
+    for (let attempt = 1; attempt <= 2; attempt++) {
+      const [queue, latest] = await Promise.all([this.getQueue(wave), this.getLatestSnapshot(wave)])
+
+      const entries = queue.map(toQueueEntry)
+      const ordering_hash = orderingHash(entries)
+
+      if (latest?.ordering_hash === ordering_hash || (!latest && entries.length === 0)) {
+        return null
+      }
+
+      const snapshot = {
+        wave,
+        sequence: (latest?.sequence || 0) + 1,
+        reason,
+        entries,
+        ordering_hash,
+        previous_hash: latest?.snapshot_hash || '',
+      }
+
+      const { data, error } = await supabase
+        .from('queue_snapshots')
+        .insert([{ ...snapshot, snapshot_hash: snapshotHash(snapshot) }])
+        .select()
+        .single()
+
+      if (!error) {
+        return data as QueueSnapshot
+      }
+
+      if (error.code !== '23505' || attempt === 2) {
+        console.error('Database error recording queue snapshot:', error)
+        throw new Error('Failed to record queue snapshot')
+      }
+    }
+
+    return null
+  }
+
+  static async getLatestSnapshot(wave: number): Promise<QueueSnapshot | null> {
+    const supabase = createServiceClient()
+
+    const { data, error } = await supabase
+      .from('queue_snapshots')
+      .select('*')
+      .eq('wave', wave)
+      .order('sequence', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Database error fetching queue snapshot:', error)
+      throw new Error('Failed to fetch queue snapshot')
+    }
+
+    return data as QueueSnapshot | null
+  }
+
+  /**
+   * Recompute every snapshot hash in the wave's chain; any edited, removed or reordered snapshot breaks it
+   */
+  static async verifyChain(wave: number): Promise<QueueChainCheck> {
+    const supabase = createServiceClient()
+
+    const { data, error } = await supabase
+      .from('queue_snapshots')
+      .select('*')
+      .eq('wave', wave)
+      .order('sequence', { ascending: true })
+
+    if (error) {
+      console.error('Database error fetching queue snapshots:', error)
+      throw new Error('Failed to fetch queue snapshots')
+    }
+
+    const snapshots = (data || []) as QueueSnapshot[]
+    let previousHash = ''
+
+    for (const [index, snapshot] of snapshots.entries()) {
+      const intact = snapshot.sequence === index + 1
+        && snapshot.previous_hash === previousHash
+        && snapshot.ordering_hash === orderingHash(snapshot.entries)
+        && snapshot.snapshot_hash === snapshotHash(snapshot)
+
+      if (!intact) {
+        return { valid: false, snapshots: snapshots.length, broken_sequence: snapshot.sequence }
+      }
+
+      previousHash = snapshot.snapshot_hash
+    }
+
+    return { valid: true, snapshots: snapshots.length }
+  }
+}
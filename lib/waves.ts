@@ -0,0 +1,250 @@
+import { createServiceClient } from './supabase'
+import { DatabaseOperations } from './database'
+import { Wave, WaveScheduleChange, WaveSeats, WaveStatus, WaitlistTier } from '../types'
+
+export const WAITLIST_TIERS: readonly WaitlistTier[] = ['99', '199']
+
+export const WAVE_STATUSES: readonly WaveStatus[] = ['upcoming', 'open', 'full', 'closed']
+
+// Statuses in which a wave takes new applications (a full wave regains seats when holds lapse)
+export const RUNNING_WAVE_STATUSES: readonly WaveStatus[] = ['open', 'full']
+
+export interface WaveInput {
+  tier: WaitlistTier
+  total_seats: number
+  status?: WaveStatus
+  opens_at?: string | null
+  closes_at?: string | null
+}
+
+// A wave keeps its tier once created: applications and seat holds already point at it
+export type WaveUpdate = Partial<Omit<WaveInput, 'tier'>>
+
+export type WaveErrorCode = 'not_found' | 'invalid_schedule' | 'in_use'
+
+// HTTP status for each wave error, used by the admin waves API
+export const WAVE_ERROR_STATUS: Record<WaveErrorCode, number> = {
+  not_found: 404,
+  invalid_schedule: 400,
+  in_use: 409,
+}
+
+export class WaveError extends Error {
+  constructor(message: string, public code: WaveErrorCode) {
+    super(message)
+    this.name = 'WaveError'
+  }
+}
+
+/**
+ * Waves as data: admin CRUD, the open/close schedule (see sync_wave_schedule() in the Supabase migrations)
+ * and the current wave per tier that new applications join
+ */
+export class Waves {
+
+  /**
+   * All waves with their live seat counts, newest first
+   */
+  static async list(): Promise<WaveSeats[]> {
+    const supabase = createServiceClient()
+
+    try {
+      const [{ data, error }, seats] = await Promise.all([
+        supabase.from('waves').select('*').order('id', { ascending: false }),
+        DatabaseOperations.getSeatAvailability(),
+      ])
+
+      if (error) {
+        console.error('Database error listing waves:', error)
+        throw new Error('Failed to list waves')
+      }
+
+      return ((data || []) as Wave[]).map(wave => {
+        const count = seats.find(row => row.wave === wave.id)
+        const filled = count?.filled ?? 0
+
+        return {
+          ...wave,
+          filled_seats: filled,
+          available_seats: Math.max(wave.total_seats - filled, 0),
+        }
+      })
+    } catch (error) {
+      console.error('Error in list:', error)
+      throw error
+    }
+  }
+
+  /**
+   * The current wave of every tier with its seat count, for the public seat counters
+   */
+  static async getCurrentWaves(): Promise<Record<WaitlistTier, WaveSeats | null>> {
+    const waves = await this.list()
+
+    // Same choice as current_wave() (DatabaseOperations.getCurrentWave): open before full, then the oldest
+    const current = (tier: WaitlistTier) => waves
+      .filter(wave => wave.tier === tier && RUNNING_WAVE_STATUSES.includes(wave.status))
+      .sort((a, b) => Number(b.status === 'open') - Number(a.status === 'open') || a.id - b.id)[0] || null
+
+    return { '99': current('99'), '199': current('199') }
+  }
+
+  static async create(input: WaveInput, actor: string): Promise<Wave> {
+    const supabase = createServiceClient()
+    const wave = {
+      tier: input.tier,
+      total_seats: input.total_seats,
+      status: input.status || 'upcoming',
+      opens_at: input.opens_at || null,
+      closes_at: input.closes_at || null,
+    }
+
+    assertSchedule(wave)
+
+    const { data, error } = await supabase
+      .from('waves')
+      .insert([wave])
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Database error creating wave:', error)
+      throw new Error('Failed to create wave')
+    }
+
+    await this.settle(data as Wave, 'wave_created', actor, wave)
+    return data as Wave
+  }
+
+  static async update(id: number, changes: WaveUpdate, actor: string): Promise<Wave> {
+    const supabase = createServiceClient()
+    const existing = await this.getWave(id)
+
+    if (!existing) {
+      throw new WaveError('Wave not found', 'not_found')
+    }
+
+    assertSchedule({ ...existing, ...changes })
+
+    const { data, error } = await supabase
+      .from('waves')
+      .update(changes)
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Database error updating wave:', error)
+      throw new Error('Failed to update wave')
+    }
+
+    await this.settle(data as Wave, 'wave_updated', actor, changes)
+    return data as Wave
+  }
+
+  /**
+   * Delete a wave nobody has applied to; waves with applications are closed instead
+   */
+  static async delete(id: number, actor: string): Promise<void> {
+    const supabase = createServiceClient()
+    const existing = await this.getWave(id)
+
+    if (!existing) {
+      throw new WaveError('Wave not found', 'not_found')
+    }
+
+    const { error } = await supabase
+      .from('waves')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      // Foreign key violation: applications, seat holds or campaigns reference the wave
+      if (error.code === '23503') {
+        throw new WaveError('Wave has applications; close it instead', 'in_use')
+      }
+
+      console.error('Database error deleting wave:', error)
+      throw new Error('Failed to delete wave')
+    }
+
+    await DatabaseOperations.logSecurityEvent('wave_deleted', 'medium', {
+      user_identifier: actor,
+      event_data: { wave: id, tier: existing.tier },
+    })
+  }
+
+  /**
+   * Open and close waves on schedule; returns the waves that changed
+   */
+  static async syncSchedule(): Promise<WaveScheduleChange[]> {
+    const supabase = createServiceClient()
+
+    try {
+      const { data, error } = await supabase.rpc('sync_wave_schedule')
+
+      if (error) {
+        console.error('Database error syncing wave schedule:', error)
+        throw new Error('Failed to sync wave schedule')
+      }
+
+      const changes = (data || []) as WaveScheduleChange[]
+
+      if (changes.length > 0) {
+        // A wave that opens already at its cap goes straight to full
+        await DatabaseOperations.refreshSeatCounts()
+
+        await DatabaseOperations.logSecurityEvent('wave_schedule_applied', 'low', {
+          user_identifier: 'system:wave-schedule',
+          event_data: { changes },
+        })
+      }
+
+      return changes
+    } catch (error) {
+      console.error('Error in syncSchedule:', error)
+      throw error
+    }
+  }
+
+  private static async getWave(id: number): Promise<Wave | null> {
+    const supabase = createServiceClient()
+
+    const { data, error } = await supabase
+      .from('waves')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Database error fetching wave:', error)
+      throw new Error('Failed to fetch wave')
+    }
+
+    return data as Wave | null
+  }
+
+  /**
+   * Re-settle open/full against the new seat total and audit the admin change
+   */
+  private static async settle(wave: Wave, eventType: string, actor: string, changes: Record<string, any>): Promise<void> {
+    await DatabaseOperations.refreshSeatCounts()
+    await DatabaseOperations.logSecurityEvent(eventType, 'medium', {
+      user_identifier: actor,
+      event_data: { wave: wave.id, tier: wave.tier, changes },
+    })
+  }
+}
+
+/**
+ * Dates must be ordered, and a wave can't run past its closing time (the schedule would close it again)
+ */
+function assertSchedule(wave: Pick<WaveInput, 'status' | 'opens_at' | 'closes_at'>): void {
+  if (wave.opens_at && wave.closes_at && new Date(wave.opens_at) >= new Date(wave.closes_at)) {
+    throw new WaveError('opens_at must be before closes_at', 'invalid_schedule')
+  }
+
+  if (wave.status && RUNNING_WAVE_STATUSES.includes(wave.status) && wave.closes_at && new Date(wave.closes_at) <= new Date()) {
+    throw new WaveError('Wave has already closed; move closes_at to reopen it', 'invalid_schedule')
+  }
+}
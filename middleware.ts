@@ -66,7 +66,7 @@ export function middleware(request: NextRequest) {
     'Server': 'ProbWin.ai',
     
     // Cache control for sensitive pages
-    'Cache-Control': url.includes('/api/') || url.includes('/admin/') 
+    'Cache-Control': url.includes('/api/') || url.startsWith('/admin') 
       ? 'no-store, no-cache, must-revalidate, private'
       : 'public, max-age=0, must-revalidate',
   }
@@ -182,8 +182,8 @@ export function middleware(request: NextRequest) {
     response.headers.set('X-Detected-Bot', 'true')
   }
   
-  // Additional security for admin routes (when implemented)
-  if (url.startsWith('/admin/')) {
+  // Additional security for admin routes
+  if (url.startsWith('/admin')) {
     response.headers.set('X-Robots-Tag', 'noindex, nofollow, nosnippet, noarchive')
     response.headers.set('Cache-Control', 'no-store, no-cache, must-revalidate, private')
   }
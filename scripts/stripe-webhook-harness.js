@@ -0,0 +1,135 @@
+/**
+ * Local Stripe webhook harness
+ *
+ * Signs fixture events from scripts/fixtures/stripe with the webhook secret (Stripe's v1 scheme, via the SDK)
+ * and posts them to the webhook route of a running dev server, so the whole route can be exercised offline.
+ *
+ *   node --env-file=.env.local scripts/stripe-webhook-harness.js [fixture ...] [options]
+ *
+ * Options:
+ *   --url <url>              Webhook URL (default http://localhost:3000/api/stripe/webhook)
+ *   --application <uuid>     Fills {{application_id}}
+ *   --email <email>          Fills {{email}}
+ *   --session <cs_...>       Fills {{session_id}} (default: a generated test ID)
+ *   --payment-intent <pi_..> Fills {{payment_intent_id}} (default: a generated test ID)
+ *   --event-id <evt_...>     Reuse an event ID, e.g. to check duplicate deliveries are not re-processed
+ *   --repeat <n>             Deliver each event n times (default 1)
+ *   --bad-signature          Sign with a wrong secret; the route must answer 401
+ *
+ * With no fixture names, every fixture is sent in alphabetical order.
+ */
+
+const fs = require('fs')
+const path = require('path')
+const crypto = require('crypto')
+const Stripe = require('stripe')
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'stripe')
+
+function parseArgs(argv) {
+  const options = { fixtures: [], repeat: 1 }
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    const next = () => argv[++i]
+
+    switch (arg) {
+      case '--url': options.url = next(); break
+      case '--application': options.applicationId = next(); break
+      case '--email': options.email = next(); break
+      case '--session': options.sessionId = next(); break
+      case '--payment-intent': options.paymentIntentId = next(); break
+      case '--event-id': options.eventId = next(); break
+      case '--repeat': options.repeat = Math.max(1, parseInt(next(), 10) || 1); break
+      case '--bad-signature': options.badSignature = true; break
+      default: options.fixtures.push(arg.replace(/\.json$/, ''))
+    }
+  }
+
+  return options
+}
+
+const testId = (prefix) => `${prefix}_harness_${crypto.randomBytes(8).toString('hex')}`
+
+function loadFixture(name, values) {
+  const file = path.join(FIXTURES_DIR, `${name}.json`)
+
+  if (!fs.existsSync(file)) {
+    throw new Error(`Unknown fixture '${name}' (see ${FIXTURES_DIR})`)
+  }
+
+  const template = fs.readFileSync(file, 'utf8')
+  const rendered = template.replace(/\{\{(\w+)\}\}/g, (_, key) => {
+    if (values[key] === undefined) {
+      throw new Error(`Fixture '${name}' needs {{${key}}}, pass it as an option`)
+    }
+    return values[key]
+  })
+
+  const event = JSON.parse(rendered)
+  event.created = Math.floor(Date.now() / 1000)
+  return event
+}
+
+async function deliver(url, event, secret) {
+  const payload = JSON.stringify(event)
+  const signature = Stripe.webhooks.generateTestHeaderString({ payload, secret })
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Stripe-Signature': signature,
+      'User-Agent': 'Stripe/1.0 (+https://stripe.com/docs/webhooks) harness',
+    },
+    body: payload,
+  })
+
+  const body = await response.text()
+  return { status: response.status, body }
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2))
+  const secret = options.badSignature
+    ? `whsec_${crypto.randomBytes(24).toString('hex')}`
+    : process.env.STRIPE_WEBHOOK_SECRET
+
+  if (!secret) {
+    console.error('STRIPE_WEBHOOK_SECRET is not set (try: node --env-file=.env.local ...)')
+    process.exit(1)
+  }
+
+  const url = options.url || `${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}/api/stripe/webhook`
+  const fixtures = options.fixtures.length > 0
+    ? options.fixtures
+    : fs.readdirSync(FIXTURES_DIR).filter(file => file.endsWith('.json')).map(file => file.replace(/\.json$/, '')).sort()
+
+  const values = {
+    application_id: options.applicationId,
+    email: options.email || 'harness@example.com',
+    session_id: options.sessionId || testId('cs_test'),
+    payment_intent_id: options.paymentIntentId || testId('pi_test'),
+  }
+
+  let failures = 0
+
+  for (const name of fixtures) {
+    const event = loadFixture(name, { ...values, event_id: options.eventId || testId('evt') })
+
+    for (let attempt = 1; attempt <= options.repeat; attempt++) {
+      const { status, body } = await deliver(url, event, secret)
+      const expected = options.badSignature ? status === 401 : status >= 200 && status < 300
+
+      if (!expected) failures++
+      console.log(`${expected ? 'ok  ' : 'FAIL'} ${name} (${event.id}) #${attempt} -> ${status} ${body}`)
+    }
+  }
+
+  process.exit(failures > 0 ? 1 : 0)
+}
+
+main().catch(error => {
+  console.error(error.message)
+  process.exit(1)
+})
@@ -0,0 +1,156 @@
+-- Application lifecycle: legal status transitions and append-only status history
+-- Mirrors APPLICATION_TRANSITIONS in lib/application-lifecycle.ts
+
+-- Legal status transitions (keep in sync with lib/application-lifecycle.ts)
+CREATE OR REPLACE FUNCTION public.is_valid_status_transition(
+    p_from waitlist_status,
+    p_to waitlist_status
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+    RETURN CASE p_from
+        WHEN 'pending' THEN p_to IN ('interviewed', 'accepted', 'rejected', 'deferred')
+        WHEN 'interviewed' THEN p_to IN ('accepted', 'rejected', 'deferred')
+        WHEN 'accepted' THEN p_to IN ('activated', 'expired', 'deferred')
+        WHEN 'rejected' THEN p_to IN ('refunded')
+        WHEN 'deferred' THEN p_to IN ('pending', 'accepted', 'rejected')
+        ELSE false
+    END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Append-only status history
+CREATE TABLE IF NOT EXISTS public.application_status_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    application_id UUID NOT NULL REFERENCES public.waitlist_applications(id) ON DELETE CASCADE,
+    from_status waitlist_status,
+    to_status waitlist_status NOT NULL,
+    changed_by TEXT,
+    reason TEXT CHECK (reason IS NULL OR length(reason) <= 500),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_status_history_application
+ON public.application_status_history(application_id, created_at DESC);
+
+-- History rows can never be changed or removed
+CREATE OR REPLACE FUNCTION public.prevent_status_history_mutation()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'application_status_history is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER status_history_append_only
+    BEFORE UPDATE OR DELETE ON public.application_status_history
+    FOR EACH ROW
+    EXECUTE FUNCTION public.prevent_status_history_mutation();
+
+-- Reject illegal transitions regardless of which client writes the row
+CREATE OR REPLACE FUNCTION public.enforce_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status IS DISTINCT FROM OLD.status
+       AND NOT public.is_valid_status_transition(OLD.status, NEW.status) THEN
+        RAISE EXCEPTION 'Invalid status transition from % to %', OLD.status, NEW.status
+            USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER enforce_application_status_transition
+    BEFORE UPDATE OF status ON public.waitlist_applications
+    FOR EACH ROW
+    EXECUTE FUNCTION public.enforce_status_transition();
+
+-- Record every status change; actor and reason come from transaction-local settings
+CREATE OR REPLACE FUNCTION public.record_status_history()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+        INSERT INTO public.application_status_history (
+            application_id,
+            from_status,
+            to_status,
+            changed_by,
+            reason
+        ) VALUES (
+            NEW.id,
+            CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.status END,
+            NEW.status,
+            NULLIF(current_setting('app.status_changed_by', true), ''),
+            NULLIF(current_setting('app.status_change_reason', true), '')
+        );
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE TRIGGER record_application_status_history
+    AFTER INSERT OR UPDATE OF status ON public.waitlist_applications
+    FOR EACH ROW
+    EXECUTE FUNCTION public.record_status_history();
+
+-- Atomically move an application from an expected status to a new one.
+-- Returns no row when the application is no longer in p_from_status.
+CREATE OR REPLACE FUNCTION public.transition_application_status(
+    p_application_id UUID,
+    p_from_status waitlist_status,
+    p_to_status waitlist_status,
+    p_fields JSONB DEFAULT '{}'::JSONB,
+    p_changed_by TEXT DEFAULT NULL,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS SETOF public.waitlist_applications AS $$
+BEGIN
+    PERFORM set_config('app.status_changed_by', COALESCE(p_changed_by, ''), true);
+    PERFORM set_config('app.status_change_reason', COALESCE(p_reason, ''), true);
+
+    RETURN QUERY
+    UPDATE public.waitlist_applications
+    SET
+        status = p_to_status,
+        interview_completed_at = COALESCE((p_fields->>'interview_completed_at')::TIMESTAMPTZ, interview_completed_at),
+        decision_made_at = COALESCE((p_fields->>'decision_made_at')::TIMESTAMPTZ, decision_made_at),
+        decision_made_by = COALESCE((p_fields->>'decision_made_by')::UUID, decision_made_by),
+        activation_deadline = COALESCE((p_fields->>'activation_deadline')::TIMESTAMPTZ, activation_deadline),
+        deferred_until = COALESCE((p_fields->>'deferred_until')::TIMESTAMPTZ, deferred_until)
+    WHERE id = p_application_id
+      AND status = p_from_status
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ========================================
+-- Status History Policies
+-- ========================================
+
+ALTER TABLE public.application_status_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_all_access_status_history" ON public.application_status_history;
+DROP POLICY IF EXISTS "public_no_access_status_history" ON public.application_status_history;
+
+CREATE POLICY "service_role_all_access_status_history"
+ON public.application_status_history
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "public_no_access_status_history"
+ON public.application_status_history
+FOR ALL
+TO anon, authenticated
+USING (false)
+WITH CHECK (false);
+
+GRANT ALL ON public.application_status_history TO service_role;
+GRANT EXECUTE ON FUNCTION public.transition_application_status(UUID, waitlist_status, waitlist_status, JSONB, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.refresh_seat_counts() TO service_role;
+
+COMMENT ON TABLE public.application_status_history IS
+'Append-only record of every application status change, written by trigger';
+
+COMMENT ON FUNCTION public.transition_application_status(UUID, waitlist_status, waitlist_status, JSONB, TEXT, TEXT) IS
+'Compare-and-set status change used by ApplicationLifecycle; records actor and reason in status history';
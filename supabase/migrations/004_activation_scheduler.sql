@@ -0,0 +1,63 @@
+-- Activation hold, one-time applicant deferral and expiry to site credit
+-- Used by ActivationScheduler (lib/activation-scheduler.ts)
+
+ALTER TABLE public.waitlist_applications
+    ADD COLUMN IF NOT EXISTS activation_reminder_sent_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS deferral_requested_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS site_credit_cents INTEGER NOT NULL DEFAULT 0 CHECK (site_credit_cents >= 0),
+    ADD COLUMN IF NOT EXISTS site_credit_expires_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_applications_status_deferred_until
+ON public.waitlist_applications(status, deferred_until)
+WHERE status = 'deferred';
+
+-- Accepted applicants who deferred can still activate, or expire when the deferral ends
+-- (keep in sync with lib/application-lifecycle.ts)
+CREATE OR REPLACE FUNCTION public.is_valid_status_transition(
+    p_from waitlist_status,
+    p_to waitlist_status
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+    RETURN CASE p_from
+        WHEN 'pending' THEN p_to IN ('interviewed', 'accepted', 'rejected', 'deferred')
+        WHEN 'interviewed' THEN p_to IN ('accepted', 'rejected', 'deferred')
+        WHEN 'accepted' THEN p_to IN ('activated', 'expired', 'deferred')
+        WHEN 'rejected' THEN p_to IN ('refunded')
+        WHEN 'deferred' THEN p_to IN ('pending', 'accepted', 'rejected', 'activated', 'expired')
+        ELSE false
+    END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Transition function now also stamps deferral and site credit fields
+CREATE OR REPLACE FUNCTION public.transition_application_status(
+    p_application_id UUID,
+    p_from_status waitlist_status,
+    p_to_status waitlist_status,
+    p_fields JSONB DEFAULT '{}'::JSONB,
+    p_changed_by TEXT DEFAULT NULL,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS SETOF public.waitlist_applications AS $$
+BEGIN
+    PERFORM set_config('app.status_changed_by', COALESCE(p_changed_by, ''), true);
+    PERFORM set_config('app.status_change_reason', COALESCE(p_reason, ''), true);
+
+    RETURN QUERY
+    UPDATE public.waitlist_applications
+    SET
+        status = p_to_status,
+        interview_completed_at = COALESCE((p_fields->>'interview_completed_at')::TIMESTAMPTZ, interview_completed_at),
+        decision_made_at = COALESCE((p_fields->>'decision_made_at')::TIMESTAMPTZ, decision_made_at),
+        decision_made_by = COALESCE((p_fields->>'decision_made_by')::UUID, decision_made_by),
+        activation_deadline = COALESCE((p_fields->>'activation_deadline')::TIMESTAMPTZ, activation_deadline),
+        deferred_until = COALESCE((p_fields->>'deferred_until')::TIMESTAMPTZ, deferred_until),
+        deferral_requested_at = COALESCE((p_fields->>'deferral_requested_at')::TIMESTAMPTZ, deferral_requested_at),
+        site_credit_cents = COALESCE((p_fields->>'site_credit_cents')::INTEGER, site_credit_cents),
+        site_credit_expires_at = COALESCE((p_fields->>'site_credit_expires_at')::TIMESTAMPTZ, site_credit_expires_at)
+    WHERE id = p_application_id
+      AND status = p_from_status
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
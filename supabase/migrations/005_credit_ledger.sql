@@ -0,0 +1,124 @@
+-- Credit ledger for FastTrack fees and site credit
+-- Every movement is a signed row; a balance is the sum of rows per email and credit kind
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'credit_entry_type') THEN
+        CREATE TYPE credit_entry_type AS ENUM (
+            'issue',            -- FastTrack fee paid
+            'apply',            -- credited to the first membership payment
+            'convert',          -- no-show: FastTrack credit becomes site credit
+            'expire',           -- site credit not used within 6 months
+            'refund_reversal'   -- fee refunded, credit withdrawn
+        );
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'credit_kind') THEN
+        CREATE TYPE credit_kind AS ENUM ('fasttrack', 'site');
+    END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.credit_ledger (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    email TEXT NOT NULL,
+    application_id UUID REFERENCES public.waitlist_applications(id) ON DELETE SET NULL,
+    entry_type credit_entry_type NOT NULL,
+    credit_kind credit_kind NOT NULL,
+    amount_cents INTEGER NOT NULL CHECK (amount_cents <> 0),
+    expires_at TIMESTAMPTZ,
+    stripe_reference TEXT,
+    notes TEXT CHECK (notes IS NULL OR length(notes) <= 500),
+
+    CONSTRAINT credit_sign_matches_type CHECK (
+        (entry_type = 'issue' AND amount_cents > 0) OR
+        (entry_type IN ('apply', 'expire', 'refund_reversal') AND amount_cents < 0) OR
+        (entry_type = 'convert')
+    )
+);
+
+-- One movement of each kind per application, so retried webhooks and jobs are no-ops
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_ledger_application_movement
+ON public.credit_ledger(application_id, entry_type, credit_kind)
+WHERE application_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_credit_ledger_email
+ON public.credit_ledger(email, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_credit_ledger_site_expiry
+ON public.credit_ledger(expires_at)
+WHERE entry_type = 'convert' AND credit_kind = 'site';
+
+-- Ledger rows are never edited
+CREATE OR REPLACE FUNCTION public.prevent_credit_ledger_mutation()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'credit_ledger is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER credit_ledger_append_only
+    BEFORE UPDATE OR DELETE ON public.credit_ledger
+    FOR EACH ROW
+    EXECUTE FUNCTION public.prevent_credit_ledger_mutation();
+
+-- Expire site credit past its expiry date, capped at what is left for that application
+CREATE OR REPLACE FUNCTION public.expire_site_credits(p_now TIMESTAMPTZ DEFAULT NOW())
+RETURNS INTEGER AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    INSERT INTO public.credit_ledger (email, application_id, entry_type, credit_kind, amount_cents, notes)
+    SELECT
+        c.email,
+        c.application_id,
+        'expire',
+        'site',
+        -remaining.amount,
+        'Site credit expired'
+    FROM public.credit_ledger c
+    CROSS JOIN LATERAL (
+        SELECT SUM(l.amount_cents) AS amount
+        FROM public.credit_ledger l
+        WHERE l.application_id = c.application_id
+          AND l.credit_kind = 'site'
+    ) remaining
+    WHERE c.entry_type = 'convert'
+      AND c.credit_kind = 'site'
+      AND c.expires_at < p_now
+      AND remaining.amount > 0
+    ON CONFLICT DO NOTHING;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ========================================
+-- Credit Ledger Policies
+-- ========================================
+
+ALTER TABLE public.credit_ledger ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_all_access_credit_ledger" ON public.credit_ledger;
+DROP POLICY IF EXISTS "public_no_access_credit_ledger" ON public.credit_ledger;
+
+CREATE POLICY "service_role_all_access_credit_ledger"
+ON public.credit_ledger
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "public_no_access_credit_ledger"
+ON public.credit_ledger
+FOR ALL
+TO anon, authenticated
+USING (false)
+WITH CHECK (false);
+
+GRANT ALL ON public.credit_ledger TO service_role;
+GRANT EXECUTE ON FUNCTION public.expire_site_credits(TIMESTAMPTZ) TO service_role;
+
+COMMENT ON TABLE public.credit_ledger IS
+'Append-only ledger of FastTrack and site credit movements, see lib/credit-ledger.ts';
@@ -0,0 +1,20 @@
+-- Membership activation: subscription checkout linked to the accepted application
+-- Used by MembershipActivation (lib/membership-activation.ts)
+
+ALTER TABLE public.waitlist_applications
+    ADD COLUMN IF NOT EXISTS membership_plan TEXT CHECK (
+        membership_plan IS NULL OR membership_plan IN (
+            'founders_monthly',
+            'founders_annual',
+            'standard_monthly',
+            'standard_quarterly',
+            'standard_annual'
+        )
+    ),
+    ADD COLUMN IF NOT EXISTS membership_checkout_session_id TEXT UNIQUE,
+    ADD COLUMN IF NOT EXISTS stripe_subscription_id TEXT UNIQUE,
+    ADD COLUMN IF NOT EXISTS activated_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_applications_stripe_subscription
+ON public.waitlist_applications(stripe_subscription_id)
+WHERE stripe_subscription_id IS NOT NULL;
@@ -0,0 +1,157 @@
+-- Wave invitation campaigns for the free waitlist
+-- A campaign invites batches of free signups to one wave; each invitation link is valid for the campaign window
+
+CREATE TABLE IF NOT EXISTS public.invitation_campaigns (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    name TEXT NOT NULL CHECK (length(name) >= 2 AND length(name) <= 100),
+    wave_id INTEGER NOT NULL REFERENCES public.waves(id),
+    window_hours INTEGER NOT NULL CHECK (window_hours > 0 AND window_hours <= 720),
+    created_by TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.campaign_invitations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    campaign_id UUID NOT NULL REFERENCES public.invitation_campaigns(id) ON DELETE CASCADE,
+    free_signup_id UUID NOT NULL REFERENCES public.free_waitlist(id) ON DELETE CASCADE,
+    email TEXT NOT NULL,
+    sent_at TIMESTAMPTZ,
+    expires_at TIMESTAMPTZ,
+    opened_at TIMESTAMPTZ,
+    clicked_at TIMESTAMPTZ,
+    converted_at TIMESTAMPTZ,
+    application_id UUID REFERENCES public.waitlist_applications(id) ON DELETE SET NULL,
+    last_error TEXT,
+
+    CONSTRAINT unique_campaign_invitee UNIQUE (campaign_id, free_signup_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_invitations_unsent
+ON public.campaign_invitations(campaign_id, created_at)
+WHERE sent_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_campaign_invitations_email
+ON public.campaign_invitations(email, sent_at DESC);
+
+-- Queue the next batch: top up to p_limit unsent invitations with free signups
+-- (oldest first) that are subscribed, unconverted and not yet invited to this wave
+CREATE OR REPLACE FUNCTION public.queue_campaign_invitations(
+    p_campaign_id UUID,
+    p_limit INTEGER
+)
+RETURNS TABLE (
+    id UUID,
+    free_signup_id UUID,
+    email TEXT,
+    full_name TEXT
+) AS $$
+DECLARE
+    v_wave_id INTEGER;
+    v_unsent INTEGER;
+BEGIN
+    SELECT c.wave_id INTO v_wave_id
+    FROM public.invitation_campaigns c
+    WHERE c.id = p_campaign_id;
+
+    IF v_wave_id IS NULL THEN
+        RAISE EXCEPTION 'Campaign % not found', p_campaign_id;
+    END IF;
+
+    SELECT COUNT(*) INTO v_unsent
+    FROM public.campaign_invitations i
+    WHERE i.campaign_id = p_campaign_id AND i.sent_at IS NULL;
+
+    INSERT INTO public.campaign_invitations (campaign_id, free_signup_id, email)
+    SELECT p_campaign_id, f.id, f.email
+    FROM public.free_waitlist f
+    WHERE f.unsubscribed_at IS NULL
+      AND f.converted_to_paid_at IS NULL
+      AND NOT EXISTS (
+          SELECT 1
+          FROM public.campaign_invitations i
+          JOIN public.invitation_campaigns c ON c.id = i.campaign_id
+          WHERE i.free_signup_id = f.id AND c.wave_id = v_wave_id
+      )
+    ORDER BY f.created_at
+    LIMIT GREATEST(p_limit - v_unsent, 0)
+    ON CONFLICT ON CONSTRAINT unique_campaign_invitee DO NOTHING;
+
+    -- Unsubscribes after queueing are honored here
+    RETURN QUERY
+    SELECT i.id, i.free_signup_id, i.email, f.full_name
+    FROM public.campaign_invitations i
+    JOIN public.free_waitlist f ON f.id = i.free_signup_id
+    WHERE i.campaign_id = p_campaign_id
+      AND i.sent_at IS NULL
+      AND f.unsubscribed_at IS NULL
+    ORDER BY i.created_at
+    LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Funnel counts per campaign
+CREATE OR REPLACE VIEW public.invitation_campaign_stats AS
+SELECT
+    c.id,
+    c.created_at,
+    c.name,
+    c.wave_id,
+    c.window_hours,
+    c.created_by,
+    COUNT(i.id) FILTER (WHERE i.sent_at IS NOT NULL) AS sent,
+    COUNT(i.id) FILTER (WHERE i.sent_at IS NULL) AS queued,
+    COUNT(i.id) FILTER (WHERE i.opened_at IS NOT NULL) AS opened,
+    COUNT(i.id) FILTER (WHERE i.clicked_at IS NOT NULL) AS clicked,
+    COUNT(i.id) FILTER (WHERE i.converted_at IS NOT NULL) AS converted
+FROM public.invitation_campaigns c
+LEFT JOIN public.campaign_invitations i ON i.campaign_id = c.id
+GROUP BY c.id;
+
+-- ========================================
+-- Campaign Policies
+-- ========================================
+
+ALTER TABLE public.invitation_campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.campaign_invitations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_all_access_invitation_campaigns" ON public.invitation_campaigns;
+DROP POLICY IF EXISTS "public_no_access_invitation_campaigns" ON public.invitation_campaigns;
+DROP POLICY IF EXISTS "service_role_all_access_campaign_invitations" ON public.campaign_invitations;
+DROP POLICY IF EXISTS "public_no_access_campaign_invitations" ON public.campaign_invitations;
+
+CREATE POLICY "service_role_all_access_invitation_campaigns"
+ON public.invitation_campaigns
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "public_no_access_invitation_campaigns"
+ON public.invitation_campaigns
+FOR ALL
+TO anon, authenticated
+USING (false)
+WITH CHECK (false);
+
+CREATE POLICY "service_role_all_access_campaign_invitations"
+ON public.campaign_invitations
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "public_no_access_campaign_invitations"
+ON public.campaign_invitations
+FOR ALL
+TO anon, authenticated
+USING (false)
+WITH CHECK (false);
+
+GRANT ALL ON public.invitation_campaigns TO service_role;
+GRANT ALL ON public.campaign_invitations TO service_role;
+GRANT SELECT ON public.invitation_campaign_stats TO service_role;
+GRANT EXECUTE ON FUNCTION public.queue_campaign_invitations(UUID, INTEGER) TO service_role;
+
+COMMENT ON TABLE public.campaign_invitations IS
+'One row per free signup invited to a campaign, with open/click/conversion tracking, see lib/invitation-campaigns.ts';
@@ -0,0 +1,38 @@
+-- Applicant self-service status portal (magic link)
+-- Withdrawals are rejections stamped with withdrawn_at, so the refund runs through the normal reject path
+
+ALTER TABLE public.waitlist_applications
+    ADD COLUMN IF NOT EXISTS withdrawn_at TIMESTAMPTZ;
+
+-- Transition function now also stamps withdrawals
+CREATE OR REPLACE FUNCTION public.transition_application_status(
+    p_application_id UUID,
+    p_from_status waitlist_status,
+    p_to_status waitlist_status,
+    p_fields JSONB DEFAULT '{}'::JSONB,
+    p_changed_by TEXT DEFAULT NULL,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS SETOF public.waitlist_applications AS $$
+BEGIN
+    PERFORM set_config('app.status_changed_by', COALESCE(p_changed_by, ''), true);
+    PERFORM set_config('app.status_change_reason', COALESCE(p_reason, ''), true);
+
+    RETURN QUERY
+    UPDATE public.waitlist_applications
+    SET
+        status = p_to_status,
+        interview_completed_at = COALESCE((p_fields->>'interview_completed_at')::TIMESTAMPTZ, interview_completed_at),
+        decision_made_at = COALESCE((p_fields->>'decision_made_at')::TIMESTAMPTZ, decision_made_at),
+        decision_made_by = COALESCE((p_fields->>'decision_made_by')::UUID, decision_made_by),
+        activation_deadline = COALESCE((p_fields->>'activation_deadline')::TIMESTAMPTZ, activation_deadline),
+        deferred_until = COALESCE((p_fields->>'deferred_until')::TIMESTAMPTZ, deferred_until),
+        deferral_requested_at = COALESCE((p_fields->>'deferral_requested_at')::TIMESTAMPTZ, deferral_requested_at),
+        site_credit_cents = COALESCE((p_fields->>'site_credit_cents')::INTEGER, site_credit_cents),
+        site_credit_expires_at = COALESCE((p_fields->>'site_credit_expires_at')::TIMESTAMPTZ, site_credit_expires_at),
+        withdrawn_at = COALESCE((p_fields->>'withdrawn_at')::TIMESTAMPTZ, withdrawn_at)
+    WHERE id = p_application_id
+      AND status = p_from_status
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
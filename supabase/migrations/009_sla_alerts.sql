@@ -0,0 +1,45 @@
+-- Review SLA alerts
+-- One row per application deadline and alert level, so the hourly SLA monitor alerts reviewers once per deadline
+
+CREATE TABLE IF NOT EXISTS public.sla_alerts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    application_id UUID NOT NULL REFERENCES public.waitlist_applications(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL CHECK (kind IN ('interview', 'decision')),
+    level TEXT NOT NULL CHECK (level IN ('at_risk', 'breached')),
+    -- A new interview or decision clock (e.g. after an interview) gets its own alerts
+    due_at TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT unique_sla_alert UNIQUE (application_id, kind, level, due_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sla_alerts_application
+ON public.sla_alerts(application_id, created_at DESC);
+
+-- ========================================
+-- SLA Alert Policies
+-- ========================================
+
+ALTER TABLE public.sla_alerts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_all_access_sla_alerts" ON public.sla_alerts;
+DROP POLICY IF EXISTS "public_no_access_sla_alerts" ON public.sla_alerts;
+
+CREATE POLICY "service_role_all_access_sla_alerts"
+ON public.sla_alerts
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "public_no_access_sla_alerts"
+ON public.sla_alerts
+FOR ALL
+TO anon, authenticated
+USING (false)
+WITH CHECK (false);
+
+GRANT ALL ON public.sla_alerts TO service_role;
+
+COMMENT ON TABLE public.sla_alerts IS
+'Review SLA alerts already raised (at risk / breached per deadline), see SlaMonitor in lib/sla.ts';
@@ -0,0 +1,83 @@
+-- Stripe webhook event store
+-- Every delivery is recorded by event ID; a worker must claim an event before running its side effects,
+-- so retries and concurrent deliveries of the same event are processed once
+
+CREATE TABLE IF NOT EXISTS public.stripe_events (
+    -- Stripe event ID (evt_...)
+    id TEXT PRIMARY KEY,
+    received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    type TEXT NOT NULL,
+    livemode BOOLEAN NOT NULL DEFAULT false,
+    stripe_created_at TIMESTAMPTZ,
+    payload JSONB NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'processed', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0 CHECK (attempts >= 0),
+    last_error TEXT,
+    processing_started_at TIMESTAMPTZ,
+    processed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_events_status
+ON public.stripe_events(status, received_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_events_type
+ON public.stripe_events(type, received_at DESC);
+
+CREATE OR REPLACE TRIGGER update_stripe_events_updated_at
+    BEFORE UPDATE ON public.stripe_events
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Claim an event for processing: pending and failed events, or processing claims older than
+-- p_stale_seconds (a worker that died mid-event). Returns no row if another worker holds it or it is done.
+CREATE OR REPLACE FUNCTION public.claim_stripe_event(
+    p_event_id TEXT,
+    p_stale_seconds INTEGER DEFAULT 300
+)
+RETURNS SETOF public.stripe_events AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE public.stripe_events
+    SET
+        status = 'processing',
+        attempts = attempts + 1,
+        processing_started_at = NOW(),
+        last_error = NULL
+    WHERE id = p_event_id
+      AND (
+          status IN ('pending', 'failed')
+          OR (status = 'processing' AND processing_started_at < NOW() - make_interval(secs => p_stale_seconds))
+      )
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ========================================
+-- Stripe Event Policies
+-- ========================================
+
+ALTER TABLE public.stripe_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_all_access_stripe_events" ON public.stripe_events;
+DROP POLICY IF EXISTS "public_no_access_stripe_events" ON public.stripe_events;
+
+CREATE POLICY "service_role_all_access_stripe_events"
+ON public.stripe_events
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "public_no_access_stripe_events"
+ON public.stripe_events
+FOR ALL
+TO anon, authenticated
+USING (false)
+WITH CHECK (false);
+
+GRANT ALL ON public.stripe_events TO service_role;
+GRANT EXECUTE ON FUNCTION public.claim_stripe_event(TEXT, INTEGER) TO service_role;
+
+COMMENT ON TABLE public.stripe_events IS
+'Stripe webhook deliveries with processing status for exactly-once handling and replay, see lib/stripe-events.ts';
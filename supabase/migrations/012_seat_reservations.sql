@@ -0,0 +1,262 @@
+-- Seat reservations
+-- A seat is reserved atomically when checkout starts, held for the Checkout session's lifetime,
+-- converted on payment and released when the session expires. Unpaid applications without a live
+-- hold no longer count against the wave, and waves flip between 'open' and 'full' with the count.
+
+CREATE TABLE IF NOT EXISTS public.seat_reservations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    application_id UUID NOT NULL REFERENCES public.waitlist_applications(id) ON DELETE CASCADE,
+    wave INTEGER NOT NULL REFERENCES public.waves(id),
+    status TEXT NOT NULL DEFAULT 'held' CHECK (status IN ('held', 'converted', 'released')),
+    expires_at TIMESTAMPTZ NOT NULL,
+    checkout_session_id TEXT,
+    converted_at TIMESTAMPTZ,
+    released_at TIMESTAMPTZ,
+    release_reason TEXT,
+
+    -- One reservation per application; a new checkout re-holds the same row
+    CONSTRAINT unique_seat_reservation_application UNIQUE (application_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_seat_reservations_live
+ON public.seat_reservations(wave, expires_at)
+WHERE status = 'held';
+
+CREATE OR REPLACE TRIGGER update_seat_reservations_updated_at
+    BEFORE UPDATE ON public.seat_reservations
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Seats taken in a wave: decided or paid applications, plus unpaid ones holding a live reservation
+CREATE OR REPLACE FUNCTION public.wave_taken_seats(p_wave INTEGER)
+RETURNS INTEGER AS $$
+    SELECT COUNT(*)::INTEGER
+    FROM public.waitlist_applications a
+    WHERE a.wave = p_wave
+      AND a.status NOT IN ('rejected', 'refunded', 'expired')
+      AND (
+          a.status <> 'pending'
+          OR a.stripe_payment_intent_id IS NOT NULL
+          OR EXISTS (
+              SELECT 1
+              FROM public.seat_reservations r
+              WHERE r.application_id = a.id
+                AND (r.status = 'converted' OR (r.status = 'held' AND r.expires_at > NOW()))
+          )
+      );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Flip an open wave to 'full' at the cap and back to 'open' when seats are released
+-- Upcoming and closed waves are left alone
+CREATE OR REPLACE FUNCTION public.sync_wave_status(p_wave INTEGER)
+RETURNS wave_status AS $$
+DECLARE
+    v_status wave_status;
+BEGIN
+    UPDATE public.waves w
+    SET status = CASE
+        WHEN public.wave_taken_seats(w.id) >= w.total_seats THEN 'full'::wave_status
+        ELSE 'open'::wave_status
+    END
+    WHERE w.id = p_wave
+      AND w.status IN ('open', 'full')
+    RETURNING w.status INTO v_status;
+
+    RETURN v_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Reserve a seat for an application's checkout
+-- The wave row lock serializes reservations, so concurrent checkouts can't oversell the last seats.
+-- Returns the live reservation (extended if one exists), or no row when the wave is not open or full.
+CREATE OR REPLACE FUNCTION public.reserve_seat(
+    p_application_id UUID,
+    p_hold_seconds INTEGER
+)
+RETURNS SETOF public.seat_reservations AS $$
+DECLARE
+    v_wave_id INTEGER;
+    v_wave public.waves%ROWTYPE;
+    v_reservation public.seat_reservations%ROWTYPE;
+    v_expires_at TIMESTAMPTZ := NOW() + make_interval(secs => p_hold_seconds);
+BEGIN
+    SELECT wave INTO v_wave_id
+    FROM public.waitlist_applications
+    WHERE id = p_application_id;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    SELECT * INTO v_wave
+    FROM public.waves
+    WHERE id = v_wave_id
+    FOR UPDATE;
+
+    -- Already holding a seat: keep it for the new checkout
+    UPDATE public.seat_reservations
+    SET expires_at = GREATEST(expires_at, v_expires_at)
+    WHERE application_id = p_application_id
+      AND status = 'held'
+      AND expires_at > NOW()
+    RETURNING * INTO v_reservation;
+
+    IF FOUND THEN
+        RETURN NEXT v_reservation;
+        RETURN;
+    END IF;
+
+    IF v_wave.status NOT IN ('open', 'full') THEN
+        RETURN;
+    END IF;
+
+    IF public.wave_taken_seats(v_wave.id) >= v_wave.total_seats THEN
+        PERFORM public.sync_wave_status(v_wave.id);
+        RETURN;
+    END IF;
+
+    INSERT INTO public.seat_reservations (application_id, wave, expires_at)
+    VALUES (p_application_id, v_wave.id, v_expires_at)
+    ON CONFLICT (application_id) DO UPDATE
+    SET
+        status = 'held',
+        wave = EXCLUDED.wave,
+        expires_at = EXCLUDED.expires_at,
+        checkout_session_id = NULL,
+        released_at = NULL,
+        release_reason = NULL
+    WHERE public.seat_reservations.status <> 'converted'
+    RETURNING * INTO v_reservation;
+
+    PERFORM public.sync_wave_status(v_wave.id);
+
+    IF v_reservation.id IS NOT NULL THEN
+        RETURN NEXT v_reservation;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Payment received: the hold becomes a permanent seat (even if the hold lapsed while paying)
+CREATE OR REPLACE FUNCTION public.convert_seat_reservation(p_application_id UUID)
+RETURNS SETOF public.seat_reservations AS $$
+DECLARE
+    v_reservation public.seat_reservations%ROWTYPE;
+BEGIN
+    UPDATE public.seat_reservations
+    SET
+        status = 'converted',
+        converted_at = NOW(),
+        released_at = NULL,
+        release_reason = NULL
+    WHERE application_id = p_application_id
+      AND status <> 'converted'
+    RETURNING * INTO v_reservation;
+
+    IF FOUND THEN
+        PERFORM public.sync_wave_status(v_reservation.wave);
+        RETURN NEXT v_reservation;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Checkout abandoned: give the seat back
+CREATE OR REPLACE FUNCTION public.release_seat_reservation(
+    p_application_id UUID,
+    p_reason TEXT
+)
+RETURNS SETOF public.seat_reservations AS $$
+DECLARE
+    v_reservation public.seat_reservations%ROWTYPE;
+BEGIN
+    UPDATE public.seat_reservations
+    SET
+        status = 'released',
+        released_at = NOW(),
+        release_reason = p_reason
+    WHERE application_id = p_application_id
+      AND status = 'held'
+    RETURNING * INTO v_reservation;
+
+    IF FOUND THEN
+        PERFORM public.sync_wave_status(v_reservation.wave);
+        RETURN NEXT v_reservation;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Public seat counts now use the same definition of a taken seat
+DROP MATERIALIZED VIEW IF EXISTS public.v_seat_counts;
+
+CREATE MATERIALIZED VIEW public.v_seat_counts AS
+WITH wave_counts AS (
+    SELECT
+        w.id AS wave,
+        w.tier,
+        w.total_seats,
+        w.status AS wave_status,
+        public.wave_taken_seats(w.id)::BIGINT AS filled_seats
+    FROM public.waves w
+)
+SELECT
+    wave,
+    tier,
+    total_seats,
+    filled_seats,
+    GREATEST(total_seats - filled_seats, 0)::INTEGER AS available_seats,
+    CASE
+        WHEN total_seats > 0 THEN ROUND((filled_seats::NUMERIC / total_seats) * 100, 2)
+        ELSE 0
+    END AS fill_percentage,
+    NOW() AS last_updated
+FROM wave_counts;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_v_seat_counts_wave
+ON public.v_seat_counts(wave);
+
+-- Refreshing the counts also settles wave status (holds expire without a row change)
+CREATE OR REPLACE FUNCTION public.refresh_seat_counts()
+RETURNS void AS $$
+BEGIN
+    REFRESH MATERIALIZED VIEW CONCURRENTLY public.v_seat_counts;
+
+    PERFORM public.sync_wave_status(w.id)
+    FROM public.waves w
+    WHERE w.status IN ('open', 'full');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ========================================
+-- Seat Reservation Policies
+-- ========================================
+
+ALTER TABLE public.seat_reservations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_all_access_seat_reservations" ON public.seat_reservations;
+DROP POLICY IF EXISTS "public_no_access_seat_reservations" ON public.seat_reservations;
+
+CREATE POLICY "service_role_all_access_seat_reservations"
+ON public.seat_reservations
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "public_no_access_seat_reservations"
+ON public.seat_reservations
+FOR ALL
+TO anon, authenticated
+USING (false)
+WITH CHECK (false);
+
+GRANT ALL ON public.seat_reservations TO service_role;
+GRANT SELECT ON public.v_seat_counts TO service_role;
+GRANT EXECUTE ON FUNCTION public.wave_taken_seats(INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.sync_wave_status(INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.reserve_seat(UUID, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.convert_seat_reservation(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.release_seat_reservation(UUID, TEXT) TO service_role;
+
+COMMENT ON TABLE public.seat_reservations IS
+'Seat held for an application while its checkout is open, see lib/seat-reservations.ts';
@@ -0,0 +1,67 @@
+-- Wave schedule
+-- Waves are managed as data: admins create and edit them, upcoming waves open at opens_at and
+-- waves close at closes_at. New applications join the tier's current wave instead of a fixed one.
+
+-- Admin-created waves get the next wave number
+CREATE SEQUENCE IF NOT EXISTS public.waves_id_seq OWNED BY public.waves.id;
+
+SELECT setval('public.waves_id_seq', COALESCE((SELECT MAX(id) FROM public.waves), 0) + 1, false);
+
+ALTER TABLE public.waves
+ALTER COLUMN id SET DEFAULT nextval('public.waves_id_seq');
+
+ALTER TABLE public.waves
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+CREATE OR REPLACE TRIGGER update_waves_updated_at
+    BEFORE UPDATE ON public.waves
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_waves_tier_status
+ON public.waves(tier, status);
+
+-- The wave new applications for a tier join: the oldest open wave, else the oldest full one
+-- (seats come back to a full wave when holds lapse). No row when the tier has no running wave.
+CREATE OR REPLACE FUNCTION public.current_wave(p_tier waitlist_tier)
+RETURNS SETOF public.waves AS $$
+    SELECT *
+    FROM public.waves w
+    WHERE w.tier = p_tier
+      AND w.status IN ('open', 'full')
+    ORDER BY (w.status = 'open') DESC, w.id ASC
+    LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Apply the schedule: close waves past closes_at, open upcoming waves past opens_at
+-- Waves without dates are left to admins. Returns the waves that changed.
+CREATE OR REPLACE FUNCTION public.sync_wave_schedule()
+RETURNS TABLE(wave INTEGER, tier waitlist_tier, status wave_status) AS $$
+    WITH closed AS (
+        UPDATE public.waves w
+        SET status = 'closed'
+        WHERE w.status IN ('upcoming', 'open', 'full')
+          AND w.closes_at IS NOT NULL
+          AND w.closes_at <= NOW()
+        RETURNING w.id, w.tier, w.status
+    ),
+    opened AS (
+        UPDATE public.waves w
+        SET status = 'open'
+        WHERE w.status = 'upcoming'
+          AND w.opens_at IS NOT NULL
+          AND w.opens_at <= NOW()
+          AND (w.closes_at IS NULL OR w.closes_at > NOW())
+        RETURNING w.id, w.tier, w.status
+    )
+    SELECT * FROM closed
+    UNION ALL
+    SELECT * FROM opened;
+$$ LANGUAGE sql VOLATILE SECURITY DEFINER;
+
+GRANT USAGE, SELECT ON SEQUENCE public.waves_id_seq TO service_role;
+GRANT EXECUTE ON FUNCTION public.current_wave(waitlist_tier) TO service_role;
+GRANT EXECUTE ON FUNCTION public.sync_wave_schedule() TO service_role;
+
+COMMENT ON FUNCTION public.sync_wave_schedule() IS
+'Opens and closes waves by opens_at/closes_at, run by /api/cron/waves, see lib/waves.ts';
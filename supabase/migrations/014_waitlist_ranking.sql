@@ -0,0 +1,125 @@
+-- Waitlist ranking
+-- Seats are allocated first come, first served after interviews. Payment order comes from a server-side
+-- timestamp and counter stamped when the payment is recorded, and every change in a wave's queue order is
+-- kept as an append-only, hash-chained snapshot (see lib/waitlist-ranking.ts).
+
+ALTER TABLE public.waitlist_applications
+ADD COLUMN IF NOT EXISTS paid_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS paid_sequence BIGINT;
+
+CREATE SEQUENCE IF NOT EXISTS public.waitlist_payment_seq;
+
+-- Backfill paid applications in payment order (the seat conversion time where there is one)
+WITH paid AS (
+    SELECT
+        a.id,
+        COALESCE(r.converted_at, a.created_at) AS paid_at,
+        ROW_NUMBER() OVER (ORDER BY COALESCE(r.converted_at, a.created_at), a.created_at, a.id) AS paid_sequence
+    FROM public.waitlist_applications a
+    LEFT JOIN public.seat_reservations r ON r.application_id = a.id
+    WHERE a.stripe_payment_intent_id IS NOT NULL
+      AND a.paid_at IS NULL
+)
+UPDATE public.waitlist_applications a
+SET
+    paid_at = paid.paid_at,
+    paid_sequence = paid.paid_sequence
+FROM paid
+WHERE a.id = paid.id;
+
+SELECT setval(
+    'public.waitlist_payment_seq',
+    COALESCE((SELECT MAX(paid_sequence) FROM public.waitlist_applications), 0) + 1,
+    false
+);
+
+-- Stamp the payment time and counter once, when the payment intent is first recorded
+-- Later writes can't move an applicant in the queue
+CREATE OR REPLACE FUNCTION public.stamp_application_payment()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND OLD.paid_at IS NOT NULL THEN
+        NEW.paid_at := OLD.paid_at;
+        NEW.paid_sequence := OLD.paid_sequence;
+    ELSIF NEW.stripe_payment_intent_id IS NOT NULL THEN
+        NEW.paid_at := NOW();
+        NEW.paid_sequence := nextval('public.waitlist_payment_seq');
+    ELSE
+        NEW.paid_at := NULL;
+        NEW.paid_sequence := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER stamp_waitlist_applications_payment
+    BEFORE INSERT OR UPDATE ON public.waitlist_applications
+    FOR EACH ROW
+    EXECUTE FUNCTION public.stamp_application_payment();
+
+CREATE INDEX IF NOT EXISTS idx_applications_wave_queue
+ON public.waitlist_applications(wave, paid_sequence)
+WHERE status IN ('pending', 'interviewed') AND paid_at IS NOT NULL;
+
+-- Queue order snapshots, one chain per wave
+CREATE TABLE IF NOT EXISTS public.queue_snapshots (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    wave INTEGER NOT NULL REFERENCES public.waves(id),
+    sequence INTEGER NOT NULL CHECK (sequence > 0),
+    reason TEXT,
+    entries JSONB NOT NULL,
+    -- SHA-256 of the ordered application IDs, to detect order changes
+    ordering_hash TEXT NOT NULL,
+    -- Hash of the previous snapshot in the wave ('' for the first) and of this one, chaining them
+    previous_hash TEXT NOT NULL,
+    snapshot_hash TEXT NOT NULL,
+
+    CONSTRAINT unique_queue_snapshot_sequence UNIQUE (wave, sequence)
+);
+
+CREATE INDEX IF NOT EXISTS idx_queue_snapshots_wave
+ON public.queue_snapshots(wave, sequence DESC);
+
+-- Snapshots are append-only
+CREATE OR REPLACE FUNCTION public.prevent_queue_snapshot_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'queue_snapshots is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER queue_snapshots_append_only
+    BEFORE UPDATE OR DELETE ON public.queue_snapshots
+    FOR EACH ROW
+    EXECUTE FUNCTION public.prevent_queue_snapshot_changes();
+
+-- ========================================
+-- Queue Snapshot Policies
+-- ========================================
+
+ALTER TABLE public.queue_snapshots ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_all_access_queue_snapshots" ON public.queue_snapshots;
+DROP POLICY IF EXISTS "public_no_access_queue_snapshots" ON public.queue_snapshots;
+
+CREATE POLICY "service_role_all_access_queue_snapshots"
+ON public.queue_snapshots
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "public_no_access_queue_snapshots"
+ON public.queue_snapshots
+FOR ALL
+TO anon, authenticated
+USING (false)
+WITH CHECK (false);
+
+GRANT SELECT, INSERT ON public.queue_snapshots TO service_role;
+GRANT USAGE, SELECT ON SEQUENCE public.waitlist_payment_seq TO service_role;
+
+COMMENT ON TABLE public.queue_snapshots IS
+'Hash-chained record of each change in a wave''s queue order, see lib/waitlist-ranking.ts';
@@ -0,0 +1,37 @@
+-- Fraud scoring
+-- Applications are scored 0-1 at apply time and again on payment (see lib/fraud-scoring.ts). The reasons
+-- behind a score are kept with it, and high scores flag the application for review or put it on hold.
+
+ALTER TABLE public.waitlist_applications
+ADD COLUMN IF NOT EXISTS recaptcha_score NUMERIC(3,2) CHECK (recaptcha_score IS NULL OR (recaptcha_score >= 0 AND recaptcha_score <= 1)),
+ADD COLUMN IF NOT EXISTS fraud_reasons JSONB NOT NULL DEFAULT '[]'::JSONB,
+ADD COLUMN IF NOT EXISTS fraud_status TEXT NOT NULL DEFAULT 'clear' CHECK (fraud_status IN ('clear', 'review', 'hold')),
+ADD COLUMN IF NOT EXISTS fraud_scored_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS fraud_reviewed_by TEXT,
+ADD COLUMN IF NOT EXISTS fraud_reviewed_at TIMESTAMPTZ;
+
+ALTER TABLE public.waitlist_applications
+DROP CONSTRAINT IF EXISTS valid_fraud_score;
+
+ALTER TABLE public.waitlist_applications
+ADD CONSTRAINT valid_fraud_score CHECK (fraud_score IS NULL OR (fraud_score >= 0 AND fraud_score <= 1));
+
+CREATE INDEX IF NOT EXISTS idx_applications_fraud_status
+ON public.waitlist_applications(fraud_status, fraud_scored_at DESC)
+WHERE fraud_status <> 'clear';
+
+-- Duplicate-device lookups
+CREATE INDEX IF NOT EXISTS idx_applications_device
+ON public.waitlist_applications(ip_address, user_agent);
+
+-- Velocity lookups
+CREATE INDEX IF NOT EXISTS idx_security_audit_ip_created_at
+ON public.security_audit_log(ip_address, created_at DESC)
+WHERE ip_address IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_security_audit_identifier_created_at
+ON public.security_audit_log(user_identifier, created_at DESC)
+WHERE user_identifier IS NOT NULL;
+
+COMMENT ON COLUMN public.waitlist_applications.fraud_reasons IS
+'Signals behind fraud_score as [{signal, weight, detail}], see lib/fraud-scoring.ts';
@@ -0,0 +1,84 @@
+-- Contact verification
+-- Applicants confirm their email and phone with one-time codes (see lib/contact-verification.ts).
+-- Codes are stored as keyed hashes with an expiry and an attempt limit, and checkout can require
+-- a verified contact per tier. Changing the email or phone clears its verification.
+
+ALTER TABLE public.waitlist_applications
+ADD COLUMN IF NOT EXISTS email_verified_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS phone_verified_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS public.verification_codes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    application_id UUID NOT NULL REFERENCES public.waitlist_applications(id) ON DELETE CASCADE,
+    channel TEXT NOT NULL CHECK (channel IN ('email', 'phone')),
+    -- The address or number the code was sent to; a code only verifies that destination
+    destination TEXT NOT NULL,
+    code_hash TEXT NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0 CHECK (attempts >= 0),
+    max_attempts INTEGER NOT NULL CHECK (max_attempts > 0),
+    sender TEXT,
+    verified_at TIMESTAMPTZ,
+    -- Replaced by a newer code for the same channel
+    superseded_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_verification_codes_live
+ON public.verification_codes(application_id, channel, created_at DESC)
+WHERE verified_at IS NULL AND superseded_at IS NULL;
+
+CREATE OR REPLACE TRIGGER update_verification_codes_updated_at
+    BEFORE UPDATE ON public.verification_codes
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A verification only holds for the contact it was made for
+CREATE OR REPLACE FUNCTION public.reset_contact_verification()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.email IS DISTINCT FROM OLD.email THEN
+        NEW.email_verified_at := NULL;
+    END IF;
+
+    IF NEW.phone IS DISTINCT FROM OLD.phone THEN
+        NEW.phone_verified_at := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER reset_waitlist_applications_contact_verification
+    BEFORE UPDATE OF email, phone ON public.waitlist_applications
+    FOR EACH ROW
+    EXECUTE FUNCTION public.reset_contact_verification();
+
+-- ========================================
+-- Verification Code Policies
+-- ========================================
+
+ALTER TABLE public.verification_codes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_all_access_verification_codes" ON public.verification_codes;
+DROP POLICY IF EXISTS "public_no_access_verification_codes" ON public.verification_codes;
+
+CREATE POLICY "service_role_all_access_verification_codes"
+ON public.verification_codes
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "public_no_access_verification_codes"
+ON public.verification_codes
+FOR ALL
+TO anon, authenticated
+USING (false)
+WITH CHECK (false);
+
+GRANT ALL ON public.verification_codes TO service_role;
+
+COMMENT ON TABLE public.verification_codes IS
+'One-time email and SMS codes for contact verification, stored as HMAC hashes, see lib/contact-verification.ts';
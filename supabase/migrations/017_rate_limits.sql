@@ -0,0 +1,88 @@
+-- Rate limit state
+-- Shared counters for the Postgres rate limit store (see lib/rate-limiter.ts), so limits hold across
+-- serverless instances. Each key holds its algorithm's state; writers update it with a version
+-- compare-and-set and retry on conflict.
+
+CREATE TABLE IF NOT EXISTS public.rate_limits (
+    key TEXT PRIMARY KEY,
+    version BIGINT NOT NULL DEFAULT 1,
+    state JSONB NOT NULL,
+    -- After this the state is back to a fresh limit and the row can be pruned
+    expires_at TIMESTAMPTZ NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limits_expires_at
+ON public.rate_limits(expires_at);
+
+-- Write a key's state if nobody else has since it was read (version 0: the key didn't exist)
+-- Returns false on a lost race; the caller re-reads and tries again
+CREATE OR REPLACE FUNCTION public.rate_limit_compare_and_set(
+    p_key TEXT,
+    p_version BIGINT,
+    p_state JSONB,
+    p_expires_at TIMESTAMPTZ
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+    IF p_version = 0 THEN
+        INSERT INTO public.rate_limits (key, state, expires_at)
+        VALUES (p_key, p_state, p_expires_at)
+        ON CONFLICT (key) DO NOTHING;
+    ELSE
+        UPDATE public.rate_limits
+        SET
+            version = version + 1,
+            state = p_state,
+            expires_at = p_expires_at,
+            updated_at = NOW()
+        WHERE key = p_key
+          AND version = p_version;
+    END IF;
+
+    RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.prune_rate_limits()
+RETURNS INTEGER AS $$
+DECLARE
+    v_deleted INTEGER;
+BEGIN
+    DELETE FROM public.rate_limits
+    WHERE expires_at < NOW();
+
+    GET DIAGNOSTICS v_deleted = ROW_COUNT;
+    RETURN v_deleted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ========================================
+-- Rate Limit Policies
+-- ========================================
+
+ALTER TABLE public.rate_limits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_all_access_rate_limits" ON public.rate_limits;
+DROP POLICY IF EXISTS "public_no_access_rate_limits" ON public.rate_limits;
+
+CREATE POLICY "service_role_all_access_rate_limits"
+ON public.rate_limits
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "public_no_access_rate_limits"
+ON public.rate_limits
+FOR ALL
+TO anon, authenticated
+USING (false)
+WITH CHECK (false);
+
+GRANT ALL ON public.rate_limits TO service_role;
+GRANT EXECUTE ON FUNCTION public.rate_limit_compare_and_set(TEXT, BIGINT, JSONB, TIMESTAMPTZ) TO service_role;
+GRANT EXECUTE ON FUNCTION public.prune_rate_limits() TO service_role;
+
+COMMENT ON TABLE public.rate_limits IS
+'Rate limit counters shared across instances, see lib/rate-limiter.ts';
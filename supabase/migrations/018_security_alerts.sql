@@ -0,0 +1,200 @@
+-- Security alerts
+-- Alerts raised by SecurityMonitoring (lib/security-monitoring.ts), worked from the admin page through
+-- acknowledge / assign / resolve, with a timeline per alert for the incident log. Repeats of an alert
+-- type from the same IP are folded into the open alert instead of raising (and notifying) again, and
+-- an admin can suppress a noisy type+IP for a while.
+
+CREATE TABLE IF NOT EXISTS public.security_alerts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    alert_type TEXT NOT NULL,
+    severity TEXT NOT NULL CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+    title TEXT NOT NULL,
+    description TEXT NOT NULL,
+    metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+    ip TEXT,
+    -- alert_type + IP ('*' without one): repeats and suppressions match on this
+    dedupe_key TEXT NOT NULL,
+    occurrences INTEGER NOT NULL DEFAULT 1,
+    last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'acknowledged', 'resolved')),
+    acknowledged BOOLEAN NOT NULL DEFAULT FALSE,
+    acknowledged_at TIMESTAMPTZ,
+    acknowledged_by TEXT,
+    assigned_to TEXT,
+    assigned_at TIMESTAMPTZ,
+    resolved_at TIMESTAMPTZ,
+    resolved_by TEXT,
+    resolution TEXT,
+    -- Until then, repeats are counted on this alert without notifying or reopening it
+    suppressed_until TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_security_alerts_last_seen
+ON public.security_alerts(last_seen_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_security_alerts_dedupe
+ON public.security_alerts(dedupe_key, last_seen_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_security_alerts_unresolved
+ON public.security_alerts(severity, last_seen_at DESC)
+WHERE status <> 'resolved';
+
+CREATE OR REPLACE TRIGGER update_security_alerts_updated_at
+    BEFORE UPDATE ON public.security_alerts
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Timeline of each alert: raised, escalated, workflow changes and reviewer notes
+CREATE TABLE IF NOT EXISTS public.security_alert_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    alert_id UUID NOT NULL REFERENCES public.security_alerts(id) ON DELETE CASCADE,
+    action TEXT NOT NULL CHECK (action IN (
+        'created', 'escalated', 'acknowledged', 'assigned', 'resolved', 'reopened', 'suppressed', 'note'
+    )),
+    actor TEXT NOT NULL,
+    note TEXT,
+    details JSONB NOT NULL DEFAULT '{}'::jsonb
+);
+
+CREATE INDEX IF NOT EXISTS idx_security_alert_events_alert
+ON public.security_alert_events(alert_id, created_at);
+
+-- Raise an alert, or fold it into a suppressed or recent unresolved alert with the same dedupe key.
+-- Serialised per key so concurrent instances can't raise the same alert twice.
+-- Returns { outcome: created | escalated | deduplicated | suppressed, alert: <row> }; only created and
+-- escalated alerts are notified.
+CREATE OR REPLACE FUNCTION public.record_security_alert(
+    p_alert_type TEXT,
+    p_severity TEXT,
+    p_title TEXT,
+    p_description TEXT,
+    p_metadata JSONB,
+    p_ip TEXT,
+    p_dedupe_window_minutes INTEGER
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_key TEXT := p_alert_type || ':' || COALESCE(p_ip, '*');
+    v_levels TEXT[] := ARRAY['low', 'medium', 'high', 'critical'];
+    v_alert public.security_alerts%ROWTYPE;
+    v_outcome TEXT;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('security_alert:' || v_key));
+
+    SELECT * INTO v_alert
+    FROM public.security_alerts
+    WHERE dedupe_key = v_key
+      AND suppressed_until > NOW()
+    ORDER BY suppressed_until DESC
+    LIMIT 1;
+
+    IF FOUND THEN
+        v_outcome := 'suppressed';
+    ELSE
+        SELECT * INTO v_alert
+        FROM public.security_alerts
+        WHERE dedupe_key = v_key
+          AND status <> 'resolved'
+          AND last_seen_at > NOW() - make_interval(mins => p_dedupe_window_minutes)
+        ORDER BY last_seen_at DESC
+        LIMIT 1;
+
+        IF FOUND THEN
+            v_outcome := CASE
+                WHEN array_position(v_levels, p_severity) > array_position(v_levels, v_alert.severity) THEN 'escalated'
+                ELSE 'deduplicated'
+            END;
+        END IF;
+    END IF;
+
+    IF v_outcome IS NULL THEN
+        INSERT INTO public.security_alerts (alert_type, severity, title, description, metadata, ip, dedupe_key)
+        VALUES (p_alert_type, p_severity, p_title, p_description, COALESCE(p_metadata, '{}'::jsonb), p_ip, v_key)
+        RETURNING * INTO v_alert;
+
+        INSERT INTO public.security_alert_events (alert_id, action, actor, note)
+        VALUES (v_alert.id, 'created', 'system', p_description);
+
+        RETURN jsonb_build_object('outcome', 'created', 'alert', to_jsonb(v_alert));
+    END IF;
+
+    -- Keep every related event id seen across the repeats; the rest of the metadata is the latest
+    UPDATE public.security_alerts
+    SET
+        occurrences = occurrences + 1,
+        last_seen_at = NOW(),
+        description = p_description,
+        severity = CASE WHEN v_outcome = 'escalated' THEN p_severity ELSE severity END,
+        metadata = COALESCE(p_metadata, '{}'::jsonb) || jsonb_build_object(
+            'relatedEvents',
+            (
+                SELECT COALESCE(jsonb_agg(DISTINCT related), '[]'::jsonb)
+                FROM jsonb_array_elements(
+                    COALESCE(metadata->'relatedEvents', '[]'::jsonb) || COALESCE(p_metadata->'relatedEvents', '[]'::jsonb)
+                ) AS related
+            )
+        )
+    WHERE id = v_alert.id
+    RETURNING * INTO v_alert;
+
+    IF v_outcome = 'escalated' THEN
+        INSERT INTO public.security_alert_events (alert_id, action, actor, note, details)
+        VALUES (v_alert.id, 'escalated', 'system', p_description, jsonb_build_object('severity', p_severity));
+    END IF;
+
+    RETURN jsonb_build_object('outcome', v_outcome, 'alert', to_jsonb(v_alert));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ========================================
+-- Security Alert Policies
+-- ========================================
+
+ALTER TABLE public.security_alerts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.security_alert_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_all_access_security_alerts" ON public.security_alerts;
+DROP POLICY IF EXISTS "public_no_access_security_alerts" ON public.security_alerts;
+DROP POLICY IF EXISTS "service_role_all_access_security_alert_events" ON public.security_alert_events;
+DROP POLICY IF EXISTS "public_no_access_security_alert_events" ON public.security_alert_events;
+
+CREATE POLICY "service_role_all_access_security_alerts"
+ON public.security_alerts
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "public_no_access_security_alerts"
+ON public.security_alerts
+FOR ALL
+TO anon, authenticated
+USING (false)
+WITH CHECK (false);
+
+CREATE POLICY "service_role_all_access_security_alert_events"
+ON public.security_alert_events
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "public_no_access_security_alert_events"
+ON public.security_alert_events
+FOR ALL
+TO anon, authenticated
+USING (false)
+WITH CHECK (false);
+
+GRANT ALL ON public.security_alerts TO service_role;
+GRANT ALL ON public.security_alert_events TO service_role;
+GRANT EXECUTE ON FUNCTION public.record_security_alert(TEXT, TEXT, TEXT, TEXT, JSONB, TEXT, INTEGER) TO service_role;
+
+COMMENT ON TABLE public.security_alerts IS
+'Security alerts and their acknowledge / assign / resolve workflow, see lib/security-alerts.ts';
+
+COMMENT ON TABLE public.security_alert_events IS
+'Timeline of each security alert (workflow changes and reviewer notes)';
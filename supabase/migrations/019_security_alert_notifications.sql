@@ -0,0 +1,21 @@
+-- Security alert notifications
+-- Each delivery attempt per channel lands on the alert's timeline, and alerts left unacknowledged past
+-- their response time are escalated once by the escalation cron (see lib/security-notifications.ts).
+
+ALTER TABLE public.security_alerts
+ADD COLUMN IF NOT EXISTS escalated_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_security_alerts_unescalated
+ON public.security_alerts(severity, created_at)
+WHERE status = 'open' AND escalated_at IS NULL;
+
+ALTER TABLE public.security_alert_events
+DROP CONSTRAINT IF EXISTS security_alert_events_action_check;
+
+ALTER TABLE public.security_alert_events
+ADD CONSTRAINT security_alert_events_action_check CHECK (action IN (
+    'created', 'escalated', 'acknowledged', 'assigned', 'resolved', 'reopened', 'suppressed', 'note', 'notified'
+));
+
+COMMENT ON COLUMN public.security_alerts.escalated_at IS
+'When the unacknowledged alert was escalated to the paging channels';
@@ -0,0 +1,211 @@
+-- Threat rules
+-- Request inspection rules for the threat rule engine (lib/threat-rules.ts), editable without a deploy.
+-- Each rule scopes its pattern to request fields, can allowlist IPs, paths and values, and runs in
+-- enforce mode (hits count towards blocking) or shadow mode (hits are only recorded) so a rule can be
+-- tuned against real traffic before it blocks anything.
+
+CREATE TABLE IF NOT EXISTS public.threat_rules (
+    id TEXT PRIMARY KEY CHECK (id ~ '^[a-z0-9-]{2,50}$'),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    name TEXT NOT NULL,
+    description TEXT NOT NULL DEFAULT '',
+    -- JavaScript regular expression source; flags limited to i, m, s and u
+    pattern TEXT NOT NULL,
+    flags TEXT NOT NULL DEFAULT 'i' CHECK (flags ~ '^[imsu]*$'),
+    severity TEXT NOT NULL CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+    mode TEXT NOT NULL DEFAULT 'shadow' CHECK (mode IN ('enforce', 'shadow', 'disabled')),
+    -- Fields inspected: path, query, query:<param>, body, body:<field.path>, header:<name>
+    targets TEXT[] NOT NULL,
+    allow_ips TEXT[] NOT NULL DEFAULT '{}',
+    -- Path prefixes the rule never applies to
+    allow_paths TEXT[] NOT NULL DEFAULT '{}',
+    -- Regular expressions; a field value matching one is not a hit
+    allow_patterns TEXT[] NOT NULL DEFAULT '{}',
+    updated_by TEXT
+);
+
+CREATE OR REPLACE TRIGGER update_threat_rules_updated_at
+    BEFORE UPDATE ON public.threat_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Every hit, enforced or shadow, for per-rule statistics and false-positive review
+CREATE TABLE IF NOT EXISTS public.threat_rule_hits (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    rule_id TEXT NOT NULL REFERENCES public.threat_rules(id) ON DELETE CASCADE,
+    -- blocked: the request was rejected; flagged: enforced but below the block score; shadow: would-be hit
+    outcome TEXT NOT NULL CHECK (outcome IN ('blocked', 'flagged', 'shadow')),
+    ip TEXT,
+    method TEXT,
+    path TEXT,
+    target TEXT NOT NULL,
+    matched TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_threat_rule_hits_rule
+ON public.threat_rule_hits(rule_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_threat_rule_hits_created_at
+ON public.threat_rule_hits(created_at);
+
+CREATE OR REPLACE FUNCTION public.threat_rule_stats(p_since TIMESTAMPTZ)
+RETURNS TABLE (
+    rule_id TEXT,
+    hits BIGINT,
+    blocked BIGINT,
+    flagged BIGINT,
+    shadow BIGINT,
+    unique_ips BIGINT,
+    last_hit_at TIMESTAMPTZ
+) AS $$
+    SELECT
+        h.rule_id,
+        COUNT(*),
+        COUNT(*) FILTER (WHERE h.outcome = 'blocked'),
+        COUNT(*) FILTER (WHERE h.outcome = 'flagged'),
+        COUNT(*) FILTER (WHERE h.outcome = 'shadow'),
+        COUNT(DISTINCT h.ip),
+        MAX(h.created_at)
+    FROM public.threat_rule_hits h
+    WHERE h.created_at >= p_since
+    GROUP BY h.rule_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.prune_threat_rule_hits(p_retention_days INTEGER)
+RETURNS INTEGER AS $$
+DECLARE
+    v_deleted INTEGER;
+BEGIN
+    DELETE FROM public.threat_rule_hits
+    WHERE created_at < NOW() - make_interval(days => p_retention_days);
+
+    GET DIAGNOSTICS v_deleted = ROW_COUNT;
+    RETURN v_deleted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Starting rules, replacing the patterns hard-coded in lib/security-monitoring.ts and lib/input-validation.ts.
+-- Command injection now needs a shell command after the separator, so JSON punctuation no longer matches,
+-- and enumeration no longer fires on our own /admin routes. Noisier rules start in shadow mode.
+INSERT INTO public.threat_rules (id, name, description, pattern, flags, severity, mode, targets, allow_paths)
+VALUES
+    (
+        'xss-attempt',
+        'Cross-Site Scripting (XSS) Attempt',
+        'Script tags, embedded objects, javascript:/vbscript: URLs or inline event handlers',
+        '<\s*(script|iframe|object|embed)\b|<img[^>]+src[^>]*>|<[^>]*\bon[a-z]+\s*=|(java|vb)script:',
+        'i',
+        'critical',
+        'enforce',
+        ARRAY['path', 'query', 'body', 'header:user-agent', 'header:referer'],
+        '{}'
+    ),
+    (
+        'sql-injection',
+        'SQL Injection Attempt',
+        'SQL statements or tautologies in request values',
+        '\bunion\b[\s\S]{0,40}\bselect\b|\b(insert\s+into|delete\s+from|drop\s+(table|database))\b|\bupdate\s+\w+\s+set\b|\bexec(\s|\+)+[sx]p_|''\s*;\s*drop\b|''\s*or\s*''?1''?\s*=\s*''?1',
+        'i',
+        'critical',
+        'enforce',
+        ARRAY['path', 'query', 'body', 'header:user-agent'],
+        '{}'
+    ),
+    (
+        'path-traversal',
+        'Path Traversal Attempt',
+        'Parent directory segments, plain or URL-encoded',
+        '\.\.[/\\]|\.\.%2f|%2e%2e',
+        'i',
+        'high',
+        'enforce',
+        ARRAY['path', 'query'],
+        '{}'
+    ),
+    (
+        'command-injection',
+        'Command Injection Attempt',
+        'A shell separator or substitution followed by a shell command',
+        '(?:[;&|`]|\$\()\s*(?:rm|cat|ls|wget|curl|nc|bash|sh|chmod|whoami|id)\b',
+        'i',
+        'high',
+        'shadow',
+        ARRAY['query', 'body'],
+        '{}'
+    ),
+    (
+        'sensitive-file-access',
+        'Sensitive File Access Attempt',
+        'Requests for system, environment or VCS files',
+        '/(etc/passwd|\.env\b|wp-config|\.git/|\.svn/)',
+        'i',
+        'medium',
+        'shadow',
+        ARRAY['path', 'query'],
+        '{}'
+    ),
+    (
+        'enumeration-attempt',
+        'Directory/File Enumeration',
+        'Probes for common admin panels and backups on other platforms',
+        '/(administrator|wp-admin|wp-login|phpmyadmin|backup)\b',
+        'i',
+        'medium',
+        'shadow',
+        ARRAY['path'],
+        ARRAY['/admin', '/api/admin']
+    )
+ON CONFLICT (id) DO NOTHING;
+
+-- ========================================
+-- Threat Rule Policies
+-- ========================================
+
+ALTER TABLE public.threat_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.threat_rule_hits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_all_access_threat_rules" ON public.threat_rules;
+DROP POLICY IF EXISTS "public_no_access_threat_rules" ON public.threat_rules;
+DROP POLICY IF EXISTS "service_role_all_access_threat_rule_hits" ON public.threat_rule_hits;
+DROP POLICY IF EXISTS "public_no_access_threat_rule_hits" ON public.threat_rule_hits;
+
+CREATE POLICY "service_role_all_access_threat_rules"
+ON public.threat_rules
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "public_no_access_threat_rules"
+ON public.threat_rules
+FOR ALL
+TO anon, authenticated
+USING (false)
+WITH CHECK (false);
+
+CREATE POLICY "service_role_all_access_threat_rule_hits"
+ON public.threat_rule_hits
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "public_no_access_threat_rule_hits"
+ON public.threat_rule_hits
+FOR ALL
+TO anon, authenticated
+USING (false)
+WITH CHECK (false);
+
+GRANT ALL ON public.threat_rules TO service_role;
+GRANT ALL ON public.threat_rule_hits TO service_role;
+GRANT EXECUTE ON FUNCTION public.threat_rule_stats(TIMESTAMPTZ) TO service_role;
+GRANT EXECUTE ON FUNCTION public.prune_threat_rule_hits(INTEGER) TO service_role;
+
+COMMENT ON TABLE public.threat_rules IS
+'Request inspection rules (enforce / shadow / disabled), see lib/threat-rules.ts';
+
+COMMENT ON TABLE public.threat_rule_hits IS
+'Threat rule hits, enforced and shadow, for per-rule statistics and tuning';
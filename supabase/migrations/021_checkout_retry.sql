@@ -0,0 +1,109 @@
+-- Abandoned checkouts no longer close the application
+-- An expired checkout, or one whose delayed payment failed, keeps the application pending: the seat is released,
+-- the session (and failed payment) is cleared so the applicant can start a new checkout, and checkout_abandoned_at
+-- records the last abandonment. Previously abandonment rejected the application, which the portal showed as a decision
+-- and which left the applicant unable to retry or re-apply to the wave.
+
+-- A cleared payment intent takes the application out of the queue; any other later write still can't move it
+CREATE OR REPLACE FUNCTION public.stamp_application_payment()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND OLD.paid_at IS NOT NULL AND NEW.stripe_payment_intent_id IS NOT NULL THEN
+        NEW.paid_at := OLD.paid_at;
+        NEW.paid_sequence := OLD.paid_sequence;
+    ELSIF NEW.stripe_payment_intent_id IS NOT NULL THEN
+        NEW.paid_at := NOW();
+        NEW.paid_sequence := nextval('public.waitlist_payment_seq');
+    ELSE
+        NEW.paid_at := NULL;
+        NEW.paid_sequence := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Release an abandoned checkout atomically, if it is still the application's current one and nothing else has happened
+-- Returns the updated application, or nothing when the event is stale
+CREATE OR REPLACE FUNCTION public.abandon_checkout(
+    p_application_id UUID,
+    p_session_id TEXT,
+    p_reason TEXT
+)
+RETURNS SETOF public.waitlist_applications AS $$
+DECLARE
+    v_application public.waitlist_applications%ROWTYPE;
+BEGIN
+    UPDATE public.waitlist_applications
+    SET
+        stripe_checkout_session_id = NULL,
+        stripe_payment_intent_id = NULL,
+        checkout_abandoned_at = NOW(),
+        updated_at = NOW()
+    WHERE id = p_application_id
+      AND status = 'pending'
+      AND stripe_checkout_session_id = p_session_id
+    RETURNING * INTO v_application;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    -- A failed delayed payment already converted the hold; release it either way
+    UPDATE public.seat_reservations
+    SET
+        status = 'released',
+        released_at = NOW(),
+        release_reason = p_reason
+    WHERE application_id = p_application_id
+      AND status IN ('held', 'converted');
+
+    PERFORM public.sync_wave_status(v_application.wave);
+
+    RETURN NEXT v_application;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.abandon_checkout(UUID, TEXT, TEXT) TO service_role;
+
+-- The transition guard can be lifted for one transaction-local data repair (app.status_transition_override = 'on');
+-- application code never sets it
+CREATE OR REPLACE FUNCTION public.enforce_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status IS DISTINCT FROM OLD.status
+       AND COALESCE(current_setting('app.status_transition_override', true), '') <> 'on'
+       AND NOT public.is_valid_status_transition(OLD.status, NEW.status) THEN
+        RAISE EXCEPTION 'Invalid status transition from % to %', OLD.status, NEW.status
+            USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Reopen applications closed by an abandoned checkout before this change (rejected is terminal, and only
+-- abandonment stamped checkout_abandoned_at, so these rows were never decided by a reviewer)
+DO $$
+BEGIN
+    PERFORM set_config('app.status_changed_by', 'system:migration', true);
+    PERFORM set_config('app.status_change_reason', 'Abandoned checkout reopened for retry', true);
+    -- rejected -> pending is not a valid transition; allow it for this repair only
+    PERFORM set_config('app.status_transition_override', 'on', true);
+
+    UPDATE public.waitlist_applications
+    SET
+        status = 'pending',
+        stripe_checkout_session_id = NULL,
+        stripe_payment_intent_id = NULL,
+        decision_made_at = NULL,
+        updated_at = NOW()
+    WHERE status = 'rejected'
+      AND checkout_abandoned_at IS NOT NULL
+      AND withdrawn_at IS NULL;
+
+    PERFORM set_config('app.status_transition_override', '', true);
+END;
+$$;
+
+COMMENT ON FUNCTION public.abandon_checkout(UUID, TEXT, TEXT) IS
+'Release the seat and clear the session of an expired or failed FastTrack checkout; the application stays pending';
@@ -0,0 +1,56 @@
+-- Credit coupons
+-- The Stripe coupon that carries an email's credit balance into a membership checkout (see CreditLedger.createBalanceCoupon).
+-- Each email has at most one open coupon: every checkout reuses it, so open sessions can't each redeem the same balance.
+-- A coupon is voided and replaced when the balance changes, and marked redeemed when a membership invoice uses it.
+
+CREATE TABLE IF NOT EXISTS public.credit_coupons (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    email TEXT NOT NULL,
+    -- Application whose checkout asked for it (null when created by an admin)
+    application_id UUID REFERENCES public.waitlist_applications(id) ON DELETE SET NULL,
+    stripe_coupon_id TEXT NOT NULL UNIQUE,
+    amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+    redeem_by TIMESTAMPTZ,
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'redeemed', 'void')),
+    redeemed_at TIMESTAMPTZ,
+    voided_at TIMESTAMPTZ
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_coupons_open_email
+ON public.credit_coupons(email)
+WHERE status = 'open';
+
+CREATE OR REPLACE TRIGGER update_credit_coupons_updated_at
+    BEFORE UPDATE ON public.credit_coupons
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ========================================
+-- Credit Coupon Policies
+-- ========================================
+
+ALTER TABLE public.credit_coupons ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_all_access_credit_coupons" ON public.credit_coupons;
+DROP POLICY IF EXISTS "public_no_access_credit_coupons" ON public.credit_coupons;
+
+CREATE POLICY "service_role_all_access_credit_coupons"
+ON public.credit_coupons
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "public_no_access_credit_coupons"
+ON public.credit_coupons
+FOR ALL
+TO anon, authenticated
+USING (false)
+WITH CHECK (false);
+
+GRANT ALL ON public.credit_coupons TO service_role;
+
+COMMENT ON TABLE public.credit_coupons IS
+'Stripe coupons carrying an email''s credit balance, at most one open per email, see lib/credit-ledger.ts';
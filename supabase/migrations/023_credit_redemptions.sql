@@ -0,0 +1,84 @@
+-- Credit redemptions
+-- A credit coupon covers the email's whole balance (FastTrack and site credit, across applications), so redeeming it
+-- debits exactly the discount the membership invoice received, spread over those balances and keyed to the coupon.
+-- Site credit goes first (it expires), earliest expiry first, then FastTrack credit.
+
+-- 'apply' rows are keyed to the coupon instead of one per application, so a later coupon can use what is left
+DROP INDEX IF EXISTS public.idx_credit_ledger_application_movement;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_ledger_application_movement
+ON public.credit_ledger(application_id, entry_type, credit_kind)
+WHERE application_id IS NOT NULL AND entry_type <> 'apply';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_ledger_coupon_application
+ON public.credit_ledger(stripe_reference, application_id, credit_kind)
+WHERE entry_type = 'apply';
+
+-- Debit a redeemed coupon once; returns the cents debited (0 when it was already recorded)
+CREATE OR REPLACE FUNCTION public.redeem_credit_coupon(
+    p_stripe_coupon_id TEXT,
+    p_amount_cents INTEGER,
+    p_reference TEXT
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_coupon public.credit_coupons%ROWTYPE;
+    v_remaining INTEGER;
+    v_take INTEGER;
+    v_balance RECORD;
+BEGIN
+    SELECT * INTO v_coupon
+    FROM public.credit_coupons
+    WHERE stripe_coupon_id = p_stripe_coupon_id
+    FOR UPDATE;
+
+    -- A voided coupon may still have been applied by a checkout opened before it was replaced
+    IF NOT FOUND OR v_coupon.status = 'redeemed' THEN
+        RETURN 0;
+    END IF;
+
+    -- Serialise with other redemptions for the email
+    PERFORM pg_advisory_xact_lock(hashtext('credit_ledger:' || v_coupon.email));
+
+    v_remaining := LEAST(p_amount_cents, v_coupon.amount_cents);
+
+    FOR v_balance IN
+        SELECT
+            l.application_id,
+            l.credit_kind,
+            SUM(l.amount_cents)::INTEGER AS amount,
+            MIN(l.expires_at) AS expires_at
+        FROM public.credit_ledger l
+        WHERE l.email = v_coupon.email
+        GROUP BY l.application_id, l.credit_kind
+        HAVING SUM(l.amount_cents) > 0
+        ORDER BY (l.credit_kind = 'fasttrack'), MIN(l.expires_at) NULLS LAST, l.application_id
+    LOOP
+        EXIT WHEN v_remaining <= 0;
+
+        v_take := LEAST(v_balance.amount, v_remaining);
+
+        INSERT INTO public.credit_ledger (email, application_id, entry_type, credit_kind, amount_cents, stripe_reference, notes)
+        VALUES (
+            v_coupon.email,
+            v_balance.application_id,
+            'apply',
+            v_balance.credit_kind,
+            -v_take,
+            p_stripe_coupon_id,
+            left('Applied to membership payment ' || COALESCE(p_reference, ''), 500)
+        )
+        ON CONFLICT DO NOTHING;
+
+        v_remaining := v_remaining - v_take;
+    END LOOP;
+
+    UPDATE public.credit_coupons
+    SET status = 'redeemed', redeemed_at = NOW()
+    WHERE id = v_coupon.id;
+
+    RETURN LEAST(p_amount_cents, v_coupon.amount_cents) - GREATEST(v_remaining, 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.redeem_credit_coupon(TEXT, INTEGER, TEXT) TO service_role;
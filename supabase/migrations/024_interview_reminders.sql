@@ -0,0 +1,11 @@
+-- Interview reminders
+-- ActivationScheduler emails the interview_reminder template once the booked interview is within
+-- INTERVIEW_REMINDER_HOURS. interview_reminder_sent_at is claimed before sending, so overlapping runs can't both send,
+-- and is cleared whenever the booking changes so a rescheduled interview gets its own reminder.
+
+ALTER TABLE public.waitlist_applications
+    ADD COLUMN IF NOT EXISTS interview_reminder_sent_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_applications_interview_reminder_due
+ON public.waitlist_applications(interview_scheduled_at)
+WHERE interview_scheduled_at IS NOT NULL AND interview_reminder_sent_at IS NULL;
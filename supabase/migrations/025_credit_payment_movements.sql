@@ -0,0 +1,16 @@
+-- Fee credit keyed to the payment
+-- A failed delayed payment reverses its credit but leaves the application pending, so the applicant can pay again
+-- with a new payment intent. 'issue' and 'refund_reversal' rows are therefore unique per payment intent
+-- (stripe_reference) rather than per application; without this the retried payment's issue was dropped as a
+-- duplicate and the applicant paid twice for a zero balance.
+
+DROP INDEX IF EXISTS public.idx_credit_ledger_application_movement;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_ledger_application_movement
+ON public.credit_ledger(application_id, entry_type, credit_kind)
+WHERE application_id IS NOT NULL AND entry_type NOT IN ('apply', 'issue', 'refund_reversal');
+
+-- Rows recorded before this change may have no reference; they stay one per application
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_ledger_payment_movement
+ON public.credit_ledger(application_id, entry_type, credit_kind, COALESCE(stripe_reference, ''))
+WHERE application_id IS NOT NULL AND entry_type IN ('issue', 'refund_reversal');
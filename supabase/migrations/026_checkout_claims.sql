@@ -0,0 +1,7 @@
+-- Checkout claims
+-- create-checkout claims the application (checkout_claimed_at) with a conditional update before calling Stripe, and
+-- stores the new session only while its claim still holds, so concurrent requests can't open two payable sessions.
+-- A claim older than a couple of minutes is treated as abandoned (the request died between claim and Stripe).
+
+ALTER TABLE public.waitlist_applications
+    ADD COLUMN IF NOT EXISTS checkout_claimed_at TIMESTAMPTZ;
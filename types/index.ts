@@ -23,18 +23,95 @@ export interface WaitlistApplication {
   notes?: string;
   stripe_customer_id?: string;
   stripe_checkout_session_id?: string;
+  // Set while a create-checkout request is opening a session, cleared once the session is stored
+  checkout_claimed_at?: string;
   stripe_payment_intent_id?: string;
+  // Stamped by the database when the payment is first recorded; the queue's FIFO key
+  paid_at?: string;
+  paid_sequence?: number;
   credit_amount_cents: number;
   interview_scheduled_at?: string;
+  // Cleared when the booking changes, so each booked time is reminded once
+  interview_reminder_sent_at?: string;
   interview_completed_at?: string;
   decision_made_at?: string;
   decision_made_by?: string;
   activation_deadline?: string;
   deferred_until?: string;
+  deferral_requested_at?: string;
+  activation_reminder_sent_at?: string;
+  site_credit_cents: number;
+  site_credit_expires_at?: string;
+  membership_plan?: string;
+  membership_checkout_session_id?: string;
+  stripe_subscription_id?: string;
+  activated_at?: string;
+  withdrawn_at?: string;
+  // Checkout expired or its payment failed: the seat was released, nothing was collected
+  checkout_abandoned_at?: string;
+  dispute_id?: string;
+  dispute_status?: string;
+  disputed_at?: string;
   ip_address?: string;
   user_agent?: string;
   recaptcha_verified?: boolean;
+  recaptcha_score?: number;
   fraud_score?: number;
+  fraud_reasons?: FraudReason[];
+  fraud_status?: FraudStatus;
+  fraud_scored_at?: string;
+  fraud_reviewed_by?: string;
+  fraud_reviewed_at?: string;
+  // Set when a one-time code sent to the current email / phone is confirmed
+  email_verified_at?: string;
+  phone_verified_at?: string;
+}
+
+export type FraudStatus = 'clear' | 'review' | 'hold';
+
+export type FraudSignal =
+  | 'recaptcha'
+  | 'disposable_email'
+  | 'ip_velocity'
+  | 'email_velocity'
+  | 'phone_country_mismatch'
+  | 'stripe_radar'
+  | 'duplicate_device';
+
+// One signal's contribution to a fraud score (see lib/fraud-scoring.ts)
+export interface FraudReason {
+  signal: FraudSignal;
+  weight: number;
+  detail: string;
+}
+
+export type VerificationChannel = 'email' | 'phone';
+
+export interface VerificationCode {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  application_id: string;
+  channel: VerificationChannel;
+  destination: string;
+  code_hash: string;
+  expires_at: string;
+  attempts: number;
+  max_attempts: number;
+  sender: string | null;
+  verified_at: string | null;
+  superseded_at: string | null;
+}
+
+export interface ApplicationFilters {
+  wave?: number;
+  tier?: WaitlistTier;
+  status?: WaitlistStatus;
+  bankroll_range?: string;
+  risk_profile?: string;
+  country?: string;
+  min_fraud_score?: number;
+  recaptcha_verified?: boolean;
 }
 
 export interface Wave {
@@ -45,6 +122,19 @@ export interface Wave {
   opens_at?: string;
   closes_at?: string;
   created_at: string;
+  updated_at?: string;
+}
+
+// A wave with its live seat count (see v_seat_counts)
+export interface WaveSeats extends Wave {
+  filled_seats: number;
+  available_seats: number;
+}
+
+export interface WaveScheduleChange {
+  wave: number;
+  tier: WaitlistTier;
+  status: WaveStatus;
 }
 
 export interface SeatData {
@@ -94,6 +184,156 @@ export interface SecurityEvent {
   event_data: any;
 }
 
+export interface SecurityAuditLogEntry {
+  id: string;
+  event_type: string;
+  user_identifier?: string;
+  ip_address?: string;
+  user_agent?: string;
+  event_data?: any;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  created_at: string;
+}
+
+export interface ApplicationStatusHistoryEntry {
+  id: string;
+  application_id: string;
+  from_status: WaitlistStatus | null;
+  to_status: WaitlistStatus;
+  changed_by: string | null;
+  reason: string | null;
+  created_at: string;
+}
+
+export type CreditEntryType = 'issue' | 'apply' | 'convert' | 'expire' | 'refund_reversal';
+export type CreditKind = 'fasttrack' | 'site';
+
+export interface CreditLedgerEntry {
+  id: string;
+  created_at: string;
+  email: string;
+  application_id: string | null;
+  entry_type: CreditEntryType;
+  credit_kind: CreditKind;
+  amount_cents: number;
+  expires_at: string | null;
+  stripe_reference: string | null;
+  notes: string | null;
+}
+
+export interface CreditCoupon {
+  id: string;
+  created_at: string;
+  email: string;
+  application_id: string | null;
+  stripe_coupon_id: string;
+  amount_cents: number;
+  redeem_by: string | null;
+  status: 'open' | 'redeemed' | 'void';
+  redeemed_at: string | null;
+  voided_at: string | null;
+}
+
+export interface CreditBalance {
+  email: string;
+  fasttrack_cents: number;
+  site_cents: number;
+  total_cents: number;
+  // Earliest expiry among site credit still on the balance
+  site_credit_expires_at: string | null;
+}
+
+export interface InvitationCampaign {
+  id: string;
+  created_at: string;
+  name: string;
+  wave_id: number;
+  // How long each invitation link stays valid after it is sent
+  window_hours: number;
+  created_by: string;
+}
+
+export interface InvitationCampaignStats extends InvitationCampaign {
+  sent: number;
+  queued: number;
+  opened: number;
+  clicked: number;
+  converted: number;
+}
+
+export interface CampaignInvitation {
+  id: string;
+  created_at: string;
+  campaign_id: string;
+  free_signup_id: string;
+  email: string;
+  sent_at: string | null;
+  expires_at: string | null;
+  opened_at: string | null;
+  clicked_at: string | null;
+  converted_at: string | null;
+  application_id: string | null;
+  last_error: string | null;
+}
+
+export type SeatReservationStatus = 'held' | 'converted' | 'released';
+
+export interface SeatReservation {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  application_id: string;
+  wave: number;
+  status: SeatReservationStatus;
+  // Matches the Checkout session expiry while held
+  expires_at: string;
+  checkout_session_id: string | null;
+  converted_at: string | null;
+  released_at: string | null;
+  release_reason: string | null;
+}
+
+export type StripeEventStatus = 'pending' | 'processing' | 'processed' | 'failed';
+
+export interface StripeEventRecord {
+  // Stripe event ID (evt_...)
+  id: string;
+  received_at: string;
+  updated_at: string;
+  type: string;
+  livemode: boolean;
+  stripe_created_at: string | null;
+  payload: Record<string, any>;
+  status: StripeEventStatus;
+  attempts: number;
+  last_error: string | null;
+  processing_started_at: string | null;
+  processed_at: string | null;
+}
+
+// One applicant's place in a wave's queue (see lib/waitlist-ranking.ts)
+export interface QueueEntry {
+  application_id: string;
+  position: number;
+  tier: WaitlistTier;
+  status: WaitlistStatus;
+  interview_completed_at: string | null;
+  paid_at: string;
+  paid_sequence: number;
+}
+
+export interface QueueSnapshot {
+  id: string;
+  created_at: string;
+  wave: number;
+  sequence: number;
+  reason: string | null;
+  entries: QueueEntry[];
+  ordering_hash: string;
+  previous_hash: string;
+  snapshot_hash: string;
+}
+
 export interface AdminUser {
   email: string;
   role: 'admin';
@@ -121,11 +361,45 @@ export interface ProcessEnv {
   NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY: string;
   STRIPE_PRICE_ID_99: string;
   STRIPE_PRICE_ID_199: string;
+  STRIPE_PRICE_ID_FOUNDERS_MONTHLY: string;
+  STRIPE_PRICE_ID_FOUNDERS_ANNUAL: string;
+  STRIPE_PRICE_ID_STANDARD_MONTHLY: string;
+  STRIPE_PRICE_ID_STANDARD_QUARTERLY: string;
+  STRIPE_PRICE_ID_STANDARD_ANNUAL: string;
   STRIPE_WEBHOOK_SECRET: string;
+  STRIPE_WEBHOOK_SECRET_PREVIOUS?: string;
   RESEND_API_KEY: string;
+  EMAIL_TRANSPORT?: 'resend' | 'outbox';
+  EMAIL_OUTBOX_DIR?: string;
+  EMAIL_FROM?: string;
+  CALENDLY_URL?: string;
+  SCHEDULING_PROVIDER?: 'calendly' | 'stub';
+  CALENDLY_WEBHOOK_SIGNING_KEY?: string;
+  CRON_SECRET?: string;
+  RATE_LIMIT_STORE?: 'memory' | 'postgres' | 'redis';
+  REDIS_REST_URL?: string;
+  REDIS_REST_TOKEN?: string;
+  SLA_HOLIDAYS?: string;
+  FRAUD_DISPOSABLE_DOMAINS?: string;
+  SMS_PROVIDER?: 'twilio' | 'stub';
+  SMS_OUTBOX_DIR?: string;
+  TWILIO_ACCOUNT_SID?: string;
+  TWILIO_AUTH_TOKEN?: string;
+  TWILIO_FROM_NUMBER?: string;
+  VERIFICATION_REQUIRED_99?: string;
+  VERIFICATION_REQUIRED_199?: string;
   RECAPTCHA_SECRET_KEY: string;
   NEXT_PUBLIC_RECAPTCHA_SITE_KEY: string;
   JWT_SECRET: string;
   ADMIN_EMAIL: string;
   SECURITY_SALT: string;
+  ALERT_DELIVERY?: 'live' | 'capture';
+  ALERT_CAPTURE_DIR?: string;
+  SECURITY_ALERT_EMAILS?: string;
+  SECURITY_ALERT_SMS_NUMBERS?: string;
+  SLACK_SECURITY_WEBHOOK_URL?: string;
+  SECURITY_WEBHOOK_URL?: string;
+  SECURITY_WEBHOOK_SECRET?: string;
+  SECURITY_WEBHOOK_TOKEN?: string;
+  ALERT_QUIET_HOURS?: string;
 }
\ No newline at end of file